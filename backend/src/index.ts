@@ -11,13 +11,18 @@ import { statsRouter } from './routes/stats.js';
 import { mediaLibraryRouter } from './routes/mediaLibrary.js';
 import { syncRouter } from './routes/sync.js';
 import { notificationsRouter } from './routes/notifications.js';
+import { runsRouter } from './routes/runs.js';
+import { webhooksRouter } from './routes/webhooks.js';
+import { authRouter } from './routes/auth.js';
 import { configService } from './services/configService.js';
 import { statsService } from './services/statsService.js';
+import { authService } from './services/authService.js';
 import { schedulerService } from './services/schedulerService.js';
 import { getErrorMessage, getErrorDetails } from './utils/errorUtils.js';
 import logger, { startOperation } from './utils/logger.js';
 import { requestLogger } from './middleware/requestLogger.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { requireAuth } from './middleware/auth.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -47,6 +52,16 @@ app.use(requestLogger);
 // Serve static files from frontend
 app.use(express.static(path.join(__dirname, '../../frontend/dist')));
 
+// Routes reachable without signing in: auth itself, webhooks (checked against each instance's secret) and the health check
+app.use('/api/auth', authRouter);
+app.use('/api/webhooks', webhooksRouter);
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok' });
+});
+
+// Everything else under /api needs a session, the API key or a trusted forward auth header
+app.use('/api', requireAuth);
+
 // API routes
 app.use('/api/config', configRouter);
 app.use('/api/search', searchRouter);
@@ -55,11 +70,7 @@ app.use('/api/stats', statsRouter);
 app.use('/api/media-library', mediaLibraryRouter);
 app.use('/api/sync', syncRouter);
 app.use('/api/notifications', notificationsRouter);
-
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok' });
-});
+app.use('/api/runs', runsRouter);
 
 // Error handling middleware for API routes (must be before SPA fallback)
 app.use('/api', notFoundHandler);
@@ -82,7 +93,8 @@ logger.info('🚀 Starting application initialization', {
 
 Promise.all([
   configService.initialize(),
-  statsService.initialize()
+  statsService.initialize(),
+  authService.initialize()
 ]).then(async () => {
   logger.debug('✅ Core services initialized, initializing schedulers');
   const initOp = startOperation('App.initializeServices', {});
@@ -0,0 +1,80 @@
+/**
+ * Express middleware that requires a signed-in session, the API key or a trusted forward auth header
+ */
+import { Request, Response, NextFunction } from 'express';
+import type { AuthStatus } from '@scoutarr/shared';
+import { authService } from '../services/authService.js';
+import { configService } from '../services/configService.js';
+import logger from '../utils/logger.js';
+
+export const SESSION_COOKIE = 'scoutarr_session';
+export const API_KEY_HEADER = 'x-api-key';
+
+function getCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+// Peers already warned about, so a misconfigured proxy doesn't log on every request
+const untrustedForwardAuthPeers = new Set<string>();
+
+// IPv4 peers show up as IPv4-mapped IPv6 addresses on dual-stack sockets
+function normalizeAddress(address: string | undefined): string {
+  return (address ?? '').replace(/^::ffff:/, '');
+}
+
+/**
+ * Who a request is signed in as, checked in order: API key header, forward auth header, session cookie
+ */
+export function authenticate(req: Request): Pick<AuthStatus, 'authenticated' | 'username' | 'method'> {
+  const apiKey = req.get(API_KEY_HEADER);
+  if (apiKey && authService.verifyApiKey(apiKey)) {
+    return { authenticated: true, method: 'apiKey' };
+  }
+
+  const { forwardAuthHeader, trustedProxies } = configService.getConfig().auth;
+  if (forwardAuthHeader) {
+    // The direct peer, not req.ip - X-Forwarded-For is set by the client and can't vouch for the proxy
+    const peer = normalizeAddress(req.socket.remoteAddress);
+    const forwardedUser = req.get(forwardAuthHeader);
+    if (forwardedUser) {
+      if (trustedProxies.map(normalizeAddress).includes(peer)) {
+        return { authenticated: true, username: forwardedUser, method: 'forwardAuth' };
+      }
+      if (!untrustedForwardAuthPeers.has(peer)) {
+        untrustedForwardAuthPeers.add(peer);
+        logger.warn('⚠️  Ignoring forward auth header from an address not in trustedProxies', {
+          header: forwardAuthHeader,
+          peer,
+          trustedProxies
+        });
+      }
+    }
+  }
+
+  const token = getCookie(req, SESSION_COOKIE);
+  const username = token ? authService.verifySessionToken(token) : null;
+  if (username) {
+    return { authenticated: true, username, method: 'session' };
+  }
+
+  return { authenticated: false };
+}
+
+/**
+ * Rejects requests that aren't authenticated while auth is enabled
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!configService.getConfig().auth.enabled || authenticate(req).authenticated) {
+    next();
+    return;
+  }
+  logger.debug('🔒 Rejected unauthenticated request', { method: req.method, path: req.originalUrl.split('?')[0] });
+  res.status(401).json({
+    error: 'Unauthorized',
+    message: 'Authentication required'
+  });
+}
@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger.js';
 
+// Query parameters that can carry credentials, whose values never reach the logs
+const CREDENTIAL_PARAM_PATTERN = /secret|token|password|passwd|api[-_]?key|^key$|^auth/i;
+
+export function redactQuery(query: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(query).map(([key, value]) => [key, CREDENTIAL_PARAM_PATTERN.test(key) ? '[redacted]' : value])
+  );
+}
+
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
 
@@ -8,7 +17,7 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
   logger.http(`→ ${req.method} ${req.path}`, {
     ip: req.ip,
     userAgent: req.get('user-agent'),
-    query: Object.keys(req.query).length > 0 ? req.query : undefined,
+    query: Object.keys(req.query).length > 0 ? redactQuery(req.query) : undefined,
   });
 
   // Log response when finished
@@ -0,0 +1,132 @@
+import express, { Request, Response } from 'express';
+import { delay } from 'es-toolkit';
+import { MIN_PASSWORD_LENGTH, type AuthStatus } from '@scoutarr/shared';
+import { authService } from '../services/authService.js';
+import { configService } from '../services/configService.js';
+import { authenticate, requireAuth, SESSION_COOKIE } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { handleRouteError } from '../utils/errorUtils.js';
+
+export const authRouter = express.Router();
+
+// Slows down password guessing without locking out the real user
+const FAILED_LOGIN_DELAY_MS = 1000;
+
+function setSessionCookie(req: Request, res: Response, username: string): void {
+  const { sessionDays } = configService.getConfig().auth;
+  res.cookie(SESSION_COOKIE, authService.createSessionToken(username, sessionDays), {
+    httpOnly: true,
+    sameSite: 'lax',
+    // Behind a TLS-terminating proxy the connection itself is plain HTTP
+    secure: req.secure || req.get('x-forwarded-proto') === 'https',
+    maxAge: sessionDays * 24 * 60 * 60 * 1000,
+    path: '/'
+  });
+}
+
+function readCredentials(body: unknown): { username: string; password: string } | null {
+  const { username, password } = (body ?? {}) as { username?: unknown; password?: unknown };
+  if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+    return null;
+  }
+  return { username: username.trim(), password };
+}
+
+// Get whether sign-in is required and who the request is signed in as
+authRouter.get('/status', (req, res) => {
+  const status: AuthStatus = {
+    enabled: configService.getConfig().auth.enabled,
+    setupRequired: !authService.isSetUp(),
+    ...authenticate(req)
+  };
+  res.json(status);
+});
+
+// Create the local account - only possible while none exists, with the setup token from the startup log
+authRouter.post('/setup', async (req, res) => {
+  try {
+    if (authService.isSetUp()) {
+      return res.status(409).json({ error: 'An account already exists' });
+    }
+    const { setupToken } = (req.body ?? {}) as { setupToken?: unknown };
+    if (typeof setupToken !== 'string' || !authService.verifySetupToken(setupToken.trim())) {
+      logger.warn('⚠️  Account setup attempted with an invalid setup token', { ip: req.ip });
+      await delay(FAILED_LOGIN_DELAY_MS);
+      return res.status(403).json({ error: 'Invalid setup token. It is printed in the Scoutarr log at startup.' });
+    }
+    const credentials = readCredentials(req.body);
+    if (!credentials) {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+    if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    await authService.setup(credentials.username, credentials.password);
+    setSessionCookie(req, res, credentials.username);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to create account');
+  }
+});
+
+// Sign in with the local account
+authRouter.post('/login', async (req, res) => {
+  try {
+    const credentials = readCredentials(req.body);
+    if (!credentials || !(await authService.verifyCredentials(credentials.username, credentials.password))) {
+      logger.warn('⚠️  Failed login attempt', { username: credentials?.username, ip: req.ip });
+      await delay(FAILED_LOGIN_DELAY_MS);
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    setSessionCookie(req, res, credentials.username);
+    logger.info('🔓 User signed in', { username: credentials.username, ip: req.ip });
+    res.json({ success: true });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to sign in');
+  }
+});
+
+// Sign out of the current session
+authRouter.post('/logout', (_req, res) => {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+  res.json({ success: true });
+});
+
+// Change the local account's password, signing out every other session
+authRouter.post('/password', requireAuth, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = (req.body ?? {}) as { currentPassword?: unknown; newPassword?: unknown };
+    if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      return res.status(400).json({ error: 'Current and new password are required' });
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    if (!(await authService.changePassword(currentPassword, newPassword))) {
+      await delay(FAILED_LOGIN_DELAY_MS);
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    setSessionCookie(req, res, authService.getUsername()!);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to change password');
+  }
+});
+
+// Get the API key automation sends in the X-Api-Key header
+authRouter.get('/api-key', requireAuth, (_req, res) => {
+  res.json({ apiKey: authService.getApiKey() });
+});
+
+// Replace the API key, so the old one stops working
+authRouter.post('/api-key/regenerate', requireAuth, async (_req, res) => {
+  try {
+    const apiKey = await authService.regenerateApiKey();
+    res.json({ apiKey });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to regenerate API key');
+  }
+});
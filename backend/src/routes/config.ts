@@ -1,13 +1,16 @@
 import express from 'express';
 import { configService } from '../services/configService.js';
+import { configBackupService } from '../services/configBackupService.js';
+import { exportService, InvalidArchiveError } from '../services/exportService.js';
 import { statsService } from '../services/statsService.js';
 import { schedulerService } from '../services/schedulerService.js';
+import { prowlarrService } from '../services/prowlarrService.js';
 import { testStarrConnection, getMediaTypeKey, APP_TYPES, AppType } from '../utils/starrUtils.js';
 import { getServiceForApp } from '../utils/serviceRegistry.js';
 import { handleRouteError, getErrorMessage } from '../utils/errorUtils.js';
-import { syncInstanceMedia } from '../utils/mediaSync.js';
+import { syncInstanceMedia, storeSyncedMedia } from '../utils/mediaSync.js';
 import logger from '../utils/logger.js';
-import { Config, StarrInstanceConfig } from '@scoutarr/shared';
+import { Config, StarrInstanceConfig, type ConfigEnvOverrides, type HistoryImportMode } from '@scoutarr/shared';
 
 export const configRouter = express.Router();
 
@@ -29,35 +32,67 @@ function getFirstValidInstance(app: AppType): { url: string; apiKey: string } |
 configRouter.get('/', async (req, res) => {
   logger.debug('📋 Config requested');
   try {
-    const config = configService.getConfig();
-    res.json(config);
+    res.json(configService.getMaskedConfig());
   } catch (error: unknown) {
     handleRouteError(res, error, 'Failed to load config');
   }
 });
 
+// Get the fields set by environment variables, which the UI shows read-only
+configRouter.get('/env-overrides', (_req, res) => {
+  try {
+    const overrides: ConfigEnvOverrides = { fields: configService.getEnvLockedFields() };
+    res.json(overrides);
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to load environment overrides');
+  }
+});
+
 // Reset app (clears config and stats)
 configRouter.post('/reset-app', async (_req, res) => {
   logger.info('🔄 App reset requested - clearing all data');
   try {
     // Reset config to default
-    const config = await configService.resetToDefault();
+    await configService.resetToDefault();
     
     // Clear stats database
     await statsService.resetStats();
     
     logger.info('✅ App reset completed - all data cleared');
-    res.json({ success: true, config });
+    res.json({ success: true, config: configService.getMaskedConfig() });
   } catch (error: unknown) {
     handleRouteError(res, error, 'Failed to reset app');
   }
 });
 
+// Whether a Lidarr/Readarr instance searches albums/books rather than artists/authors
+function searchesChildLevel(instance: StarrInstanceConfig): boolean {
+  const granularity = (instance as { searchGranularity?: string }).searchGranularity;
+  return granularity === 'album' || granularity === 'book';
+}
+
+// Album- and book-level instances cache different media library rows (and IDs) than artist- and author-level ones,
+// so drop an instance's cached media when it switches level; the next search or sync re-fetches from the API
+async function clearMediaForSearchLevelChanges(previous: Config, next: Config): Promise<void> {
+  for (const appType of ['lidarr', 'readarr'] as const) {
+    const previousInstances = previous.applications[appType] as StarrInstanceConfig[];
+    for (const instance of next.applications[appType] as StarrInstanceConfig[]) {
+      const before = previousInstances.find(inst => inst.id === instance.id);
+      if (before && searchesChildLevel(before) !== searchesChildLevel(instance)) {
+        logger.info('🔄 Search level changed, clearing cached media', { appType, instanceId: instance.id });
+        await statsService.deleteMediaForInstance(instance.id);
+      }
+    }
+  }
+}
+
 // Update config
 configRouter.put('/', async (req, res) => {
   logger.info('💾 Config update requested');
   try {
+    const previous = configService.getConfig();
     await configService.saveConfig(req.body);
+    await clearMediaForSearchLevelChanges(previous, configService.getConfig());
     logger.info('✅ Config update completed');
     res.json({ success: true });
   } catch (error: unknown) {
@@ -65,6 +100,78 @@ configRouter.put('/', async (req, res) => {
   }
 });
 
+// List config backups, newest first
+configRouter.get('/backups', async (_req, res) => {
+  try {
+    res.json(await configBackupService.listBackups());
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to list config backups');
+  }
+});
+
+// Compare a backup with the current config
+configRouter.get('/backups/:id/diff', async (req, res) => {
+  try {
+    const diff = await configService.diffBackup(req.params.id);
+    if (!diff) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    res.json(diff);
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to compare config backup');
+  }
+});
+
+// Roll the config back to a backup
+configRouter.post('/backups/:id/restore', async (req, res) => {
+  logger.info('⏪ Config restore requested', { id: req.params.id });
+  try {
+    const previous = configService.getConfig();
+    const restored = await configService.restoreBackup(req.params.id);
+    if (!restored) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    await clearMediaForSearchLevelChanges(previous, restored);
+    res.json({ success: true, config: configService.getMaskedConfig() });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to restore config backup');
+  }
+});
+
+// Archives carry the whole search history, far past express.json's default limit
+const IMPORT_SIZE_LIMIT = '200mb';
+
+// Download the config and search history as one archive, for moving to another host
+configRouter.get('/export', async (req, res) => {
+  try {
+    const redactSecrets = req.query.redactSecrets === 'true';
+    const archive = await exportService.createExport(redactSecrets);
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="scoutarr-export-${date}.json.gz"`);
+    res.send(archive);
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to export');
+  }
+});
+
+// Restore an archive made by /export, merging into or replacing the search history
+configRouter.post('/import', express.raw({ type: 'application/octet-stream', limit: IMPORT_SIZE_LIMIT }), async (req, res) => {
+  const mode: HistoryImportMode = req.query.mode === 'replace' ? 'replace' : 'merge';
+  logger.info('📥 Import requested', { mode });
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Upload the export file as application/octet-stream' });
+    }
+    const previous = configService.getConfig();
+    const result = await exportService.importArchive(req.body, mode);
+    await clearMediaForSearchLevelChanges(previous, configService.getConfig());
+    res.json(result);
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to import', error instanceof InvalidArchiveError ? 400 : 500);
+  }
+});
+
 // Test connection for an application
 configRouter.post('/test/:app', async (req, res) => {
   const { app } = req.params;
@@ -72,8 +179,9 @@ configRouter.post('/test/:app', async (req, res) => {
   logger.info(`🔌 Testing connection for ${app}`);
   try {
     // Use config from request body if provided, otherwise fall back to saved config
+    const savedInstance = instanceId ? findInstanceConfig(configService.getConfig(), app, instanceId) : null;
     const appConfig = (req.body?.url && req.body?.apiKey)
-      ? { url: req.body.url, apiKey: req.body.apiKey }
+      ? { url: req.body.url, apiKey: await configService.resolveSubmittedSecret(req.body.apiKey, savedInstance?.apiKey) }
       : getFirstValidInstance(app as AppType);
 
     if (!appConfig) {
@@ -122,6 +230,31 @@ configRouter.post('/test/:app', async (req, res) => {
   }
 });
 
+// Test the Prowlarr connection and report current indexer availability
+configRouter.post('/prowlarr/test', async (req, res) => {
+  logger.info('🔌 Testing connection for prowlarr');
+  try {
+    const saved = configService.getConfig().prowlarr;
+    const prowlarrConfig = (req.body?.url && req.body?.apiKey)
+      ? { ...saved, url: req.body.url, apiKey: await configService.resolveSubmittedSecret(req.body.apiKey, saved.apiKey) }
+      : saved;
+
+    if (!prowlarrConfig?.url || !prowlarrConfig.apiKey) {
+      return res.status(400).json({ error: 'Prowlarr URL and API Key are required' });
+    }
+
+    const testResult = await prowlarrService.testConnection(prowlarrConfig.url, prowlarrConfig.apiKey);
+    if (!testResult.success) {
+      return res.json({ error: 'Connection test failed', message: testResult.error || 'Unable to connect' });
+    }
+
+    const indexers = await prowlarrService.checkIndexers(prowlarrConfig);
+    res.json({ success: true, appName: testResult.appName, version: testResult.version, indexers });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Connection test failed');
+  }
+});
+
 // Get quality profiles for an application instance
 configRouter.get('/quality-profiles/:app/:instanceId', async (req, res) => {
   const { app, instanceId } = req.params;
@@ -143,6 +276,31 @@ configRouter.get('/quality-profiles/:app/:instanceId', async (req, res) => {
   }
 });
 
+// Get all tags defined on an application instance (live from the *arr API)
+configRouter.get('/tags/:app/:instanceId', async (req, res) => {
+  const { app, instanceId } = req.params;
+  logger.debug(`🏷️  Fetching tags for ${app} instance ${instanceId}`);
+  try {
+    if (!APP_TYPES.includes(app as AppType)) {
+      return res.status(400).json({ error: 'Invalid app type' });
+    }
+
+    const instanceConfig = findInstanceConfig(configService.getConfig(), app, instanceId);
+    if (!instanceConfig || !instanceConfig.url || !instanceConfig.apiKey) {
+      return res.status(404).json({ error: 'Instance not found or not configured' });
+    }
+
+    const service = getServiceForApp(app as AppType);
+    const tags = await service.getAllTags(instanceConfig);
+    const labels = tags.map(t => t.label).sort((a, b) => a.localeCompare(b));
+
+    logger.debug(`✅ Retrieved ${labels.length} tags`, { instanceId });
+    res.json(labels);
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to fetch tags');
+  }
+});
+
 // Helper to find instance config
 function findInstanceConfig(config: Config, app: string, instanceId: string): StarrInstanceConfig | null {
   const appConfig = config.applications[app as AppType];
@@ -182,6 +340,9 @@ configRouter.post('/clear-tags/:app/:instanceId', async (req, res) => {
       return res.status(404).json({ error: 'Instance not found in database' });
     }
 
+    // Season, episode, album and book searches are tracked in place of the tag, so clearing tags starts those over too
+    statsService.clearSearchedUnits(instanceId);
+
     const scoutarrTags = JSON.parse(instance.scoutarr_tags || '[]') as string[];
     const ignoreTags = JSON.parse(instance.ignore_tags || '[]') as string[];
     const allManagedTags = [...scoutarrTags, ...ignoreTags];
@@ -219,7 +380,7 @@ configRouter.post('/clear-tags/:app/:instanceId', async (req, res) => {
         // Find media with this tag (by name)
         const taggedMedia = mediaWithTagNames.filter(m => m.tagNames.includes(tagName));
         if (taggedMedia.length > 0) {
-          const taggedMediaIds = [...new Set(taggedMedia.map(media => service.getMediaId(media)))];
+          const taggedMediaIds = [...new Set(taggedMedia.map(media => service.getTagTargetId(media)))];
           logger.debug(`🏷️  Removing tag "${tagName}" from ${taggedMediaIds.length} items`);
           await service.removeTag(instanceConfig, taggedMediaIds, tagId);
           totalCleared += taggedMediaIds.length;
@@ -238,7 +399,7 @@ configRouter.post('/clear-tags/:app/:instanceId', async (req, res) => {
       appType: app as AppType,
       instance: instanceConfig
     });
-    await statsService.syncMediaToDatabase(instanceId, syncResult.mediaWithTags as Parameters<typeof statsService.syncMediaToDatabase>[1]);
+    await storeSyncedMedia(instanceId, syncResult);
     logger.debug(`✅ Media library synced after tag clear`, { count: syncResult.mediaCount });
 
     // Get media type name for logging
@@ -281,6 +442,7 @@ configRouter.post('/clear-tags/all', async (_req, res) => {
           const service = getServiceForApp(appType as AppType);
           const dbInstance = await statsService.getInstance(instance.id);
           if (!dbInstance) continue;
+          statsService.clearSearchedUnits(instance.id);
 
           const scoutarrTags = JSON.parse(dbInstance.scoutarr_tags || '[]') as string[];
           const ignoreTags = JSON.parse(dbInstance.ignore_tags || '[]') as string[];
@@ -306,7 +468,7 @@ configRouter.post('/clear-tags/all', async (_req, res) => {
             if (tagId !== null) {
               const taggedMedia = mediaWithTagNames.filter(m => m.tagNames.includes(tagName));
               if (taggedMedia.length > 0) {
-                const taggedMediaIds = [...new Set(taggedMedia.map(media => service.getMediaId(media)))];
+                const taggedMediaIds = [...new Set(taggedMedia.map(media => service.getTagTargetId(media)))];
                 await service.removeTag(instance, taggedMediaIds, tagId);
                 totalCleared += taggedMediaIds.length;
               }
@@ -320,10 +482,7 @@ configRouter.post('/clear-tags/all', async (_req, res) => {
             appType: appType as AppType,
             instance,
           });
-          await statsService.syncMediaToDatabase(
-            instance.id,
-            syncResult.mediaWithTags as Parameters<typeof statsService.syncMediaToDatabase>[1]
-          );
+          await storeSyncedMedia(instance.id, syncResult);
 
           totalInstances++;
         } catch (instanceError: unknown) {
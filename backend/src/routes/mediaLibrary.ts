@@ -7,7 +7,8 @@ import { APP_TYPES, AppType } from '../utils/starrUtils.js';
 import { getServiceForApp } from '../utils/serviceRegistry.js';
 import { getErrorMessage, handleRouteError } from '../utils/errorUtils.js';
 import { extractFileInfo, type MediaWithFiles } from '../utils/mediaFileUtils.js';
-import { syncInstanceMedia } from '../utils/mediaSync.js';
+import { syncInstanceMedia, storeSyncedMedia } from '../utils/mediaSync.js';
+import { isBelowCutoff, getTagRules, matchesIncludeTags, findExcludedTag, matchesQualityProfile } from '../utils/filterUtils.js';
 import type { StarrInstanceConfig } from '@scoutarr/shared';
 
 type MediaItem = MediaWithFiles & {
@@ -84,7 +85,7 @@ mediaLibraryRouter.get('/:appType/:instanceId', async (req, res) => {
       allMedia = syncResult.mediaWithTags as MediaItem[];
       // Sync to database
       logger.debug('💾 [Scoutarr DB] Syncing media to database', { count: allMedia.length });
-      await statsService.syncMediaToDatabase(instanceId, allMedia);
+      await storeSyncedMedia(instanceId, syncResult);
       logger.debug('✅ [Scoutarr DB] Synced media to database');
     } else {
       // Always use database (no API fallback)
@@ -97,6 +98,7 @@ mediaLibraryRouter.get('/:appType/:instanceId', async (req, res) => {
         title: m.title,
         monitored: m.monitored,
         tags: m.tags,
+        qualityProfileId: m.quality_profile_id ?? undefined,
         qualityProfileName: m.quality_profile_name ?? undefined,
         status: m.status,
         lastSearchTime: m.last_search_time ?? undefined,
@@ -119,11 +121,16 @@ mediaLibraryRouter.get('/:appType/:instanceId', async (req, res) => {
     // Fetch previous CF scores (second-most-recent from history) in one query
     const previousCfScores = await statsService.getPreviousCfScores(instanceId);
 
+    // Cutoff scores from the synced quality profiles, keyed by profile ID
+    const profiles = await statsService.getQualityProfilesFromDatabase(instanceId);
+    const cutoffScores = new Map(profiles.map(p => [p.quality_profile_id, p.cutoff_format_score]));
+
     // Transform media to response format
     const mediaWithDates = allMedia.map(m => {
       const fileInfo = extractFileInfo(m);
       const mediaId = service.getMediaId(m);
       const mediaAny = m as any;
+      const cutoffFormatScore = m.qualityProfileId !== undefined ? cutoffScores.get(m.qualityProfileId) ?? undefined : undefined;
 
       return {
         id: m.id,
@@ -136,6 +143,8 @@ mediaLibraryRouter.get('/:appType/:instanceId', async (req, res) => {
         dateImported: fileInfo.dateImported,
         customFormatScore: fileInfo.customFormatScore,
         previousCfScore: previousCfScores.has(mediaId) ? previousCfScores.get(mediaId) : undefined,
+        cutoffFormatScore,
+        belowCutoff: isBelowCutoff(fileInfo.customFormatScore, cutoffFormatScore),
         hasFile: fileInfo.hasFile,
         externalId: mediaAny.externalId,
         seriesId: mediaAny.seriesId,
@@ -247,27 +256,37 @@ mediaLibraryRouter.post('/search', async (req, res) => {
     });
 
     const tagName = instance.tagName || 'upgradinatorr';
-    const ignoreTag = (instance as any).ignoreTag as string | undefined;
+    const tagRules = getTagRules(instance);
+    const service = getServiceForApp(appType as AppType);
 
     // Get status config for this app type
-    const statusConfig: string | undefined =
-      appType === 'radarr' ? (instance as any).movieStatus :
-      appType === 'sonarr' ? (instance as any).seriesStatus :
-      appType === 'lidarr' ? (instance as any).artistStatus :
-      appType === 'readarr' ? (instance as any).authorStatus : undefined;
+    const statusConfig = service.getStatusFilterValue(instance);
 
     // Map config status values to *arr API status strings (Radarr uses 'inCinemas' not 'in cinemas')
     function normalizeStatusConfig(val: string): string {
       return val === 'in cinemas' ? 'inCinemas' : val;
     }
 
-    // Fetch live tags and status directly from arr instance (not Scoutarr DB) to avoid stale data
-    const service = getServiceForApp(appType as AppType);
-    const [liveTagsMap, liveStatusMap] = await Promise.all([
+    // Selected quality profiles; synced profiles resolve IDs to names and the legacy name to its ID
+    const syncedProfiles = await statsService.getQualityProfilesFromDatabase(instanceId);
+    const profileNames = new Map(syncedProfiles.map(p => [p.quality_profile_id, p.quality_profile_name]));
+    const profileIds = new Set(instance.qualityProfileIds || []);
+    if (instance.qualityProfileName) {
+      syncedProfiles
+        .filter(p => p.quality_profile_name === instance.qualityProfileName)
+        .forEach(p => profileIds.add(p.quality_profile_id));
+    }
+    const checkProfiles = profileIds.size > 0 || !!instance.qualityProfileName;
+
+    // Fetch live tags, status and profiles directly from arr instance (not Scoutarr DB) to avoid stale data
+    const [liveTagsMap, liveStatusMap, liveProfileMap] = await Promise.all([
       service.getLiveTagsForIds(instance, mediaIds),
       (statusConfig && statusConfig !== 'any' && statusConfig !== '')
         ? service.getLiveStatusForIds(instance, mediaIds)
-        : Promise.resolve(new Map<number, string>())
+        : Promise.resolve(new Map<number, string>()),
+      checkProfiles
+        ? service.getLiveQualityProfileIdsForIds(instance, mediaIds)
+        : Promise.resolve(new Map<number, number | undefined>())
     ]);
 
     const validIds: number[] = [];
@@ -281,11 +300,33 @@ mediaLibraryRouter.post('/search', async (req, res) => {
         conflicts.push({ id, reason: `Already tagged with "${tagName}"` });
         continue;
       }
-      if (ignoreTag && tags.includes(ignoreTag)) {
-        logger.warn('⚠️  [Scoutarr] Conflict: ignore-tagged item in manual search', { id, ignoreTag });
-        conflicts.push({ id, reason: `Has ignore tag "${ignoreTag}"` });
+      const excludedTag = findExcludedTag(tags, tagRules);
+      if (excludedTag) {
+        logger.warn('⚠️  [Scoutarr] Conflict: excluded-tag item in manual search', { id, excludedTag });
+        conflicts.push({ id, reason: `Has excluded tag "${excludedTag}"` });
         continue;
       }
+      if (!matchesIncludeTags(tags, tagRules)) {
+        const required = tagRules.includeTags.map(t => `"${t}"`).join(', ');
+        logger.warn('⚠️  [Scoutarr] Conflict: item missing include tags in manual search', { id, includeTags: tagRules.includeTags });
+        conflicts.push({
+          id,
+          reason: `Missing ${tagRules.includeTagsMode === 'all' ? 'all' : 'any'} of required tags ${required}`
+        });
+        continue;
+      }
+      if (checkProfiles) {
+        const liveProfileId = liveProfileMap.get(id);
+        const liveProfileName = liveProfileId !== undefined ? profileNames.get(liveProfileId) : undefined;
+        // Skip the check when the live profile could not be fetched
+        if (liveProfileId !== undefined &&
+            !matchesQualityProfile({ qualityProfileId: liveProfileId, qualityProfileName: liveProfileName }, profileIds, instance.qualityProfileName)) {
+          const profileLabel = liveProfileName ?? `#${liveProfileId}`;
+          logger.warn('⚠️  [Scoutarr] Conflict: unselected quality profile in manual search', { id, qualityProfileId: liveProfileId });
+          conflicts.push({ id, reason: `Quality profile "${profileLabel}" is not selected in config` });
+          continue;
+        }
+      }
       if (statusConfig && statusConfig !== 'any' && statusConfig !== '') {
         const liveStatus = liveStatusMap.get(id) ?? '';
         if (liveStatus && liveStatus !== normalizeStatusConfig(statusConfig)) {
@@ -318,22 +359,28 @@ mediaLibraryRouter.post('/search', async (req, res) => {
     // Search media using the already-initialized service
     await service.searchMedia(instance, idsToSearch);
     logger.debug('✅ [Scoutarr] Search started', { appType, count: idsToSearch.length });
+    // Sonarr IDs are series IDs here, so every episode of the series picks up the search time
+    statsService.markMediaSearched(instanceId, idsToSearch, new Date(), appType === 'sonarr' ? 'series_id' : 'media_id');
 
-    // Add tag to searched items
+    // Add tag to searched items. Manual Sonarr searches are always series-level so they still tag;
+    // album- and book-level searches leave the artist/author untagged, like scheduled runs do
+    const tagsSearched = appType === 'sonarr' || service.tagsSearchedMedia(instance);
     logger.debug(`📡 [${capitalize(appType)} API] Getting tag ID`, { tagName });
-    const tagId = await service.getTagId(instance, tagName);
+    const tagId = tagsSearched ? await service.getTagId(instance, tagName) : null;
 
-    if (tagId !== null) {
+    if (!tagsSearched) {
+      logger.debug('⏭️  [Scoutarr] Skipping tag for album/book-level search', { appType });
+    } else if (tagId !== null) {
       logger.debug(`📡 [${capitalize(appType)} API] Adding tag to media`, { tagId, count: idsToSearch.length });
       await service.addTag(instance, idsToSearch, tagId);
       logger.debug('✅ [Scoutarr] Tag added to media', { tagId, count: idsToSearch.length });
 
       // Update tags in DB immediately using the live tags we already fetched, no full sync needed
-      const isSonarr = appType === 'sonarr';
+      const column = appType === 'sonarr' ? 'series_id' : 'media_id';
       for (const id of idsToSearch) {
         const currentTags = liveTagsMap.get(id) ?? [];
         const updatedTags = currentTags.includes(tagName) ? currentTags : [...currentTags, tagName];
-        statsService.updateMediaTags(instanceId, [id], updatedTags, isSonarr);
+        statsService.updateMediaTags(instanceId, [id], updatedTags, column);
       }
 
       // Track tag in instances table
@@ -349,7 +396,8 @@ mediaLibraryRouter.post('/search', async (req, res) => {
     const items = appType === 'sonarr'
       ? await statsService.getSeriesTitlesByIds(instanceId, idsToSearch)
       : await statsService.getMediaTitlesByIds(instanceId, idsToSearch);
-    await statsService.addSearch(appType, idsToSearch.length, items, instance.name, instanceId);
+    // Hand-picked from the library, so upgrade effectiveness reports these apart from the selection strategies
+    await statsService.addSearch(appType, idsToSearch.length, items, instance.name, instanceId, undefined, 'manual');
 
     // Return success
     res.json({
@@ -0,0 +1,40 @@
+import express from 'express';
+import { statsService } from '../services/statsService.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import logger from '../utils/logger.js';
+
+export const runsRouter = express.Router();
+
+// Missing or non-numeric query values fall back to the default instead of reaching the query as NaN
+function parseIntParam(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+// Get paginated search runs, newest first
+runsRouter.get('/', asyncHandler(async (req, res) => {
+  const page = parseIntParam(req.query.page, 1);
+  const pageSize = parseIntParam(req.query.pageSize, 15);
+
+  if (page < 1) {
+    return res.status(400).json({ error: 'Page must be >= 1' });
+  }
+  if (pageSize < 1 || pageSize > 1000) {
+    return res.status(400).json({ error: 'Page size must be between 1 and 1000' });
+  }
+
+  logger.debug('📊 Search runs requested', { page, pageSize });
+  const result = await statsService.getRuns(page, pageSize);
+  res.json(result);
+}));
+
+// Get a single search run with its per-instance breakdown
+runsRouter.get('/:id', asyncHandler(async (req, res) => {
+  const run = await statsService.getRun(req.params.id);
+
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  res.json(run);
+}));
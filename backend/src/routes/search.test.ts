@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SonarrInstance } from '@scoutarr/shared';
+import { statsService } from '../services/statsService.js';
+import { sonarrService, type SonarrEpisode } from '../services/sonarrService.js';
+import { processApplication, type ApplicationProcessor } from './search.js';
+
+vi.mock('../services/statsService.js', () => ({
+  statsService: {
+    getSearchedUnits: vi.fn(),
+    clearSearchedUnits: vi.fn(),
+    recordSearchedUnits: vi.fn(),
+    markMediaSearched: vi.fn(),
+    updateMediaTags: vi.fn(),
+    addScoutarrTagToInstance: vi.fn()
+  }
+}));
+vi.mock('../services/configService.js', () => ({ configService: {} }));
+vi.mock('../services/schedulerService.js', () => ({ schedulerService: {} }));
+vi.mock('../services/notificationService.js', () => ({ notificationService: {} }));
+vi.mock('../services/prowlarrService.js', () => ({ prowlarrService: {} }));
+
+const RECENT = '2024-06-01T00:00:00Z';
+
+function episode(id: number, seriesId: number, seasonNumber: number, lastSearchTime?: string): SonarrEpisode {
+  return {
+    ...(lastSearchTime && { lastSearchTime }),
+    id,
+    seriesId,
+    seasonNumber,
+    episodeNumber: id,
+    title: `Series ${seriesId}`,
+    seriesTitle: `Series ${seriesId}`,
+    episodeTitle: `Episode ${id}`,
+    monitored: true,
+    tags: [],
+    status: 'continuing',
+    hasFile: true
+  };
+}
+
+// A Sonarr processor over the real service's ID and unit handling, with the API calls stubbed
+function sonarrProcessor(config: Partial<SonarrInstance>): ApplicationProcessor<SonarrEpisode> {
+  const instance = { id: 'sonarr-1', tagName: 'upgradinatorr', count: 1, selectionStrategy: 'oldestSearched', ...config } as SonarrInstance;
+  return {
+    name: 'Sonarr',
+    config: instance,
+    appType: 'sonarr',
+    instanceId: 'sonarr-1',
+    getMedia: vi.fn(),
+    filterMedia: async (_config, media) => media,
+    getStatusFilterValue: () => sonarrService.getStatusFilterValue(instance),
+    searchSelected: vi.fn().mockResolvedValue([1]),
+    getSearchOutcomes: vi.fn(),
+    getTagId: vi.fn().mockResolvedValue(3),
+    addTag: vi.fn(),
+    removeTag: vi.fn(),
+    getMediaId: media => sonarrService.getMediaId(media),
+    getMediaTitle: media => sonarrService.getMediaTitle(media),
+    getTagTargetId: media => sonarrService.getTagTargetId(media),
+    getUnitKey: media => sonarrService.getSearchUnitKey(instance, media),
+    getUnitLabel: media => sonarrService.getSearchUnitLabel(instance, media),
+    tagsSearched: sonarrService.tagsSearchedMedia(instance)
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(statsService.getSearchedUnits).mockReturnValue(new Set());
+});
+
+describe('processApplication', () => {
+  it('stamps the searched Sonarr episodes by their own IDs, not their series ID', async () => {
+    // Episode 7 shares its ID with the searched series but belongs to another one
+    const media = [episode(101, 7, 1), episode(102, 7, 1), episode(103, 7, 2, RECENT), episode(7, 9, 1, RECENT)];
+
+    const result = await processApplication(sonarrProcessor({ searchGranularity: 'season' }), media);
+
+    expect(result.searched).toBe(1);
+    expect(statsService.markMediaSearched).toHaveBeenCalledTimes(1);
+    expect(statsService.markMediaSearched).toHaveBeenCalledWith('sonarr-1', expect.arrayContaining([101, 102]), expect.any(Date));
+    expect(vi.mocked(statsService.markMediaSearched).mock.calls[0][1]).toHaveLength(2);
+    expect(statsService.recordSearchedUnits).toHaveBeenCalledWith('sonarr-1', ['7:1'], expect.any(Date));
+  });
+
+  it('stamps every episode of a searched series and tags the series', async () => {
+    const media = [episode(101, 7, 1), episode(103, 7, 2), episode(7, 9, 1, RECENT)];
+    const processor = sonarrProcessor({ searchGranularity: 'series' });
+
+    await processApplication(processor, media);
+
+    expect(statsService.markMediaSearched).toHaveBeenCalledWith('sonarr-1', expect.arrayContaining([101, 103]), expect.any(Date));
+    expect(vi.mocked(statsService.markMediaSearched).mock.calls[0][1]).toHaveLength(2);
+    expect(processor.addTag).toHaveBeenCalledWith(processor.config, [7], 3);
+    expect(statsService.recordSearchedUnits).not.toHaveBeenCalled();
+  });
+});
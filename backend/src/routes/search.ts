@@ -1,36 +1,35 @@
 import express from 'express';
+import { mapAsync } from 'es-toolkit';
 import { configService } from '../services/configService.js';
-import { statsService } from '../services/statsService.js';
+import { statsService, type MediaTagColumn } from '../services/statsService.js';
 import { schedulerService } from '../services/schedulerService.js';
 import { notificationService } from '../services/notificationService.js';
+import { prowlarrService } from '../services/prowlarrService.js';
 import logger, { startOperation } from '../utils/logger.js';
 import { getConfiguredInstances, getMediaTypeKey, APP_TYPES, AppType, extractItemsFromResult } from '../utils/starrUtils.js';
 import { getServiceForApp } from '../utils/serviceRegistry.js';
-import { StarrInstanceConfig, SearchResults, SearchResult } from '@scoutarr/shared';
-import { FilterableMedia } from '../utils/filterUtils.js';
+import { Config, StarrInstanceConfig, SearchResults, SearchResult, SearchRunTrigger, SearchRunInstanceOutcome, SearchItemOutcome, FilterBreakdown } from '@scoutarr/shared';
+import { FilterableMedia, getTagNames, recordRemoved } from '../utils/filterUtils.js';
+import { selectMedia, SelectionContext } from '../utils/selectionUtils.js';
+import { createRunBudget, applySearchBudgets, reserveRunBudget, releaseRunBudget, settleRunBudget, RunBudget } from '../utils/budgetUtils.js';
+import { getCircuitStatus } from '../utils/httpPolicy.js';
 import { getErrorMessage, getErrorDetails, handleRouteError } from '../utils/errorUtils.js';
 
 export const searchRouter = express.Router();
 
 // Run upgrade search immediately
-searchRouter.post('/run', async (_req, res) => {
+searchRouter.post('/run', async (req, res) => {
   try {
-    const results = await executeSearchRun();
+    // The UI identifies itself so runs it starts can be told apart from external API calls
+    const trigger: SearchRunTrigger = req.body?.trigger === 'manual' ? 'manual' : 'api';
+    const dryRun = req.body?.dryRun === true;
+    const results = await executeSearchRun({ trigger, dryRun });
     res.json(results);
   } catch (error: unknown) {
     handleRouteError(res, error, 'Failed to run search');
   }
 });
 
-// Helper function to randomly select items
-function randomSelect<T>(items: T[], count: number | 'max'): T[] {
-  if (count === 'max' || count >= items.length) return items;
-  if (items.length === 0) return items;
-  
-  // Shuffle and take first count items
-  return [...items].sort(() => Math.random() - 0.5).slice(0, count);
-}
-
 // Helper to generate result key for instances
 function getResultKey(instanceId: string, appType: AppType, instanceCount: number): string {
   return instanceCount > 1 ? instanceId : appType;
@@ -45,15 +44,18 @@ function getInstanceInfo(config: StarrInstanceConfig, appType: AppType): { insta
 }
 
 // Helper to save stats for results
-async function saveStatsForResults(results: SearchResults): Promise<void> {
+async function saveStatsForResults(config: Config, results: SearchResults, runId: string): Promise<void> {
   for (const [resultKey, result] of Object.entries(results)) {
     if (!result.success || !result.searched || result.searched === 0) continue;
     
     // Extract app type from result key (e.g., "radarr" or "radarr-instance-id")
     const appType = resultKey.split('-')[0] as AppType;
     const items = extractItemsFromResult(result);
-    
-    await statsService.addSearch(appType, result.searched, items, result.instanceName, result.instanceId);
+    // Recorded with the search so upgrade effectiveness can be compared by strategy
+    const instance = (config.applications[appType] as StarrInstanceConfig[] | undefined)?.find(i => i.id === result.instanceId);
+    const strategy = instance?.selectionStrategy || 'random';
+
+    await statsService.addSearch(appType, result.searched, items, result.instanceName, result.instanceId, runId, strategy);
 
     // Info-level feedback for operators
     logger.info('ℹ️  Stats updated for search result', {
@@ -67,13 +69,59 @@ async function saveStatsForResults(results: SearchResults): Promise<void> {
   }
 }
 
+// Helper to build the per-instance breakdown stored with a run
+function buildRunOutcomes(results: SearchResults): SearchRunInstanceOutcome[] {
+  return Object.entries(results).map(([resultKey, result]) => ({
+    instanceId: result.instanceId || resultKey,
+    instanceName: result.instanceName,
+    appType: resultKey.split('-')[0],
+    success: result.success,
+    searched: result.searched || 0,
+    counts: result.counts,
+    items: extractItemsFromResult(result),
+    error: result.error,
+    skipReason: result.skipReason,
+    limitReason: result.limitReason
+  }));
+}
+
+// Helper to write search outcomes into the results, history and run record once the *arr commands finish
+async function recordSearchOutcomes(runId: string, results: SearchResults, pending: PendingOutcomes[]): Promise<void> {
+  if (pending.length === 0) return;
+
+  await Promise.all(pending.map(async ({ resultKey, outcomes }) => {
+    const result = results[resultKey];
+    try {
+      const itemOutcomes = await outcomes;
+      // The media type array shares its items with result.items, so both pick up the outcomes
+      (result.items || []).forEach((item, i) => {
+        item.outcome = itemOutcomes[i];
+      });
+      statsService.updateSearchItems(runId, result.instanceId || resultKey, extractItemsFromResult(result));
+    } catch (error: unknown) {
+      logger.warn('⚠️  Could not determine search outcomes', { resultKey, error: getErrorMessage(error) });
+    }
+  }));
+
+  try {
+    statsService.updateRunInstances(runId, buildRunOutcomes(results));
+  } catch (error: unknown) {
+    logger.warn('⚠️  Could not save search outcomes to run', { runId, error: getErrorMessage(error) });
+  }
+  logger.info('📥 Search outcomes recorded', {
+    runId,
+    grabbed: Object.values(results).reduce((sum, r) => sum + (r.items || []).filter(i => i.outcome === 'grabbed').length, 0)
+  });
+}
+
 // Helper to create processor config using service registry
 function createProcessor<TConfig extends StarrInstanceConfig, TMedia extends FilterableMedia>(
   instanceName: string,
   config: TConfig,
   appType: AppType,
   instanceId: string,
-  unattended?: boolean
+  unattended?: boolean,
+  dryRun?: boolean
 ): ApplicationProcessor<TMedia> {
   const service = getServiceForApp(appType);
 
@@ -83,84 +131,223 @@ function createProcessor<TConfig extends StarrInstanceConfig, TMedia extends Fil
     appType,
     instanceId,
     unattended,
+    dryRun,
     getMedia: (cfg: StarrInstanceConfig) => service.getMedia(cfg as TConfig) as Promise<TMedia[]>,
-    filterMedia: (cfg: StarrInstanceConfig, media: TMedia[]) => service.filterMedia(cfg as TConfig, media) as Promise<TMedia[]>,
-    searchMedia: async (cfg: StarrInstanceConfig, mediaIds: number[]) => {
-      await service.searchMedia(cfg as TConfig, mediaIds);
-    },
+    filterMedia: (cfg: StarrInstanceConfig, media: TMedia[], breakdown?: FilterBreakdown) =>
+      service.filterMedia(cfg as TConfig, media, breakdown) as Promise<TMedia[]>,
+    getStatusFilterValue: (cfg: StarrInstanceConfig) => service.getStatusFilterValue(cfg as TConfig),
+    searchSelected: (cfg: StarrInstanceConfig, media: TMedia[]) => service.searchSelected(cfg as TConfig, media),
+    getSearchOutcomes: (media: TMedia[], commandIds: number[], since: Date) => service.getSearchOutcomes(config, media, commandIds, since),
     getTagId: (cfg: StarrInstanceConfig, tagName: string) => service.getTagId(cfg as TConfig, tagName),
     addTag: (cfg: StarrInstanceConfig, mediaIds: number[], tagId: number) => service.addTag(cfg as TConfig, mediaIds, tagId),
     removeTag: (cfg: StarrInstanceConfig, mediaIds: number[], tagId: number) => service.removeTag(cfg as TConfig, mediaIds, tagId),
     getMediaId: service.getMediaId,
-    getMediaTitle: service.getMediaTitle
+    getMediaTitle: service.getMediaTitle,
+    getTagTargetId: service.getTagTargetId,
+    getUnitKey: (media: TMedia) => service.getSearchUnitKey(config, media),
+    getUnitLabel: (media: TMedia) => service.getSearchUnitLabel(config, media),
+    tagsSearched: service.tagsSearchedMedia(config)
   };
 }
 
-// Helper to process all instances of an app type
-async function processAppInstances<T extends StarrInstanceConfig>(
-  instances: T[],
-  appType: AppType,
+// An instance a search run covers, with the key its result is stored under
+interface InstanceTask {
+  appType: AppType;
+  instance: StarrInstanceConfig;
+  resultKey: string;
+}
+
+// Helper to list the instances a run covers, in app type order
+function getRunTasks(config: Config, instanceIds?: string[]): InstanceTask[] {
+  return APP_TYPES.flatMap(appType => {
+    const configured = getConfiguredInstances(config.applications[appType] as StarrInstanceConfig[]);
+    return configured
+      .filter(instance => !instanceIds || instanceIds.includes(instance.id))
+      .map(instance => ({
+        appType,
+        instance,
+        // Result keys depend on the configured count so they stay stable across partial runs
+        resultKey: getResultKey(getInstanceInfo(instance, appType).instanceId, appType, configured.length)
+      }));
+  });
+}
+
+// Helper to process a run's instances, up to the configured number at once
+// Each instance still runs its steps in order, and results are stored in task order whichever finishes first
+async function processInstances(
+  tasks: InstanceTask[],
   results: SearchResults,
-  unattended?: boolean
+  runBudget: RunBudget,
+  pendingOutcomes: PendingOutcomes[],
+  unattended?: boolean,
+  dryRun?: boolean
 ): Promise<void> {
-  for (let i = 0; i < instances.length; i++) {
-    const instanceConfig = instances[i];
-    const { instanceName, instanceId } = getInstanceInfo(instanceConfig, appType);
-
-    const processor = createProcessor(instanceName, instanceConfig, appType, instanceId, unattended);
-
-    // Load media from database cache instead of fetching from API
-    logger.debug('💾 [Scoutarr DB] Loading media from cache for search', { instanceId, appType });
-    const dbMedia = await statsService.getMediaFromDatabase(instanceId);
-
-    let preloadedMedia;
-    if (dbMedia.length > 0) {
-      logger.debug('✅ [Scoutarr DB] Using cached media for search', { count: dbMedia.length });
-      // Convert database format to API format
-      preloadedMedia = dbMedia.map(m => ({
-        id: m.media_id,
-        title: m.title,
-        monitored: m.monitored,
-        tags: m.tags,
-        qualityProfileName: m.quality_profile_name || undefined,
-        status: m.status,
-        hasFile: !!m.has_file,
-        lastSearchTime: m.last_search_time || undefined,
-        seriesId: m.series_id ?? undefined,
-      }));
-    } else {
-      logger.warn('⚠️  No cached media found, will fetch from API', { instanceId, appType });
+  const { instanceConcurrency } = configService.getConfig().dispatch;
+  const instanceResults = await mapAsync(tasks, async task => {
+    try {
+      return await processInstance(task, runBudget, pendingOutcomes, unattended, dryRun);
+    } catch (error: unknown) {
+      // One instance failing must not abandon the others mid-search
+      const { instanceName, instanceId } = getInstanceInfo(task.instance, task.appType);
+      const message = getErrorMessage(error);
+      logger.error(`❌ ${instanceName} processing failed`, { instanceId, appType: task.appType, error: message });
+      return {
+        success: false,
+        searched: 0,
+        items: [],
+        [getMediaTypeKey(task.appType)]: [],
+        instanceName,
+        instanceId,
+        error: message
+      };
     }
+  }, { concurrency: instanceConcurrency });
 
-    const result = await processApplication(processor, preloadedMedia as any);
-    const resultKey = getResultKey(instanceId, appType, instances.length);
-    results[resultKey] = {
-      ...result,
-      [getMediaTypeKey(appType)]: result.items,
+  tasks.forEach((task, i) => {
+    results[task.resultKey] = instanceResults[i];
+  });
+}
+
+// Helper to process one instance: apply budgets and indexer checks, then search
+async function processInstance(
+  task: InstanceTask,
+  runBudget: RunBudget,
+  pendingOutcomes: PendingOutcomes[],
+  unattended?: boolean,
+  dryRun?: boolean
+): Promise<SearchResults[string]> {
+  const { appType, resultKey } = task;
+  let instanceConfig = task.instance;
+  const { instanceName, instanceId } = getInstanceInfo(instanceConfig, appType);
+  const prowlarrConfig = configService.getConfig().prowlarr;
+
+  // Degraded instances sit out until their circuit breaker cooldown ends.
+  // Search budgets cap the count next, then Prowlarr may reduce it further.
+  // Budgets and Prowlarr are checked per instance so searches made earlier in the run count against them
+  const limitReasons: string[] = [];
+  const circuit = getCircuitStatus(instanceId);
+  const budgeted = applySearchBudgets(instanceConfig, runBudget);
+  let skipReason = circuit.open
+    ? `Instance degraded after repeated API failures (${circuit.lastError}), retrying after ${circuit.openUntil}`
+    : budgeted.skipReason;
+  if (!skipReason && budgeted.limitReason) {
+    limitReasons.push(budgeted.limitReason);
+    instanceConfig = { ...instanceConfig, count: budgeted.count };
+  }
+  // Reserved before the first await so instances processed alongside this one can't spend the same budget
+  const reserved = skipReason ? 0 : reserveRunBudget(runBudget, instanceId, instanceConfig.count);
+  if (!skipReason) {
+    const allowance = await prowlarrService.getSearchAllowance(prowlarrConfig, instanceConfig.count);
+    if (allowance?.skip) {
+      skipReason = allowance.reason;
+    } else if (allowance?.reason) {
+      limitReasons.push(allowance.reason);
+      instanceConfig = { ...instanceConfig, count: allowance.count };
+    }
+  }
+  if (skipReason) {
+    logger.warn(`⏭️  Skipping ${instanceName}: ${skipReason}`, { instanceId, appType });
+    releaseRunBudget(runBudget, instanceId, reserved, 0);
+    return {
+      success: true,
+      searched: 0,
+      items: [],
+      [getMediaTypeKey(appType)]: [],
       instanceName,
-      instanceId
+      instanceId,
+      skipReason
     };
   }
+  const limitReason = limitReasons.length > 0 ? limitReasons.join('; ') : undefined;
+  if (limitReason) {
+    logger.info(`📉 ${instanceName}: ${limitReason}`, { instanceId, appType });
+  }
+
+  // Instance-level unattended flag overrides the scheduler default
+  const instanceUnattended = instanceConfig.unattended ?? unattended;
+  const processor = createProcessor(instanceName, instanceConfig, appType, instanceId, instanceUnattended, dryRun);
+
+  // Load media from database cache instead of fetching from API
+  logger.debug('💾 [Scoutarr DB] Loading media from cache for search', { instanceId, appType });
+  const dbMedia = await statsService.getMediaFromDatabase(instanceId);
+
+  let preloadedMedia;
+  if (dbMedia.length > 0) {
+    logger.debug('✅ [Scoutarr DB] Using cached media for search', { count: dbMedia.length });
+    // Convert database format to API format
+    preloadedMedia = dbMedia.map(m => ({
+      id: m.media_id,
+      title: m.title,
+      monitored: m.monitored,
+      tags: m.tags,
+      qualityProfileId: m.quality_profile_id ?? undefined,
+      qualityProfileName: m.quality_profile_name || undefined,
+      status: m.status,
+      hasFile: !!m.has_file,
+      lastSearchTime: m.last_search_time || undefined,
+      dateImported: m.date_imported || undefined,
+      added: m.date_added || undefined,
+      customFormatScore: m.custom_format_score ?? undefined,
+      seriesId: m.series_id ?? undefined,
+      parentId: m.parent_id ?? undefined,
+      seasonNumber: m.season_number ?? undefined,
+      episodeNumber: m.episode_number ?? undefined,
+    }));
+  } else {
+    logger.warn('⚠️  No cached media found, will fetch from API', { instanceId, appType });
+  }
+
+  const result = await processApplication(processor, preloadedMedia as any, outcomes => pendingOutcomes.push({ resultKey, outcomes }));
+  // Dry runs draw down the budget by what they would search so the preview matches a real run
+  releaseRunBudget(runBudget, instanceId, reserved, dryRun ? result.items.length : result.searched);
+  return {
+    ...result,
+    [getMediaTypeKey(appType)]: result.items,
+    instanceName,
+    instanceId,
+    ...(limitReason && { limitReason })
+  };
 }
 
 // Shared function to execute search run (used by both manual and scheduled runs)
-export async function executeSearchRun(): Promise<SearchResults> {
-  logger.info('🔍 Starting search run execution');
+export async function executeSearchRun(options: SearchRunOptions = {}): Promise<SearchResults> {
+  const trigger = options.trigger || 'api';
+  logger.info('🔍 Starting search run execution', { trigger, instanceIds: options.instanceIds, dryRun: !!options.dryRun });
   const config = configService.getConfig();
   const results: SearchResults = {};
   
-  // Use scheduler's unattended mode setting
+  // Use scheduler's unattended mode setting as the default for instances without their own flag
   const unattended = config.scheduler?.unattended || false;
 
-  // Process all app types
-  for (const appType of APP_TYPES) {
-    const instances = getConfiguredInstances(config.applications[appType] as StarrInstanceConfig[]);
+  // Dry runs only preview the selection - no run record, no stats
+  if (options.dryRun) {
+    await processInstances(getRunTasks(config, options.instanceIds), results, createRunBudget(config, true), [], unattended, true);
 
-    await processAppInstances(instances, appType, results, unattended);
+    logger.info('✅ Dry run completed', {
+      resultCount: Object.keys(results).length,
+      wouldSearch: Object.values(results).reduce((sum, r) => sum + (r.items?.length || 0), 0)
+    });
+    return results;
+  }
+
+  const runId = await statsService.startRun(trigger);
+  const runBudget = createRunBudget(config);
+  const pendingOutcomes: PendingOutcomes[] = [];
+
+  try {
+    await processInstances(getRunTasks(config, options.instanceIds), results, runBudget, pendingOutcomes, unattended);
+
+    // Save stats for successful searches
+    await saveStatsForResults(config, results, runId);
+  } catch (error: unknown) {
+    await statsService.finishRun(runId, buildRunOutcomes(results), getErrorMessage(error));
+    throw error;
+  } finally {
+    // The history now holds what the run searched, so its reservations no longer need to count separately
+    settleRunBudget(runBudget);
   }
 
-  // Save stats for successful searches
-  await saveStatsForResults(results);
+  await statsService.finishRun(runId, buildRunOutcomes(results));
 
   logger.info('✅ Search run execution completed', {
     resultCount: Object.keys(results).length,
@@ -173,42 +360,99 @@ export async function executeSearchRun(): Promise<SearchResults> {
     }))
   });
 
+  // Outcomes are known once the *arr commands finish; runs that notify wait so the notification can include them
+  const outcomesRecorded = recordSearchOutcomes(runId, results, pendingOutcomes);
+  if (options.awaitOutcomes) {
+    await outcomesRecorded;
+  }
+
   return results;
 }
 
+// Options for a search run
+export interface SearchRunOptions {
+  // Restrict the run to these instance IDs (all configured instances when omitted)
+  instanceIds?: string[];
+  // What started the run, recorded in run history (defaults to 'api')
+  trigger?: SearchRunTrigger;
+  // Preview only: filter and select without searching, tagging or writing stats
+  dryRun?: boolean;
+  // Wait for search outcomes before returning (otherwise they are recorded in the background)
+  awaitOutcomes?: boolean;
+}
+
+// Outcome lookup started for an instance's searches
+interface PendingOutcomes {
+  resultKey: string;
+  outcomes: Promise<SearchItemOutcome[]>;
+}
+
 // Common interface for processing applications
-interface ApplicationProcessor<TMedia extends FilterableMedia> {
+export interface ApplicationProcessor<TMedia extends FilterableMedia> {
   name: string;
   config: StarrInstanceConfig;
   appType: AppType;
   instanceId: string;
   unattended?: boolean;
+  dryRun?: boolean;
   getMedia: (config: StarrInstanceConfig) => Promise<TMedia[]>;
-  filterMedia: (config: StarrInstanceConfig, media: TMedia[]) => Promise<TMedia[]>;
-  searchMedia: (config: StarrInstanceConfig, mediaIds: number[]) => Promise<void>;
+  filterMedia: (config: StarrInstanceConfig, media: TMedia[], breakdown?: FilterBreakdown) => Promise<TMedia[]>;
+  getStatusFilterValue: (config: StarrInstanceConfig) => string | undefined;
+  searchSelected: (config: StarrInstanceConfig, media: TMedia[]) => Promise<number[]>;
+  // Waits for the search commands to finish and reports one outcome per searched item
+  getSearchOutcomes: (media: TMedia[], commandIds: number[], since: Date) => Promise<SearchItemOutcome[]>;
   getTagId: (config: StarrInstanceConfig, tagName: string) => Promise<number | null>;
   addTag: (config: StarrInstanceConfig, mediaIds: number[], tagId: number) => Promise<void>;
   removeTag: (config: StarrInstanceConfig, mediaIds: number[], tagId: number) => Promise<void>;
   getMediaId: (media: TMedia) => number;
   getMediaTitle: (media: TMedia) => string;
+  // ID the instance tag is applied to (the Sonarr series, or the artist/author of an album or book)
+  getTagTargetId: (media: TMedia) => number;
+  // Items sharing a unit key are searched together (e.g. episodes of one Sonarr season)
+  getUnitKey: (media: TMedia) => string;
+  getUnitLabel: (media: TMedia) => string | undefined;
+  tagsSearched: boolean;
+}
+
+// Media library column matching an item's tag target ID
+function getTagColumn(appType: AppType, media: FilterableMedia): MediaTagColumn {
+  if (appType === 'sonarr') return 'series_id';
+  return media.parentId !== undefined ? 'parent_id' : 'media_id';
 }
 
 // Generic function to process an application
 export async function processApplication<TMedia extends FilterableMedia>(
   processor: ApplicationProcessor<TMedia>,
-  preloadedMedia?: TMedia[]
+  preloadedMedia?: TMedia[],
+  onOutcomes?: (outcomes: Promise<SearchItemOutcome[]>) => void
 ): Promise<SearchResult> {
   const endOp = startOperation('Search.processApplication', { processor: processor.name, instanceId: processor.instanceId, appType: processor.appType });
+  const counts = { total: 0, filtered: 0, selected: 0 };
+  const dryRun = processor.dryRun || false;
+  let filterBreakdown: FilterBreakdown = {};
+  let unattendedReset = 0;
   try {
     logger.info(`Processing ${processor.name} search`, {
       count: processor.config.count,
       tagName: processor.config.tagName,
       unattended: processor.unattended,
-      usingCache: !!preloadedMedia
+      usingCache: !!preloadedMedia,
+      dryRun
     });
 
+    // Searches narrower than what the tag applies to are recorded per unit instead, and those units sit out like tagged media
+    const searchedUnits = processor.tagsSearched ? new Set<string>() : statsService.getSearchedUnits(processor.instanceId);
+    const excludeSearchedUnits = (media: TMedia[], breakdown?: FilterBreakdown): TMedia[] => {
+      const remaining = media.filter(m => !searchedUnits.has(processor.getUnitKey(m)));
+      recordRemoved(breakdown, 'searchedUnit', media.length, remaining.length);
+      return remaining;
+    };
+
     let allMedia = preloadedMedia || await processor.getMedia(processor.config);
-    let filtered = await processor.filterMedia(processor.config, allMedia);
+    const candidates = await processor.filterMedia(processor.config, allMedia, filterBreakdown);
+    let filtered = excludeSearchedUnits(candidates, filterBreakdown);
+    counts.total = allMedia.length;
+    counts.filtered = filtered.length;
 
     logger.info('ℹ️  Media loaded for processing', {
       instanceId: processor.instanceId,
@@ -218,8 +462,11 @@ export async function processApplication<TMedia extends FilterableMedia>(
       filteredCount: filtered.length,
       tagInclude: processor.config.tagName,
       tagExclude: processor.config.ignoreTag,
+      includeTags: processor.config.includeTags,
+      excludeTags: processor.config.excludeTags,
       monitored: processor.config.monitored,
       qualityProfile: processor.config.qualityProfileName,
+      qualityProfileIds: processor.config.qualityProfileIds,
       unattended: processor.unattended || false
     });
 
@@ -231,15 +478,8 @@ export async function processApplication<TMedia extends FilterableMedia>(
         ignoreTag: processor.config.ignoreTag,
         tagName: processor.config.tagName,
         qualityProfileName: processor.config.qualityProfileName,
-        status: 'movieStatus' in processor.config
-          ? processor.config.movieStatus
-          : 'seriesStatus' in processor.config
-          ? processor.config.seriesStatus
-          : 'artistStatus' in processor.config
-          ? processor.config.artistStatus
-          : 'authorStatus' in processor.config
-          ? processor.config.authorStatus
-          : undefined,
+        qualityProfileIds: processor.config.qualityProfileIds,
+        status: processor.getStatusFilterValue(processor.config),
       },
       counts: {
         before: allMedia.length,
@@ -247,16 +487,32 @@ export async function processApplication<TMedia extends FilterableMedia>(
       }
     });
 
+    // Unattended mode: if every candidate was searched this cycle, forget the searched units and start over
+    if (processor.unattended && filtered.length === 0 && candidates.length > 0) {
+      logger.info(`🔄 Unattended mode: All ${processor.name} candidates searched, clearing searched units`);
+      if (dryRun) {
+        unattendedReset = candidates.length;
+        logger.info('🧪 Dry run: unattended reset simulated', { instanceId: processor.instanceId, wouldReset: unattendedReset });
+      } else {
+        statsService.clearSearchedUnits(processor.instanceId);
+      }
+      searchedUnits.clear();
+      delete filterBreakdown.searchedUnit;
+      filtered = candidates;
+      counts.filtered = filtered.length;
+    }
+
     // Unattended mode: if no media found, remove tag from all and re-filter
     if (processor.unattended && filtered.length === 0) {
       logger.info(`🔄 Unattended mode: No media found, removing tag from all ${processor.name} and re-filtering`);
       const tagName = processor.config.tagName;
-      const tagId = await processor.getTagId(processor.config, tagName);
-      if (tagId !== null && tagName) {
+      // getTagId creates missing tags, so a dry run never resolves it
+      const tagId = dryRun ? null : await processor.getTagId(processor.config, tagName);
+      if ((dryRun || tagId !== null) && tagName) {
         // Build a temp copy with tagName stripped so filterMedia sees all filter-passing items
         const tempAllMedia = allMedia.map(m => ({
           ...m,
-          tags: (m.tags as string[]).filter(t => t !== tagName)
+          tags: getTagNames(m).filter(t => t !== tagName)
         })) as typeof allMedia;
 
         // Run the full filter chain (monitored, quality profile, status, missingOnly, etc.)
@@ -266,24 +522,31 @@ export async function processApplication<TMedia extends FilterableMedia>(
         // From filter-passing items, find those that originally had the tag
         const mediaWithTag = allMedia.filter(m =>
           filterPassingIds.has(processor.getMediaId(m)) &&
-          Array.isArray(m.tags) &&
-          m.tags.includes(tagName)
+          getTagNames(m).includes(tagName)
         );
-        if (mediaWithTag.length > 0) {
-          const mediaIds = [...new Set(mediaWithTag.map(processor.getMediaId))];
+        if (mediaWithTag.length > 0 && dryRun) {
+          // Simulate the reset: the stripped copy is what a re-fetch would return after removing the tag
+          unattendedReset = mediaWithTag.length;
+          filterBreakdown = {};
+          filtered = excludeSearchedUnits(await processor.filterMedia(processor.config, tempAllMedia, filterBreakdown), filterBreakdown);
+          counts.filtered = filtered.length;
+          logger.info('🧪 Dry run: unattended reset simulated', { instanceId: processor.instanceId, wouldReset: unattendedReset });
+        } else if (mediaWithTag.length > 0 && tagId !== null) {
+          const mediaIds = [...new Set(mediaWithTag.map(processor.getTagTargetId))];
           await processor.removeTag(processor.config, mediaIds, tagId);
 
           // Update DB immediately: strip tagName from each affected item's tags
-          const isSonarr = processor.appType === 'sonarr';
           for (const m of mediaWithTag) {
-            const id = processor.getMediaId(m);
-            const updatedTags = (m.tags as string[]).filter(t => t !== tagName);
-            statsService.updateMediaTags(processor.instanceId, [id], updatedTags, isSonarr);
+            const id = processor.getTagTargetId(m);
+            const updatedTags = getTagNames(m).filter(t => t !== tagName);
+            statsService.updateMediaTags(processor.instanceId, [id], updatedTags, getTagColumn(processor.appType, m));
           }
 
           // Re-fetch and re-filter
           allMedia = await processor.getMedia(processor.config);
-          filtered = await processor.filterMedia(processor.config, allMedia);
+          filtered = excludeSearchedUnits(await processor.filterMedia(processor.config, allMedia));
+          counts.total = allMedia.length;
+          counts.filtered = filtered.length;
         }
       }
     }
@@ -293,29 +556,93 @@ export async function processApplication<TMedia extends FilterableMedia>(
       return {
         success: true,
         searched: 0,
-        items: []
+        items: [],
+        counts,
+        ...(dryRun && { filterBreakdown, unattendedReset })
       };
     }
 
-    // Select random media based on count
-    const toSearch = randomSelect(filtered, processor.config.count);
+    // Select media based on count and the instance's selection strategy
+    const strategy = processor.config.selectionStrategy || 'random';
+    const selectionContext: SelectionContext = {};
+    if (strategy === 'largestCutoffGap') {
+      const profiles = await statsService.getQualityProfilesFromDatabase(processor.instanceId);
+      selectionContext.cutoffScores = new Map(
+        profiles
+          .filter(p => p.cutoff_format_score !== null)
+          .map(p => [p.quality_profile_id, p.cutoff_format_score as number])
+      );
+    }
+    // Order every candidate, then take the first `count` distinct search units in that order
+    const ordered = selectMedia(filtered, 'max', strategy, selectionContext);
+    const limit = processor.config.count === 'max' ? Infinity : processor.config.count;
+    const units = new Map<string, TMedia[]>();
+    for (const m of ordered) {
+      const key = processor.getUnitKey(m);
+      const unit = units.get(key);
+      if (unit) {
+        unit.push(m);
+      } else if (units.size < limit) {
+        units.set(key, [m]);
+      }
+    }
+    // One representative item per unit; the full unit members go to the search call
+    const toSearch = [...units.values()].map(unit => unit[0]);
+    const unitMedia = [...units.values()].flat();
+    const items = toSearch.map(m => {
+      const unit = processor.getUnitLabel(m);
+      return {
+        id: processor.getMediaId(m),
+        title: processor.getMediaTitle(m),
+        ...(unit && { unit })
+      };
+    });
+    counts.selected = toSearch.length;
 
     logger.info('ℹ️  Selected media for search', {
       instanceId: processor.instanceId,
       appType: processor.appType,
+      strategy,
       requested: processor.config.count,
       selected: toSearch.length,
       filteredAvailable: filtered.length,
       titles: toSearch.map(processor.getMediaTitle)
     });
 
+    if (dryRun) {
+      endOp({ wouldSearch: toSearch.length, dryRun }, true);
+      return {
+        success: true,
+        searched: 0,
+        items,
+        counts,
+        filterBreakdown,
+        unattendedReset
+      };
+    }
+
     // Search media - each service handles its own search strategy
-    const mediaIds = [...new Set(toSearch.map(processor.getMediaId))];
-    await processor.searchMedia(processor.config, mediaIds);
+    const mediaIds = [...new Set(toSearch.map(processor.getTagTargetId))];
+    const searchedAt = new Date();
+    const commandIds = await processor.searchSelected(processor.config, unitMedia);
+    if (onOutcomes) {
+      const outcomes = processor.getSearchOutcomes(toSearch, commandIds, searchedAt);
+      // Rejections are handled when the outcomes are recorded; this only keeps them from going unhandled meanwhile
+      outcomes.catch(() => undefined);
+      onOutcomes(outcomes);
+    }
+
+    // Recorded now rather than at the next sync, so cooldowns and the oldest-searched strategy see these searches,
+    // and units searched without a tag aren't picked again before the next unattended reset.
+    // Stamped by each item's own row ID, as getMediaId gives the series for a Sonarr episode
+    statsService.markMediaSearched(processor.instanceId, unitMedia.map(m => m.id), searchedAt);
+    if (!processor.tagsSearched) {
+      statsService.recordSearchedUnits(processor.instanceId, [...units.keys()], searchedAt);
+    }
 
-    // Add tag using editor endpoint
+    // Add tag using editor endpoint (skipped when the service searches narrower units than it tags)
     const tagName = processor.config.tagName;
-    const tagId = await processor.getTagId(processor.config, tagName);
+    const tagId = processor.tagsSearched ? await processor.getTagId(processor.config, tagName) : null;
     if (tagId !== null && mediaIds.length > 0 && tagName) {
       logger.info('🏷️  Applying tag to searched media', {
         instanceId: processor.instanceId,
@@ -328,13 +655,11 @@ export async function processApplication<TMedia extends FilterableMedia>(
       await processor.addTag(processor.config, mediaIds, tagId);
 
       // Update tags in DB immediately so the next conflict check doesn't need a full sync
-      const isSonarr = processor.appType === 'sonarr';
       for (const m of toSearch) {
-        const id = processor.getMediaId(m);
-        const updatedTags = Array.isArray(m.tags) && !m.tags.includes(tagName)
-          ? [...m.tags, tagName]
-          : (m.tags as string[]);
-        statsService.updateMediaTags(processor.instanceId, [id], updatedTags, isSonarr);
+        const id = processor.getTagTargetId(m);
+        const tags = getTagNames(m);
+        const updatedTags = tags.includes(tagName) ? tags : [...tags, tagName];
+        statsService.updateMediaTags(processor.instanceId, [id], updatedTags, getTagColumn(processor.appType, m));
       }
 
       // Track tag in instances table
@@ -342,11 +667,6 @@ export async function processApplication<TMedia extends FilterableMedia>(
       logger.debug(`🏷️  Tagged ${processor.name}`, { mediaIds, tagId, tagName, count: mediaIds.length });
     }
 
-    const items = toSearch.map(m => ({
-      id: processor.getMediaId(m),
-      title: processor.getMediaTitle(m)
-    }));
-
     logger.info(`✅ ${processor.name} search completed`, {
       searched: toSearch.length,
       items: toSearch.map(processor.getMediaTitle),
@@ -361,7 +681,8 @@ export async function processApplication<TMedia extends FilterableMedia>(
     return {
       success: true,
       searched: toSearch.length,
-      items
+      items,
+      counts
     };
   } catch (error: unknown) {
     const { message, stack } = getErrorDetails(error);
@@ -373,7 +694,8 @@ export async function processApplication<TMedia extends FilterableMedia>(
       success: false,
       searched: 0,
       items: [],
-      error: message
+      error: message,
+      counts
     };
   }
 }
@@ -34,6 +34,17 @@ statsRouter.get('/recent', asyncHandler(async (req, res) => {
   res.json(result);
 }));
 
+// Get upgrade effectiveness for searches within the last N days (default: 30)
+statsRouter.get('/upgrades', asyncHandler(async (req, res) => {
+  const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+
+  if (isNaN(days) || days < 1 || days > 365) {
+    return res.status(400).json({ error: 'Days must be between 1 and 365' });
+  }
+
+  res.json(statsService.getUpgradeEffectiveness(days));
+}));
+
 // Reset stats
 statsRouter.post('/reset', asyncHandler(async (req, res) => {
   logger.info('🔄 Stats reset requested');
@@ -2,10 +2,13 @@ import express from 'express';
 import { configService } from '../services/configService.js';
 import { schedulerService } from '../services/schedulerService.js';
 import { syncSchedulerService } from '../services/syncSchedulerService.js';
+import { statsService } from '../services/statsService.js';
 import { testStarrConnection, getConfiguredInstances, APP_TYPES, AppType } from '../utils/starrUtils.js';
 import logger from '../utils/logger.js';
-import { StarrInstanceConfig, StatusResponse, InstanceStatus } from '@scoutarr/shared';
+import { StarrInstanceConfig, StatusResponse, InstanceStatus, APP_DEFINITIONS } from '@scoutarr/shared';
 import { handleRouteError } from '../utils/errorUtils.js';
+import { getSearchBudgetStatus } from '../utils/budgetUtils.js';
+import { getCircuitStatus } from '../utils/httpPolicy.js';
 
 export const statusRouter = express.Router();
 
@@ -60,23 +63,18 @@ statusRouter.get('/', async (req, res) => {
         const instanceId = instance.id;
         const instanceName = instance.name;
         const instanceStatus = await checkAppStatus(appType, instance, instanceName);
+        const circuit = getCircuitStatus(instanceId);
         status[instanceId] = {
           ...instanceStatus,
-          instanceName
+          instanceName,
+          ...(circuit.open && { degraded: true, degradedUntil: circuit.openUntil, lastError: circuit.lastError })
         };
       }
     };
 
     // Check instances for all app types
-    const appTypeNames: Record<AppType, string> = {
-      radarr: 'Radarr',
-      sonarr: 'Sonarr',
-      lidarr: 'Lidarr',
-      readarr: 'Readarr'
-    };
-    
     for (const appType of APP_TYPES) {
-      await checkInstances(appType, appTypeNames[appType]);
+      await checkInstances(appType, APP_DEFINITIONS[appType].name);
     }
 
     // Add scheduler status
@@ -86,13 +84,17 @@ statusRouter.get('/', async (req, res) => {
       enabled: config.scheduler?.enabled || false,
       running: schedulerStatus.running,
       schedule: schedulerStatus.schedule,
-      nextRun: schedulerStatus.nextRun
+      nextRun: schedulerStatus.nextRun,
+      instances: schedulerStatus.instances
     };
 
+    // Add remaining search budgets
+    status.budget = getSearchBudgetStatus(config);
+
     const duration = Date.now() - startTime;
     logger.debug('✅ Status check completed', { 
       duration: `${duration}ms`,
-      instanceCount: Object.keys(status).filter(k => k !== 'scheduler').length,
+      instanceCount: Object.keys(status).filter(k => k !== 'scheduler' && k !== 'budget').length,
       schedulerEnabled: status.scheduler.enabled
     });
     res.json(status);
@@ -101,6 +103,15 @@ statusRouter.get('/', async (req, res) => {
   }
 });
 
+// Get remaining search budgets only (without connection checks)
+statusRouter.get('/budget', async (req, res) => {
+  try {
+    res.json(getSearchBudgetStatus(configService.getConfig()));
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to get search budget');
+  }
+});
+
 // Get scheduler status only (without connection checks)
 statusRouter.get('/scheduler', async (req, res) => {
   try {
@@ -130,12 +141,14 @@ statusRouter.get('/scheduler', async (req, res) => {
         enabled: config.scheduler?.enabled || false,
         running: schedulerStatus.running,
         schedule: schedulerStatus.schedule,
-        nextRun: schedulerStatus.nextRun
+        nextRun: schedulerStatus.nextRun,
+        instances: schedulerStatus.instances
       },
       sync: {
         enabled: syncConfig?.syncEnabled || false,
         schedule: syncSchedule,
-        nextRun: syncNextRun ? syncNextRun.toISOString() : null
+        nextRun: syncNextRun ? syncNextRun.toISOString() : null,
+        lastSync: statsService.getSyncReports()
       }
     });
   } catch (error: unknown) {
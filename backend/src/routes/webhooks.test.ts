@@ -0,0 +1,115 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '@scoutarr/shared';
+import { configService } from '../services/configService.js';
+import { refreshTargetMedia } from '../utils/mediaSync.js';
+import { getProvidedWebhookSecret, webhooksRouter } from './webhooks.js';
+
+vi.mock('../services/configService.js', () => ({
+  configService: { getConfig: vi.fn() }
+}));
+vi.mock('../utils/mediaSync.js', () => ({
+  refreshTargetMedia: vi.fn()
+}));
+
+const SECRET = 'webhook-secret';
+
+const basic = (username: string, password: string) => `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+let server: Server;
+let baseUrl: string;
+
+function post(path: string, headers: Record<string, string> = {}, body: unknown = { eventType: 'Download', movie: { id: 42, title: 'Movie' } }) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/webhooks', webhooksRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.mocked(configService.getConfig).mockReturnValue({
+    applications: {
+      radarr: [
+        { id: 'radarr-1', webhookSecret: SECRET },
+        { id: 'radarr-2', webhookSecret: '' }
+      ]
+    }
+  } as unknown as Config);
+  vi.mocked(refreshTargetMedia).mockReset().mockResolvedValue({ added: 1, changed: 0, removed: 0 });
+});
+
+describe('getProvidedWebhookSecret', () => {
+  it('reads the X-Webhook-Secret header before Basic auth', () => {
+    expect(getProvidedWebhookSecret({ 'x-webhook-secret': SECRET, authorization: basic('user', 'other') })).toBe(SECRET);
+  });
+
+  it('reads the Basic auth password, whatever the username', () => {
+    expect(getProvidedWebhookSecret({ authorization: basic('', SECRET) })).toBe(SECRET);
+    expect(getProvidedWebhookSecret({ authorization: basic('radarr', 'pass:with:colons') })).toBe('pass:with:colons');
+  });
+
+  it('finds nothing in other authorization schemes or repeated headers', () => {
+    expect(getProvidedWebhookSecret({})).toBeUndefined();
+    expect(getProvidedWebhookSecret({ authorization: `Bearer ${SECRET}` })).toBeUndefined();
+    expect(getProvidedWebhookSecret({ authorization: `Basic ${Buffer.from(SECRET).toString('base64')}` })).toBeUndefined();
+    expect(getProvidedWebhookSecret({ 'x-webhook-secret': [SECRET, SECRET] })).toBeUndefined();
+  });
+});
+
+describe('POST /api/webhooks/:appType/:instanceId', () => {
+  it('refreshes the title in the background when the secret matches', async () => {
+    const response = await post('/api/webhooks/radarr/radarr-1', { authorization: basic('radarr', SECRET) });
+
+    expect(response.status).toBe(202);
+    expect(refreshTargetMedia).toHaveBeenCalledWith(expect.objectContaining({
+      instanceId: 'radarr-1',
+      appType: 'radarr',
+      targetId: 42,
+      deleted: false
+    }));
+  });
+
+  it('accepts the secret as a header', async () => {
+    const response = await post('/api/webhooks/radarr/radarr-1', { 'x-webhook-secret': SECRET }, { eventType: 'Test' });
+    expect(response.status).toBe(200);
+  });
+
+  it.each([
+    ['a missing secret', '/api/webhooks/radarr/radarr-1', {}],
+    ['a wrong secret', '/api/webhooks/radarr/radarr-1', { authorization: basic('radarr', 'wrong') }],
+    ['a secret of another length', '/api/webhooks/radarr/radarr-1', { 'x-webhook-secret': `${SECRET}-longer` }],
+    ['a secret in the query string', `/api/webhooks/radarr/radarr-1?secret=${SECRET}`, {}],
+    ['an instance without a secret', '/api/webhooks/radarr/radarr-2', { authorization: basic('radarr', '') }]
+  ])('rejects %s', async (_case, path, headers) => {
+    const response = await post(path, headers);
+    expect(response.status).toBe(401);
+    expect(refreshTargetMedia).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown instances and app types before checking the secret', async () => {
+    expect((await post('/api/webhooks/radarr/radarr-9')).status).toBe(404);
+    expect((await post('/api/webhooks/plex/radarr-1')).status).toBe(400);
+  });
+
+  it('ignores events that change no files', async () => {
+    const response = await post('/api/webhooks/radarr/radarr-1', { 'x-webhook-secret': SECRET }, { eventType: 'Grab', movie: { id: 42 } });
+    expect(response.status).toBe(200);
+    expect(refreshTargetMedia).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import express from 'express';
+import { timingSafeEqual } from 'crypto';
+import { configService } from '../services/configService.js';
+import logger from '../utils/logger.js';
+import { APP_TYPES, AppType } from '../utils/starrUtils.js';
+import { refreshTargetMedia } from '../utils/mediaSync.js';
+import { getErrorMessage, handleRouteError } from '../utils/errorUtils.js';
+import type { StarrInstanceConfig } from '@scoutarr/shared';
+
+export const webhooksRouter = express.Router();
+
+// Events that change a title's files, so its rows and CF scores are refetched
+const REFRESH_EVENTS = new Set(['Download', 'Upgrade', 'Rename', 'MovieFileDelete', 'EpisodeFileDelete', 'BookFileDelete']);
+// Events that remove the title from the *arr library
+const DELETE_EVENTS = new Set(['MovieDelete', 'SeriesDelete', 'ArtistDelete', 'AuthorDelete']);
+// Payload keys holding the movie, series, artist or author an event is about
+const TARGET_KEYS = ['movie', 'series', 'artist', 'author'] as const;
+
+type StarrWebhookPayload = {
+  eventType?: string;
+} & Partial<Record<typeof TARGET_KEYS[number], { id?: number; title?: string }>>;
+
+/**
+ * The secret a webhook request carries: the password of its Basic auth (the Username/Password fields of an
+ * *arr webhook connection) or an X-Webhook-Secret header. Never the query string, which ends up in access logs.
+ */
+export function getProvidedWebhookSecret(headers: { authorization?: string; 'x-webhook-secret'?: string | string[] }): string | undefined {
+  const header = headers['x-webhook-secret'];
+  if (typeof header === 'string' && header) return header;
+
+  const match = /^Basic\s+(\S+)$/i.exec(headers.authorization ?? '');
+  if (!match) return undefined;
+  const credentials = Buffer.from(match[1], 'base64').toString('utf-8');
+  const separator = credentials.indexOf(':');
+  return separator >= 0 ? credentials.slice(separator + 1) : undefined;
+}
+
+function secretMatches(expected: string, provided: unknown): boolean {
+  if (typeof provided !== 'string') return false;
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+// POST /api/webhooks/:appType/:instanceId, with the webhook secret as the Basic auth password
+// Receives *arr Connect > Webhook events and updates the instance's media library straight away
+webhooksRouter.post('/:appType/:instanceId', async (req, res) => {
+  const { appType, instanceId } = req.params;
+  try {
+    if (!APP_TYPES.includes(appType as AppType)) {
+      return res.status(400).json({ error: 'Invalid app type' });
+    }
+
+    const instances = configService.getConfig().applications[appType as AppType] as StarrInstanceConfig[] | undefined;
+    const instance = instances?.find(inst => inst.id === instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instance not found' });
+    }
+
+    // Instances without a secret don't accept webhooks
+    if (!instance.webhookSecret || !secretMatches(instance.webhookSecret, getProvidedWebhookSecret(req.headers))) {
+      logger.warn('⚠️  Rejected webhook with missing or wrong secret', { appType, instanceId });
+      return res.status(401).json({ error: 'Invalid webhook secret' });
+    }
+
+    const payload = (req.body ?? {}) as StarrWebhookPayload;
+    const eventType = payload.eventType ?? '';
+    const targetKey = TARGET_KEYS.find(key => typeof payload[key]?.id === 'number');
+    const deleted = DELETE_EVENTS.has(eventType);
+
+    if (eventType === 'Test') {
+      logger.info('🪝 Webhook test received', { appType, instanceId });
+      return res.json({ success: true, message: 'Webhook received' });
+    }
+    if (!targetKey || (!deleted && !REFRESH_EVENTS.has(eventType))) {
+      logger.debug('🪝 Ignoring webhook event', { appType, instanceId, eventType });
+      return res.json({ success: true, message: `Ignored ${eventType || 'unknown'} event` });
+    }
+
+    const targetId = payload[targetKey]!.id!;
+    logger.info(`🪝 Webhook ${eventType} event for ${targetKey} ${targetId}`, { appType, instanceId, title: payload[targetKey]?.title });
+
+    // The *arr apps time out slow webhooks, so answer first and update the library in the background
+    res.status(202).json({ success: true, message: `Processing ${eventType} event` });
+
+    refreshTargetMedia({ instanceId, appType: appType as AppType, instance, targetId, deleted })
+      .then(counts => {
+        logger.info(`✅ Media library updated from webhook ${eventType} event`, { appType, instanceId, targetId, ...counts });
+      })
+      .catch((error: unknown) => {
+        logger.error(`❌ Failed to apply webhook ${eventType} event`, { appType, instanceId, targetId, error: getErrorMessage(error) });
+      });
+  } catch (error: unknown) {
+    handleRouteError(res, error, 'Failed to process webhook');
+  }
+});
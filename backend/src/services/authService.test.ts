@@ -0,0 +1,134 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let configDir: string;
+
+// The auth file path is fixed when the module loads, so each test loads a fresh copy against its own config dir
+async function loadAuthService() {
+  vi.resetModules();
+  const { default: logger } = await import('../utils/logger.js');
+  const warn = vi.spyOn(logger, 'warn');
+  const { authService } = await import('./authService.js');
+  const getSetupToken = () => {
+    const message = warn.mock.calls.map(([first]) => String(first)).find(text => text.includes('setup token'));
+    return message?.match(/setup token (\w+)/)?.[1];
+  };
+  return { authService, getSetupToken };
+}
+
+const authFile = () => path.join(configDir, 'auth.json');
+
+beforeEach(async () => {
+  configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scoutarr-auth-'));
+  vi.stubEnv('CONFIG_DIR', configDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(configDir, { recursive: true, force: true });
+});
+
+describe('authService.initialize', () => {
+  it('creates auth.json with an API key on first start and asks for the setup token', async () => {
+    const { authService, getSetupToken } = await loadAuthService();
+    await authService.initialize();
+
+    const saved = JSON.parse(await fs.readFile(authFile(), 'utf-8'));
+    expect(saved.apiKey).toMatch(/^[0-9a-f]{32}$/);
+    expect(authService.verifyApiKey(saved.apiKey)).toBe(true);
+    expect(authService.isSetUp()).toBe(false);
+    expect(getSetupToken()).toBeDefined();
+  });
+
+  it('keeps an existing account across restarts', async () => {
+    const first = await loadAuthService();
+    await first.authService.initialize();
+    await first.authService.setup('admin', 'correct horse');
+
+    const { authService, getSetupToken } = await loadAuthService();
+    await authService.initialize();
+    expect(authService.isSetUp()).toBe(true);
+    expect(await authService.verifyCredentials('admin', 'correct horse')).toBe(true);
+    expect(getSetupToken()).toBeUndefined();
+  });
+
+  it.each([
+    ['invalid JSON', '{ not json'],
+    ['a missing API key', JSON.stringify({ sessionSecret: 'secret' })],
+    ['a field of the wrong type', JSON.stringify({ apiKey: 'key', sessionSecret: 'secret', username: 42 })]
+  ])('refuses to start on %s and leaves the file alone', async (_case, content) => {
+    await fs.writeFile(authFile(), content);
+    const { authService } = await loadAuthService();
+
+    await expect(authService.initialize()).rejects.toThrow(authFile());
+    expect(await fs.readFile(authFile(), 'utf-8')).toBe(content);
+  });
+
+  it('refuses to start when auth.json cannot be read', async () => {
+    // A directory in its place fails with EISDIR rather than ENOENT
+    await fs.mkdir(authFile());
+    const { authService } = await loadAuthService();
+
+    await expect(authService.initialize()).rejects.toThrow();
+    expect((await fs.stat(authFile())).isDirectory()).toBe(true);
+  });
+});
+
+describe('authService account setup', () => {
+  it('only accepts the setup token from the log, and only until the account exists', async () => {
+    const { authService, getSetupToken } = await loadAuthService();
+    await authService.initialize();
+    const token = getSetupToken()!;
+
+    expect(authService.verifySetupToken('wrong')).toBe(false);
+    expect(authService.verifySetupToken(token)).toBe(true);
+
+    await authService.setup('admin', 'correct horse');
+    expect(authService.verifySetupToken(token)).toBe(false);
+    await expect(authService.setup('other', 'password')).rejects.toThrow('An account already exists');
+  });
+
+  it('checks the username and password', async () => {
+    const { authService } = await loadAuthService();
+    await authService.initialize();
+    await authService.setup('admin', 'correct horse');
+
+    expect(await authService.verifyCredentials('admin', 'correct horse')).toBe(true);
+    expect(await authService.verifyCredentials('admin', 'wrong')).toBe(false);
+    expect(await authService.verifyCredentials('someone', 'correct horse')).toBe(false);
+  });
+});
+
+describe('authService sessions', () => {
+  it('accepts its own tokens and rejects tampered or expired ones', async () => {
+    const { authService } = await loadAuthService();
+    await authService.initialize();
+    await authService.setup('admin', 'correct horse');
+
+    const token = authService.createSessionToken('admin', 1);
+    expect(authService.verifySessionToken(token)).toBe('admin');
+
+    const [payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ u: 'admin', exp: Date.now() + 10 ** 10 })).toString('base64url');
+    expect(authService.verifySessionToken(`${forged}.${signature}`)).toBeNull();
+    expect(authService.verifySessionToken(`${payload}.`)).toBeNull();
+    expect(authService.verifySessionToken(authService.createSessionToken('admin', -1))).toBeNull();
+  });
+
+  it('signs out every session when the password changes', async () => {
+    const { authService } = await loadAuthService();
+    await authService.initialize();
+    await authService.setup('admin', 'correct horse');
+    const token = authService.createSessionToken('admin', 1);
+
+    expect(await authService.changePassword('wrong', 'new password')).toBe(false);
+    expect(authService.verifySessionToken(token)).toBe('admin');
+
+    expect(await authService.changePassword('correct horse', 'new password')).toBe(true);
+    expect(authService.verifySessionToken(token)).toBeNull();
+    expect(await authService.verifyCredentials('admin', 'new password')).toBe(true);
+  });
+});
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import logger from '../utils/logger.js';
+import { getConfigDir } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errorUtils.js';
+
+const CONFIG_DIR = getConfigDir();
+// Kept out of config.json so credentials never go through the config API
+const AUTH_FILE = path.join(CONFIG_DIR, 'auth.json');
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+interface AuthState {
+  username?: string;
+  passwordHash?: string; // "<salt hex>:<scrypt hash hex>"
+  apiKey: string;
+  sessionSecret: string; // Signs session cookies; rotated on password change to sign out every session
+}
+
+interface SessionPayload {
+  u: string;
+  exp: number;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a);
+  const bBuffer = Buffer.from(b);
+  return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+  const hash = await scryptAsync(password, Buffer.from(saltHex, 'hex'), KEY_LENGTH);
+  const expected = Buffer.from(hashHex, 'hex');
+  return hash.length === expected.length && timingSafeEqual(hash, expected);
+}
+
+/**
+ * Reads auth.json, throwing on anything malformed so a hand-edit mistake stops startup instead of resetting credentials
+ */
+function parseAuthState(content: string): AuthState {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: unknown) {
+    throw new Error(`${AUTH_FILE} is not valid JSON: ${getErrorMessage(error)}`);
+  }
+
+  const state = parsed as Partial<Record<keyof AuthState, unknown>> | null;
+  const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+  if (
+    !state || typeof state !== 'object' ||
+    typeof state.apiKey !== 'string' || !state.apiKey ||
+    typeof state.sessionSecret !== 'string' || !state.sessionSecret ||
+    !isOptionalString(state.username) || !isOptionalString(state.passwordHash)
+  ) {
+    throw new Error(`${AUTH_FILE} is missing apiKey or sessionSecret, or has fields of the wrong type`);
+  }
+  return state as AuthState;
+}
+
+class AuthService {
+  private state: AuthState | null = null;
+  // Printed to the log while no account exists, so only someone with access to the host can claim it
+  private setupToken: string | null = null;
+
+  async initialize(): Promise<void> {
+    logger.debug('⚙️  Initializing auth service', { authFile: AUTH_FILE });
+    try {
+      await fs.mkdir(CONFIG_DIR, { recursive: true });
+      let content: string | null = null;
+      try {
+        content = await fs.readFile(AUTH_FILE, 'utf-8');
+      } catch (error: unknown) {
+        // Anything but a missing file (permissions, I/O) must not be mistaken for a first start and wipe the account
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+
+      if (content !== null) {
+        this.state = parseAuthState(content);
+      } else {
+        // First start - the API key works straight away, the local account is created from the login page
+        this.state = {
+          apiKey: randomBytes(16).toString('hex'),
+          sessionSecret: randomBytes(32).toString('hex')
+        };
+        await this.save();
+        logger.info('🔐 Created auth file with a new API key', { authFile: AUTH_FILE });
+      }
+      if (!this.isSetUp()) {
+        this.setupToken = randomBytes(12).toString('hex');
+        logger.warn(`🔑 No account exists yet. Create one from the login page with the setup token ${this.setupToken}`);
+      }
+      logger.info('✅ Auth service initialized', { accountConfigured: this.isSetUp() });
+    } catch (error: unknown) {
+      logger.error('❌ Error initializing auth service', { error: getErrorMessage(error), authFile: AUTH_FILE });
+      throw error;
+    }
+  }
+
+  private getState(): AuthState {
+    if (!this.state) throw new Error('Auth service not initialized');
+    return this.state;
+  }
+
+  private async save(): Promise<void> {
+    await fs.writeFile(AUTH_FILE, JSON.stringify(this.state, null, 2), { mode: 0o600 });
+  }
+
+  isSetUp(): boolean {
+    return !!this.state?.username && !!this.state.passwordHash;
+  }
+
+  getUsername(): string | undefined {
+    return this.state?.username;
+  }
+
+  /**
+   * Checks the token from the startup log that creating the account requires
+   */
+  verifySetupToken(token: string): boolean {
+    return !!this.setupToken && safeEqual(token, this.setupToken);
+  }
+
+  /**
+   * Creates the local account; only allowed once, later changes go through changePassword
+   */
+  async setup(username: string, password: string): Promise<void> {
+    const state = this.getState();
+    if (this.isSetUp()) {
+      throw new Error('An account already exists');
+    }
+    state.username = username;
+    state.passwordHash = await hashPassword(password);
+    await this.save();
+    this.setupToken = null;
+    logger.info('🔐 Local account created', { username });
+  }
+
+  async verifyCredentials(username: string, password: string): Promise<boolean> {
+    const state = this.getState();
+    if (!state.username || !state.passwordHash) return false;
+    // Always hash, so a wrong username takes as long as a wrong password
+    const passwordMatches = await verifyPassword(password, state.passwordHash);
+    return safeEqual(username, state.username) && passwordMatches;
+  }
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<boolean> {
+    const state = this.getState();
+    if (!state.passwordHash || !(await verifyPassword(currentPassword, state.passwordHash))) {
+      return false;
+    }
+    state.passwordHash = await hashPassword(newPassword);
+    state.sessionSecret = randomBytes(32).toString('hex');
+    await this.save();
+    logger.info('🔐 Password changed, existing sessions signed out', { username: state.username });
+    return true;
+  }
+
+  getApiKey(): string {
+    return this.getState().apiKey;
+  }
+
+  async regenerateApiKey(): Promise<string> {
+    const state = this.getState();
+    state.apiKey = randomBytes(16).toString('hex');
+    await this.save();
+    logger.info('🔐 API key regenerated');
+    return state.apiKey;
+  }
+
+  verifyApiKey(key: string): boolean {
+    return safeEqual(key, this.getState().apiKey);
+  }
+
+  /**
+   * Signed, self-contained session token, so sessions survive restarts without a session store
+   */
+  createSessionToken(username: string, days: number): string {
+    const payload: SessionPayload = { u: username, exp: Date.now() + days * 24 * 60 * 60 * 1000 };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.sign(encoded)}`;
+  }
+
+  /**
+   * Returns the username a session token was issued to, or null when it is forged, expired or from an old password
+   */
+  verifySessionToken(token: string): string | null {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature || !safeEqual(signature, this.sign(encoded))) return null;
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as SessionPayload;
+      if (payload.exp < Date.now() || payload.u !== this.state?.username) return null;
+      return payload.u;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(value: string): string {
+    return createHmac('sha256', this.getState().sessionSecret).update(value).digest('base64url');
+  }
+}
+
+export const authService = new AuthService();
@@ -1,13 +1,107 @@
 import { AxiosInstance } from 'axios';
-import { BaseStarrInstance, StarrQualityProfile } from '@scoutarr/shared';
+import { chunk, delay } from 'es-toolkit';
+import { BaseStarrInstance, StarrQualityProfile, FilterBreakdown, SearchItemOutcome } from '@scoutarr/shared';
+import { configService } from './configService.js';
 import { createStarrClient, getOrCreateTagId } from '../utils/starrUtils.js';
 import logger from '../utils/logger.js';
 import { FilterableMedia } from '../utils/filterUtils.js';
 import { getErrorMessage, getErrorDetails } from '../utils/errorUtils.js';
+import { LIBRARY_REQUEST_TIMEOUT_MS } from '../utils/httpPolicy.js';
+
+// Search commands are polled until they finish, giving up after the timeout
+const COMMAND_POLL_INTERVAL_MS = 5000;
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+const FINISHED_COMMAND_STATUSES = new Set(['completed', 'failed', 'aborted', 'cancelled', 'orphaned']);
+const FAILED_COMMAND_STATUSES = new Set(['failed', 'aborted', 'orphaned']);
+// Recorded for a command whose status couldn't be fetched; it isn't polled again
+const UNKNOWN_COMMAND_STATUS = 'unknown';
+
+// Before dispatching, the instance's command queue is polled until it has room, giving up after the timeout
+const ACTIVE_COMMAND_STATUSES = new Set(['queued', 'started']);
+const QUEUE_POLL_INTERVAL_MS = 10000;
+const QUEUE_WAIT_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface StarrCommand {
+  id: number;
+  name: string;
+  status: string;
+}
+
+interface StarrHistoryRecord {
+  eventType: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Where an app keeps the children searched at its narrower granularity (Lidarr albums, Readarr books)
+ * Field names are the app's own; the parent is the service's media endpoint
+ */
+export interface ChildMediaSource {
+  endpoint: string; // Lists the children, filtered by parent
+  parentIdField: string; // Parent ID on each child, and the filter for children and files
+  fileChildIdField: string; // Child ID on each file
+  parentNameField: string;
+  foreignParentIdField: string;
+  fileCountField: string; // Counts files in parent and child statistics
+  filesField: 'trackFiles' | 'bookFiles';
+  searchCommand: string;
+  searchIdsField: string;
+}
+
+export interface ChildMediaFile {
+  id: number;
+  dateAdded?: string;
+  customFormatScore?: number;
+}
+
+export interface ChildMedia extends FilterableMedia {
+  title: string; // "Parent - Child", so history and the media library read without the parent column
+  childTitle: string;
+  parentName: string;
+  parentId: number; // Tags, status and quality profile live on the parent
+  foreignParentId?: string;
+  hasFile: boolean;
+  trackFiles?: ChildMediaFile[];
+  bookFiles?: ChildMediaFile[];
+}
+
+interface StarrApiParent {
+  id: number;
+  status: string;
+  monitored: boolean;
+  qualityProfileId: number;
+  tags: number[];
+  added?: string;
+  statistics?: Record<string, number | undefined>;
+  [field: string]: unknown;
+}
+
+interface StarrApiChild {
+  id: number;
+  title: string;
+  monitored: boolean;
+  added?: string;
+  lastSearchTime?: string;
+  statistics?: Record<string, number | undefined>;
+  [field: string]: unknown;
+}
+
+interface StarrApiFile {
+  id: number;
+  dateAdded?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Whether a media item is a child fetched by fetchChildMedia rather than a parent
+ */
+export function isChildMedia(media: FilterableMedia): media is ChildMedia {
+  return 'childTitle' in media;
+}
 
 /**
  * Base class for Starr application services
- * Provides common functionality shared across Radarr, Sonarr, Lidarr, and Readarr
+ * Provides common functionality shared across Radarr, Sonarr, Lidarr, Readarr and Whisparr
  */
 export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia extends FilterableMedia> {
   protected abstract readonly appName: string;
@@ -17,11 +111,14 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
   protected abstract readonly editorEndpoint: string;
   protected abstract readonly mediaIdField: 'movieIds' | 'seriesIds' | 'artistIds' | 'authorIds';
 
+  // When the last command went to each instance, keyed by instance ID
+  private readonly lastDispatch = new Map<string, number>();
+
   /**
    * Creates an axios client for API calls
    */
   protected createClient(config: TConfig): AxiosInstance {
-    return createStarrClient(config.url, config.apiKey);
+    return createStarrClient(config.url, config.apiKey, { circuitKey: config.id });
   }
 
   /**
@@ -60,7 +157,7 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
    */
   async getTagId(config: TConfig, tagName: string): Promise<number | null> {
     const client = this.createClient(config);
-    const tagId = await getOrCreateTagId(client, tagName, this.appName);
+    const tagId = await getOrCreateTagId(client, tagName, this.appName, this.apiVersion);
     if (!tagId) {
       logger.warn(`⚠️  [${this.appName}] Failed to get/create tag`, { tagName });
     }
@@ -191,7 +288,16 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
   /**
    * Gets status filter config key name
    */
-  protected abstract getStatusFilterKey(): string | undefined;
+  protected abstract getStatusFilterKey(): (keyof TConfig & string) | undefined;
+
+  /**
+   * Status the instance filters by, from its status filter key
+   */
+  getStatusFilterValue(config: TConfig): string | undefined {
+    const key = this.getStatusFilterKey();
+    const value = key ? config[key] : undefined;
+    return typeof value === 'string' ? value : undefined;
+  }
 
   /**
    * Applies status filter to media
@@ -213,6 +319,49 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     return item.title || item.artistName || item.authorName || 'Unknown';
   }
 
+  /**
+   * Gets the ID tags are applied to - the parent for album- and book-level media, otherwise the media ID
+   */
+  getTagTargetId(media: TMedia): number {
+    return media.parentId ?? this.getMediaId(media);
+  }
+
+  /**
+   * Gets the ID used to deep-link a media item in the *arr web UI - defaults to the media ID
+   */
+  getExternalId(media: TMedia): string | undefined {
+    return String(this.getMediaId(media));
+  }
+
+  /**
+   * Key for the unit a media item is searched as - items sharing a key are searched together
+   */
+  getSearchUnitKey(_config: TConfig, media: TMedia): string {
+    return String(this.getMediaId(media));
+  }
+
+  /**
+   * Label for the part of a media item a search covers, when narrower than the item itself
+   */
+  getSearchUnitLabel(_config: TConfig, _media: TMedia): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Whether searched media should get the instance's tag
+   */
+  tagsSearchedMedia(_config: TConfig): boolean {
+    return true;
+  }
+
+  /**
+   * Searches the selected media items - defaults to searching their media IDs
+   * Returns the IDs of the commands sent
+   */
+  async searchSelected(config: TConfig, media: TMedia[]): Promise<number[]> {
+    return this.searchMedia(config, [...new Set(media.map(m => this.getMediaId(m)))]);
+  }
+
   /**
    * Generic method to fetch media with custom format scores
    * Eliminates duplication across all services
@@ -221,47 +370,145 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     logger.info(`📡 [${this.appName} API] Fetching ${this.getMediaTypeName()}`, { url: config.url, name: config.name });
     try {
       const client = this.createClient(config);
-      const response = await client.get<TMedia[]>(`/api/${this.apiVersion}/${this.mediaEndpoint}`);
-      const media = response.data;
+      const response = await client.get<TMedia[]>(`/api/${this.apiVersion}/${this.mediaEndpoint}`, { timeout: LIBRARY_REQUEST_TIMEOUT_MS });
+      return await this.attachCustomFormatScores(client, response.data);
+    } catch (error: unknown) {
+      this.logError(`Failed to fetch ${this.getMediaTypeName()}`, error, { url: config.url, name: config.name });
+      throw error;
+    }
+  }
 
-      // Extract file IDs for custom format score fetching
-      const fileIds = this.extractFileIds(media);
-      
-      if (fileIds.length > 0) {
-        logger.debug(`📦 [${this.appName} API] Extracting file IDs for custom format scores`, {
-          fileCount: fileIds.length,
-          totalMedia: media.length
-        });
+  /**
+   * Fetches custom format scores for the media's files and applies them to the media items
+   */
+  protected async attachCustomFormatScores(client: AxiosInstance, media: TMedia[]): Promise<TMedia[]> {
+    // Extract file IDs for custom format score fetching
+    const fileIds = this.extractFileIds(media);
+
+    if (fileIds.length > 0) {
+      logger.debug(`📦 [${this.appName} API] Extracting file IDs for custom format scores`, {
+        fileCount: fileIds.length,
+        totalMedia: media.length
+      });
 
-        const { fetchCustomFormatScores } = await import('../utils/customFormatUtils.js');
-        const fileScoresMap = await fetchCustomFormatScores({
-          client,
-          apiVersion: this.apiVersion,
-          endpoint: this.getFileEndpoint(),
-          paramName: this.getFileParamName(),
-          fileIds,
-          appName: this.appName
-        });
+      const { fetchCustomFormatScores } = await import('../utils/customFormatUtils.js');
+      const fileScoresMap = await fetchCustomFormatScores({
+        client,
+        apiVersion: this.apiVersion,
+        endpoint: this.getFileEndpoint(),
+        paramName: this.getFileParamName(),
+        fileIds,
+        appName: this.appName
+      });
 
-        logger.debug(`✅ [${this.appName} API] Retrieved custom format scores`, {
-          scoresFound: fileScoresMap.size,
-          fileIdsRequested: fileIds.length
-        });
+      logger.debug(`✅ [${this.appName} API] Retrieved custom format scores`, {
+        scoresFound: fileScoresMap.size,
+        fileIdsRequested: fileIds.length
+      });
 
-        const mediaWithScores = this.applyCustomFormatScores(media, fileScoresMap);
+      const mediaWithScores = this.applyCustomFormatScores(media, fileScoresMap);
 
-        logger.info(`✅ [${this.appName} API] Media fetch completed`, {
-          total: mediaWithScores.length,
-          withCustomScores: fileIds.length
-        });
+      logger.info(`✅ [${this.appName} API] Media fetch completed`, {
+        total: mediaWithScores.length,
+        withCustomScores: fileIds.length
+      });
+
+      return mediaWithScores;
+    }
+
+    logger.info(`✅ [${this.appName} API] Media fetch completed`, { total: media.length });
+    return media;
+  }
+
+  /**
+   * Fetches every child (or one parent's children) with its parent's tags, status and quality profile, and its files
+   * The caller attaches the files' custom format scores
+   */
+  protected async fetchChildMedia(
+    client: AxiosInstance,
+    config: TConfig,
+    source: ChildMediaSource,
+    parentId?: number
+  ): Promise<ChildMedia[]> {
+    const childTypeName = `${source.endpoint}s`;
+    logger.info(`📡 [${this.appName} API] Fetching ${childTypeName}`, { url: config.url, name: config.name, parentId });
+    try {
+      const [parentList, childResponse] = await Promise.all([
+        parentId
+          ? client.get<StarrApiParent>(`/api/${this.apiVersion}/${this.mediaEndpoint}/${parentId}`).then(response => [response.data])
+          : client.get<StarrApiParent[]>(`/api/${this.apiVersion}/${this.mediaEndpoint}`, { timeout: LIBRARY_REQUEST_TIMEOUT_MS }).then(response => response.data),
+        client.get<StarrApiChild[]>(`/api/${this.apiVersion}/${source.endpoint}`, {
+          params: parentId ? { [source.parentIdField]: parentId } : undefined,
+          timeout: LIBRARY_REQUEST_TIMEOUT_MS
+        })
+      ]);
+      const parents = new Map(parentList.map(p => [p.id, p]));
+
+      // Files can only be listed per parent, so group them by child
+      const filesByChild = new Map<number, ChildMediaFile[]>();
+      for (const parent of parentList) {
+        if (!parent.statistics?.[source.fileCountField]) continue;
+        try {
+          const response = await client.get<StarrApiFile[]>(
+            `/api/${this.apiVersion}/${this.getFileEndpoint()}`,
+            { params: { [source.parentIdField]: parent.id } }
+          );
+          for (const file of response.data) {
+            const childId = Number(file[source.fileChildIdField]);
+            const files = filesByChild.get(childId) ?? [];
+            files.push({ id: file.id, dateAdded: file.dateAdded });
+            filesByChild.set(childId, files);
+          }
+        } catch (error: unknown) {
+          this.logError(`Failed to fetch files for ${this.mediaEndpoint} ${parent.id} (${String(parent[source.parentNameField])})`, error);
+        }
+      }
 
-        return mediaWithScores;
+      const children: ChildMedia[] = [];
+      for (const child of childResponse.data) {
+        const parent = parents.get(Number(child[source.parentIdField]));
+        if (!parent) continue;
+        const parentName = String(parent[source.parentNameField]);
+        const foreignParentId = parent[source.foreignParentIdField];
+        children.push({
+          id: child.id,
+          title: `${parentName} - ${child.title}`,
+          childTitle: child.title,
+          parentName,
+          parentId: parent.id,
+          foreignParentId: typeof foreignParentId === 'string' ? foreignParentId : undefined,
+          monitored: parent.monitored && child.monitored,
+          tags: parent.tags,
+          status: parent.status,
+          qualityProfileId: parent.qualityProfileId,
+          hasFile: (child.statistics?.[source.fileCountField] ?? 0) > 0,
+          lastSearchTime: child.lastSearchTime,
+          added: child.added ?? parent.added,
+          [source.filesField]: filesByChild.get(child.id)
+        });
       }
 
-      logger.info(`✅ [${this.appName} API] Media fetch completed`, { total: media.length });
-      return media;
+      logger.info(`✅ [${this.appName} API] Fetched ${children.length} ${childTypeName} across ${parents.size} ${this.getMediaTypeName()}`);
+      return children;
     } catch (error: unknown) {
-      this.logError(`Failed to fetch ${this.getMediaTypeName()}`, error, { url: config.url, name: config.name });
+      this.logError(`Failed to fetch ${childTypeName}`, error, { url: config.url, name: config.name });
+      throw error;
+    }
+  }
+
+  /**
+   * Searches children fetched by fetchChildMedia, in batches
+   */
+  protected async searchChildMedia(config: TConfig, source: ChildMediaSource, childIds: number[]): Promise<number[]> {
+    const childTypeName = `${source.endpoint}s`;
+    logger.info(`🔍 [${this.appName} API] Searching ${childTypeName}`, { name: config.name, count: childIds.length });
+    try {
+      const client = this.createClient(config);
+      const commandIds = await this.dispatchBatchCommand(config, client, source.searchCommand, source.searchIdsField, childIds);
+      logger.info(`✅ [${this.appName} API] ${source.searchCommand} commands sent`, { count: childIds.length, commandIds });
+      return commandIds;
+    } catch (error: unknown) {
+      this.logError(`Failed to search ${childTypeName}`, error, { childIds, url: config.url, name: config.name });
       throw error;
     }
   }
@@ -270,7 +517,7 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
    * Generic method to search media
    * Handles both single and batch search commands
    */
-  protected async searchMediaItems(config: TConfig, mediaIds: number[], searchOneByOne: boolean = false): Promise<void> {
+  protected async searchMediaItems(config: TConfig, mediaIds: number[], searchOneByOne: boolean = false): Promise<number[]> {
     const commandName = this.getSearchCommandName();
     logger.info(`🔍 [${this.appName} API] Searching ${this.getMediaTypeName()}`, {
       name: config.name,
@@ -279,24 +526,23 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     
     try {
       const client = this.createClient(config);
+      const commandIds: number[] = [];
       
       if (searchOneByOne) {
         // For apps that only support one-at-a-time search
         for (const mediaId of mediaIds) {
-          await client.post(`/api/${this.apiVersion}/command`, {
+          commandIds.push(await this.dispatchCommand(config, client, {
             name: commandName,
             [this.mediaIdField.slice(0, -1)]: mediaId // Remove 's' from field name for single item
-          });
+          }));
         }
       } else {
         // For apps that support batch search (e.g., Radarr)
-        await client.post(`/api/${this.apiVersion}/command`, {
-          name: commandName,
-          [this.mediaIdField]: mediaIds
-        });
+        commandIds.push(...await this.dispatchBatchCommand(config, client, commandName, this.mediaIdField, mediaIds));
       }
       
-      logger.info(`✅ [${this.appName} API] Search command sent`, { count: mediaIds.length });
+      logger.info(`✅ [${this.appName} API] Search command sent`, { count: mediaIds.length, commandIds });
+      return commandIds;
     } catch (error: unknown) {
       this.logError(`Failed to search ${this.getMediaTypeName()}`, error, {
         mediaIds,
@@ -308,43 +554,203 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     }
   }
 
+  /**
+   * Sends a command and returns its ID, so the command can be followed until it finishes
+   * Commands to an instance are spaced by the configured delay and held back while its queue is busy
+   */
+  protected async dispatchCommand(config: TConfig, client: AxiosInstance, body: Record<string, unknown>): Promise<number> {
+    const { commandDelaySeconds, maxQueuedSearches } = configService.getConfig().dispatch;
+
+    const wait = (this.lastDispatch.get(config.id) ?? 0) + commandDelaySeconds * 1000 - Date.now();
+    if (wait > 0) {
+      await delay(wait);
+    }
+    if (maxQueuedSearches > 0) {
+      await this.waitForCommandQueue(config, client, maxQueuedSearches);
+    }
+
+    const response = await client.post<StarrCommand>(`/api/${this.apiVersion}/command`, body);
+    this.lastDispatch.set(config.id, Date.now());
+    return response.data.id;
+  }
+
+  /**
+   * Sends a batch command in chunks of the configured batch size, returning every command ID
+   */
+  protected async dispatchBatchCommand(
+    config: TConfig,
+    client: AxiosInstance,
+    name: string,
+    idsField: string,
+    ids: number[]
+  ): Promise<number[]> {
+    const { batchSize } = configService.getConfig().dispatch;
+    const commandIds: number[] = [];
+    for (const batch of chunk(ids, batchSize)) {
+      commandIds.push(await this.dispatchCommand(config, client, { name, [idsField]: batch }));
+    }
+    return commandIds;
+  }
+
+  /**
+   * Waits until fewer than maxQueued search commands are queued or running on the instance
+   * Gives up after the queue timeout so a stuck command can't stall a run forever
+   */
+  private async waitForCommandQueue(config: TConfig, client: AxiosInstance, maxQueued: number): Promise<void> {
+    const deadline = Date.now() + QUEUE_WAIT_TIMEOUT_MS;
+    for (;;) {
+      const response = await client.get<StarrCommand[]>(`/api/${this.apiVersion}/command`);
+      const active = response.data.filter(command =>
+        ACTIVE_COMMAND_STATUSES.has(command.status) && command.name.endsWith('Search')
+      ).length;
+      if (active < maxQueued) return;
+
+      if (Date.now() >= deadline) {
+        logger.warn(`⚠️  [${this.appName} API] Command queue still busy, sending search anyway`, { name: config.name, active, maxQueued });
+        return;
+      }
+      logger.info(`⏳ [${this.appName} API] Waiting for command queue`, { name: config.name, active, maxQueued });
+      await delay(QUEUE_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Polls commands until they all finish or the timeout passes
+   * Returns each command's last known status, in order
+   */
+  protected async waitForCommands(client: AxiosInstance, commandIds: number[]): Promise<string[]> {
+    const statuses = new Map<number, string>();
+    const deadline = Date.now() + COMMAND_TIMEOUT_MS;
+    let pending = [...new Set(commandIds)];
+
+    while (pending.length > 0) {
+      for (const id of pending) {
+        try {
+          const response = await client.get<StarrCommand>(`/api/${this.apiVersion}/command/${id}`);
+          statuses.set(id, response.data.status);
+        } catch (error: unknown) {
+          // One command that can't be checked mustn't discard what the others report
+          logger.warn(`⚠️  [${this.appName} API] Could not check search command`, { commandId: id, error: getErrorMessage(error) });
+          statuses.set(id, UNKNOWN_COMMAND_STATUS);
+        }
+      }
+      pending = pending.filter(id => {
+        const status = statuses.get(id)!;
+        return status !== UNKNOWN_COMMAND_STATUS && !FINISHED_COMMAND_STATUSES.has(status);
+      });
+      if (pending.length === 0 || Date.now() >= deadline) break;
+      await delay(COMMAND_POLL_INTERVAL_MS);
+    }
+
+    return commandIds.map(id => statuses.get(id)!);
+  }
+
+  /**
+   * History records since the given time, optionally narrowed to one event type
+   */
+  protected async fetchHistorySince(client: AxiosInstance, since: Date, eventType?: string): Promise<StarrHistoryRecord[]> {
+    const response = await client.get<StarrHistoryRecord[]>(`/api/${this.apiVersion}/history/since`, {
+      params: { date: since.toISOString(), eventType }
+    });
+    return response.data;
+  }
+
+  /**
+   * History field and ID a grab must match for a searched item to count as grabbed
+   * Defaults to the tag target (movie, series, artist or author)
+   */
+  getGrabMatch(_config: TConfig, media: TMedia): { field: string; id: number } {
+    return { field: this.mediaIdField.slice(0, -1), id: this.getTagTargetId(media) };
+  }
+
+  /**
+   * Waits for search commands to finish, then checks grab history since the search for each searched item
+   * Returns one outcome per item, in order. Items are only marked failed, timed out or unknown when nothing was grabbed,
+   * and since commands may cover several items, one failed command marks every item without a grab as failed
+   */
+  async getSearchOutcomes(config: TConfig, media: TMedia[], commandIds: number[], since: Date): Promise<SearchItemOutcome[]> {
+    const client = this.createClient(config);
+    const statuses = await this.waitForCommands(client, commandIds);
+    const failed = statuses.some(status => FAILED_COMMAND_STATUSES.has(status));
+    const unknown = statuses.some(status => status === UNKNOWN_COMMAND_STATUS);
+    const timedOut = statuses.some(status => status !== UNKNOWN_COMMAND_STATUS && !FINISHED_COMMAND_STATUSES.has(status));
+
+    const grabs = (await this.fetchHistorySince(client, since, 'grabbed')).filter(record => record.eventType === 'grabbed');
+
+    const outcomes = media.map((m): SearchItemOutcome => {
+      const { field, id } = this.getGrabMatch(config, m);
+      if (grabs.some(record => record[field] === id)) return 'grabbed';
+      if (failed) return 'failed';
+      if (timedOut) return 'timedOut';
+      if (unknown) return 'unknown';
+      return 'nothingFound';
+    });
+
+    logger.info(`📥 [${this.appName} API] Search outcomes`, {
+      name: config.name,
+      commands: commandIds.length,
+      grabbed: outcomes.filter(outcome => outcome === 'grabbed').length,
+      failed,
+      timedOut,
+      unknown
+    });
+    return outcomes;
+  }
+
   /**
    * Generic method to filter media
    * Applies common filters and optional status filter
    */
-  protected async filterMediaItems(config: TConfig, media: TMedia[]): Promise<TMedia[]> {
+  protected async filterMediaItems(config: TConfig, media: TMedia[], breakdown?: FilterBreakdown): Promise<TMedia[]> {
     logger.info(`🔽 [${this.appName}] Starting ${this.getMediaTypeName()} filtering`, {
       totalMedia: media.length,
       name: config.name,
       filters: {
-        monitored: (config as any).monitored,
-        tagName: (config as any).tagName,
-        ignoreTag: (config as any).ignoreTag,
-        qualityProfileName: (config as any).qualityProfileName,
-        missingOnly: (config as any).missingOnly,
-        statusFilter: (config as any)[this.getStatusFilterKey() || '']
+        monitored: config.monitored,
+        tagName: config.tagName,
+        ignoreTag: config.ignoreTag,
+        includeTags: config.includeTags,
+        includeTagsMode: config.includeTagsMode,
+        excludeTags: config.excludeTags,
+        qualityProfileName: config.qualityProfileName,
+        qualityProfileIds: config.qualityProfileIds,
+        missingOnly: config.missingOnly,
+        cutoffUnmetOnly: config.cutoffUnmetOnly,
+        minImportAgeDays: config.minImportAgeDays,
+        minAddedAgeDays: config.minAddedAgeDays,
+        searchCooldownDays: config.searchCooldownDays,
+        statusFilter: this.getStatusFilterValue(config)
       }
     });
     
     try {
       const initialCount = media.length;
-      const { applyCommonFilters } = await import('../utils/filterUtils.js');
+      const { applyCommonFilters, recordRemoved } = await import('../utils/filterUtils.js');
 
       // Apply common filters (monitored, tag, quality profile, ignore tag)
       logger.debug(`🔽 [${this.appName}] Applying common filters`, { count: media.length });
       let filtered = await applyCommonFilters(
         media,
         {
-          monitored: (config as any).monitored,
-          tagName: (config as any).tagName,
-          ignoreTag: (config as any).ignoreTag,
-          qualityProfileName: (config as any).qualityProfileName,
-          missingOnly: (config as any).missingOnly,
+          monitored: config.monitored,
+          tagName: config.tagName,
+          ignoreTag: config.ignoreTag,
+          includeTags: config.includeTags,
+          includeTagsMode: config.includeTagsMode,
+          excludeTags: config.excludeTags,
+          qualityProfileName: config.qualityProfileName,
+          qualityProfileIds: config.qualityProfileIds,
+          missingOnly: config.missingOnly,
+          cutoffUnmetOnly: config.cutoffUnmetOnly,
+          minImportAgeDays: config.minImportAgeDays,
+          minAddedAgeDays: config.minAddedAgeDays,
+          searchCooldownDays: config.searchCooldownDays,
           getQualityProfiles: () => this.getQualityProfiles(config),
           getTagId: (tagName: string) => this.getTagId(config, tagName)
         },
         this.appName,
-        this.getMediaTypeName()
+        this.getMediaTypeName(),
+        breakdown
       );
       
       logger.debug(`✅ [${this.appName}] Common filters applied`, {
@@ -356,7 +762,7 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
       // Apply status filter if configured
       const statusFilterKey = this.getStatusFilterKey();
       if (statusFilterKey) {
-        const statusValue = (config as any)[statusFilterKey];
+        const statusValue = this.getStatusFilterValue(config);
         if (statusValue && statusValue !== 'any') {
           const beforeStatusFilter = filtered.length;
           logger.debug(`🔽 [${this.appName}] Applying status filter`, {
@@ -366,6 +772,7 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
           });
           
           filtered = this.applyStatusFilter(filtered, statusValue);
+          recordRemoved(breakdown, 'status', beforeStatusFilter, filtered.length);
           
           logger.debug(`✅ [${this.appName}] Status filter applied`, {
             status: statusValue,
@@ -395,6 +802,21 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     }
   }
 
+  /**
+   * Fetches a single media item live from the arr API, for the fields conflict checks need.
+   * Override when the searched items are children whose tags, status and profile live on a parent.
+   */
+  protected async fetchLiveMedia(
+    client: AxiosInstance,
+    _config: TConfig,
+    id: number
+  ): Promise<{ id: number; tags?: number[]; status?: string; qualityProfileId?: number }> {
+    const response = await client.get<{ id: number; tags?: number[]; status?: string; qualityProfileId?: number }>(
+      `/api/${this.apiVersion}/${this.mediaEndpoint}/${id}`
+    );
+    return response.data;
+  }
+
   /**
    * Fetches live tag names for specific media IDs directly from the arr API.
    * Returns a map of mediaId → string[] of tag names.
@@ -408,8 +830,8 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     const result = new Map<number, string[]>();
     await Promise.all(ids.map(async (id) => {
       try {
-        const response = await client.get<{ id: number; tags: number[]; status?: string }>(`/api/${this.apiVersion}/${this.mediaEndpoint}/${id}`);
-        const tagNames = (response.data.tags ?? []).map(tid => tagIdToName.get(tid) ?? `unknown-${tid}`);
+        const media = await this.fetchLiveMedia(client, config, id);
+        const tagNames = (media.tags ?? []).map(tid => tagIdToName.get(tid) ?? `unknown-${tid}`);
         result.set(id, tagNames);
       } catch (error: unknown) {
         logger.warn(`⚠️  [${this.appName}] Failed to fetch live tags for id ${id}`, { error: getErrorMessage(error) });
@@ -428,8 +850,8 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     const result = new Map<number, string>();
     await Promise.all(ids.map(async (id) => {
       try {
-        const response = await client.get<{ id: number; status: string }>(`/api/${this.apiVersion}/${this.mediaEndpoint}/${id}`);
-        result.set(id, response.data.status ?? '');
+        const media = await this.fetchLiveMedia(client, config, id);
+        result.set(id, media.status ?? '');
       } catch (error: unknown) {
         logger.warn(`⚠️  [${this.appName}] Failed to fetch live status for id ${id}`, { error: getErrorMessage(error) });
         result.set(id, '');
@@ -438,22 +860,66 @@ export abstract class BaseStarrService<TConfig extends BaseStarrInstance, TMedia
     return result;
   }
 
+  /**
+   * Fetches live quality profile IDs for specific media IDs directly from the arr API.
+   * Returns a map of mediaId → quality profile ID (undefined when unavailable).
+   */
+  async getLiveQualityProfileIdsForIds(config: TConfig, ids: number[]): Promise<Map<number, number | undefined>> {
+    const client = this.createClient(config);
+    const result = new Map<number, number | undefined>();
+    await Promise.all(ids.map(async (id) => {
+      try {
+        const media = await this.fetchLiveMedia(client, config, id);
+        result.set(id, media.qualityProfileId);
+      } catch (error: unknown) {
+        logger.warn(`⚠️  [${this.appName}] Failed to fetch live quality profile for id ${id}`, { error: getErrorMessage(error) });
+        result.set(id, undefined);
+      }
+    }));
+    return result;
+  }
+
   /**
    * Fetches all media items from the Starr application
    * Must be implemented by each service
    */
   abstract getMedia(config: TConfig): Promise<TMedia[]>;
 
+  /**
+   * Fetches the media items of one movie, series, artist or author, shaped as getMedia returns them
+   * Lets a webhook event refresh a single title without a full sync
+   */
+  async getMediaForTarget(config: TConfig, targetId: number): Promise<TMedia[]> {
+    const client = this.createClient(config);
+    const response = await client.get<TMedia>(`/api/${this.apiVersion}/${this.mediaEndpoint}/${targetId}`);
+    return this.attachCustomFormatScores(client, [response.data]);
+  }
+
+  /**
+   * Whether getMediaSince can refetch only what changed; syncs of other apps always fetch everything
+   */
+  supportsIncrementalSync(): boolean {
+    return false;
+  }
+
+  /**
+   * Fetches all media items, refetching only what changed since the last sync where the app allows it
+   * `cached` holds the items stored by earlier syncs. Defaults to a full fetch
+   */
+  async getMediaSince(config: TConfig, _since: Date, _cached: TMedia[]): Promise<TMedia[]> {
+    return this.getMedia(config);
+  }
+
   /**
    * Filters media items based on configuration
    * Must be implemented by each service for app-specific status filtering
    */
-  abstract filterMedia(config: TConfig, media: TMedia[]): Promise<TMedia[]>;
+  abstract filterMedia(config: TConfig, media: TMedia[], breakdown?: FilterBreakdown): Promise<TMedia[]>;
 
   /**
-   * Searches for media items
+   * Searches for media items and returns the IDs of the commands sent
    * Must be implemented by each service for app-specific search logic
    */
-  abstract searchMedia(config: TConfig, mediaIds: number[]): Promise<void>;
+  abstract searchMedia(config: TConfig, mediaIds: number[]): Promise<number[]>;
 }
 
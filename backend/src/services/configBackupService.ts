@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Config, ConfigBackup, ConfigBackupReason } from '@scoutarr/shared';
+import logger from '../utils/logger.js';
+import { getConfigDir } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errorUtils.js';
+
+export const DEFAULT_BACKUP_RETENTION = 20;
+
+const BACKUP_DIR = path.join(getConfigDir(), 'backups');
+// config-<ISO timestamp with : and . swapped for ->-<reason>.json, so names sort by age and are safe on every filesystem
+const BACKUP_ID_PATTERN = /^config-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-(save|reset|migration|restore|import)$/;
+
+function toBackupId(date: Date, reason: ConfigBackupReason): string {
+  return `config-${date.toISOString().replace(/[:.]/g, '-')}-${reason}`;
+}
+
+function parseBackupId(id: string): { createdAt: string; reason: ConfigBackupReason } | null {
+  const match = BACKUP_ID_PATTERN.exec(id);
+  if (!match) return null;
+  const [, stamp, reason] = match;
+  // 2026-10-19T19-45-16-123Z → 2026-10-19T19:45:16.123Z
+  const createdAt = stamp.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z');
+  return { createdAt, reason: reason as ConfigBackupReason };
+}
+
+class ConfigBackupService {
+  /**
+   * Copies the config file into the backup directory and prunes backups past the retention count
+   * Returns null when there is no config file yet.
+   */
+  async createBackup(configFile: string, reason: ConfigBackupReason, retention: number): Promise<ConfigBackup | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(configFile, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    await fs.mkdir(BACKUP_DIR, { recursive: true });
+    const id = toBackupId(new Date(), reason);
+    await fs.writeFile(path.join(BACKUP_DIR, `${id}.json`), content);
+    logger.debug('🗄️  Config backup created', { id, reason });
+
+    await this.prune(retention);
+    return this.describe(id, content);
+  }
+
+  /**
+   * Backups newest first
+   */
+  async listBackups(): Promise<ConfigBackup[]> {
+    const ids = await this.listIds();
+    const backups = await Promise.all(ids.map(async id => {
+      const content = await fs.readFile(path.join(BACKUP_DIR, `${id}.json`), 'utf-8');
+      return this.describe(id, content);
+    }));
+    return backups.filter((backup): backup is ConfigBackup => backup !== null);
+  }
+
+  /**
+   * Parsed contents of a backup, or null when no backup has that ID
+   */
+  async readBackup(id: string): Promise<Config | null> {
+    if (!parseBackupId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(path.join(BACKUP_DIR, `${id}.json`), 'utf-8')) as Config;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(BACKUP_DIR);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .filter(id => parseBackupId(id) !== null)
+        .sort()
+        .reverse();
+    } catch {
+      return [];
+    }
+  }
+
+  private async prune(retention: number): Promise<void> {
+    const expired = (await this.listIds()).slice(retention);
+    for (const id of expired) {
+      try {
+        await fs.unlink(path.join(BACKUP_DIR, `${id}.json`));
+      } catch (error: unknown) {
+        logger.warn('⚠️  Failed to delete old config backup', { id, error: getErrorMessage(error) });
+      }
+    }
+    if (expired.length > 0) {
+      logger.debug('🧹 Pruned old config backups', { count: expired.length, retention });
+    }
+  }
+
+  private describe(id: string, content: string): ConfigBackup | null {
+    const parsed = parseBackupId(id);
+    if (!parsed) return null;
+    let version: number | null = null;
+    try {
+      const json = JSON.parse(content) as { version?: unknown };
+      version = typeof json.version === 'number' ? json.version : 0;
+    } catch {
+      // Unparseable backups are still listed so they can be inspected on disk
+    }
+    return { id, ...parsed, version, size: Buffer.byteLength(content) };
+  }
+}
+
+export const configBackupService = new ConfigBackupService();
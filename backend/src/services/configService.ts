@@ -1,16 +1,47 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { Config, configSchema } from '@scoutarr/shared';
+import {
+  APP_TYPES,
+  Config,
+  CONFIG_VERSION,
+  configSchema,
+  SECRET_PLACEHOLDER,
+  type ConfigBackupReason,
+  type ConfigDiffEntry
+} from '@scoutarr/shared';
 import logger, { startOperation } from '../utils/logger.js';
 import { getConfigDir } from '../utils/paths.js';
 import { getErrorMessage } from '../utils/errorUtils.js';
+import {
+  collectConfigSecrets,
+  isSecretReference,
+  mapConfigSecrets,
+  maskConfigSecrets,
+  resolveSecretReference
+} from '../utils/secretUtils.js';
+import {
+  applyEnvOverrides,
+  listEnvLockedFields,
+  readEnvOverrides,
+  revertEnvOverrides,
+  type EnvOverride
+} from '../utils/envConfigUtils.js';
+import { getConfigVersion, migrateConfig } from '../utils/configMigrations.js';
+import { diffConfigs } from '../utils/configDiffUtils.js';
+import { configBackupService, DEFAULT_BACKUP_RETENTION } from './configBackupService.js';
 
 const CONFIG_DIR = getConfigDir();
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 const CONFIG_EXAMPLE = path.join(CONFIG_DIR, 'config.example.json');
 
 class ConfigService {
+  // Secret references resolved to their values; what the rest of the app uses
   private config: Config | null = null;
+  // Environment overrides applied, secret references kept
+  private rawConfig: Config | null = null;
+  // As written to config.json, without environment overrides
+  private fileConfig: Config | null = null;
+  private envOverrides: EnvOverride[] = [];
 
   async initialize(): Promise<void> {
     const endOp = startOperation('ConfigService.initialize', { configDir: CONFIG_DIR, configFile: CONFIG_FILE });
@@ -39,6 +70,13 @@ class ConfigService {
         }
       }
 
+      this.envOverrides = readEnvOverrides();
+      if (this.envOverrides.length > 0) {
+        logger.info('🌱 Config fields set by environment variables', {
+          variables: this.envOverrides.map(override => override.name)
+        });
+      }
+
       await this.loadConfig();
       logger.info('✅ Configuration initialized successfully', { configFile: CONFIG_FILE });
       endOp();
@@ -56,6 +94,7 @@ class ConfigService {
     const endOp = startOperation('ConfigService.createDefaultConfig', { configFile: CONFIG_FILE });
     logger.debug('Creating default configuration file', { configFile: CONFIG_FILE });
     const defaultConfig: Config = {
+      version: CONFIG_VERSION,
       notifications: {
         discordWebhook: '',
         notifiarrPassthroughWebhook: '',
@@ -67,7 +106,8 @@ class ConfigService {
         radarr: [],
         sonarr: [],
         lidarr: [],
-        readarr: []
+        readarr: [],
+        whisparr: []
       },
       scheduler: {
         enabled: false,
@@ -76,7 +116,33 @@ class ConfigService {
       },
       tasks: {
         syncSchedule: '0 3 * * *', // Default: 3am daily
-        syncEnabled: true
+        syncEnabled: true,
+        fullSyncIntervalHours: 24
+      },
+      budget: {
+        maxSearches: 0, // No global budget by default
+        windowHours: 24
+      },
+      dispatch: {
+        commandDelaySeconds: 2,
+        maxQueuedSearches: 3,
+        batchSize: 50,
+        instanceConcurrency: 2
+      },
+      prowlarr: {
+        enabled: false,
+        url: '',
+        apiKey: '',
+        queryLimitThreshold: 90
+      },
+      auth: {
+        enabled: true,
+        forwardAuthHeader: '',
+        trustedProxies: [],
+        sessionDays: 30
+      },
+      backups: {
+        retention: 20
       }
     };
 
@@ -92,17 +158,29 @@ class ConfigService {
       const content = await fs.readFile(CONFIG_FILE, 'utf-8');
       logger.debug('✅ Config file read successfully', { size: content.length });
       
-      const parsedJson = JSON.parse(content);
-      const validatedConfig = configSchema.parse(parsedJson) as unknown as Config;
+      let parsedJson = JSON.parse(content);
+      const fileVersion = getConfigVersion(parsedJson);
+      if (fileVersion < CONFIG_VERSION) {
+        // Keep the file as it was before migrating, so an upgrade can be rolled back
+        await configBackupService.createBackup(CONFIG_FILE, 'migration', parsedJson.backups?.retention ?? DEFAULT_BACKUP_RETENTION);
+        parsedJson = migrateConfig(parsedJson);
+        await fs.writeFile(CONFIG_FILE, JSON.stringify(parsedJson, null, 2));
+        logger.info('⬆️  Config migrated', { from: fileVersion, to: CONFIG_VERSION });
+      } else if (fileVersion > CONFIG_VERSION) {
+        logger.warn('⚠️  Config was written by a newer version of Scoutarr', { fileVersion, supportedVersion: CONFIG_VERSION });
+      }
+      const mergedJson = applyEnvOverrides(parsedJson, this.envOverrides);
+      // An unreadable reference shouldn't stop startup; that secret is left empty until it is fixed
+      const { config: resolvedJson, references } = await this.resolveSecretReferences(mergedJson, false);
+      const validatedConfig = configSchema.parse(resolvedJson) as unknown as Config;
 
-      const instanceCounts = {
-        radarr: validatedConfig.applications.radarr.length,
-        sonarr: validatedConfig.applications.sonarr.length,
-        lidarr: validatedConfig.applications.lidarr.length,
-        readarr: validatedConfig.applications.readarr.length
-      };
+      const instanceCounts = Object.fromEntries(
+        APP_TYPES.map(appType => [appType, validatedConfig.applications[appType].length])
+      );
 
       this.config = validatedConfig;
+      this.rawConfig = mapConfigSecrets(validatedConfig, (value, key) => references.get(key) ?? value);
+      this.fileConfig = parsedJson;
 
       logger.debug('✅ Configuration loaded successfully', {
         configFile: CONFIG_FILE,
@@ -128,6 +206,7 @@ class ConfigService {
   async resetToDefault(): Promise<Config> {
     const endOp = startOperation('ConfigService.resetToDefault', { configFile: CONFIG_FILE });
     try {
+      await this.backupConfigFile('reset', this.config?.backups.retention ?? DEFAULT_BACKUP_RETENTION);
       await this.createDefaultConfig();
       const config = await this.loadConfig();
       logger.info('🔄 Configuration reset to default', { configFile: CONFIG_FILE });
@@ -153,24 +232,30 @@ class ConfigService {
     }
   }
 
-  async saveConfig(config: Config): Promise<void> {
+  async saveConfig(config: Config, reason: ConfigBackupReason = 'save'): Promise<void> {
     const endOp = startOperation('ConfigService.saveConfig', { configFile: CONFIG_FILE });
     logger.debug('💾 Saving configuration', { configFile: CONFIG_FILE });
     try {
-      const validatedConfig = configSchema.parse(config) as unknown as Config;
-      const configJson = JSON.stringify(validatedConfig, null, 2);
+      const { validatedConfig, rawConfig, fileConfig, references } = await this.prepareConfig(config);
+      const configJson = JSON.stringify(fileConfig, null, 2);
+      const currentJson = await fs.readFile(CONFIG_FILE, 'utf-8').catch(() => null);
+      if (currentJson !== null && currentJson !== configJson) {
+        await this.backupConfigFile(reason, validatedConfig.backups.retention);
+      }
       await fs.writeFile(CONFIG_FILE, configJson);
-      logger.debug('✅ Config file written successfully', { size: configJson.length });
+      logger.debug('✅ Config file written successfully', { size: configJson.length, secretReferences: references.size });
       
       this.config = validatedConfig;
+      this.rawConfig = rawConfig;
+      this.fileConfig = fileConfig;
       
       // Count configured instances
-      const instanceCounts = {
-        radarr: Array.isArray(config.applications.radarr) ? config.applications.radarr.length : 0,
-        sonarr: Array.isArray(config.applications.sonarr) ? config.applications.sonarr.length : 0,
-        lidarr: Array.isArray(config.applications.lidarr) ? config.applications.lidarr.length : 0,
-        readarr: Array.isArray(config.applications.readarr) ? config.applications.readarr.length : 0
-      };
+      const instanceCounts = Object.fromEntries(
+        APP_TYPES.map(appType => {
+          const instances = config.applications[appType];
+          return [appType, Array.isArray(instances) ? instances.length : 0];
+        })
+      );
       
       logger.info('💾 Configuration saved successfully', { 
         configFile: CONFIG_FILE,
@@ -203,6 +288,142 @@ class ConfigService {
     }
   }
 
+  /**
+   * Checks a config the way saveConfig would without saving it, throwing the same errors
+   */
+  async validateConfig(config: Config): Promise<void> {
+    await this.prepareConfig(config);
+  }
+
+  /**
+   * Turns a config from the UI or an import into what saveConfig stores: the validated config the app uses,
+   * the same with references kept, and what goes in config.json with environment overrides reverted
+   */
+  private async prepareConfig(config: Config): Promise<{
+    validatedConfig: Config;
+    rawConfig: Config;
+    fileConfig: Config;
+    references: Map<string, string>;
+  }> {
+    // Placeholders come back from the masked config API and keep the saved secret
+    const savedSecrets = this.rawConfig ? collectConfigSecrets(this.rawConfig) : new Map<string, string>();
+    const unmaskedConfig = mapConfigSecrets(config, (value, key) =>
+      value === SECRET_PLACEHOLDER ? savedSecrets.get(key) ?? '' : value
+    );
+    // Environment variables always win over what the UI sends for the fields they set
+    const mergedConfig = applyEnvOverrides(unmaskedConfig, this.envOverrides);
+    const { config: resolvedConfig, references } = await this.resolveSecretReferences(mergedConfig, true);
+    const validatedConfig = configSchema.parse(resolvedConfig) as unknown as Config;
+    const rawConfig = mapConfigSecrets(validatedConfig, (value, key) => references.get(key) ?? value);
+    const fileConfig = revertEnvOverrides(rawConfig, this.fileConfig ?? ({} as Config), this.envOverrides);
+    return { validatedConfig, rawConfig, fileConfig, references };
+  }
+
+  /**
+   * Backs up config.json before it is overwritten
+   * A failed backup is logged rather than blocking the change.
+   */
+  private async backupConfigFile(reason: ConfigBackupReason, retention: number): Promise<void> {
+    try {
+      await configBackupService.createBackup(CONFIG_FILE, reason, retention);
+    } catch (error: unknown) {
+      logger.error('❌ Failed to back up config', { reason, error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Fields that differ between a backup and config.json, or null when no backup has that ID
+   * Both sides are filled in with schema defaults, so sections added since the backup aren't listed.
+   */
+  async diffBackup(id: string): Promise<ConfigDiffEntry[] | null> {
+    const backup = await configBackupService.readBackup(id);
+    if (!backup || !this.fileConfig) return null;
+
+    const withDefaults = (config: Config): Config => {
+      const result = configSchema.safeParse(config);
+      return result.success ? result.data as unknown as Config : config;
+    };
+    return diffConfigs(withDefaults(migrateConfig(backup) as unknown as Config), withDefaults(this.fileConfig));
+  }
+
+  /**
+   * Replaces the config with a backup, migrated to the current version
+   * The config being replaced is backed up first, so a restore can itself be undone.
+   */
+  async restoreBackup(id: string): Promise<Config | null> {
+    const backup = await configBackupService.readBackup(id);
+    if (!backup) return null;
+
+    await this.saveConfig(migrateConfig(backup) as unknown as Config, 'restore');
+    logger.info('⏪ Configuration restored from backup', { id });
+    return this.getConfig();
+  }
+
+  /**
+   * Replaces env:/file: secret references with the values they point at
+   * Returns the references by location so they can be written back instead of the values.
+   */
+  private async resolveSecretReferences(
+    config: Config,
+    strict: boolean
+  ): Promise<{ config: Config; references: Map<string, string> }> {
+    const references = new Map<string, string>();
+    const values = new Map<string, string>();
+    for (const [key, value] of collectConfigSecrets(config)) {
+      if (!isSecretReference(value)) continue;
+      references.set(key, value);
+      try {
+        values.set(key, await resolveSecretReference(value));
+      } catch (error: unknown) {
+        if (strict) {
+          throw new Error(`${key}: ${getErrorMessage(error)}`);
+        }
+        logger.error('❌ Could not resolve secret reference', { key, reference: value, error: getErrorMessage(error) });
+        values.set(key, '');
+      }
+    }
+    return {
+      config: mapConfigSecrets(config, (value, key) => values.get(key) ?? value),
+      references
+    };
+  }
+
+  /**
+   * Config safe to send to the browser: secrets masked, references shown as written
+   */
+  getMaskedConfig(): Config {
+    if (!this.rawConfig) {
+      throw new Error('Config not loaded');
+    }
+    return maskConfigSecrets(this.rawConfig);
+  }
+
+  /**
+   * Resolves a secret sent with a request, such as a connection test of unsaved settings:
+   * the placeholder stands for the saved value and references are read from their source
+   */
+  async resolveSubmittedSecret(value: string, savedValue = ''): Promise<string> {
+    if (value === SECRET_PLACEHOLDER) return savedValue;
+    return isSecretReference(value) ? resolveSecretReference(value) : value;
+  }
+
+  /**
+   * Config as written to config.json: no environment overrides, secret references kept
+   */
+  getFileConfig(): Config {
+    if (!this.fileConfig) {
+      throw new Error('Config not loaded');
+    }
+    return structuredClone(this.fileConfig);
+  }
+
+  /**
+   * Fields set by SCOUTARR__ environment variables, which can't be changed from the UI
+   */
+  getEnvLockedFields(): string[] {
+    return listEnvLockedFields(this.getConfig(), this.envOverrides);
+  }
+
   getConfig(): Config {
     if (!this.config) {
       logger.error('❌ Attempted to get config before initialization');
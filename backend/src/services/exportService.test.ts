@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { gunzipSync, gzipSync } from 'zlib';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SECRET_PLACEHOLDER, type Config, type ExportTables } from '@scoutarr/shared';
+import { configService } from './configService.js';
+import { statsService } from './statsService.js';
+import { InvalidArchiveError, exportService } from './exportService.js';
+
+vi.mock('./configService.js', () => ({
+  configService: { getFileConfig: vi.fn(), validateConfig: vi.fn(), saveConfig: vi.fn() }
+}));
+
+vi.mock('./statsService.js', () => ({
+  statsService: { exportTables: vi.fn(), importTables: vi.fn() }
+}));
+
+const exampleConfig: Config = JSON.parse(
+  readFileSync(new URL('../../../config/config.example.json', import.meta.url), 'utf-8')
+);
+
+const tables: ExportTables = { instances: [], history: [], cf_score_history: [], runs: [], upgrades: [] };
+const counts = { instances: 1, history: 2, cfScoreHistory: 3, runs: 4, upgrades: 5 };
+
+function archive(overrides: Record<string, unknown> = {}) {
+  return {
+    format: 'scoutarr-export',
+    formatVersion: 1,
+    exportedAt: '2024-06-01T00:00:00.000Z',
+    secretsRedacted: false,
+    config: exampleConfig,
+    tables,
+    ...overrides
+  };
+}
+
+const packed = (value: unknown) => gzipSync(JSON.stringify(value));
+
+beforeEach(() => {
+  vi.mocked(configService.getFileConfig).mockReset().mockReturnValue(exampleConfig);
+  vi.mocked(configService.validateConfig).mockReset().mockResolvedValue(undefined);
+  vi.mocked(configService.saveConfig).mockReset().mockResolvedValue(undefined);
+  vi.mocked(statsService.exportTables).mockReset().mockReturnValue(tables);
+  vi.mocked(statsService.importTables).mockReset().mockReturnValue(counts);
+});
+
+describe('exportService.createExport', () => {
+  it('packs the config and history into gzipped JSON', async () => {
+    const content = JSON.parse(gunzipSync(await exportService.createExport(false)).toString('utf-8'));
+    expect(content).toMatchObject({ format: 'scoutarr-export', formatVersion: 1, secretsRedacted: false, config: exampleConfig, tables });
+  });
+
+  it('replaces saved secrets when redacting', async () => {
+    vi.mocked(configService.getFileConfig).mockReturnValue({
+      ...exampleConfig,
+      applications: { ...exampleConfig.applications, radarr: [{ ...exampleConfig.applications.radarr[0], apiKey: 'saved-key' }] }
+    });
+
+    const content = JSON.parse(gunzipSync(await exportService.createExport(true)).toString('utf-8'));
+    expect(content.secretsRedacted).toBe(true);
+    expect(content.config.applications.radarr[0].apiKey).toBe(SECRET_PLACEHOLDER);
+  });
+});
+
+describe('exportService.importArchive', () => {
+  it('imports the history, then saves the migrated config', async () => {
+    const result = await exportService.importArchive(packed(archive({ secretsRedacted: true })), 'merge');
+
+    expect(result).toEqual({ secretsRedacted: true, ...counts });
+    expect(statsService.importTables).toHaveBeenCalledWith(tables, 'merge');
+    expect(configService.saveConfig).toHaveBeenCalledWith(expect.objectContaining({ version: 1 }), 'import');
+  });
+
+  it('reads unpacked JSON too', async () => {
+    await exportService.importArchive(Buffer.from(JSON.stringify(archive())), 'replace');
+    expect(statsService.importTables).toHaveBeenCalledWith(tables, 'replace');
+  });
+
+  it.each([
+    ['a file that is not JSON', Buffer.from('not an export')],
+    ['a corrupt gzip stream', Buffer.from([0x1f, 0x8b, 0x00, 0x01])],
+    ['JSON that is not an export', packed({ hello: 'world' })],
+    ['an export from a newer version', packed(archive({ formatVersion: 2 }))],
+    ['an export with an invalid config', packed(archive({ config: { ...exampleConfig, scheduler: { enabled: 'yes' } } }))]
+  ])('rejects %s without writing anything', async (_case, content) => {
+    await expect(exportService.importArchive(content, 'merge')).rejects.toBeInstanceOf(InvalidArchiveError);
+    expect(statsService.importTables).not.toHaveBeenCalled();
+    expect(configService.saveConfig).not.toHaveBeenCalled();
+  });
+
+  it('rejects a config that cannot be used on this host', async () => {
+    vi.mocked(configService.validateConfig).mockRejectedValue(new Error('Environment variable SCOUTARR_RADARR_KEY is not set'));
+
+    await expect(exportService.importArchive(packed(archive()), 'merge')).rejects.toThrow(
+      new InvalidArchiveError("The config in the export can't be used here (Environment variable SCOUTARR_RADARR_KEY is not set)")
+    );
+    expect(statsService.importTables).not.toHaveBeenCalled();
+  });
+
+  it('leaves the config alone when the history fails to import', async () => {
+    vi.mocked(statsService.importTables).mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    await expect(exportService.importArchive(packed(archive()), 'replace')).rejects.toThrow('disk full');
+    expect(configService.saveConfig).not.toHaveBeenCalled();
+  });
+});
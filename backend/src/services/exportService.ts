@@ -0,0 +1,124 @@
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import {
+  EXPORT_FORMAT_VERSION,
+  configSchema,
+  exportArchiveSchema,
+  type Config,
+  type ExportArchive,
+  type HistoryImportMode,
+  type ImportResult
+} from '@scoutarr/shared';
+import { configService } from './configService.js';
+import { statsService } from './statsService.js';
+import { maskConfigSecrets } from '../utils/secretUtils.js';
+import { migrateConfig } from '../utils/configMigrations.js';
+import { getErrorMessage } from '../utils/errorUtils.js';
+import logger from '../utils/logger.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// First two bytes of every gzip stream; anything else is read as plain JSON, e.g. an unpacked archive
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// Largest unpacked archive accepted, so a small upload can't inflate past what fits in memory
+const MAX_UNPACKED_SIZE = 512 * 1024 * 1024;
+
+/**
+ * Thrown when an uploaded file isn't a Scoutarr export this version can read
+ */
+export class InvalidArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
+
+class ExportService {
+  /**
+   * Gzipped JSON holding config.json and the stats database's history, for moving Scoutarr to another host
+   * Environment overrides are left out, as they belong to the host. Redacting replaces saved secrets
+   * with the placeholder; references are kept as they hold no credential.
+   */
+  async createExport(redactSecrets: boolean): Promise<Buffer> {
+    const fileConfig = configService.getFileConfig();
+    const archive: ExportArchive = {
+      format: 'scoutarr-export',
+      formatVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      secretsRedacted: redactSecrets,
+      config: redactSecrets ? maskConfigSecrets(fileConfig) : fileConfig,
+      tables: statsService.exportTables()
+    };
+
+    logger.info('📤 Export created', {
+      redactSecrets,
+      historyRows: archive.tables.history.length,
+      cfScoreHistoryRows: archive.tables.cf_score_history.length,
+      instances: archive.tables.instances.length
+    });
+    return gzipAsync(JSON.stringify(archive));
+  }
+
+  /**
+   * Restores an export: the config is replaced (backed up first) and the history merged or replaced
+   * A redacted secret keeps the value already saved here, or is left empty to be filled in.
+   * The whole archive is checked before anything is written, and the history goes first as it
+   * is written in one transaction, so a failed import leaves the config as it was.
+   */
+  async importArchive(content: Buffer, mode: HistoryImportMode): Promise<ImportResult> {
+    const archive = await this.parseArchive(content);
+    const config = migrateConfig(archive.config) as unknown as Config;
+    await this.validateConfig(config);
+
+    const counts = statsService.importTables(archive.tables, mode);
+    await configService.saveConfig(config, 'import');
+
+    logger.info('📥 Export imported', { mode, exportedAt: archive.exportedAt, secretsRedacted: archive.secretsRedacted });
+    return { secretsRedacted: archive.secretsRedacted, ...counts };
+  }
+
+  private async parseArchive(content: Buffer): Promise<ExportArchive> {
+    let json: unknown;
+    try {
+      const isGzip = GZIP_MAGIC.every((byte, index) => content[index] === byte);
+      const text = (isGzip ? await gunzipAsync(content, { maxOutputLength: MAX_UNPACKED_SIZE }) : content).toString('utf-8');
+      json = JSON.parse(text);
+    } catch (error: unknown) {
+      if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new InvalidArchiveError(`The export unpacks to more than ${MAX_UNPACKED_SIZE / 1024 / 1024} MB`);
+      }
+      throw new InvalidArchiveError('The file is not a Scoutarr export');
+    }
+
+    const result = exportArchiveSchema.safeParse(json);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new InvalidArchiveError(`The file is not a valid Scoutarr export (${issue.path.join('.') || 'root'}: ${issue.message})`);
+    }
+    if (result.data.formatVersion > EXPORT_FORMAT_VERSION) {
+      throw new InvalidArchiveError('The export was made by a newer version of Scoutarr; upgrade before importing it');
+    }
+    return result.data;
+  }
+
+  /**
+   * Checks an imported config against the schema and this host's environment before it replaces the current one
+   */
+  private async validateConfig(config: Config): Promise<void> {
+    const result = configSchema.safeParse(config);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new InvalidArchiveError(`The config in the export is not valid (${issue.path.join('.') || 'root'}: ${issue.message})`);
+    }
+    try {
+      await configService.validateConfig(config);
+    } catch (error: unknown) {
+      // e.g. an env: or file: reference that doesn't resolve on this host
+      throw new InvalidArchiveError(`The config in the export can't be used here (${getErrorMessage(error)})`);
+    }
+  }
+}
+
+export const exportService = new ExportService();
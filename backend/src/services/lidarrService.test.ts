@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LidarrInstance } from '@scoutarr/shared';
+import { createStarrClient } from '../utils/starrUtils.js';
+import { fetchCustomFormatScores } from '../utils/customFormatUtils.js';
+import { lidarrService } from './lidarrService.js';
+
+vi.mock('./configService.js', () => ({ configService: {} }));
+vi.mock('../utils/starrUtils.js', () => ({ createStarrClient: vi.fn() }));
+vi.mock('../utils/customFormatUtils.js', () => ({ fetchCustomFormatScores: vi.fn() }));
+
+const config = { id: 'lidarr-1', name: 'Lidarr', url: 'http://lidarr:8686', apiKey: 'key', searchGranularity: 'album' } as LidarrInstance;
+
+const responses: Record<string, unknown> = {
+  '/api/v1/artist': [
+    { id: 1, artistName: 'Artist', foreignArtistId: 'mb-1', status: 'continuing', monitored: true, qualityProfileId: 2, tags: [4], added: '2024-01-01', statistics: { trackFileCount: 2 } },
+    { id: 2, artistName: 'Empty', status: 'ended', monitored: true, qualityProfileId: 2, tags: [], statistics: { trackFileCount: 0 } }
+  ],
+  '/api/v1/album': [
+    { id: 10, artistId: 1, title: 'First', monitored: true, statistics: { trackFileCount: 2 } },
+    { id: 11, artistId: 1, title: 'Second', monitored: false, added: '2024-02-01' },
+    { id: 20, artistId: 2, title: 'Nothing', monitored: true },
+    { id: 30, artistId: 9, title: 'Orphan', monitored: true }
+  ],
+  '/api/v1/trackfile': [
+    { id: 501, albumId: 10, dateAdded: '2024-03-01' },
+    { id: 502, albumId: 10 }
+  ]
+};
+
+let get: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  get = vi.fn(async (url: string) => ({ data: responses[url] }));
+  vi.mocked(createStarrClient).mockReturnValue({ get } as never);
+  vi.mocked(fetchCustomFormatScores).mockResolvedValue(new Map([[501, 80]]));
+});
+
+describe('lidarrService in album mode', () => {
+  it('gives each album its artist\'s tags, status and profile, and its track files with scores', async () => {
+    const albums = await lidarrService.getMedia(config);
+
+    expect(albums).toEqual([
+      {
+        id: 10,
+        title: 'Artist - First',
+        childTitle: 'First',
+        parentName: 'Artist',
+        parentId: 1,
+        foreignParentId: 'mb-1',
+        monitored: true,
+        tags: [4],
+        status: 'continuing',
+        qualityProfileId: 2,
+        hasFile: true,
+        lastSearchTime: undefined,
+        added: '2024-01-01',
+        trackFiles: [{ id: 501, dateAdded: '2024-03-01', customFormatScore: 80 }, { id: 502, dateAdded: undefined }]
+      },
+      expect.objectContaining({ id: 11, monitored: false, hasFile: false, added: '2024-02-01', trackFiles: undefined }),
+      expect.objectContaining({ id: 20, title: 'Empty - Nothing', foreignParentId: undefined, status: 'ended' })
+    ]);
+    // Only artists with track files are asked for them
+    expect(get).toHaveBeenCalledWith('/api/v1/trackfile', { params: { artistId: 1 } });
+    expect(get).not.toHaveBeenCalledWith('/api/v1/trackfile', { params: { artistId: 2 } });
+  });
+
+  it('deep-links albums to their artist', async () => {
+    const [album] = await lidarrService.getMedia(config);
+    expect(lidarrService.getExternalId(album)).toBe('mb-1');
+    expect(lidarrService.getTagTargetId(album)).toBe(1);
+  });
+});
@@ -1,16 +1,41 @@
-import { LidarrInstance } from '@scoutarr/shared';
-import { BaseStarrService } from './baseStarrService.js';
+import { AxiosInstance } from 'axios';
+import { APP_DEFINITIONS, LidarrInstance, FilterBreakdown, LidarrSearchGranularity } from '@scoutarr/shared';
+import { BaseStarrService, ChildMedia, ChildMediaSource, isChildMedia } from './baseStarrService.js';
 import { FilterableMedia } from '../utils/filterUtils.js';
 
 export interface LidarrArtist extends FilterableMedia {
   artistName: string;
+  foreignArtistId?: string;
   hasFile?: boolean;
   statistics?: { trackFileCount?: number };
 }
 
-class LidarrService extends BaseStarrService<LidarrInstance, LidarrArtist> {
-  protected readonly appName = 'Lidarr';
-  protected readonly apiVersion = 'v1' as const;
+export type LidarrAlbum = ChildMedia;
+
+export type LidarrMedia = LidarrArtist | LidarrAlbum;
+
+const ALBUMS: ChildMediaSource = {
+  endpoint: 'album',
+  parentIdField: 'artistId',
+  fileChildIdField: 'albumId',
+  parentNameField: 'artistName',
+  foreignParentIdField: 'foreignArtistId',
+  fileCountField: 'trackFileCount',
+  filesField: 'trackFiles',
+  searchCommand: 'AlbumSearch',
+  searchIdsField: 'albumIds'
+};
+
+function withArtistFileState(artist: LidarrArtist): LidarrArtist {
+  return {
+    ...artist,
+    hasFile: (artist.statistics?.trackFileCount ?? 0) > 0,
+  };
+}
+
+class LidarrService extends BaseStarrService<LidarrInstance, LidarrMedia> {
+  protected readonly appName = APP_DEFINITIONS.lidarr.name;
+  protected readonly apiVersion = APP_DEFINITIONS.lidarr.apiVersion;
   protected readonly mediaEndpoint = 'artist';
   protected readonly qualityProfileEndpoint = 'qualityprofile';
   protected readonly editorEndpoint = 'artist/editor';
@@ -36,11 +61,11 @@ class LidarrService extends BaseStarrService<LidarrInstance, LidarrArtist> {
     return 'ArtistSearch';
   }
 
-  protected getStatusFilterKey(): string {
+  protected getStatusFilterKey(): keyof LidarrInstance {
     return 'artistStatus';
   }
 
-  protected extractFileIds(artists: LidarrArtist[]): number[] {
+  protected extractFileIds(artists: LidarrMedia[]): number[] {
     const trackFileIds: number[] = [];
     for (const artist of artists) {
       const trackFiles = (artist as { trackFiles?: Array<{ id?: number }> }).trackFiles;
@@ -51,7 +76,7 @@ class LidarrService extends BaseStarrService<LidarrInstance, LidarrArtist> {
     return trackFileIds;
   }
 
-  protected applyCustomFormatScores(artists: LidarrArtist[], scoresMap: Map<number, number | undefined>): LidarrArtist[] {
+  protected applyCustomFormatScores(artists: LidarrMedia[], scoresMap: Map<number, number | undefined>): LidarrMedia[] {
     return artists.map(artist => {
       const trackFiles = (artist as { trackFiles?: Array<{ id?: number }> }).trackFiles;
       if (trackFiles && Array.isArray(trackFiles) && trackFiles.length > 0) {
@@ -67,31 +92,82 @@ class LidarrService extends BaseStarrService<LidarrInstance, LidarrArtist> {
         return {
           ...artist,
           trackFiles: updatedTrackFiles
-        } as LidarrArtist;
+        } as LidarrMedia;
       }
       return artist;
     });
   }
 
-  protected applyStatusFilter(artists: LidarrArtist[], statusValue: string): LidarrArtist[] {
+  protected applyStatusFilter(artists: LidarrMedia[], statusValue: string): LidarrMedia[] {
     return artists.filter(a => a.status === statusValue);
   }
 
-  async getMedia(config: LidarrInstance): Promise<LidarrArtist[]> {
-    const artists = await this.fetchMediaWithScores(config);
-    return artists.map(a => ({
-      ...a,
-      hasFile: (a.statistics?.trackFileCount ?? 0) > 0,
-    }));
+  private getGranularity(config: LidarrInstance): LidarrSearchGranularity {
+    return config.searchGranularity || 'artist';
+  }
+
+  async getMedia(config: LidarrInstance): Promise<LidarrMedia[]> {
+    if (this.getGranularity(config) === 'album') {
+      return this.getAlbums(config);
+    }
+    const artists = await this.fetchMediaWithScores(config) as LidarrArtist[];
+    return artists.map(withArtistFileState);
+  }
+
+  async getMediaForTarget(config: LidarrInstance, artistId: number): Promise<LidarrMedia[]> {
+    if (this.getGranularity(config) === 'album') {
+      return this.getAlbums(config, artistId);
+    }
+    const artists = await super.getMediaForTarget(config, artistId) as LidarrArtist[];
+    return artists.map(withArtistFileState);
   }
 
-  async searchMedia(config: LidarrInstance, mediaIds: number[]): Promise<void> {
+  /**
+   * Fetches every album (or one artist's albums) with its artist's tags, status and quality profile, and its track files' scores
+   */
+  private async getAlbums(config: LidarrInstance, artistId?: number): Promise<LidarrMedia[]> {
+    const client = this.createClient(config);
+    return this.attachCustomFormatScores(client, await this.fetchChildMedia(client, config, ALBUMS, artistId));
+  }
+
+  // In album mode the live lookups resolve each album to its artist, where the tags, status and profile live
+  protected async fetchLiveMedia(client: AxiosInstance, config: LidarrInstance, id: number) {
+    if (this.getGranularity(config) !== 'album') {
+      return super.fetchLiveMedia(client, config, id);
+    }
+    const response = await client.get<{ id: number; artistId: number }>(`/api/${this.apiVersion}/album/${id}`);
+    const artist = await super.fetchLiveMedia(client, config, response.data.artistId);
+    return { ...artist, id };
+  }
+
+  // Deep links go to the artist page, also for album-level media
+  getExternalId(media: LidarrMedia): string | undefined {
+    const foreignId = isChildMedia(media) ? media.foreignParentId : media.foreignArtistId;
+    return foreignId || String(this.getMediaId(media));
+  }
+
+  // Tags are artist-level, so tagging after an album search would skip the artist's other albums
+  tagsSearchedMedia(config: LidarrInstance): boolean {
+    return this.getGranularity(config) === 'artist';
+  }
+
+  // Album searches are matched to grabs by album
+  getGrabMatch(config: LidarrInstance, media: LidarrMedia): { field: string; id: number } {
+    return this.getGranularity(config) === 'album'
+      ? { field: 'albumId', id: this.getMediaId(media) }
+      : super.getGrabMatch(config, media);
+  }
+
+  async searchMedia(config: LidarrInstance, mediaIds: number[]): Promise<number[]> {
+    if (this.getGranularity(config) === 'album') {
+      return this.searchChildMedia(config, ALBUMS, mediaIds);
+    }
     // Lidarr only supports searching one artist at a time
-    await this.searchMediaItems(config, mediaIds, true);
+    return this.searchMediaItems(config, mediaIds, true);
   }
 
-  async filterMedia(config: LidarrInstance, media: LidarrArtist[]): Promise<LidarrArtist[]> {
-    return this.filterMediaItems(config, media);
+  async filterMedia(config: LidarrInstance, media: LidarrMedia[], breakdown?: FilterBreakdown): Promise<LidarrMedia[]> {
+    return this.filterMediaItems(config, media, breakdown);
   }
 }
 
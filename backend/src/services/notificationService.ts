@@ -3,9 +3,17 @@ import { capitalize } from 'es-toolkit';
 import { configService } from './configService.js';
 import logger, { startOperation } from '../utils/logger.js';
 import { extractItemsFromResult } from '../utils/starrUtils.js';
-import { SearchResults } from '@scoutarr/shared';
+import { SearchResults, SearchItemOutcome } from '@scoutarr/shared';
 import { getErrorMessage } from '../utils/errorUtils.js';
 
+const OUTCOME_LABELS: Record<SearchItemOutcome, string> = {
+  grabbed: 'grabbed',
+  nothingFound: 'nothing found',
+  failed: 'search failed',
+  timedOut: 'still searching',
+  unknown: 'status unknown'
+};
+
 /**
  * Notification Service
  *
@@ -128,12 +136,13 @@ class NotificationService {
           .map(([app, result]) => {
             const appName = this.formatAppName(app);
             const items = extractItemsFromResult(result);
-            const itemList = items.slice(0, 5).map(item => item.title).join(', ');
+            const itemList = items.slice(0, 5).map(item => this.formatItem(item)).join(', ');
             const more = items.length > 5 ? ` (+${items.length - 5} more)` : '';
             return `**${appName}**: ${result.searched} item(s) - ${itemList}${more}`;
           });
         description = resultLines.join('\n') || 'No items were searched';
       }
+      description = this.appendIndexerNotices(description, results);
 
       const embed = {
         title: success ? '✅ Scoutarr Search Completed' : '❌ Scoutarr Search Failed',
@@ -179,10 +188,11 @@ class NotificationService {
           .filter(([_, result]) => result.success && (result.searched || 0) > 0)
           .map(([app, result]) => {
             const appName = this.formatAppName(app);
-            return `${appName}: ${result.searched} item(s)`;
+            return `${appName}: ${result.searched} item(s)${this.formatOutcomeSummary(extractItemsFromResult(result))}`;
           });
         message = `✅ Scoutarr search completed:\n${resultLines.join('\n')}`;
       }
+      message = this.appendIndexerNotices(message, results);
 
       const payload = {
         channel: channelId || undefined,
@@ -229,12 +239,13 @@ class NotificationService {
           .map(([app, result]) => {
             const appName = this.formatAppName(app);
             const items = extractItemsFromResult(result);
-            const itemList = items.slice(0, 3).map(item => item.title).join(', ');
+            const itemList = items.slice(0, 3).map(item => this.formatItem(item)).join(', ');
             const more = items.length > 3 ? ` (+${items.length - 3} more)` : '';
             return `${appName}: ${result.searched} item(s) - ${itemList}${more}`;
           });
         message = resultLines.join('\n') || 'No items were searched';
       }
+      message = this.appendIndexerNotices(message, results);
 
       const params = new URLSearchParams();
       params.append('token', apiToken);
@@ -306,6 +317,30 @@ class NotificationService {
     }
   }
 
+  /**
+   * Appends instances the Prowlarr indexer check skipped or limited, so a quiet run is explained
+   */
+  private appendIndexerNotices(message: string, results: SearchResults): string {
+    const notices = Object.entries(results)
+      .filter(([_, result]) => result.skipReason || result.limitReason)
+      .map(([app, result]) => result.skipReason
+        ? `⏭️ ${this.formatAppName(app)} skipped: ${result.skipReason}`
+        : `📉 ${this.formatAppName(app)}: ${result.limitReason}`);
+    return notices.length > 0 ? `${message}\n${notices.join('\n')}` : message;
+  }
+
+  /**
+   * Item title with its search outcome, when the run waited for one
+   */
+  private formatItem(item: { title: string; outcome?: SearchItemOutcome }): string {
+    return item.outcome ? `${item.title} (${OUTCOME_LABELS[item.outcome]})` : item.title;
+  }
+
+  private formatOutcomeSummary(items: Array<{ outcome?: SearchItemOutcome }>): string {
+    const grabbed = items.filter(item => item.outcome === 'grabbed').length;
+    return items.some(item => item.outcome) ? `, ${grabbed} grabbed` : '';
+  }
+
   private formatAppName(app: string): string {
     // Convert "radarr" -> "Radarr", "sonarr-instance-id" -> "Sonarr (instance-id)"
     const parts = app.split('-');
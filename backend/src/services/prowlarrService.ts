@@ -0,0 +1,162 @@
+import { AxiosInstance } from 'axios';
+import type { ProwlarrConfig, IndexerCheck } from '@scoutarr/shared';
+import logger from '../utils/logger.js';
+import { createStarrClient, testStarrConnection } from '../utils/starrUtils.js';
+import { getErrorMessage } from '../utils/errorUtils.js';
+
+const API_VERSION = 'v1';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Prowlarr's limitsUnit enum: 0 = per day, 1 = per hour
+const LIMITS_UNIT_HOUR = 1;
+
+interface ProwlarrIndexer {
+  id: number;
+  name: string;
+  enable: boolean;
+  fields?: Array<{ name: string; value?: unknown }>;
+}
+
+interface ProwlarrIndexerStatus {
+  indexerId: number;
+  disabledTill?: string;
+}
+
+interface ProwlarrIndexerStats {
+  indexers?: Array<{ indexerId: number; numberOfQueries?: number }>;
+}
+
+/**
+ * What the indexer check allows an instance to search
+ */
+export interface SearchAllowance {
+  skip: boolean;
+  count: number | 'max';
+  reason?: string;
+}
+
+class ProwlarrService {
+  async testConnection(url: string, apiKey: string): Promise<{ success: boolean; version?: string; appName?: string; error?: string }> {
+    return testStarrConnection(url, apiKey, 'prowlarr', API_VERSION);
+  }
+
+  /**
+   * Reads indexer settings, failure status and recent query counts from Prowlarr
+   */
+  async checkIndexers(config: ProwlarrConfig): Promise<IndexerCheck> {
+    const client = createStarrClient(config.url, config.apiKey, { circuitKey: 'prowlarr' });
+    const [indexersResponse, statusResponse] = await Promise.all([
+      client.get<ProwlarrIndexer[]>(`/api/${API_VERSION}/indexer`),
+      client.get<ProwlarrIndexerStatus[]>(`/api/${API_VERSION}/indexerstatus`)
+    ]);
+
+    const indexers = indexersResponse.data.filter(indexer => indexer.enable);
+    const now = Date.now();
+    const failingIds = new Set(
+      statusResponse.data
+        .filter(status => status.disabledTill && Date.parse(status.disabledTill) > now)
+        .map(status => status.indexerId)
+    );
+
+    // Query usage is only needed for indexers that have a limit, and only for the windows they use
+    const limits = new Map(indexers.map(indexer => [indexer.id, {
+      queryLimit: this.getFieldNumber(indexer, 'baseSettings.queryLimit'),
+      hourly: this.getFieldNumber(indexer, 'baseSettings.limitsUnit') === LIMITS_UNIT_HOUR
+    }]));
+    const limitedIndexers = [...limits.values()].filter(limit => limit.queryLimit);
+    const dailyQueries = limitedIndexers.some(limit => !limit.hourly)
+      ? await this.getQueryCounts(client, now - DAY_MS, now)
+      : new Map<number, number>();
+    const hourlyQueries = limitedIndexers.some(limit => limit.hourly)
+      ? await this.getQueryCounts(client, now - HOUR_MS, now)
+      : new Map<number, number>();
+
+    const check: IndexerCheck = { total: indexers.length, available: 0, failing: [], limited: [] };
+    for (const indexer of indexers) {
+      if (failingIds.has(indexer.id)) {
+        check.failing.push(indexer.name);
+        continue;
+      }
+
+      const { queryLimit, hourly } = limits.get(indexer.id)!;
+      if (queryLimit) {
+        const used = (hourly ? hourlyQueries : dailyQueries).get(indexer.id) || 0;
+        const budget = Math.floor(queryLimit * config.queryLimitThreshold / 100);
+        if (used >= budget) {
+          check.limited.push(indexer.name);
+          continue;
+        }
+        const remaining = budget - used;
+        check.remainingQueries = Math.min(check.remainingQueries ?? remaining, remaining);
+      }
+      check.available++;
+    }
+
+    logger.debug('📡 [Prowlarr API] Indexer check', { ...check });
+    return check;
+  }
+
+  /**
+   * Works out how many items an instance may search given the current indexer state
+   * Returns null when Prowlarr is not configured or unreachable, so searches run as configured
+   */
+  async getSearchAllowance(config: ProwlarrConfig | undefined, requested: number | 'max'): Promise<SearchAllowance | null> {
+    if (!config?.enabled || !config.url || !config.apiKey) return null;
+
+    let check: IndexerCheck;
+    try {
+      check = await this.checkIndexers(config);
+    } catch (error: unknown) {
+      logger.warn('⚠️  Prowlarr indexer check failed, searching without it', { error: getErrorMessage(error) });
+      return null;
+    }
+
+    if (check.total === 0) {
+      return { skip: true, count: 0, reason: 'No enabled indexers in Prowlarr' };
+    }
+
+    const unavailable = [
+      ...check.limited.map(name => `${name} (near query limit)`),
+      ...check.failing.map(name => `${name} (failing)`)
+    ];
+    if (check.available === 0) {
+      return { skip: true, count: 0, reason: `No indexers available: ${unavailable.join(', ')}` };
+    }
+
+    // Shrink the count by the share of indexers that are out, then cap it by the tightest remaining query limit
+    let count = requested;
+    if (count !== 'max' && check.available < check.total) {
+      count = Math.max(1, Math.floor(count * check.available / check.total));
+    }
+    if (check.remainingQueries !== undefined && (count === 'max' || count > check.remainingQueries)) {
+      count = check.remainingQueries;
+    }
+    if (count === 0) {
+      return { skip: true, count: 0, reason: 'Indexer query limits reached' };
+    }
+    if (count === requested) {
+      return { skip: false, count };
+    }
+
+    const reasons = [...unavailable];
+    if (check.remainingQueries !== undefined && count === check.remainingQueries) {
+      reasons.push(`${check.remainingQueries} queries left before an indexer limit threshold`);
+    }
+    return { skip: false, count, reason: `Count reduced from ${requested} to ${count}: ${reasons.join(', ')}` };
+  }
+
+  private getFieldNumber(indexer: ProwlarrIndexer, name: string): number | undefined {
+    const value = indexer.fields?.find(field => field.name === name)?.value;
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  private async getQueryCounts(client: AxiosInstance, start: number, end: number): Promise<Map<number, number>> {
+    const response = await client.get<ProwlarrIndexerStats>(`/api/${API_VERSION}/indexerstats`, {
+      params: { startDate: new Date(start).toISOString(), endDate: new Date(end).toISOString() }
+    });
+    return new Map((response.data.indexers || []).map(stats => [stats.indexerId, stats.numberOfQueries || 0]));
+  }
+}
+
+export const prowlarrService = new ProwlarrService();
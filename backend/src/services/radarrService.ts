@@ -1,15 +1,26 @@
-import { RadarrInstance } from '@scoutarr/shared';
+import { APP_DEFINITIONS, RadarrInstance, FilterBreakdown } from '@scoutarr/shared';
 import { BaseStarrService } from './baseStarrService.js';
 import { FilterableMedia } from '../utils/filterUtils.js';
+import logger from '../utils/logger.js';
+import { LIBRARY_REQUEST_TIMEOUT_MS } from '../utils/httpPolicy.js';
 
 export interface RadarrMovie extends FilterableMedia {
   title: string;
   hasFile?: boolean; // natively returned by Radarr API
+  tmdbId?: number;
+  titleSlug?: string;
 }
 
-class RadarrService extends BaseStarrService<RadarrInstance, RadarrMovie> {
-  protected readonly appName = 'Radarr';
-  protected readonly apiVersion = 'v3' as const;
+function getMovieFile(movie: RadarrMovie): { id?: number; customFormatScore?: number } | undefined {
+  return (movie as { movieFile?: { id?: number; customFormatScore?: number } }).movieFile;
+}
+
+/**
+ * Exported so movie-based forks of Radarr (Whisparr) can reuse it
+ */
+export class RadarrService extends BaseStarrService<RadarrInstance, RadarrMovie> {
+  protected readonly appName: string = APP_DEFINITIONS.radarr.name;
+  protected readonly apiVersion: 'v1' | 'v3' = APP_DEFINITIONS.radarr.apiVersion;
   protected readonly mediaEndpoint = 'movie';
   protected readonly qualityProfileEndpoint = 'qualityprofile';
   protected readonly editorEndpoint = 'movie/editor';
@@ -35,7 +46,7 @@ class RadarrService extends BaseStarrService<RadarrInstance, RadarrMovie> {
     return 'MoviesSearch';
   }
 
-  protected getStatusFilterKey(): string {
+  protected getStatusFilterKey(): keyof RadarrInstance {
     return 'movieStatus';
   }
 
@@ -74,16 +85,57 @@ class RadarrService extends BaseStarrService<RadarrInstance, RadarrMovie> {
     });
   }
 
+  // Radarr routes movie pages by TMDB ID
+  getExternalId(movie: RadarrMovie): string | undefined {
+    return movie.tmdbId ? String(movie.tmdbId) : undefined;
+  }
+
   async getMedia(config: RadarrInstance): Promise<RadarrMovie[]> {
     return this.fetchMediaWithScores(config);
   }
 
-  async searchMedia(config: RadarrInstance, mediaIds: number[]): Promise<void> {
+  supportsIncrementalSync(): boolean {
+    return true;
+  }
+
+  // The movie list is one request; custom format scores are only refetched for movies whose file changed
+  // or that appear in history since the last sync (e.g. a file rescored on import or upgraded in place)
+  async getMediaSince(config: RadarrInstance, since: Date, cached: RadarrMovie[]): Promise<RadarrMovie[]> {
+    const client = this.createClient(config);
+    const response = await client.get<RadarrMovie[]>(`/api/${this.apiVersion}/${this.mediaEndpoint}`, { timeout: LIBRARY_REQUEST_TIMEOUT_MS });
+    const movies = response.data;
+    const history = await this.fetchHistorySince(client, since);
+    const touchedMovies = new Set(history.map(record => record.movieId));
+
+    const cachedScores = new Map<number, number | undefined>();
+    for (const movie of cached) {
+      const movieFile = getMovieFile(movie);
+      if (movieFile?.id && movieFile.customFormatScore !== undefined) {
+        cachedScores.set(movieFile.id, movieFile.customFormatScore);
+      }
+    }
+
+    const isUnchanged = (movie: RadarrMovie) => cachedScores.has(getMovieFile(movie)?.id ?? 0) && !touchedMovies.has(movie.id);
+    const unchanged = movies.filter(isUnchanged);
+    const changed = movies.filter(movie => !isUnchanged(movie));
+    logger.info(`📡 [${this.appName} API] Refetching custom format scores for ${changed.length} of ${movies.length} movies changed since last sync`, {
+      since: since.toISOString(),
+      historyRecords: history.length
+    });
+
+    const scored = new Map([
+      ...this.applyCustomFormatScores(unchanged, cachedScores),
+      ...await this.attachCustomFormatScores(client, changed)
+    ].map(movie => [movie.id, movie]));
+    return movies.map(movie => scored.get(movie.id)!);
+  }
+
+  async searchMedia(config: RadarrInstance, mediaIds: number[]): Promise<number[]> {
     return this.searchMediaItems(config, mediaIds, false);
   }
 
-  async filterMedia(config: RadarrInstance, media: RadarrMovie[]): Promise<RadarrMovie[]> {
-    return this.filterMediaItems(config, media);
+  async filterMedia(config: RadarrInstance, media: RadarrMovie[], breakdown?: FilterBreakdown): Promise<RadarrMovie[]> {
+    return this.filterMediaItems(config, media, breakdown);
   }
 }
 
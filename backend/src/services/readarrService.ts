@@ -1,16 +1,41 @@
-import { ReadarrInstance } from '@scoutarr/shared';
-import { BaseStarrService } from './baseStarrService.js';
+import { AxiosInstance } from 'axios';
+import { APP_DEFINITIONS, ReadarrInstance, FilterBreakdown, ReadarrSearchGranularity } from '@scoutarr/shared';
+import { BaseStarrService, ChildMedia, ChildMediaSource, isChildMedia } from './baseStarrService.js';
 import { FilterableMedia } from '../utils/filterUtils.js';
 
 export interface ReadarrAuthor extends FilterableMedia {
   authorName: string;
+  foreignAuthorId?: string;
   hasFile?: boolean;
   statistics?: { bookFileCount?: number };
 }
 
-class ReadarrService extends BaseStarrService<ReadarrInstance, ReadarrAuthor> {
-  protected readonly appName = 'Readarr';
-  protected readonly apiVersion = 'v1' as const;
+export type ReadarrBook = ChildMedia;
+
+export type ReadarrMedia = ReadarrAuthor | ReadarrBook;
+
+const BOOKS: ChildMediaSource = {
+  endpoint: 'book',
+  parentIdField: 'authorId',
+  fileChildIdField: 'bookId',
+  parentNameField: 'authorName',
+  foreignParentIdField: 'foreignAuthorId',
+  fileCountField: 'bookFileCount',
+  filesField: 'bookFiles',
+  searchCommand: 'BookSearch',
+  searchIdsField: 'bookIds'
+};
+
+function withAuthorFileState(author: ReadarrAuthor): ReadarrAuthor {
+  return {
+    ...author,
+    hasFile: (author.statistics?.bookFileCount ?? 0) > 0,
+  };
+}
+
+class ReadarrService extends BaseStarrService<ReadarrInstance, ReadarrMedia> {
+  protected readonly appName = APP_DEFINITIONS.readarr.name;
+  protected readonly apiVersion = APP_DEFINITIONS.readarr.apiVersion;
   protected readonly mediaEndpoint = 'author';
   protected readonly qualityProfileEndpoint = 'qualityprofile';
   protected readonly editorEndpoint = 'author/editor';
@@ -36,11 +61,11 @@ class ReadarrService extends BaseStarrService<ReadarrInstance, ReadarrAuthor> {
     return 'AuthorSearch';
   }
 
-  protected getStatusFilterKey(): string {
+  protected getStatusFilterKey(): keyof ReadarrInstance {
     return 'authorStatus';
   }
 
-  protected extractFileIds(authors: ReadarrAuthor[]): number[] {
+  protected extractFileIds(authors: ReadarrMedia[]): number[] {
     const bookFileIds: number[] = [];
     for (const author of authors) {
       const bookFiles = (author as { bookFiles?: Array<{ id?: number }> }).bookFiles;
@@ -51,7 +76,7 @@ class ReadarrService extends BaseStarrService<ReadarrInstance, ReadarrAuthor> {
     return bookFileIds;
   }
 
-  protected applyCustomFormatScores(authors: ReadarrAuthor[], scoresMap: Map<number, number | undefined>): ReadarrAuthor[] {
+  protected applyCustomFormatScores(authors: ReadarrMedia[], scoresMap: Map<number, number | undefined>): ReadarrMedia[] {
     return authors.map(author => {
       const bookFiles = (author as { bookFiles?: Array<{ id?: number }> }).bookFiles;
       if (bookFiles && Array.isArray(bookFiles) && bookFiles.length > 0) {
@@ -67,31 +92,82 @@ class ReadarrService extends BaseStarrService<ReadarrInstance, ReadarrAuthor> {
         return {
           ...author,
           bookFiles: updatedBookFiles
-        } as ReadarrAuthor;
+        } as ReadarrMedia;
       }
       return author;
     });
   }
 
-  protected applyStatusFilter(authors: ReadarrAuthor[], statusValue: string): ReadarrAuthor[] {
+  protected applyStatusFilter(authors: ReadarrMedia[], statusValue: string): ReadarrMedia[] {
     return authors.filter(a => a.status === statusValue);
   }
 
-  async getMedia(config: ReadarrInstance): Promise<ReadarrAuthor[]> {
-    const authors = await this.fetchMediaWithScores(config);
-    return authors.map(a => ({
-      ...a,
-      hasFile: (a.statistics?.bookFileCount ?? 0) > 0,
-    }));
+  private getGranularity(config: ReadarrInstance): ReadarrSearchGranularity {
+    return config.searchGranularity || 'author';
+  }
+
+  async getMedia(config: ReadarrInstance): Promise<ReadarrMedia[]> {
+    if (this.getGranularity(config) === 'book') {
+      return this.getBooks(config);
+    }
+    const authors = await this.fetchMediaWithScores(config) as ReadarrAuthor[];
+    return authors.map(withAuthorFileState);
+  }
+
+  async getMediaForTarget(config: ReadarrInstance, authorId: number): Promise<ReadarrMedia[]> {
+    if (this.getGranularity(config) === 'book') {
+      return this.getBooks(config, authorId);
+    }
+    const authors = await super.getMediaForTarget(config, authorId) as ReadarrAuthor[];
+    return authors.map(withAuthorFileState);
   }
 
-  async searchMedia(config: ReadarrInstance, mediaIds: number[]): Promise<void> {
+  /**
+   * Fetches every book (or one author's books) with its author's tags, status and quality profile, and its book files' scores
+   */
+  private async getBooks(config: ReadarrInstance, authorId?: number): Promise<ReadarrMedia[]> {
+    const client = this.createClient(config);
+    return this.attachCustomFormatScores(client, await this.fetchChildMedia(client, config, BOOKS, authorId));
+  }
+
+  // In book mode the live lookups resolve each book to its author, where the tags, status and profile live
+  protected async fetchLiveMedia(client: AxiosInstance, config: ReadarrInstance, id: number) {
+    if (this.getGranularity(config) !== 'book') {
+      return super.fetchLiveMedia(client, config, id);
+    }
+    const response = await client.get<{ id: number; authorId: number }>(`/api/${this.apiVersion}/book/${id}`);
+    const author = await super.fetchLiveMedia(client, config, response.data.authorId);
+    return { ...author, id };
+  }
+
+  // Deep links go to the author page, also for book-level media
+  getExternalId(media: ReadarrMedia): string | undefined {
+    const foreignId = isChildMedia(media) ? media.foreignParentId : media.foreignAuthorId;
+    return foreignId || String(this.getMediaId(media));
+  }
+
+  // Tags are author-level, so tagging after a book search would skip the author's other books
+  tagsSearchedMedia(config: ReadarrInstance): boolean {
+    return this.getGranularity(config) === 'author';
+  }
+
+  // Book searches are matched to grabs by book
+  getGrabMatch(config: ReadarrInstance, media: ReadarrMedia): { field: string; id: number } {
+    return this.getGranularity(config) === 'book'
+      ? { field: 'bookId', id: this.getMediaId(media) }
+      : super.getGrabMatch(config, media);
+  }
+
+  async searchMedia(config: ReadarrInstance, mediaIds: number[]): Promise<number[]> {
+    if (this.getGranularity(config) === 'book') {
+      return this.searchChildMedia(config, BOOKS, mediaIds);
+    }
     // Readarr only supports searching one author at a time
-    await this.searchMediaItems(config, mediaIds, true);
+    return this.searchMediaItems(config, mediaIds, true);
   }
 
-  async filterMedia(config: ReadarrInstance, media: ReadarrAuthor[]): Promise<ReadarrAuthor[]> {
-    return this.filterMediaItems(config, media);
+  async filterMedia(config: ReadarrInstance, media: ReadarrMedia[], breakdown?: FilterBreakdown): Promise<ReadarrMedia[]> {
+    return this.filterMediaItems(config, media, breakdown);
   }
 }
 
@@ -3,8 +3,9 @@ import { configService } from './configService.js';
 import { notificationService } from './notificationService.js';
 import logger, { startOperation } from '../utils/logger.js';
 import { executeSearchRun } from '../routes/search.js';
-import { SearchResults, Config } from '@scoutarr/shared';
+import { SearchResults, Config, StarrInstanceConfig, InstanceSchedulerStatus } from '@scoutarr/shared';
 import { getErrorMessage, getErrorDetails } from '../utils/errorUtils.js';
+import { getConfiguredInstances, APP_TYPES, AppType } from '../utils/starrUtils.js';
 
 /**
  * Import CommonJS modules using createRequire
@@ -21,10 +22,20 @@ interface ScheduledTask {
   stop: () => void;
 }
 
+/** Cron task for an instance that has its own schedule */
+interface InstanceTask {
+  task: ScheduledTask;
+  schedule: string;
+  appType: AppType;
+  instanceName: string;
+  isRunning: boolean;
+}
+
 class SchedulerService {
   private globalTask: ScheduledTask | null = null;
   private globalIsRunning = false;
   private globalCurrentSchedule: string | null = null;
+  private instanceTasks = new Map<string, InstanceTask>();
 
   /**
    * Helper to send notifications, swallowing errors
@@ -52,6 +63,8 @@ class SchedulerService {
       });
     }
 
+    this.startInstances(config);
+
     logger.debug('✅ Scheduler service initialization complete');
   }
 
@@ -69,10 +82,8 @@ class SchedulerService {
     return shorthands[schedule.toLowerCase()] ?? schedule;
   }
 
-  startGlobal(schedule: string): void {
-    this.stopGlobal();
-
-    // Validate using cron-parser (supports shorthands natively)
+  // Validate using cron-parser (supports shorthands natively)
+  private validateSchedule(schedule: string): void {
     try {
       CronExpressionParser.parse(schedule);
     } catch (error) {
@@ -86,24 +97,79 @@ class SchedulerService {
       });
       throw new Error(`Invalid scheduler cron expression "${schedule}": ${message}`);
     }
+  }
 
-    this.globalCurrentSchedule = schedule;
-
+  private createTask(schedule: string, run: () => Promise<void>): ScheduledTask {
     const timezone = process.env.TZ || 'UTC';
     logger.info('🕐 Scheduling with timezone', { timezone });
-    this.globalTask = cron.schedule(
-      this.expandCronShorthand(schedule),
-      async () => {
-        await this.runGlobalScheduledSearch(schedule);
-      },
-      {
-        timezone
-      }
-    );
+    return cron.schedule(this.expandCronShorthand(schedule), run, { timezone });
+  }
+
+  startGlobal(schedule: string): void {
+    this.stopGlobal();
+    this.validateSchedule(schedule);
+
+    this.globalCurrentSchedule = schedule;
+    this.globalTask = this.createTask(schedule, async () => {
+      await this.runGlobalScheduledSearch(schedule);
+    });
 
     logger.info('🕐 Global scheduler started', { schedule });
   }
 
+  /**
+   * Starts a dedicated cron task for every enabled instance with its own schedule.
+   * The global scheduler toggle still acts as the master switch.
+   */
+  private startInstances(config: Config): void {
+    this.stopInstances();
+
+    if (!config.scheduler?.enabled) {
+      return;
+    }
+
+    for (const appType of APP_TYPES) {
+      const instances = getConfiguredInstances(config.applications[appType] as StarrInstanceConfig[]);
+
+      for (const instance of instances) {
+        if (!instance.schedule) continue;
+
+        const schedule = instance.schedule;
+        const instanceName = instance.name || instance.id;
+        try {
+          this.validateSchedule(schedule);
+        } catch {
+          // Already logged; skip this instance and keep the others scheduled
+          continue;
+        }
+
+        const task = this.createTask(schedule, async () => {
+          await this.runInstanceScheduledSearch(instance.id);
+        });
+        this.instanceTasks.set(instance.id, { task, schedule, appType, instanceName, isRunning: false });
+        logger.info('🕐 Instance scheduler started', { instanceId: instance.id, appType, schedule });
+      }
+    }
+  }
+
+  private stopInstances(): void {
+    for (const entry of this.instanceTasks.values()) {
+      entry.task.stop();
+    }
+    this.instanceTasks.clear();
+  }
+
+  /**
+   * IDs of enabled instances without their own schedule, which the global schedule covers
+   */
+  private getGlobalInstanceIds(config: Config): string[] {
+    return APP_TYPES.flatMap(appType =>
+      getConfiguredInstances(config.applications[appType] as StarrInstanceConfig[])
+        .filter(instance => !instance.schedule)
+        .map(instance => instance.id)
+    );
+  }
+
   stopGlobal(): void {
     if (this.globalTask) {
       this.globalTask.stop();
@@ -124,7 +190,9 @@ class SchedulerService {
       this.stopGlobal();
     }
 
-    logger.info('✅ Scheduler service restarted');
+    this.startInstances(config);
+
+    logger.info('✅ Scheduler service restarted', { instanceSchedules: this.instanceTasks.size });
   }
 
   private async runGlobalScheduledSearch(schedule: string): Promise<void> {
@@ -133,12 +201,18 @@ class SchedulerService {
       return;
     }
 
+    const instanceIds = this.getGlobalInstanceIds(configService.getConfig());
+    if (instanceIds.length === 0) {
+      logger.debug('⏭️  All instances have their own schedule, skipping global run');
+      return;
+    }
+
     this.globalIsRunning = true;
-    logger.info('⏰ Global scheduled search started', { schedule });
+    logger.info('⏰ Global scheduled search started', { schedule, instanceIds });
 
     try {
       const endOp = startOperation('SchedulerService.runGlobalScheduledSearch', { schedule });
-      const results = await executeSearchRun();
+      const results = await executeSearchRun({ instanceIds, trigger: 'scheduled', awaitOutcomes: true });
 
       logger.info('✅ Global scheduled search completed', {
         results: Object.keys(results).map(app => ({
@@ -160,6 +234,34 @@ class SchedulerService {
     }
   }
 
+  private async runInstanceScheduledSearch(instanceId: string): Promise<void> {
+    const entry = this.instanceTasks.get(instanceId);
+    if (!entry) return;
+
+    if (entry.isRunning) {
+      logger.warn('⏸️  Previous instance search still running, skipping scheduled run', { instanceId });
+      return;
+    }
+
+    entry.isRunning = true;
+    logger.info('⏰ Instance scheduled search started', { instanceId, appType: entry.appType, schedule: entry.schedule });
+
+    try {
+      const endOp = startOperation('SchedulerService.runInstanceScheduledSearch', { instanceId, schedule: entry.schedule });
+      const results = await executeSearchRun({ instanceIds: [instanceId], trigger: 'scheduled', awaitOutcomes: true });
+
+      await this.sendNotifications(results, true);
+      endOp({ totalSearched: Object.values(results).reduce((s, r) => s + (r.searched || 0), 0) }, true);
+    } catch (error: unknown) {
+      const { message, stack } = getErrorDetails(error);
+
+      logger.error('❌ Instance scheduled search failed', { instanceId, error: message, stack });
+      await this.sendNotifications({}, false, message);
+    } finally {
+      entry.isRunning = false;
+    }
+  }
+
   getNextRunTime(schedule: string): Date | null {
     if (!schedule) {
       return null;
@@ -180,17 +282,43 @@ class SchedulerService {
     running: boolean;
     schedule: string | null;
     nextRun: string | null;
+    instances: Record<string, InstanceSchedulerStatus>;
   } {
     const configToUse = config || configService.getConfig();
     const globalSchedule = this.globalCurrentSchedule || configToUse.scheduler?.schedule || null;
     const globalNextRun = globalSchedule ? this.getNextRunTime(globalSchedule) : null;
 
     const globalRunning = !!this.globalTask;
+    const enabled = configToUse.scheduler?.enabled || false;
+    const defaultUnattended = configToUse.scheduler?.unattended || false;
+
+    // Per-instance view: own schedule when set, otherwise the global fallback
+    const instances: Record<string, InstanceSchedulerStatus> = {};
+    for (const appType of APP_TYPES) {
+      const configured = getConfiguredInstances(configToUse.applications[appType] as StarrInstanceConfig[]);
+
+      for (const instance of configured) {
+        const entry = this.instanceTasks.get(instance.id);
+        const schedule = instance.schedule || globalSchedule;
+        const nextRun = enabled && schedule ? this.getNextRunTime(schedule) : null;
+
+        instances[instance.id] = {
+          appType,
+          instanceName: instance.name,
+          schedule,
+          source: instance.schedule ? 'instance' : 'global',
+          unattended: instance.unattended ?? defaultUnattended,
+          running: instance.schedule ? !!entry : globalRunning,
+          nextRun: nextRun ? nextRun.toISOString() : null
+        };
+      }
+    }
 
     return {
       running: globalRunning,
       schedule: globalSchedule,
-      nextRun: globalNextRun ? globalNextRun.toISOString() : null
+      nextRun: globalNextRun ? globalNextRun.toISOString() : null,
+      instances
     };
   }
 }
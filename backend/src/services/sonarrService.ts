@@ -1,7 +1,10 @@
-import { SonarrInstance } from '@scoutarr/shared';
+import { APP_DEFINITIONS, SonarrInstance, FilterBreakdown, SearchGranularity } from '@scoutarr/shared';
+import { AxiosInstance } from 'axios';
+import { groupBy, isEqual } from 'es-toolkit';
 import { BaseStarrService } from './baseStarrService.js';
 import { FilterableMedia } from '../utils/filterUtils.js';
 import logger from '../utils/logger.js';
+import { LIBRARY_REQUEST_TIMEOUT_MS } from '../utils/httpPolicy.js';
 
 export interface SonarrEpisode extends FilterableMedia {
   title: string;
@@ -11,11 +14,24 @@ export interface SonarrEpisode extends FilterableMedia {
   episodeNumber: number;
   episodeTitle: string;
   episodeFileId?: number;
-  episodeFile?: { dateAdded?: string; customFormatScore?: number };
+  episodeFile?: { dateAdded?: string; customFormatScore?: number; quality?: { quality?: { name?: string } } };
   hasFile: boolean;
   titleSlug?: string;
+  episodeMonitored?: boolean; // The episode's own flag; monitored also requires the series to be monitored
+  seriesStatistics?: SonarrSeriesStatistics; // Compared on incremental syncs to spot series whose episodes changed
 }
 
+interface SonarrSeriesStatistics {
+  episodeCount?: number;
+  episodeFileCount?: number;
+  totalEpisodeCount?: number;
+}
+
+type EpisodeFields = Pick<
+  SonarrEpisode,
+  'id' | 'seasonNumber' | 'episodeNumber' | 'episodeTitle' | 'episodeMonitored' | 'hasFile' | 'lastSearchTime' | 'episodeFileId' | 'episodeFile'
+>;
+
 interface SonarrApiSeries {
   id: number;
   title: string;
@@ -24,6 +40,8 @@ interface SonarrApiSeries {
   monitored: boolean;
   qualityProfileId: number;
   tags: number[];
+  added?: string;
+  statistics?: SonarrSeriesStatistics & { [key: string]: unknown };
   [key: string]: unknown;
 }
 
@@ -35,19 +53,29 @@ interface SonarrApiEpisode {
   title: string | null;
   hasFile: boolean;
   monitored: boolean;
+  lastSearchTime?: string;
   episodeFileId: number;
   episodeFile?: {
     id: number;
     dateAdded?: string;
     customFormatScore?: number;
+    quality?: { quality?: { name?: string } };
     [key: string]: unknown;
   };
   [key: string]: unknown;
 }
 
+function getSeriesStatistics(series: SonarrApiSeries): SonarrSeriesStatistics {
+  return {
+    episodeCount: series.statistics?.episodeCount,
+    episodeFileCount: series.statistics?.episodeFileCount,
+    totalEpisodeCount: series.statistics?.totalEpisodeCount
+  };
+}
+
 class SonarrService extends BaseStarrService<SonarrInstance, SonarrEpisode> {
-  protected readonly appName = 'Sonarr';
-  protected readonly apiVersion = 'v3' as const;
+  protected readonly appName = APP_DEFINITIONS.sonarr.name;
+  protected readonly apiVersion = APP_DEFINITIONS.sonarr.apiVersion;
   protected readonly mediaEndpoint = 'series';
   protected readonly qualityProfileEndpoint = 'qualityprofile';
   protected readonly editorEndpoint = 'series/editor';
@@ -77,7 +105,7 @@ class SonarrService extends BaseStarrService<SonarrInstance, SonarrEpisode> {
     return 'SeriesSearch';
   }
 
-  protected getStatusFilterKey(): string {
+  protected getStatusFilterKey(): keyof SonarrInstance {
     return 'seriesStatus';
   }
 
@@ -102,64 +130,227 @@ class SonarrService extends BaseStarrService<SonarrInstance, SonarrEpisode> {
 
   async getMedia(config: SonarrInstance): Promise<SonarrEpisode[]> {
     const client = this.createClient(config);
-
-    // Fetch all series
-    logger.info(`📡 [Sonarr API] Fetching series`, { url: config.url, name: config.name });
-    const seriesResponse = await client.get<SonarrApiSeries[]>(`/api/${this.apiVersion}/series`);
-    const allSeries = seriesResponse.data;
-    logger.info(`✅ [Sonarr API] Fetched ${allSeries.length} series`);
+    const allSeries = await this.fetchSeries(client, config);
 
     // Fetch episodes for each series
     const allEpisodes: SonarrEpisode[] = [];
     for (const series of allSeries) {
-      try {
-        const episodeResponse = await client.get<SonarrApiEpisode[]>(
-          `/api/${this.apiVersion}/episode`,
-          { params: { seriesId: series.id, includeEpisodeFile: true } }
-        );
-
-        for (const ep of episodeResponse.data) {
-          allEpisodes.push({
-            id: ep.id,
-            title: series.title,
-            seriesId: series.id,
-            seriesTitle: series.title,
-            seasonNumber: ep.seasonNumber,
-            episodeNumber: ep.episodeNumber,
-            episodeTitle: ep.title || '',
-            monitored: series.monitored && ep.monitored,
-            tags: series.tags as unknown as string[],
-            status: series.status,
-            qualityProfileId: series.qualityProfileId,
-            hasFile: ep.hasFile,
-            episodeFileId: ep.episodeFileId > 0 ? ep.episodeFileId : undefined,
-            episodeFile: ep.episodeFile ? {
-              dateAdded: ep.episodeFile.dateAdded,
-              customFormatScore: ep.episodeFile.customFormatScore
-            } : undefined,
-            titleSlug: series.titleSlug // <-- crucial for redirect
-          });
-        }
-      } catch (error: unknown) {
-        logger.error(`❌ [Sonarr API] Failed to fetch episodes for series ${series.id} (${series.title})`, {
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+      allEpisodes.push(...(await this.fetchEpisodes(client, series) ?? []));
     }
 
     logger.info(`✅ [Sonarr API] Fetched ${allEpisodes.length} episodes across ${allSeries.length} series`);
     return allEpisodes;
   }
 
-  async searchMedia(config: SonarrInstance, mediaIds: number[]): Promise<void> {
+  supportsIncrementalSync(): boolean {
+    return true;
+  }
+
+  // Only series that are new, appear in history or whose episode statistics moved get their episodes refetched;
+  // the rest reuse their cached episodes with the series-level fields refreshed
+  async getMediaSince(config: SonarrInstance, since: Date, cached: SonarrEpisode[]): Promise<SonarrEpisode[]> {
+    const client = this.createClient(config);
+    const allSeries = await this.fetchSeries(client, config);
+    const history = await this.fetchHistorySince(client, since);
+    const touchedSeries = new Set(history.map(record => record.seriesId));
+    const cachedBySeries = groupBy(cached, episode => episode.seriesId);
+
+    const allEpisodes: SonarrEpisode[] = [];
+    let refetched = 0;
+    for (const series of allSeries) {
+      const cachedEpisodes = cachedBySeries[series.id] ?? [];
+      const unchanged = cachedEpisodes.length > 0
+        && !touchedSeries.has(series.id)
+        && isEqual(cachedEpisodes[0].seriesStatistics, getSeriesStatistics(series));
+
+      if (unchanged) {
+        allEpisodes.push(...cachedEpisodes.map(episode => this.toEpisode(series, episode)));
+        continue;
+      }
+
+      refetched++;
+      const episodes = await this.fetchEpisodes(client, series);
+      // Keep the cached episodes (and their old statistics, so the next sync retries) if the refetch failed
+      allEpisodes.push(...(episodes ?? cachedEpisodes.map(episode => ({
+        ...this.toEpisode(series, episode),
+        seriesStatistics: episode.seriesStatistics
+      }))));
+    }
+
+    logger.info(`✅ [Sonarr API] Refetched episodes for ${refetched} of ${allSeries.length} series changed since last sync`, {
+      since: since.toISOString(),
+      historyRecords: history.length,
+      episodes: allEpisodes.length
+    });
+    return allEpisodes;
+  }
+
+  async getMediaForTarget(config: SonarrInstance, seriesId: number): Promise<SonarrEpisode[]> {
+    const client = this.createClient(config);
+    const response = await client.get<SonarrApiSeries>(`/api/${this.apiVersion}/series/${seriesId}`);
+    const episodes = await this.fetchEpisodes(client, response.data);
+    if (!episodes) {
+      throw new Error(`Failed to fetch episodes for series ${seriesId}`);
+    }
+    return episodes;
+  }
+
+  private async fetchSeries(client: AxiosInstance, config: SonarrInstance): Promise<SonarrApiSeries[]> {
+    logger.info(`📡 [Sonarr API] Fetching series`, { url: config.url, name: config.name });
+    const seriesResponse = await client.get<SonarrApiSeries[]>(`/api/${this.apiVersion}/series`, { timeout: LIBRARY_REQUEST_TIMEOUT_MS });
+    logger.info(`✅ [Sonarr API] Fetched ${seriesResponse.data.length} series`);
+    return seriesResponse.data;
+  }
+
+  /**
+   * Fetches a series' episodes with their files, or undefined when the request fails
+   */
+  private async fetchEpisodes(client: AxiosInstance, series: SonarrApiSeries): Promise<SonarrEpisode[] | undefined> {
+    try {
+      const episodeResponse = await client.get<SonarrApiEpisode[]>(
+        `/api/${this.apiVersion}/episode`,
+        { params: { seriesId: series.id, includeEpisodeFile: true } }
+      );
+      return episodeResponse.data.map(ep => this.toEpisode(series, {
+        id: ep.id,
+        seasonNumber: ep.seasonNumber,
+        episodeNumber: ep.episodeNumber,
+        episodeTitle: ep.title || '',
+        episodeMonitored: ep.monitored,
+        hasFile: ep.hasFile,
+        lastSearchTime: ep.lastSearchTime,
+        episodeFileId: ep.episodeFileId > 0 ? ep.episodeFileId : undefined,
+        episodeFile: ep.episodeFile ? {
+          dateAdded: ep.episodeFile.dateAdded,
+          customFormatScore: ep.episodeFile.customFormatScore,
+          quality: ep.episodeFile.quality
+        } : undefined
+      }));
+    } catch (error: unknown) {
+      logger.error(`❌ [Sonarr API] Failed to fetch episodes for series ${series.id} (${series.title})`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  // Builds fresh and cached episodes the same way, so unchanged episodes serialize identically between syncs
+  private toEpisode(series: SonarrApiSeries, episode: EpisodeFields): SonarrEpisode {
+    return {
+      id: episode.id,
+      title: series.title,
+      seriesId: series.id,
+      seriesTitle: series.title,
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      episodeTitle: episode.episodeTitle,
+      monitored: series.monitored && episode.episodeMonitored !== false,
+      episodeMonitored: episode.episodeMonitored,
+      tags: series.tags,
+      status: series.status,
+      qualityProfileId: series.qualityProfileId,
+      hasFile: episode.hasFile,
+      lastSearchTime: episode.lastSearchTime,
+      added: series.added,
+      episodeFileId: episode.episodeFileId,
+      episodeFile: episode.episodeFile,
+      titleSlug: series.titleSlug, // <-- crucial for redirect
+      seriesStatistics: getSeriesStatistics(series)
+    };
+  }
+
+  async searchMedia(config: SonarrInstance, mediaIds: number[]): Promise<number[]> {
     // Sonarr searches by series ID, one at a time
+    const commandIds: number[] = [];
     for (const seriesId of mediaIds) {
-      await this.searchMediaItems(config, [seriesId], true);
+      commandIds.push(...await this.searchMediaItems(config, [seriesId], true));
+    }
+    return commandIds;
+  }
+
+  // Sonarr routes series pages by title slug
+  getExternalId(episode: SonarrEpisode): string | undefined {
+    return episode.titleSlug || undefined;
+  }
+
+  private getGranularity(config: SonarrInstance): SearchGranularity {
+    return config.searchGranularity || 'series';
+  }
+
+  getSearchUnitKey(config: SonarrInstance, episode: SonarrEpisode): string {
+    switch (this.getGranularity(config)) {
+      case 'season':
+        return `${episode.seriesId}:${episode.seasonNumber}`;
+      case 'episode':
+        return `${episode.seriesId}:${episode.seasonNumber}:${episode.id}`;
+      default:
+        return String(episode.seriesId);
+    }
+  }
+
+  getSearchUnitLabel(config: SonarrInstance, episode: SonarrEpisode): string | undefined {
+    const season = `S${String(episode.seasonNumber ?? 0).padStart(2, '0')}`;
+    switch (this.getGranularity(config)) {
+      case 'season':
+        return season;
+      case 'episode':
+        return `${season}E${String(episode.episodeNumber ?? 0).padStart(2, '0')}`;
+      default:
+        return undefined;
+    }
+  }
+
+  // Tags are series-level in Sonarr, so tagging after a season or episode search would skip the rest of the series
+  tagsSearchedMedia(config: SonarrInstance): boolean {
+    return this.getGranularity(config) === 'series';
+  }
+
+  // Episode searches are matched to grabs by episode; series and season searches by series
+  getGrabMatch(config: SonarrInstance, episode: SonarrEpisode): { field: string; id: number } {
+    return this.getGranularity(config) === 'episode'
+      ? { field: 'episodeId', id: episode.id }
+      : { field: 'seriesId', id: episode.seriesId };
+  }
+
+  async searchSelected(config: SonarrInstance, episodes: SonarrEpisode[]): Promise<number[]> {
+    const granularity = this.getGranularity(config);
+    if (granularity === 'series') {
+      return this.searchMedia(config, [...new Set(episodes.map(e => e.seriesId))]);
+    }
+
+    const client = this.createClient(config);
+    const commandIds: number[] = [];
+    try {
+      if (granularity === 'season') {
+        const seasons = new Map(episodes.map(e => [`${e.seriesId}:${e.seasonNumber}`, e]));
+        logger.info(`🔍 [Sonarr API] Searching seasons`, { name: config.name, count: seasons.size });
+        for (const episode of seasons.values()) {
+          commandIds.push(await this.dispatchCommand(config, client, {
+            name: 'SeasonSearch',
+            seriesId: episode.seriesId,
+            seasonNumber: episode.seasonNumber
+          }));
+        }
+        logger.info(`✅ [Sonarr API] Season search commands sent`, { count: seasons.size });
+      } else {
+        const episodeIds = [...new Set(episodes.map(e => e.id))];
+        logger.info(`🔍 [Sonarr API] Searching episodes`, { name: config.name, count: episodeIds.length });
+        commandIds.push(...await this.dispatchBatchCommand(config, client, 'EpisodeSearch', 'episodeIds', episodeIds));
+        logger.info(`✅ [Sonarr API] Episode search commands sent`, { count: episodeIds.length, commands: commandIds.length });
+      }
+      return commandIds;
+    } catch (error: unknown) {
+      this.logError(`Failed to search ${granularity === 'season' ? 'seasons' : 'episodes'}`, error, {
+        count: episodes.length,
+        url: config.url,
+        name: config.name
+      });
+      throw error;
     }
   }
 
-  async filterMedia(config: SonarrInstance, media: SonarrEpisode[]): Promise<SonarrEpisode[]> {
-    return this.filterMediaItems(config, media);
+  async filterMedia(config: SonarrInstance, media: SonarrEpisode[], breakdown?: FilterBreakdown): Promise<SonarrEpisode[]> {
+    return this.filterMediaItems(config, media, breakdown);
   }
 }
 
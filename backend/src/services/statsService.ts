@@ -1,20 +1,49 @@
 import Database from 'better-sqlite3';
 import fs from 'fs/promises';
 import path from 'path';
+import { randomUUID } from 'crypto';
+import { groupBy, mean } from 'es-toolkit';
+import {
+  cfScoreHistoryRowSchema,
+  historyRowSchema,
+  instanceRowSchema,
+  runRowSchema,
+  upgradeRowSchema,
+  type ExportTables,
+  type HistoryImportMode,
+  type ImportResult
+} from '@scoutarr/shared';
+import type { InstanceSyncReport, MediaSyncReport, SearchItemOutcome, UpgradeEffectivenessGroup, UpgradeEffectivenessReport, UpgradeRecord, SearchRun, SearchRunInstanceOutcome, SearchRunStatus, SearchRunTrigger } from '@scoutarr/shared';
 import logger from '../utils/logger.js';
 import { getConfigDir } from '../utils/paths.js';
 import { getErrorMessage } from '../utils/errorUtils.js';
-import { extractFileInfoForDb } from '../utils/mediaFileUtils.js';
+import { extractFileInfo, extractFileInfoForDb } from '../utils/mediaFileUtils.js';
 
 const CONFIG_DIR = getConfigDir();
 const DB_FILE = path.join(CONFIG_DIR, 'scoutarr.db');
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// A new file is only credited to a search of the item made at most this long before it was imported
+const UPGRADE_ATTRIBUTION_DAYS = 14;
+
+const RECENT_UPGRADES_LIMIT = 20;
+
+// Columns carried by export archives, taken from the archive row schemas so export and import can't drift apart
+const EXPORT_COLUMNS: Record<keyof ExportTables, string[]> = {
+  instances: Object.keys(instanceRowSchema.shape),
+  history: Object.keys(historyRowSchema.shape),
+  cf_score_history: Object.keys(cfScoreHistoryRowSchema.shape),
+  runs: Object.keys(runRowSchema.shape),
+  upgrades: Object.keys(upgradeRowSchema.shape)
+};
+
 export interface SearchEntry {
   timestamp: string;
   application: string;
   instance?: string; // Instance name/ID
   count: number;
-  items: Array<{ id: number; title: string; externalId?: string; upgraded?: boolean }>;
+  items: Array<{ id: number; title: string; unit?: string; externalId?: string; upgraded?: boolean; outcome?: SearchItemOutcome }>;
 }
 
 export interface Stats {
@@ -27,6 +56,71 @@ export interface Stats {
   upgradesByApplication: Record<string, number>;
 }
 
+/**
+ * A synced media item as written to media_library - tag names resolved, extra fields kept in raw_data
+ */
+export interface MediaLibraryItem {
+  id: number;
+  title: string;
+  monitored: boolean;
+  tags: string[];
+  qualityProfileId?: number;
+  status: string;
+  lastSearchTime?: string;
+  added?: string;
+  movieFile?: { dateAdded?: string };
+  episodeFile?: { dateAdded?: string };
+  trackFiles?: Array<{ dateAdded?: string }>;
+  bookFiles?: Array<{ dateAdded?: string }>;
+  seriesId?: number;
+  seriesTitle?: string;
+  seasonNumber?: number;
+  episodeNumber?: number;
+  episodeFileId?: number;
+  parentId?: number;
+  externalId?: string;
+  [key: string]: unknown;
+}
+
+// Column an ID passed to updateMediaTags or markMediaSearched matches: the row itself, its Sonarr series or its artist/author
+export type MediaTagColumn = 'media_id' | 'series_id' | 'parent_id';
+
+interface UpgradeRow {
+  instance_id: string;
+  media_id: number;
+  title: string;
+  history_id: number;
+  search_item_id: number;
+  run_id: string | null;
+  selection_strategy: string | null;
+  searched_at: string;
+  upgraded_at: string;
+  previous_score: number | null;
+  new_score: number | null;
+  previous_quality: string | null;
+  new_quality: string | null;
+}
+
+// Running totals behind one UpgradeEffectivenessGroup
+interface EffectivenessTally {
+  label: string;
+  searched: number;
+  upgraded: number;
+  hours: number[];
+  scoreGains: number[];
+}
+
+interface RunRow {
+  id: string;
+  trigger: string;
+  status: string;
+  started_at: string;
+  finished_at: string | null;
+  total_searched: number;
+  error: string | null;
+  instances: string;
+}
+
 class StatsService {
   private db: Database.Database | null = null;
 
@@ -44,6 +138,8 @@ class StatsService {
       logger.debug('📊 Creating database tables');
       this.createTables();
       logger.debug('✅ Database tables created');
+
+      this.failInterruptedRuns();
       
       logger.info('✅ Stats service initialized successfully', { dbFile: DB_FILE });
     } catch (error: unknown) {
@@ -113,8 +209,57 @@ class StatsService {
       )
     `);
 
+    // Create runs table - one row per search run with per-instance outcomes as JSON
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS runs (
+        id TEXT PRIMARY KEY,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        total_searched INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        instances TEXT NOT NULL DEFAULT '[]'
+      )
+    `);
+
+    // Create upgrades table - new files attributed to the search that preceded them
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS upgrades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        instance_id TEXT NOT NULL,
+        media_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        history_id INTEGER NOT NULL,
+        search_item_id INTEGER NOT NULL,
+        run_id TEXT,
+        selection_strategy TEXT,
+        quality_profile_id INTEGER,
+        searched_at TEXT NOT NULL,
+        upgraded_at TEXT NOT NULL,
+        previous_score INTEGER,
+        new_score INTEGER,
+        previous_quality TEXT,
+        new_quality TEXT,
+        UNIQUE(instance_id, media_id, upgraded_at),
+        FOREIGN KEY (instance_id) REFERENCES instances(instance_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create searched units table - stands in for the instance tag when searches are narrower than what tags apply to
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS searched_units (
+        instance_id TEXT NOT NULL,
+        unit_key TEXT NOT NULL,
+        searched_at TEXT NOT NULL,
+        PRIMARY KEY (instance_id, unit_key),
+        FOREIGN KEY (instance_id) REFERENCES instances(instance_id) ON DELETE CASCADE
+      )
+    `);
+
     // Create indexes for better query performance
     this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_runs_started_at ON runs(started_at DESC);
       CREATE INDEX IF NOT EXISTS idx_history_timestamp ON history(timestamp DESC);
       CREATE INDEX IF NOT EXISTS idx_history_application ON history(application);
       CREATE INDEX IF NOT EXISTS idx_history_instance ON history(instance);
@@ -130,6 +275,9 @@ class StatsService {
       CREATE INDEX IF NOT EXISTS idx_media_library_series_id ON media_library(series_id);
       CREATE INDEX IF NOT EXISTS idx_cf_history_lookup ON cf_score_history(instance_id, media_id, recorded_at DESC);
       CREATE INDEX IF NOT EXISTS idx_cf_history_recorded_at ON cf_score_history(recorded_at);
+      CREATE INDEX IF NOT EXISTS idx_upgrades_history ON upgrades(history_id);
+      CREATE INDEX IF NOT EXISTS idx_upgrades_searched_at ON upgrades(searched_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_history_instance_id ON history(instance_id, timestamp DESC);
     `);
 
   }
@@ -159,6 +307,8 @@ class StatsService {
         season_number INTEGER,
         episode_number INTEGER,
         episode_file_id INTEGER,
+        date_added TEXT,
+        parent_id INTEGER,
         UNIQUE(instance_id, media_id),
         FOREIGN KEY (instance_id) REFERENCES instances(instance_id) ON DELETE CASCADE
       )
@@ -172,6 +322,48 @@ class StatsService {
       // Column already exists — ignore
     }
 
+    // Migration: Add run_id column to history to link rows to their search run
+    try {
+      this.db.exec(`ALTER TABLE history ADD COLUMN run_id TEXT`);
+      logger.info('✅ Added run_id column to history table');
+    } catch {
+      // Column already exists — ignore
+    }
+
+    // Migration: Add selection_strategy column to history so upgrades can be compared by strategy
+    try {
+      this.db.exec(`ALTER TABLE history ADD COLUMN selection_strategy TEXT`);
+      logger.info('✅ Added selection_strategy column to history table');
+    } catch {
+      // Column already exists — ignore
+    }
+
+    // Migration: Add sync bookkeeping columns so scheduled syncs can run incrementally
+    for (const column of ['last_sync_at', 'last_full_sync_at', 'last_sync_report']) {
+      try {
+        this.db.exec(`ALTER TABLE instances ADD COLUMN ${column} TEXT`);
+        logger.info(`✅ Added ${column} column to instances table`);
+      } catch {
+        // Column already exists — ignore
+      }
+    }
+
+    // Migration: Add date_added column so age filters work on cached media
+    try {
+      this.db.exec(`ALTER TABLE media_library ADD COLUMN date_added TEXT`);
+      logger.info('✅ Added date_added column to media_library table');
+    } catch {
+      // Column already exists — ignore
+    }
+
+    // Migration: Add parent_id column for album- and book-level rows, whose tags live on the artist/author
+    try {
+      this.db.exec(`ALTER TABLE media_library ADD COLUMN parent_id INTEGER`);
+      logger.info('✅ Added parent_id column to media_library table');
+    } catch {
+      // Column already exists — ignore
+    }
+
     // Migration: Add external_id column if it doesn't exist (for existing databases)
     try {
       this.db.exec(`ALTER TABLE media_library ADD COLUMN external_id TEXT`);
@@ -182,10 +374,10 @@ class StatsService {
     }
   }
 
-  private enrichItemsWithExternalId(
-    items: Array<{ id: number; title: string }>,
+  private enrichItemsWithExternalId<T extends { id: number; title: string }>(
+    items: T[],
     instanceId: string | null
-  ): Array<{ id: number; title: string; externalId?: string }> {
+  ): Array<T & { externalId?: string }> {
     if (!this.db || !instanceId || items.length === 0) return items;
     try {
       const placeholders = items.map(() => '?').join(',');
@@ -213,27 +405,16 @@ class StatsService {
     }
   }
 
-  private getUpgradedItemIds(instanceId: string, mediaIds: number[]): Set<number> {
-    if (!this.db || mediaIds.length === 0) return new Set();
-    const placeholders = mediaIds.map(() => '?').join(',');
-    const stmt = this.db.prepare(`
-      SELECT m.media_id
-      FROM media_library m
-      WHERE m.instance_id = ?
-        AND m.media_id IN (${placeholders})
-        AND m.custom_format_score IS NOT NULL
-        AND m.custom_format_score > (
-          SELECT h.score FROM cf_score_history h
-          WHERE h.instance_id = m.instance_id AND h.media_id = m.media_id
-          ORDER BY h.recorded_at DESC
-          LIMIT 1 OFFSET 1
-        )
-    `);
-    const rows = stmt.all(instanceId, ...mediaIds) as Array<{ media_id: number }>;
-    return new Set(rows.map(r => r.media_id));
+  // Search items of a history entry that were followed by an attributed upgrade
+  private getUpgradedItemIds(historyId: number): Set<number> {
+    if (!this.db) return new Set();
+    const rows = this.db.prepare(`
+      SELECT DISTINCT search_item_id FROM upgrades WHERE history_id = ?
+    `).all(historyId) as Array<{ search_item_id: number }>;
+    return new Set(rows.map(r => r.search_item_id));
   }
 
-  async addSearch(application: string, count: number, items: Array<{ id: number; title: string; externalId?: string }>, instance?: string, instanceId?: string): Promise<void> {
+  async addSearch(application: string, count: number, items: Array<{ id: number; title: string; externalId?: string }>, instance?: string, instanceId?: string, runId?: string, selectionStrategy?: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
@@ -241,8 +422,8 @@ class StatsService {
       const appKey = application.toLowerCase();
 
       const insertStmt = this.db.prepare(`
-        INSERT INTO history (timestamp, application, instance, count, items, instance_id)
-        VALUES (?, ?, ?, ?, ?, ?)
+        INSERT INTO history (timestamp, application, instance, count, items, instance_id, run_id, selection_strategy)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       insertStmt.run(
@@ -251,7 +432,9 @@ class StatsService {
         instance || null,
         count,
         JSON.stringify(items),
-        instanceId || null
+        instanceId || null,
+        runId || null,
+        selectionStrategy || null
       );
 
       logger.debug('📊 Stats updated', {
@@ -270,19 +453,38 @@ class StatsService {
     }
   }
 
+  /**
+   * Rewrites the items of a run's history entry for an instance once their search outcomes are known
+   */
+  updateSearchItems(runId: string, instanceId: string, items: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.prepare(`
+      UPDATE history SET items = ? WHERE run_id = ? AND instance_id = ?
+    `).run(JSON.stringify(items), runId, instanceId);
+  }
+
+  /**
+   * Total items searched since the given time, optionally for one instance - the ledger for search budgets
+   */
+  getSearchCountSince(since: Date, instanceId?: string): number {
+    if (!this.db) return 0;
+    const row = instanceId
+      ? this.db.prepare(`
+          SELECT COALESCE(SUM(count), 0) AS total FROM history WHERE timestamp >= ? AND instance_id = ?
+        `).get(since.toISOString(), instanceId)
+      : this.db.prepare(`
+          SELECT COALESCE(SUM(count), 0) AS total FROM history WHERE timestamp >= ?
+        `).get(since.toISOString());
+    return (row as { total: number }).total;
+  }
+
   private getUpgradeCounts(): Record<string, number> {
     if (!this.db) return {};
     const stmt = this.db.prepare(`
       SELECT i.application, COUNT(*) AS upgrades
-      FROM (
-        SELECT
-          instance_id,
-          LAG(score) OVER (PARTITION BY instance_id, media_id ORDER BY recorded_at) AS prev_score,
-          score
-        FROM cf_score_history
-      ) sub
-      JOIN instances i ON sub.instance_id = i.instance_id
-      WHERE sub.prev_score IS NOT NULL AND sub.score > sub.prev_score
+      FROM upgrades u
+      JOIN instances i ON u.instance_id = i.instance_id
       GROUP BY i.application
     `);
     const rows = stmt.all() as Array<{ application: string; upgrades: number }>;
@@ -342,12 +544,13 @@ class StatsService {
 
     // Get recent searches (limited for API response)
     const recentStmt = this.db.prepare(`
-      SELECT timestamp, application, instance, instance_id, count, items
+      SELECT id, timestamp, application, instance, instance_id, count, items
       FROM history
       ORDER BY timestamp DESC
       LIMIT ?
     `);
     const recentResults = recentStmt.all(limit) as Array<{
+      id: number;
       timestamp: string;
       application: string;
       instance: string | null;
@@ -358,12 +561,10 @@ class StatsService {
 
     const recentSearches: SearchEntry[] = recentResults.map(row => {
       const enriched = this.enrichItemsWithExternalId(
-        JSON.parse(row.items) as Array<{ id: number; title: string }>,
+        JSON.parse(row.items) as SearchEntry['items'],
         row.instance_id
       );
-      const upgradedIds = row.instance_id
-        ? this.getUpgradedItemIds(row.instance_id, enriched.map(i => i.id))
-        : new Set<number>();
+      const upgradedIds = this.getUpgradedItemIds(row.id);
       return {
         timestamp: row.timestamp,
         application: row.application,
@@ -461,12 +662,13 @@ class StatsService {
       const offset = (page - 1) * pageSize;
       logger.debug('📊 Fetching paginated results', { offset, limit: pageSize });
       const stmt = this.db.prepare(`
-        SELECT timestamp, application, instance, instance_id, count, items
+        SELECT id, timestamp, application, instance, instance_id, count, items
         FROM history
         ORDER BY timestamp DESC
         LIMIT ? OFFSET ?
       `);
       const results = stmt.all(pageSize, offset) as Array<{
+        id: number;
         timestamp: string;
         application: string;
         instance: string | null;
@@ -477,12 +679,10 @@ class StatsService {
 
       const searches: SearchEntry[] = results.map(row => {
         const enriched = this.enrichItemsWithExternalId(
-          JSON.parse(row.items) as Array<{ id: number; title: string }>,
+          JSON.parse(row.items) as SearchEntry['items'],
           row.instance_id
         );
-        const upgradedIds = row.instance_id
-          ? this.getUpgradedItemIds(row.instance_id, enriched.map(i => i.id))
-          : new Set<number>();
+        const upgradedIds = this.getUpgradedItemIds(row.id);
         return {
           timestamp: row.timestamp,
           application: row.application,
@@ -509,6 +709,126 @@ class StatsService {
     }
   }
 
+  /**
+   * Share of items searched within the last `days` that were upgraded afterwards, by instance, quality profile and selection strategy
+   */
+  getUpgradeEffectiveness(days: number = 30): UpgradeEffectivenessReport {
+    const empty: UpgradeEffectivenessReport = {
+      days, searched: 0, upgraded: 0, byInstance: [], byProfile: [], byStrategy: [], recentUpgrades: []
+    };
+    if (!this.db) return empty;
+
+    const since = new Date(Date.now() - days * 24 * HOUR_MS).toISOString();
+
+    // One row per searched item - history stores each search unit once per instance and run
+    const searchedRows = this.db.prepare(`
+      SELECT h.id AS history_id, h.instance_id, h.selection_strategy, json_extract(j.value, '$.id') AS item_id
+      FROM history h, json_each(h.items) j
+      WHERE h.timestamp >= ? AND h.instance_id IS NOT NULL
+    `).all(since) as Array<{ history_id: number; instance_id: string; selection_strategy: string | null; item_id: number }>;
+    if (searchedRows.length === 0) return empty;
+
+    const upgradeRows = this.db.prepare(`
+      SELECT * FROM upgrades WHERE searched_at >= ? ORDER BY upgraded_at ASC
+    `).all(since) as UpgradeRow[];
+    const upgradesBySearch = groupBy(upgradeRows, u => `${u.history_id}:${u.search_item_id}`);
+
+    const instances = new Map(
+      (this.db.prepare(`SELECT instance_id, application, display_name FROM instances`).all() as
+        Array<{ instance_id: string; application: string; display_name: string | null }>)
+        .map(row => [row.instance_id, row])
+    );
+    const profileNames = new Map(
+      (this.db.prepare(`SELECT instance_id, quality_profile_id, quality_profile_name FROM quality_profiles`).all() as
+        Array<{ instance_id: string; quality_profile_id: number; quality_profile_name: string }>)
+        .map(row => [`${row.instance_id}:${row.quality_profile_id}`, row.quality_profile_name])
+    );
+    // Searched items are keyed like the search unit: the Sonarr series, otherwise the item itself
+    const itemProfiles = new Map(
+      (this.db.prepare(`
+        SELECT instance_id, COALESCE(series_id, media_id) AS search_key, MAX(quality_profile_id) AS quality_profile_id
+        FROM media_library
+        GROUP BY instance_id, search_key
+      `).all() as Array<{ instance_id: string; search_key: number; quality_profile_id: number | null }>)
+        .map(row => [`${row.instance_id}:${row.search_key}`, row.quality_profile_id])
+    );
+
+    const instanceLabel = (instanceId: string) => instances.get(instanceId)?.display_name || instanceId;
+    const byInstance = new Map<string, EffectivenessTally>();
+    const byProfile = new Map<string, EffectivenessTally>();
+    const byStrategy = new Map<string, EffectivenessTally>();
+    const tally = (groups: Map<string, EffectivenessTally>, key: string, label: string, upgrades: UpgradeRow[] | undefined) => {
+      const group = groups.get(key) ?? { label, searched: 0, upgraded: 0, hours: [], scoreGains: [] };
+      group.searched++;
+      // An item counts once however many files its search brought in; the first one sets the timing
+      const first = upgrades?.[0];
+      if (first) {
+        group.upgraded++;
+        group.hours.push((new Date(first.upgraded_at).getTime() - new Date(first.searched_at).getTime()) / HOUR_MS);
+        if (first.previous_score !== null && first.new_score !== null) {
+          group.scoreGains.push(first.new_score - first.previous_score);
+        }
+      }
+      groups.set(key, group);
+    };
+
+    for (const row of searchedRows) {
+      const upgrades = upgradesBySearch[`${row.history_id}:${row.item_id}`];
+      tally(byInstance, row.instance_id, instanceLabel(row.instance_id), upgrades);
+
+      const profileKey = `${row.instance_id}:${itemProfiles.get(`${row.instance_id}:${row.item_id}`) ?? 'unknown'}`;
+      const profileName = profileNames.get(profileKey) ?? 'Unknown profile';
+      tally(byProfile, profileKey, `${profileName} (${instanceLabel(row.instance_id)})`, upgrades);
+
+      const strategy = row.selection_strategy ?? 'unknown';
+      tally(byStrategy, strategy, strategy, upgrades);
+    }
+
+    const toGroups = (groups: Map<string, EffectivenessTally>): UpgradeEffectivenessGroup[] =>
+      [...groups.entries()]
+        .map(([key, group]) => ({
+          key,
+          label: group.label,
+          searched: group.searched,
+          upgraded: group.upgraded,
+          rate: group.upgraded / group.searched,
+          avgHoursToUpgrade: group.hours.length > 0 ? mean(group.hours) : undefined,
+          avgScoreGain: group.scoreGains.length > 0 ? mean(group.scoreGains) : undefined
+        }))
+        .sort((a, b) => b.searched - a.searched);
+
+    const recentUpgrades: UpgradeRecord[] = upgradeRows
+      .slice(-RECENT_UPGRADES_LIMIT)
+      .reverse()
+      .map(u => ({
+        instanceId: u.instance_id,
+        instanceName: instances.get(u.instance_id)?.display_name ?? undefined,
+        appType: instances.get(u.instance_id)?.application,
+        mediaId: u.media_id,
+        title: u.title,
+        runId: u.run_id ?? undefined,
+        selectionStrategy: u.selection_strategy ?? undefined,
+        searchedAt: u.searched_at,
+        upgradedAt: u.upgraded_at,
+        hoursToUpgrade: (new Date(u.upgraded_at).getTime() - new Date(u.searched_at).getTime()) / HOUR_MS,
+        previousScore: u.previous_score,
+        newScore: u.new_score,
+        previousQuality: u.previous_quality ?? undefined,
+        newQuality: u.new_quality ?? undefined
+      }));
+
+    const instanceGroups = toGroups(byInstance);
+    return {
+      days,
+      searched: searchedRows.length,
+      upgraded: instanceGroups.reduce((sum, g) => sum + g.upgraded, 0),
+      byInstance: instanceGroups,
+      byProfile: toGroups(byProfile),
+      byStrategy: toGroups(byStrategy),
+      recentUpgrades
+    };
+  }
+
   async resetStats(): Promise<void> {
     try {
       // Close the database connection first
@@ -555,9 +875,17 @@ class StatsService {
       const deleteCfHistoryStmt = this.db.prepare('DELETE FROM cf_score_history');
       const cfHistoryResult = deleteCfHistoryStmt.run();
 
+      const deleteRunsStmt = this.db.prepare('DELETE FROM runs');
+      const runsResult = deleteRunsStmt.run();
+
+      const deleteUpgradesStmt = this.db.prepare('DELETE FROM upgrades');
+      const upgradesResult = deleteUpgradesStmt.run();
+
       logger.info('🗑️  Cleared all data from stats database', {
         searchesDeleted: searchesResult.changes,
-        cfHistoryDeleted: cfHistoryResult.changes
+        cfHistoryDeleted: cfHistoryResult.changes,
+        runsDeleted: runsResult.changes,
+        upgradesDeleted: upgradesResult.changes
       });
     } catch (error: unknown) {
       const errorMessage = getErrorMessage(error);
@@ -568,6 +896,129 @@ class StatsService {
     }
   }
 
+  // ========== Search Run Management ==========
+
+  async startRun(trigger: SearchRunTrigger): Promise<string> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const runId = randomUUID();
+    this.db.prepare(`
+      INSERT INTO runs (id, trigger, status, started_at)
+      VALUES (?, ?, 'running', ?)
+    `).run(runId, trigger, new Date().toISOString());
+
+    logger.debug('📊 Search run started', { runId, trigger });
+    return runId;
+  }
+
+  /**
+   * Marks runs left running by a previous process as failed, since nothing will finish them
+   */
+  private failInterruptedRuns(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.prepare(`
+      UPDATE runs SET status = 'failed', finished_at = ?, error = ? WHERE status = 'running'
+    `).run(new Date().toISOString(), 'Interrupted by a restart');
+    if (result.changes > 0) {
+      logger.warn('⚠️  Marked search runs interrupted by a restart as failed', { runs: result.changes });
+    }
+  }
+
+  async finishRun(runId: string, instances: SearchRunInstanceOutcome[], error?: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const succeeded = instances.filter(i => i.success).length;
+      let status: SearchRunStatus;
+      if (error || (instances.length > 0 && succeeded === 0)) {
+        status = 'failed';
+      } else if (succeeded < instances.length) {
+        status = 'partial';
+      } else {
+        status = 'success';
+      }
+      const totalSearched = instances.reduce((sum, i) => sum + i.searched, 0);
+
+      this.db.prepare(`
+        UPDATE runs
+        SET status = ?, finished_at = ?, total_searched = ?, error = ?, instances = ?
+        WHERE id = ?
+      `).run(status, new Date().toISOString(), totalSearched, error || null, JSON.stringify(instances), runId);
+
+      logger.debug('📊 Search run finished', { runId, status, totalSearched, instanceCount: instances.length });
+    } catch (err: unknown) {
+      logger.error('❌ Error saving search run', { runId, error: getErrorMessage(err) });
+      throw err;
+    }
+  }
+
+  /**
+   * Replaces a finished run's per-instance breakdown, e.g. once search outcomes are known
+   */
+  updateRunInstances(runId: string, instances: SearchRunInstanceOutcome[]): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.prepare('UPDATE runs SET instances = ? WHERE id = ?').run(JSON.stringify(instances), runId);
+  }
+
+  private mapRunRow(row: RunRow): SearchRun {
+    return {
+      id: row.id,
+      trigger: row.trigger as SearchRunTrigger,
+      status: row.status as SearchRunStatus,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || undefined,
+      durationMs: row.finished_at
+        ? new Date(row.finished_at).getTime() - new Date(row.started_at).getTime()
+        : undefined,
+      totalSearched: row.total_searched,
+      error: row.error || undefined,
+      instances: JSON.parse(row.instances) as SearchRunInstanceOutcome[]
+    };
+  }
+
+  async getRuns(page: number = 1, pageSize: number = 15): Promise<{
+    runs: SearchRun[];
+    total: number;
+    totalPages: number;
+  }> {
+    if (!this.db) {
+      logger.warn('⚠️  Database not initialized, returning empty results');
+      return { runs: [], total: 0, totalPages: 0 };
+    }
+
+    try {
+      const countResult = this.db.prepare('SELECT COUNT(*) as count FROM runs').get() as { count: number };
+      const total = countResult.count;
+      const totalPages = Math.ceil(total / pageSize);
+
+      const rows = this.db.prepare(`
+        SELECT id, trigger, status, started_at, finished_at, total_searched, error, instances
+        FROM runs
+        ORDER BY started_at DESC
+        LIMIT ? OFFSET ?
+      `).all(pageSize, (page - 1) * pageSize) as RunRow[];
+
+      return { runs: rows.map(row => this.mapRunRow(row)), total, totalPages };
+    } catch (error: unknown) {
+      logger.error('❌ Error getting search runs', { error: getErrorMessage(error) });
+      return { runs: [], total: 0, totalPages: 0 };
+    }
+  }
+
+  async getRun(runId: string): Promise<SearchRun | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare(`
+      SELECT id, trigger, status, started_at, finished_at, total_searched, error, instances
+      FROM runs
+      WHERE id = ?
+    `).get(runId) as RunRow | undefined;
+
+    return row ? this.mapRunRow(row) : null;
+  }
+
   // ========== Instance Management ==========
 
   async upsertInstance(
@@ -630,6 +1081,8 @@ class StatsService {
     ignore_tags: string;
     created_at: string;
     updated_at: string;
+    last_sync_at: string | null;
+    last_full_sync_at: string | null;
   } | null> {
     if (!this.db) return null;
 
@@ -643,6 +1096,8 @@ class StatsService {
         ignore_tags: string;
         created_at: string;
         updated_at: string;
+        last_sync_at: string | null;
+        last_full_sync_at: string | null;
       } | undefined;
 
       return result || null;
@@ -706,81 +1161,248 @@ class StatsService {
     }
   }
 
+  /**
+   * Stores an instance's latest sync report and moves its sync timestamps forward
+   */
+  recordSyncReport(instanceId: string, report: MediaSyncReport): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.prepare(`
+      UPDATE instances SET
+        last_sync_at = ?,
+        last_full_sync_at = CASE WHEN ? = 'full' THEN ? ELSE last_full_sync_at END,
+        last_sync_report = ?
+      WHERE instance_id = ?
+    `).run(report.syncedAt, report.mode, report.syncedAt, JSON.stringify(report), instanceId);
+  }
+
+  /**
+   * Latest sync report per instance, keyed by instance ID
+   */
+  getSyncReports(): Record<string, InstanceSyncReport> {
+    if (!this.db) return {};
+
+    try {
+      const rows = this.db.prepare(`
+        SELECT instance_id, application, display_name, last_sync_report
+        FROM instances
+        WHERE last_sync_report IS NOT NULL
+      `).all() as Array<{ instance_id: string; application: string; display_name: string | null; last_sync_report: string }>;
+
+      return Object.fromEntries(rows.map(row => [row.instance_id, {
+        ...(JSON.parse(row.last_sync_report) as MediaSyncReport),
+        appType: row.application,
+        instanceName: row.display_name ?? undefined
+      }]));
+    } catch (error: unknown) {
+      logger.error('❌ Error getting sync reports', { error: getErrorMessage(error) });
+      return {};
+    }
+  }
+
   // ========== Media Library Management ==========
 
+  /**
+   * Media items exactly as the last sync stored them, for incremental syncs to build on
+   */
+  getCachedMedia<TMedia>(instanceId: string): TMedia[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db.prepare(`
+      SELECT raw_data FROM media_library WHERE instance_id = ? AND raw_data IS NOT NULL
+    `).all(instanceId) as Array<{ raw_data: string }>;
+    return rows.map(row => JSON.parse(row.raw_data) as TMedia);
+  }
+
+  /**
+   * Upserts media rows and records CF score changes and attributed upgrades, counting rows that are new or differ from what was stored
+   * Must run inside a transaction
+   */
+  private writeMediaItems(
+    instanceId: string,
+    items: MediaLibraryItem[],
+    syncTime: string,
+    existing: Map<number, string | null>
+  ): Pick<MediaSyncReport, 'added' | 'changed'> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const counts = { added: 0, changed: 0 };
+
+    // Keeps the later search time, so searches recorded after dispatch survive a sync that predates them
+    const insertStmt = this.db.prepare(`
+      INSERT INTO media_library (
+        instance_id, media_id, title, monitored, tags, quality_profile_id,
+        status, last_search_time, date_imported, has_file,
+        custom_format_score, external_id, raw_data, synced_at,
+        series_id, series_title, season_number, episode_number, episode_file_id,
+        date_added, parent_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(instance_id, media_id) DO UPDATE SET
+        title = excluded.title,
+        monitored = excluded.monitored,
+        tags = excluded.tags,
+        quality_profile_id = excluded.quality_profile_id,
+        status = excluded.status,
+        last_search_time = CASE
+          WHEN media_library.last_search_time IS NULL THEN excluded.last_search_time
+          WHEN excluded.last_search_time IS NULL THEN media_library.last_search_time
+          ELSE MAX(media_library.last_search_time, excluded.last_search_time)
+        END,
+        date_imported = excluded.date_imported,
+        has_file = excluded.has_file,
+        custom_format_score = excluded.custom_format_score,
+        external_id = excluded.external_id,
+        raw_data = excluded.raw_data,
+        synced_at = excluded.synced_at,
+        series_id = excluded.series_id,
+        series_title = excluded.series_title,
+        season_number = excluded.season_number,
+        episode_number = excluded.episode_number,
+        episode_file_id = excluded.episode_file_id,
+        date_added = excluded.date_added,
+        parent_id = excluded.parent_id
+    `);
+
+    // Only insert a CF history row when the score differs from the last recorded value.
+    // Uses a subquery to compare against the most recent entry — avoids a separate SELECT round-trip.
+    const insertHistoryStmt = this.db.prepare(`
+      INSERT INTO cf_score_history (instance_id, media_id, score, recorded_at)
+      SELECT ?, ?, ?, ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM cf_score_history
+        WHERE instance_id = ? AND media_id = ?
+        ORDER BY recorded_at DESC
+        LIMIT 1
+      )
+      OR (
+        SELECT score FROM cf_score_history
+        WHERE instance_id = ? AND media_id = ?
+        ORDER BY recorded_at DESC
+        LIMIT 1
+      ) IS NOT ?
+    `);
+
+    for (const item of items) {
+      const fileInfo = extractFileInfoForDb(item);
+      const rawData = JSON.stringify(item);
+      const previousRawData = existing.get(item.id);
+      if (!existing.has(item.id)) {
+        counts.added++;
+      } else if (previousRawData !== rawData) {
+        counts.changed++;
+        if (previousRawData) {
+          this.recordUpgrade(instanceId, item, JSON.parse(previousRawData) as MediaLibraryItem, syncTime);
+        }
+      }
+
+      insertStmt.run(
+        instanceId,
+        item.id,
+        item.title,
+        item.monitored ? 1 : 0,
+        JSON.stringify(item.tags),
+        item.qualityProfileId || null,
+        item.status,
+        item.lastSearchTime || null,
+        fileInfo.dateImported || null,
+        fileInfo.hasFile,
+        fileInfo.customFormatScore,
+        item.externalId || null,
+        rawData,
+        syncTime,
+        item.seriesId ?? null,
+        item.seriesTitle ?? null,
+        item.seasonNumber ?? null,
+        item.episodeNumber ?? null,
+        item.episodeFileId ?? null,
+        item.added || null,
+        item.parentId ?? null
+      );
+
+      // Record CF score history only when the score changed
+      const score = fileInfo.customFormatScore;
+      insertHistoryStmt.run(
+        instanceId, item.id, score, syncTime,
+        instanceId, item.id,
+        instanceId, item.id, score
+      );
+    }
+
+    return counts;
+  }
+
+  /**
+   * Records a new file on an item as an upgrade when Scoutarr searched the item shortly before it was imported
+   */
+  private recordUpgrade(instanceId: string, item: MediaLibraryItem, previous: MediaLibraryItem, syncTime: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const current = extractFileInfo(item);
+    const before = extractFileInfo(previous);
+    if (!current.dateImported || current.dateImported === before.dateImported) return;
+
+    const parsed = new Date(current.dateImported);
+    const upgradedAt = isNaN(parsed.getTime()) ? syncTime : parsed.toISOString();
+    const windowStart = new Date(new Date(upgradedAt).getTime() - UPGRADE_ATTRIBUTION_DAYS * 24 * HOUR_MS).toISOString();
+
+    // Searches are stored per search unit - the Sonarr series, otherwise the item itself
+    const searchItemId = item.seriesId ?? item.id;
+    const search = this.db.prepare(`
+      SELECT h.id, h.timestamp, h.run_id, h.selection_strategy
+      FROM history h, json_each(h.items) j
+      WHERE h.instance_id = ?
+        AND json_extract(j.value, '$.id') = ?
+        AND h.timestamp <= ?
+        AND h.timestamp >= ?
+      ORDER BY h.timestamp DESC
+      LIMIT 1
+    `).get(instanceId, searchItemId, upgradedAt, windowStart) as
+      { id: number; timestamp: string; run_id: string | null; selection_strategy: string | null } | undefined;
+    if (!search) return;
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO upgrades (
+        instance_id, media_id, title, history_id, search_item_id, run_id, selection_strategy,
+        quality_profile_id, searched_at, upgraded_at, previous_score, new_score, previous_quality, new_quality
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      instanceId,
+      item.id,
+      item.title,
+      search.id,
+      searchItemId,
+      search.run_id,
+      search.selection_strategy,
+      item.qualityProfileId ?? null,
+      search.timestamp,
+      upgradedAt,
+      before.hasFile ? before.customFormatScore ?? null : null,
+      current.customFormatScore ?? null,
+      before.hasFile ? before.quality ?? null : null,
+      current.quality ?? null
+    );
+
+    logger.debug('⬆️  Upgrade attributed to search', {
+      instanceId,
+      mediaId: item.id,
+      title: item.title,
+      runId: search.run_id,
+      searchedAt: search.timestamp,
+      upgradedAt
+    });
+  }
+
   async syncMediaToDatabase(
     instanceId: string,
-    mediaItems: Array<{
-      id: number;
-      title: string;
-      monitored: boolean;
-      tags: string[];
-      qualityProfileId?: number;
-      status: string;
-      lastSearchTime?: string;
-      added?: string;
-      movieFile?: { dateAdded?: string };
-      episodeFile?: { dateAdded?: string };
-      trackFiles?: Array<{ dateAdded?: string }>;
-      bookFiles?: Array<{ dateAdded?: string }>;
-      seriesId?: number;
-      seriesTitle?: string;
-      seasonNumber?: number;
-      episodeNumber?: number;
-      episodeFileId?: number;
-      externalId?: string;
-      [key: string]: unknown;
-    }>
-  ): Promise<void> {
+    mediaItems: MediaLibraryItem[]
+  ): Promise<Pick<MediaSyncReport, 'added' | 'changed' | 'removed'>> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
       const syncTime = new Date().toISOString();
 
-      const insertStmt = this.db.prepare(`
-        INSERT INTO media_library (
-          instance_id, media_id, title, monitored, tags, quality_profile_id,
-          status, last_search_time, date_imported, has_file,
-          custom_format_score, external_id, raw_data, synced_at,
-          series_id, series_title, season_number, episode_number, episode_file_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON CONFLICT(instance_id, media_id) DO UPDATE SET
-          title = excluded.title,
-          monitored = excluded.monitored,
-          tags = excluded.tags,
-          quality_profile_id = excluded.quality_profile_id,
-          status = excluded.status,
-          last_search_time = excluded.last_search_time,
-          date_imported = excluded.date_imported,
-          has_file = excluded.has_file,
-          custom_format_score = excluded.custom_format_score,
-          external_id = excluded.external_id,
-          raw_data = excluded.raw_data,
-          synced_at = excluded.synced_at,
-          series_id = excluded.series_id,
-          series_title = excluded.series_title,
-          season_number = excluded.season_number,
-          episode_number = excluded.episode_number,
-          episode_file_id = excluded.episode_file_id
-      `);
-
-      // Only insert a CF history row when the score differs from the last recorded value.
-      // Uses a subquery to compare against the most recent entry — avoids a separate SELECT round-trip.
-      const insertHistoryStmt = this.db.prepare(`
-        INSERT INTO cf_score_history (instance_id, media_id, score, recorded_at)
-        SELECT ?, ?, ?, ?
-        WHERE NOT EXISTS (
-          SELECT 1 FROM cf_score_history
-          WHERE instance_id = ? AND media_id = ?
-          ORDER BY recorded_at DESC
-          LIMIT 1
-        )
-        OR (
-          SELECT score FROM cf_score_history
-          WHERE instance_id = ? AND media_id = ?
-          ORDER BY recorded_at DESC
-          LIMIT 1
-        ) IS NOT ?
+      const existingStmt = this.db.prepare(`
+        SELECT media_id, raw_data FROM media_library WHERE instance_id = ?
       `);
 
       const deleteStaleStmt = this.db.prepare(`
@@ -788,53 +1410,29 @@ class StatsService {
         WHERE instance_id = ? AND media_id NOT IN (SELECT value FROM json_each(?))
       `);
 
-      const transaction = this.db.transaction((items: typeof mediaItems) => {
+      const transaction = this.db.transaction((items: MediaLibraryItem[]) => {
+        // Compare against the stored items so the sync can report what it added, changed and removed
+        const existing = new Map(
+          (existingStmt.all(instanceId) as Array<{ media_id: number; raw_data: string | null }>)
+            .map(row => [row.media_id, row.raw_data])
+        );
+
         // Remove episodes that no longer exist in the *arr instance
         const currentIds = JSON.stringify(items.map(i => i.id));
-        deleteStaleStmt.run(instanceId, currentIds);
-
-        for (const item of items) {
-          const fileInfo = extractFileInfoForDb(item);
+        const removed = deleteStaleStmt.run(instanceId, currentIds).changes;
 
-          insertStmt.run(
-            instanceId,
-            item.id,
-            item.title,
-            item.monitored ? 1 : 0,
-            JSON.stringify(item.tags),
-            item.qualityProfileId || null,
-            item.status,
-            item.lastSearchTime || null,
-            fileInfo.dateImported || null,
-            fileInfo.hasFile,
-            fileInfo.customFormatScore,
-            item.externalId || null,
-            JSON.stringify(item),
-            syncTime,
-            item.seriesId ?? null,
-            item.seriesTitle ?? null,
-            item.seasonNumber ?? null,
-            item.episodeNumber ?? null,
-            item.episodeFileId ?? null
-          );
-
-          // Record CF score history only when the score changed
-          const score = fileInfo.customFormatScore;
-          insertHistoryStmt.run(
-            instanceId, item.id, score, syncTime,
-            instanceId, item.id,
-            instanceId, item.id, score
-          );
-        }
+        return { ...this.writeMediaItems(instanceId, items, syncTime, existing), removed };
       });
 
-      transaction(mediaItems);
+      const counts = transaction(mediaItems);
 
       logger.info('✅ Media synced to database', {
         instanceId,
         count: mediaItems.length,
+        ...counts,
         syncTime
       });
+      return counts;
     } catch (error: unknown) {
       const errorMessage = getErrorMessage(error);
       const errorStack = error instanceof Error ? error.stack : undefined;
@@ -848,6 +1446,41 @@ class StatsService {
     }
   }
 
+  /**
+   * Replaces the rows of one movie, series, artist or author with freshly fetched items, leaving the rest of the library alone.
+   * Rows under the target that are missing from `mediaItems` are removed, so an empty list deletes the target
+   */
+  replaceMediaForTarget(
+    instanceId: string,
+    column: MediaTagColumn,
+    targetId: number,
+    mediaItems: MediaLibraryItem[]
+  ): Pick<MediaSyncReport, 'added' | 'changed' | 'removed'> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const syncTime = new Date().toISOString();
+    const existingStmt = this.db.prepare(`
+      SELECT media_id, raw_data FROM media_library WHERE instance_id = ? AND ${column} = ?
+    `);
+    const deleteStaleStmt = this.db.prepare(`
+      DELETE FROM media_library
+      WHERE instance_id = ? AND ${column} = ? AND media_id NOT IN (SELECT value FROM json_each(?))
+    `);
+
+    const transaction = this.db.transaction((items: MediaLibraryItem[]) => {
+      const existing = new Map(
+        (existingStmt.all(instanceId, targetId) as Array<{ media_id: number; raw_data: string | null }>)
+          .map(row => [row.media_id, row.raw_data])
+      );
+      const removed = deleteStaleStmt.run(instanceId, targetId, JSON.stringify(items.map(i => i.id))).changes;
+      return { ...this.writeMediaItems(instanceId, items, syncTime, existing), removed };
+    });
+
+    const counts = transaction(mediaItems);
+    logger.debug('✅ Media rows replaced for target', { instanceId, column, targetId, ...counts });
+    return counts;
+  }
+
   async getMediaFromDatabase(
     instanceId: string,
     filters?: {
@@ -876,6 +1509,8 @@ class StatsService {
     season_number: number | null;
     episode_number: number | null;
     episode_file_id: number | null;
+    date_added: string | null;
+    parent_id: number | null;
   }>> {
     if (!this.db) return [];
 
@@ -929,6 +1564,8 @@ class StatsService {
         season_number: number | null;
         episode_number: number | null;
         episode_file_id: number | null;
+        date_added: string | null;
+        parent_id: number | null;
       }>;
 
       return results.map(row => ({
@@ -951,7 +1588,9 @@ class StatsService {
         series_title: row.series_title,
         season_number: row.season_number,
         episode_number: row.episode_number,
-        episode_file_id: row.episode_file_id
+        episode_file_id: row.episode_file_id,
+        date_added: row.date_added,
+        parent_id: row.parent_id
       }));
     } catch (error: unknown) {
       const errorMessage = getErrorMessage(error);
@@ -966,10 +1605,15 @@ class StatsService {
     try {
       const stmt = this.db.prepare('DELETE FROM media_library WHERE instance_id = ?');
       const result = stmt.run(instanceId);
+      // CF history is keyed by media ID, so it goes with the rows it describes
+      const historyResult = this.db.prepare('DELETE FROM cf_score_history WHERE instance_id = ?').run(instanceId);
+      // Searched unit keys are built from the same IDs
+      this.clearSearchedUnits(instanceId);
 
       logger.info('🗑️  Deleted media for instance', {
         instanceId,
-        rowsDeleted: result.changes
+        rowsDeleted: result.changes,
+        historyRowsDeleted: historyResult.changes
       });
     } catch (error: unknown) {
       const errorMessage = getErrorMessage(error);
@@ -1014,20 +1658,66 @@ class StatsService {
 
   /**
    * Updates only the tags column for specific media IDs in the DB.
-   * For Sonarr, pass seriesIds and set isSonarr=true to update all episodes belonging to those series.
+   * For Sonarr, pass seriesIds with column 'series_id' to update all episodes belonging to those series;
+   * for album- and book-level rows, pass artist/author IDs with column 'parent_id'.
    * Called immediately after addTag/removeTag so the DB stays in sync without a full re-sync.
    */
-  updateMediaTags(instanceId: string, mediaIds: number[], tags: string[], isSonarr = false): void {
+  updateMediaTags(instanceId: string, mediaIds: number[], tags: string[], column: MediaTagColumn = 'media_id'): void {
     if (!this.db || mediaIds.length === 0) return;
     const tagsJson = JSON.stringify(tags);
     const placeholders = mediaIds.map(() => '?').join(',');
-    const column = isSonarr ? 'series_id' : 'media_id';
     const stmt = this.db.prepare(`
       UPDATE media_library SET tags = ? WHERE instance_id = ? AND ${column} IN (${placeholders})
     `);
     stmt.run(tagsJson, instanceId, ...mediaIds);
   }
 
+  /**
+   * Sets the last search time for specific media IDs right after their search is sent,
+   * so cooldowns and the oldest-searched strategy don't wait for the next sync to see it.
+   * Takes the same columns as updateMediaTags.
+   */
+  markMediaSearched(instanceId: string, mediaIds: number[], searchedAt: Date, column: MediaTagColumn = 'media_id'): void {
+    if (!this.db || mediaIds.length === 0) return;
+    const placeholders = mediaIds.map(() => '?').join(',');
+    this.db.prepare(`
+      UPDATE media_library SET last_search_time = ? WHERE instance_id = ? AND ${column} IN (${placeholders})
+    `).run(searchedAt.toISOString(), instanceId, ...mediaIds);
+  }
+
+  // ========== Searched Units ==========
+
+  /**
+   * Keys of the search units searched since the instance's last unattended reset
+   */
+  getSearchedUnits(instanceId: string): Set<string> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db.prepare('SELECT unit_key FROM searched_units WHERE instance_id = ?').all(instanceId) as Array<{ unit_key: string }>;
+    return new Set(rows.map(row => row.unit_key));
+  }
+
+  recordSearchedUnits(instanceId: string, unitKeys: string[], searchedAt: Date): void {
+    if (!this.db || unitKeys.length === 0) return;
+
+    const stmt = this.db.prepare(`
+      INSERT INTO searched_units (instance_id, unit_key, searched_at) VALUES (?, ?, ?)
+      ON CONFLICT(instance_id, unit_key) DO UPDATE SET searched_at = excluded.searched_at
+    `);
+    const timestamp = searchedAt.toISOString();
+    this.db.transaction(() => {
+      for (const unitKey of unitKeys) {
+        stmt.run(instanceId, unitKey, timestamp);
+      }
+    })();
+  }
+
+  clearSearchedUnits(instanceId: string): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db.prepare('DELETE FROM searched_units WHERE instance_id = ?').run(instanceId).changes;
+  }
+
   // ========== CF Score History ==========
 
   async getCfScoreHistory(
@@ -1197,6 +1887,115 @@ class StatsService {
     }
   }
 
+  // ========== Export / Import ==========
+
+  /**
+   * Search history and instance metadata for an export archive
+   * The media library and quality profiles are left out; the next sync fetches them again.
+   */
+  exportTables(): ExportTables {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const select = <T>(table: keyof ExportTables): T[] =>
+      this.db!.prepare(`SELECT ${EXPORT_COLUMNS[table].join(', ')} FROM ${table} ORDER BY rowid`).all() as T[];
+    return {
+      instances: select('instances'),
+      history: select('history'),
+      cf_score_history: select('cf_score_history'),
+      runs: select('runs'),
+      upgrades: select('upgrades')
+    };
+  }
+
+  // Rows are bound by column name; without IDs, SQLite assigns new ones
+  private prepareImportInsert(table: keyof ExportTables, withIds: boolean, conflictClause = ''): Database.Statement {
+    const columns = EXPORT_COLUMNS[table].filter(column => withIds || column !== 'id');
+    return this.db!.prepare([
+      `INSERT INTO ${table} (${columns.join(', ')})`,
+      `VALUES (${columns.map(column => `@${column}`).join(', ')})`,
+      conflictClause
+    ].join(' ').trim());
+  }
+
+  /**
+   * Writes the tables of an export archive in one transaction
+   * Merging skips rows that are already present, so importing the same archive twice adds nothing;
+   * replacing clears search history first and takes the archive's instance metadata over the local one.
+   */
+  importTables(tables: ExportTables, mode: HistoryImportMode): Omit<ImportResult, 'secretsRedacted'> {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+    const replace = mode === 'replace';
+
+    try {
+      const counts = { instances: 0, history: 0, cfScoreHistory: 0, runs: 0, upgrades: 0 };
+
+      const transaction = db.transaction(() => {
+        if (replace) {
+          db.exec('DELETE FROM upgrades; DELETE FROM history; DELETE FROM cf_score_history; DELETE FROM runs;');
+        }
+
+        // Instances that already exist keep their metadata when merging and take the archive's when replacing
+        const updates = EXPORT_COLUMNS.instances
+          .filter(column => column !== 'instance_id')
+          .map(column => `${column} = excluded.${column}`)
+          .join(', ');
+        const insertInstance = this.prepareImportInsert(
+          'instances',
+          true,
+          `ON CONFLICT(instance_id) DO ${replace ? `UPDATE SET ${updates}` : 'NOTHING'}`
+        );
+        for (const row of tables.instances) {
+          counts.instances += insertInstance.run(row).changes;
+        }
+
+        // Merged history rows get new IDs, which upgrades are re-pointed to
+        const historyIds = new Map<number, number>();
+        const insertHistory = this.prepareImportInsert('history', replace);
+        const findHistory = db.prepare('SELECT id FROM history WHERE timestamp = ? AND application = ? AND instance_id IS ?');
+        for (const row of tables.history) {
+          const existing = replace ? undefined : findHistory.get(row.timestamp, row.application, row.instance_id) as { id: number } | undefined;
+          if (existing) {
+            historyIds.set(row.id, existing.id);
+            continue;
+          }
+          const result = insertHistory.run(row);
+          historyIds.set(row.id, Number(result.lastInsertRowid));
+          counts.history++;
+        }
+
+        const insertCfScore = this.prepareImportInsert('cf_score_history', replace);
+        const findCfScore = db.prepare('SELECT 1 FROM cf_score_history WHERE instance_id = ? AND media_id = ? AND recorded_at = ?');
+        for (const row of tables.cf_score_history) {
+          if (!replace && findCfScore.get(row.instance_id, row.media_id, row.recorded_at)) continue;
+          insertCfScore.run(row);
+          counts.cfScoreHistory++;
+        }
+
+        const insertRun = this.prepareImportInsert('runs', true, 'ON CONFLICT DO NOTHING');
+        for (const row of tables.runs) {
+          counts.runs += insertRun.run(row).changes;
+        }
+
+        const insertUpgrade = this.prepareImportInsert('upgrades', false, 'ON CONFLICT DO NOTHING');
+        for (const row of tables.upgrades) {
+          const historyId = historyIds.get(row.history_id);
+          // An upgrade is only meaningful alongside the search it's credited to
+          if (historyId === undefined) continue;
+          counts.upgrades += insertUpgrade.run({ ...row, history_id: historyId }).changes;
+        }
+      });
+
+      transaction();
+
+      logger.info('📥 Imported stats database tables', { mode, ...counts });
+      return counts;
+    } catch (error: unknown) {
+      logger.error('❌ Error importing stats database tables', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
   close(): void {
     if (this.db) {
       logger.debug('🔄 Closing stats database connection');
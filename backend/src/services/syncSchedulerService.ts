@@ -1,10 +1,12 @@
 import { createRequire } from 'module';
+import { forEachAsync } from 'es-toolkit';
 import logger, { startOperation } from '../utils/logger.js';
 import { configService } from './configService.js';
 import { statsService } from './statsService.js';
-import { syncInstanceMedia } from '../utils/mediaSync.js';
+import { syncInstanceMedia, storeSyncedMedia } from '../utils/mediaSync.js';
 import { APP_TYPES, AppType } from '../utils/starrUtils.js';
 import { getErrorMessage, getErrorDetails } from '../utils/errorUtils.js';
+import { isCircuitOpen } from '../utils/httpPolicy.js';
 import type { StarrInstanceConfig } from '@scoutarr/shared';
 
 /**
@@ -103,7 +105,8 @@ class SyncSchedulerService {
       const syncResult = await syncInstanceMedia({
         instanceId: instance.id,
         appType: appType as AppType,
-        instance: instance as StarrInstanceConfig
+        instance: instance as StarrInstanceConfig,
+        incremental: true
       });
 
       const mediaWithTagNames = syncResult.mediaWithTags as Array<{ tags: string[]; [key: string]: unknown }>;
@@ -122,10 +125,15 @@ class SyncSchedulerService {
       });
 
       // Sync to database
-      await statsService.syncMediaToDatabase(instance.id, mediaWithTagNames as any);
-      logger.info(`✅ Synced ${mediaWithTagNames.length} items for ${appType} instance: ${instance.name || instance.id}`);
+      const report = await storeSyncedMedia(instance.id, syncResult);
+      logger.info(`✅ Synced ${mediaWithTagNames.length} items for ${appType} instance: ${instance.name || instance.id}`, {
+        mode: report.mode,
+        added: report.added,
+        changed: report.changed,
+        removed: report.removed
+      });
 
-      endOp({ syncedCount: mediaWithTagNames.length }, true);
+      endOp({ syncedCount: mediaWithTagNames.length, ...report }, true);
       return mediaWithTagNames.length;
     } catch (error: unknown) {
       const errMsg = getErrorMessage(error);
@@ -149,23 +157,27 @@ class SyncSchedulerService {
       const config = configService.getConfig();
       let totalSynced = 0;
 
-      for (const appType of APP_TYPES) {
-        const instances = config.applications[appType];
-        if (!instances || !Array.isArray(instances)) continue;
-
-        for (const instance of instances) {
-          try {
-            const synced = await this.syncSingleInstance(appType as AppType, instance);
-            totalSynced += synced;
-          } catch (error: unknown) {
-            logger.error(`❌ Error syncing ${appType} instance ${instance.id}`, {
-              error: getErrorMessage(error),
-              appType,
-              instanceId: instance.id
-            });
-          }
+      const instances = APP_TYPES.flatMap(appType =>
+        ((config.applications[appType] as StarrInstanceConfig[] | undefined) ?? []).map(instance => ({ appType, instance }))
+      );
+
+      // Instances sync side by side up to the configured concurrency; each instance's own sync stays sequential
+      await forEachAsync(instances, async ({ appType, instance }) => {
+        if (isCircuitOpen(instance.id)) {
+          logger.warn(`⏭️  Skipping sync for degraded ${appType} instance ${instance.id}`, { appType, instanceId: instance.id });
+          return;
+        }
+        try {
+          const synced = await this.syncSingleInstance(appType, instance);
+          totalSynced += synced;
+        } catch (error: unknown) {
+          logger.error(`❌ Error syncing ${appType} instance ${instance.id}`, {
+            error: getErrorMessage(error),
+            appType,
+            instanceId: instance.id
+          });
         }
-      }
+      }, { concurrency: config.dispatch.instanceConcurrency });
 
       // Prune old CF score history entries
       await statsService.pruneCfScoreHistory(90);
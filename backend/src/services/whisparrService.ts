@@ -0,0 +1,19 @@
+import { APP_DEFINITIONS } from '@scoutarr/shared';
+import { RadarrService, RadarrMovie } from './radarrService.js';
+
+export type WhisparrMovie = RadarrMovie;
+
+/**
+ * Whisparr v3 is built on Radarr and shares its movie API, search command and status values
+ */
+class WhisparrService extends RadarrService {
+  protected readonly appName: string = APP_DEFINITIONS.whisparr.name;
+  protected readonly apiVersion: 'v1' | 'v3' = APP_DEFINITIONS.whisparr.apiVersion;
+
+  // Whisparr routes movie pages by title slug rather than TMDB ID
+  getExternalId(movie: WhisparrMovie): string | undefined {
+    return movie.titleSlug || String(this.getMediaId(movie));
+  }
+}
+
+export const whisparrService = new WhisparrService();
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config, StarrInstanceConfig } from '@scoutarr/shared';
+import { statsService } from '../services/statsService.js';
+import {
+  applySearchBudgets,
+  createRunBudget,
+  getSearchBudgetStatus,
+  releaseRunBudget,
+  reserveRunBudget,
+  settleRunBudget,
+  type RunBudget
+} from './budgetUtils.js';
+
+vi.mock('../services/statsService.js', () => ({
+  statsService: { getSearchCountSince: vi.fn() }
+}));
+
+const getSearchCountSince = vi.mocked(statsService.getSearchCountSince);
+
+function instance(overrides: Partial<StarrInstanceConfig> = {}): StarrInstanceConfig {
+  return { id: 'radarr-1', count: 10, ...overrides } as StarrInstanceConfig;
+}
+
+function config(maxSearches?: number): Config {
+  return {
+    applications: { radarr: [instance({ url: 'http://radarr:7878', apiKey: 'key' })] },
+    ...(maxSearches && { budget: { maxSearches, windowHours: 24 } })
+  } as unknown as Config;
+}
+
+// Run budgets created by a test are settled afterwards so their reservations don't leak into the next one
+const runBudgets: RunBudget[] = [];
+function runBudget(maxSearches?: number, dryRun?: boolean): RunBudget {
+  const budget = createRunBudget(config(maxSearches), dryRun);
+  runBudgets.push(budget);
+  return budget;
+}
+
+beforeEach(() => {
+  getSearchCountSince.mockReset().mockReturnValue(0);
+});
+
+afterEach(() => {
+  runBudgets.splice(0).forEach(settleRunBudget);
+});
+
+describe('applySearchBudgets', () => {
+  it('keeps the count when no budget applies', () => {
+    expect(applySearchBudgets(instance(), runBudget())).toEqual({ count: 10 });
+    expect(getSearchCountSince).not.toHaveBeenCalled();
+  });
+
+  it('keeps the count when it fits the remaining budgets', () => {
+    getSearchCountSince.mockReturnValue(5);
+    expect(applySearchBudgets(instance({ dailySearchLimit: 20 }), runBudget(100))).toEqual({ count: 10 });
+  });
+
+  it('reduces the count to the tightest remaining budget', () => {
+    getSearchCountSince.mockImplementation((_since, instanceId) => (instanceId ? 16 : 94));
+    const result = applySearchBudgets(instance({ dailySearchLimit: 20 }), runBudget(100));
+    expect(result.count).toBe(4);
+    expect(result.limitReason).toBe('Count reduced from 10 to 4 by the daily limit of 20');
+  });
+
+  it('resolves max to what is left of the global budget', () => {
+    getSearchCountSince.mockReturnValue(20);
+    const result = applySearchBudgets(instance({ count: 'max' }), runBudget(50));
+    expect(result.count).toBe(30);
+    expect(result.limitReason).toContain('global budget of 50 per 24h');
+  });
+
+  it('skips the instance once a budget is spent', () => {
+    getSearchCountSince.mockReturnValue(20);
+    expect(applySearchBudgets(instance({ dailySearchLimit: 20 }), runBudget())).toEqual({
+      count: 0,
+      skipReason: 'Search budget exhausted (daily limit of 20)'
+    });
+  });
+});
+
+describe('run budget reservations', () => {
+  it('counts searches reserved by one run against another until the first is settled', () => {
+    getSearchCountSince.mockReturnValue(4);
+    const first = createRunBudget(config(10));
+    const second = runBudget(10);
+
+    expect(reserveRunBudget(first, 'radarr-1', applySearchBudgets(instance({ count: 5 }), first).count)).toBe(5);
+    expect(applySearchBudgets(instance({ count: 5 }), second)).toMatchObject({ count: 1 });
+    expect(getSearchBudgetStatus(config(10)).global).toMatchObject({ used: 9, remaining: 1 });
+
+    // Once saved, the first run's searches come from the history instead
+    getSearchCountSince.mockReturnValue(9);
+    settleRunBudget(first);
+    expect(applySearchBudgets(instance({ count: 5 }), second)).toMatchObject({ count: 1 });
+  });
+
+  it('counts reservations against the daily limit of the same instance in other runs', () => {
+    const first = runBudget();
+    const second = runBudget();
+
+    reserveRunBudget(first, 'radarr-1', 8);
+    expect(applySearchBudgets(instance({ dailySearchLimit: 10 }), second)).toMatchObject({ count: 2 });
+    expect(applySearchBudgets(instance({ id: 'radarr-2', dailySearchLimit: 10 }), second)).toEqual({ count: 10 });
+  });
+
+  it('returns what an instance did not search and keeps the rest until the run is settled', () => {
+    const first = runBudget(10);
+    const second = runBudget(10);
+
+    reserveRunBudget(first, 'radarr-1', 8);
+    releaseRunBudget(first, 'radarr-1', 8, 3);
+    expect(applySearchBudgets(instance(), second)).toMatchObject({ count: 7 });
+  });
+
+  it('keeps dry run reservations to the dry run', () => {
+    const dryRun = runBudget(10, true);
+    const real = runBudget(10);
+
+    reserveRunBudget(dryRun, 'radarr-1', 6);
+    expect(applySearchBudgets(instance({ count: 'max' }), dryRun)).toMatchObject({ count: 4 });
+    expect(applySearchBudgets(instance({ count: 'max' }), real)).toMatchObject({ count: 10 });
+  });
+});
@@ -0,0 +1,152 @@
+import { Config, StarrInstanceConfig, SearchBudgetStatus, SearchBudgetUsage } from '@scoutarr/shared';
+import { statsService } from '../services/statsService.js';
+import { getConfiguredInstances, APP_TYPES } from './starrUtils.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Per-instance limits are daily caps over a rolling 24 hours
+const INSTANCE_WINDOW_HOURS = 24;
+
+/**
+ * Budget state for one search run: the global limit it runs under and the searches it has set aside
+ */
+export interface RunBudget {
+  global?: { limit: number; windowHours: number };
+  // Searches set aside per instance ID, held until the run's searches are saved to the history
+  reserved: Map<string, number>;
+}
+
+/**
+ * Count an instance may search once budgets are applied
+ */
+export interface BudgetedCount {
+  count: number | 'max';
+  skipReason?: string;
+  limitReason?: string;
+}
+
+// Budgets of the real runs in progress. The history only records a run's searches once it finishes,
+// so until then its reservations count against every run, e.g. scheduled instances starting together
+const activeRunBudgets = new Set<RunBudget>();
+
+// Searches reserved by runs in progress, plus those of the given run in case it is a dry run
+function getReservedCount(instanceId?: string, runBudget?: RunBudget): number {
+  const budgets = new Set(activeRunBudgets);
+  if (runBudget) budgets.add(runBudget);
+  let reserved = 0;
+  for (const budget of budgets) {
+    for (const [id, count] of budget.reserved) {
+      if (!instanceId || id === instanceId) reserved += count;
+    }
+  }
+  return reserved;
+}
+
+function getUsage(limit: number, windowHours: number, instanceId?: string, runBudget?: RunBudget): SearchBudgetUsage {
+  const since = new Date(Date.now() - windowHours * HOUR_MS);
+  const used = statsService.getSearchCountSince(since, instanceId) + getReservedCount(instanceId, runBudget);
+  return { limit, used, remaining: Math.max(0, limit - used), windowHours };
+}
+
+export function getGlobalBudgetUsage(config: Config): SearchBudgetUsage | undefined {
+  const budget = config.budget;
+  if (!budget?.maxSearches) return undefined;
+  return getUsage(budget.maxSearches, budget.windowHours);
+}
+
+export function getInstanceBudgetUsage(instance: StarrInstanceConfig, runBudget?: RunBudget): SearchBudgetUsage | undefined {
+  if (!instance.dailySearchLimit) return undefined;
+  return getUsage(instance.dailySearchLimit, INSTANCE_WINDOW_HOURS, instance.id, runBudget);
+}
+
+/**
+ * Remaining global and per-instance budgets, for the status endpoint and dashboard
+ */
+export function getSearchBudgetStatus(config: Config): SearchBudgetStatus {
+  const instances: Record<string, SearchBudgetUsage> = {};
+  for (const appType of APP_TYPES) {
+    for (const instance of getConfiguredInstances(config.applications[appType] as StarrInstanceConfig[])) {
+      const usage = getInstanceBudgetUsage(instance);
+      if (usage) instances[instance.id] = usage;
+    }
+  }
+  return { global: getGlobalBudgetUsage(config), instances };
+}
+
+/**
+ * Budget for a new run; a real run's reservations count against other runs until settleRunBudget
+ */
+export function createRunBudget(config: Config, dryRun = false): RunBudget {
+  const budget = config.budget;
+  const runBudget: RunBudget = {
+    global: budget?.maxSearches ? { limit: budget.maxSearches, windowHours: budget.windowHours } : undefined,
+    reserved: new Map()
+  };
+  if (!dryRun) activeRunBudgets.add(runBudget);
+  return runBudget;
+}
+
+/**
+ * Releases a finished run's reservations once its searches are saved to the history
+ */
+export function settleRunBudget(runBudget: RunBudget): void {
+  activeRunBudgets.delete(runBudget);
+}
+
+/**
+ * Caps an instance's count by its daily limit and whatever is left of the global budget
+ * Both count searches reserved by runs in progress as well as those in the history.
+ */
+export function applySearchBudgets(instance: StarrInstanceConfig, runBudget: RunBudget): BudgetedCount {
+  const limits: Array<{ remaining: number; label: string }> = [];
+  const instanceUsage = getInstanceBudgetUsage(instance, runBudget);
+  if (instanceUsage) {
+    limits.push({ remaining: instanceUsage.remaining, label: `daily limit of ${instanceUsage.limit}` });
+  }
+  if (runBudget.global) {
+    const { limit, windowHours } = runBudget.global;
+    const { remaining } = getUsage(limit, windowHours, undefined, runBudget);
+    limits.push({ remaining, label: `global budget of ${limit} per ${windowHours}h` });
+  }
+
+  const tightest = limits.reduce<{ remaining: number; label: string } | undefined>(
+    (min, limit) => (!min || limit.remaining < min.remaining ? limit : min),
+    undefined
+  );
+  if (!tightest || (instance.count !== 'max' && instance.count <= tightest.remaining)) {
+    return { count: instance.count };
+  }
+  if (tightest.remaining === 0) {
+    return { count: 0, skipReason: `Search budget exhausted (${tightest.label})` };
+  }
+  return {
+    count: tightest.remaining,
+    limitReason: `Count reduced from ${instance.count} to ${tightest.remaining} by the ${tightest.label}`
+  };
+}
+
+/**
+ * Sets aside an instance's budgeted count before it is searched, so instances processed at the same
+ * time, in this run or another, can't spend the same budget. Returns the amount reserved
+ */
+export function reserveRunBudget(runBudget: RunBudget, instanceId: string, count: number | 'max'): number {
+  // With any budget in place, applySearchBudgets always resolves 'max' to a number
+  if (count === 'max' || count <= 0) return 0;
+  runBudget.reserved.set(instanceId, (runBudget.reserved.get(instanceId) ?? 0) + count);
+  return count;
+}
+
+/**
+ * Returns the part of a reservation an instance did not search; the searched part stays reserved
+ * until the run is settled
+ */
+export function releaseRunBudget(runBudget: RunBudget, instanceId: string, reserved: number, searched: number): void {
+  const unused = Math.min(Math.max(0, reserved - searched), runBudget.reserved.get(instanceId) ?? 0);
+  if (unused === 0) return;
+  const remaining = (runBudget.reserved.get(instanceId) ?? 0) - unused;
+  if (remaining > 0) {
+    runBudget.reserved.set(instanceId, remaining);
+  } else {
+    runBudget.reserved.delete(instanceId);
+  }
+}
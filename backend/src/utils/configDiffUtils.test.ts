@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { SECRET_PLACEHOLDER, type Config } from '@scoutarr/shared';
+import { diffConfigs } from './configDiffUtils.js';
+
+function radarr(id: string, overrides: Record<string, unknown> = {}) {
+  return { id, name: id, url: `http://${id}:7878`, apiKey: `${id}-key`, count: 5, ...overrides };
+}
+
+function config(instances: ReturnType<typeof radarr>[], overrides: Record<string, unknown> = {}): Config {
+  return {
+    applications: { radarr: instances, sonarr: [] },
+    scheduler: { enabled: true, schedule: '0 * * * *' },
+    ...overrides
+  } as unknown as Config;
+}
+
+describe('diffConfigs', () => {
+  it('finds nothing between equal configs, even with instances reordered', () => {
+    const a = radarr('radarr-1');
+    const b = radarr('radarr-2');
+    expect(diffConfigs(config([a, b]), config([b, a]))).toEqual([]);
+  });
+
+  it('addresses changed fields by instance ID', () => {
+    const diff = diffConfigs(
+      config([radarr('radarr-1'), radarr('radarr-2')]),
+      config([radarr('radarr-2', { count: 10 }), radarr('radarr-1')], { scheduler: { enabled: false, schedule: '0 * * * *' } })
+    );
+    expect(diff).toEqual([
+      { path: 'applications.radarr.radarr-2.count', backup: 5, current: 10 },
+      { path: 'scheduler.enabled', backup: true, current: false }
+    ]);
+  });
+
+  it('masks changed secrets and the secrets of added or removed instances', () => {
+    const diff = diffConfigs(
+      config([radarr('radarr-1'), radarr('radarr-2')]),
+      config([radarr('radarr-1', { apiKey: 'new-key' }), radarr('radarr-3', { apiKey: 'env:SCOUTARR_RADARR_KEY' })])
+    );
+
+    expect(diff).toContainEqual({ path: 'applications.radarr.radarr-1.apiKey', backup: SECRET_PLACEHOLDER, current: SECRET_PLACEHOLDER });
+    expect(diff).toContainEqual({
+      path: 'applications.radarr.radarr-2',
+      backup: radarr('radarr-2', { apiKey: SECRET_PLACEHOLDER }),
+      current: undefined
+    });
+    expect(diff).toContainEqual({
+      path: 'applications.radarr.radarr-3',
+      backup: undefined,
+      current: radarr('radarr-3', { apiKey: 'env:SCOUTARR_RADARR_KEY' })
+    });
+    expect(JSON.stringify(diff)).not.toContain('radarr-2-key');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Field-level differences between two configs, for comparing backups with the current config
+ */
+import { isEqual, isPlainObject } from 'es-toolkit';
+import type { Config, ConfigDiffEntry } from '@scoutarr/shared';
+import { collectConfigSecrets, maskSecretValue } from './secretUtils.js';
+
+// Instance lists are compared by ID, so reordering instances doesn't show up as every field changing
+function isInstanceList(value: unknown): value is Array<{ id: string }> {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(item => isPlainObject(item) && typeof (item as { id?: unknown }).id === 'string');
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  if (isInstanceList(value)) {
+    return Object.fromEntries(value.map(item => [item.id, item]));
+  }
+  return value as Record<string, unknown>;
+}
+
+function isComparable(a: unknown, b: unknown): boolean {
+  return (isPlainObject(a) && isPlainObject(b)) ||
+    (isInstanceList(a) || (Array.isArray(a) && a.length === 0)) && (isInstanceList(b) || (Array.isArray(b) && b.length === 0));
+}
+
+function diffValues(path: string, backup: unknown, current: unknown, entries: ConfigDiffEntry[]): void {
+  if (isComparable(backup, current)) {
+    const backupRecord = toRecord(backup);
+    const currentRecord = toRecord(current);
+    const keys = [...new Set([...Object.keys(currentRecord), ...Object.keys(backupRecord)])];
+    for (const key of keys) {
+      diffValues(path ? `${path}.${key}` : key, backupRecord[key], currentRecord[key], entries);
+    }
+    return;
+  }
+  if (!isEqual(backup, current)) {
+    entries.push({ path, backup, current });
+  }
+}
+
+// Masks a secret, or the secrets inside a whole instance that was added or removed
+function maskValue(path: string, value: unknown, secretKeys: string[]): unknown {
+  if (typeof value === 'string' && secretKeys.includes(path)) {
+    return maskSecretValue(value);
+  }
+  if (!isPlainObject(value)) return value;
+
+  const masked = structuredClone(value) as Record<string, unknown>;
+  for (const key of secretKeys) {
+    if (!key.startsWith(`${path}.`)) continue;
+    const field = key.slice(path.length + 1);
+    if (typeof masked[field] === 'string') {
+      masked[field] = maskSecretValue(masked[field] as string);
+    }
+  }
+  return masked;
+}
+
+/**
+ * Every field that differs, with instances addressed by ID and secrets masked
+ * Two different saved secrets both mask to the placeholder, but still show up as a change.
+ */
+export function diffConfigs(backup: Config, current: Config): ConfigDiffEntry[] {
+  const entries: ConfigDiffEntry[] = [];
+  diffValues('', backup, current, entries);
+
+  const secretKeys = [...new Set([...collectConfigSecrets(backup).keys(), ...collectConfigSecrets(current).keys()])];
+  return entries.map(({ path, backup: backupValue, current: currentValue }) => ({
+    path,
+    backup: maskValue(path, backupValue, secretKeys),
+    current: maskValue(path, currentValue, secretKeys)
+  }));
+}
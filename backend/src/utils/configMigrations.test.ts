@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_VERSION } from '@scoutarr/shared';
+import { getConfigVersion, migrateConfig } from './configMigrations.js';
+
+describe('getConfigVersion', () => {
+  it('counts configs from before versioning as version 0', () => {
+    expect(getConfigVersion({})).toBe(0);
+    expect(getConfigVersion({ version: '1' })).toBe(0);
+    expect(getConfigVersion({ version: 1 })).toBe(1);
+  });
+});
+
+describe('migrateConfig', () => {
+  it('brings an unversioned config up to the current version and keeps its settings', () => {
+    const legacy = { scheduler: { enabled: true, schedule: '0 * * * *' } };
+    expect(migrateConfig(legacy)).toEqual({ ...legacy, version: CONFIG_VERSION });
+  });
+
+  it('works on a copy', () => {
+    const legacy = { scheduler: { enabled: true } };
+    const migrated = migrateConfig(legacy);
+    (migrated.scheduler as { enabled: boolean }).enabled = false;
+    expect(legacy).toEqual({ scheduler: { enabled: true } });
+  });
+
+  it('leaves current and newer configs as they are', () => {
+    const current = { version: CONFIG_VERSION, scheduler: { enabled: false } };
+    const newer = { version: CONFIG_VERSION + 1, futureSetting: true };
+    expect(migrateConfig(current)).toEqual(current);
+    expect(migrateConfig(newer)).toEqual(newer);
+  });
+});
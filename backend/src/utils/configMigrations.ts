@@ -0,0 +1,30 @@
+/**
+ * Forward migrations for config.json, applied in loadConfig before validation
+ */
+import { CONFIG_VERSION } from '@scoutarr/shared';
+
+type RawConfig = Record<string, unknown>;
+
+// MIGRATIONS[n] takes a version n config to version n + 1, so there is one entry per CONFIG_VERSION step
+const MIGRATIONS: Array<(config: RawConfig) => RawConfig> = [
+  // 0 → 1: versioning introduced; sections added before it are filled in by configSchema defaults
+  config => config,
+];
+
+/**
+ * Version a config file was written with; files from before versioning count as 0
+ */
+export function getConfigVersion(config: RawConfig): number {
+  return typeof config.version === 'number' ? config.version : 0;
+}
+
+/**
+ * Brings a config up to CONFIG_VERSION; configs from a newer release are returned unchanged
+ */
+export function migrateConfig(config: RawConfig): RawConfig {
+  let migrated = structuredClone(config);
+  for (let version = getConfigVersion(config); version < CONFIG_VERSION; version++) {
+    migrated = { ...MIGRATIONS[version](migrated), version: version + 1 };
+  }
+  return migrated;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { Config } from '@scoutarr/shared';
+import { applyEnvOverrides, listEnvLockedFields, readEnvOverrides, revertEnvOverrides } from './envConfigUtils.js';
+
+function config(): Config {
+  return {
+    scheduler: { enabled: false, schedule: '0 * * * *' },
+    applications: {
+      radarr: [{ id: 'radarr-main', url: 'http://radarr:7878', apiKey: 'file-key', count: 5 }],
+      sonarr: []
+    }
+  } as unknown as Config;
+}
+
+const valueOf = (env: NodeJS.ProcessEnv) => readEnvOverrides(env).map(({ value }) => value);
+
+describe('readEnvOverrides', () => {
+  it('turns each further __ into a camelCased path segment', () => {
+    expect(readEnvOverrides({ SCOUTARR__SCHEDULER__SCHEDULE: '0 */4 * * *', OTHER_VARIABLE: 'ignored' })).toEqual([
+      { name: 'SCOUTARR__SCHEDULER__SCHEDULE', path: ['scheduler', 'schedule'], value: '0 */4 * * *' }
+    ]);
+  });
+
+  it('reads numeric segments as array positions', () => {
+    expect(readEnvOverrides({ SCOUTARR__APPLICATIONS__RADARR__1__API_KEY: 'key' })[0].path).toEqual([
+      'applications', 'radarr', 1, 'apiKey'
+    ]);
+  });
+
+  it('reads booleans, numbers and lists as JSON, but keeps strings the field takes', () => {
+    expect(valueOf({ SCOUTARR__SCHEDULER__ENABLED: 'true' })).toEqual([true]);
+    expect(valueOf({ SCOUTARR__APPLICATIONS__RADARR__0__COUNT: '10' })).toEqual([10]);
+    expect(valueOf({ SCOUTARR__APPLICATIONS__RADARR__0__COUNT: 'max' })).toEqual(['max']);
+    expect(valueOf({ SCOUTARR__AUTH__TRUSTED_PROXIES: '["10.0.0.5"]' })).toEqual([['10.0.0.5']]);
+    expect(valueOf({ SCOUTARR__APPLICATIONS__RADARR__0__API_KEY: ' 12345 ' })).toEqual(['12345']);
+    expect(valueOf({ SCOUTARR__NOTIFICATIONS__NOTIFIARR_PASSTHROUGH_DISCORD_CHANNEL_ID: '123456789' })).toEqual(['123456789']);
+  });
+
+  it('leaves malformed values as they are for config validation to report', () => {
+    expect(valueOf({ SCOUTARR__SCHEDULER__ENABLED: 'yes' })).toEqual(['yes']);
+    expect(valueOf({ SCOUTARR__AUTH__TRUSTED_PROXIES: '["10.0.0.5"' })).toEqual(['["10.0.0.5"']);
+  });
+
+  it('ignores variables that match no config field', () => {
+    expect(readEnvOverrides({
+      SCOUTARR__NOPE: 'x',
+      SCOUTARR__SCHEDULER__ENABLED_NOW: 'true',
+      SCOUTARR__APPLICATIONS__RADARR__FIRST__URL: 'http://radarr:7878'
+    })).toEqual([]);
+  });
+
+  it('orders whole sections before the fields inside them', () => {
+    const overrides = readEnvOverrides({ SCOUTARR__AUTH__ENABLED: 'false', SCOUTARR__AUTH: '{"enabled":true}' });
+    expect(overrides.map(({ name }) => name)).toEqual(['SCOUTARR__AUTH', 'SCOUTARR__AUTH__ENABLED']);
+  });
+});
+
+describe('applyEnvOverrides and revertEnvOverrides', () => {
+  it('applies overrides to a copy and gives environment-only instances an ID', () => {
+    const original = config();
+    const overrides = readEnvOverrides({
+      SCOUTARR__SCHEDULER__ENABLED: 'true',
+      SCOUTARR__APPLICATIONS__RADARR__0__API_KEY: 'env-key',
+      SCOUTARR__APPLICATIONS__RADARR__1__URL: 'http://radarr-4k:7878'
+    });
+
+    const applied = applyEnvOverrides(original, overrides);
+    expect(applied.scheduler.enabled).toBe(true);
+    expect(applied.applications.radarr[0]).toMatchObject({ id: 'radarr-main', apiKey: 'env-key', count: 5 });
+    expect(applied.applications.radarr[1]).toEqual({ id: 'radarr-2', url: 'http://radarr-4k:7878' });
+    expect(original.applications.radarr[0].apiKey).toBe('file-key');
+  });
+
+  it('puts the file values back and drops values only the environment set', () => {
+    const fileConfig = config();
+    const overrides = readEnvOverrides({
+      SCOUTARR__APPLICATIONS__RADARR__0__API_KEY: 'env-key',
+      SCOUTARR__APPLICATIONS__RADARR__1__URL: 'http://radarr-4k:7878'
+    });
+    const edited = applyEnvOverrides(fileConfig, overrides);
+    edited.applications.radarr[0].count = 20;
+
+    const reverted = revertEnvOverrides(edited, fileConfig, overrides);
+    expect(reverted.applications.radarr[0]).toMatchObject({ apiKey: 'file-key', count: 20 });
+    expect(reverted.applications.radarr[1]).not.toHaveProperty('url');
+  });
+
+  it('lists locked fields with instances addressed by ID', () => {
+    const overrides = readEnvOverrides({ SCOUTARR__SCHEDULER__ENABLED: 'true', SCOUTARR__APPLICATIONS__RADARR__0__API_KEY: 'env-key' });
+    expect(listEnvLockedFields(applyEnvOverrides(config(), overrides), overrides)).toEqual([
+      'scheduler.enabled',
+      'applications.radarr.radarr-main.apiKey'
+    ]);
+  });
+});
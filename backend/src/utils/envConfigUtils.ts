@@ -0,0 +1,139 @@
+/**
+ * Config overrides from structured environment variables, for container deployments
+ * SCOUTARR__SCHEDULER__SCHEDULE sets scheduler.schedule and SCOUTARR__APPLICATIONS__RADARR__0__API_KEY
+ * the first Radarr instance's apiKey; segments are camelCased and numeric ones index into arrays.
+ */
+import { camelCase } from 'es-toolkit';
+import { APP_TYPES, Config, getConfigFieldSchema } from '@scoutarr/shared';
+import logger from './logger.js';
+
+const ENV_PREFIX = 'SCOUTARR__';
+
+type ConfigPath = Array<string | number>;
+type FieldSchema = NonNullable<ReturnType<typeof getConfigFieldSchema>>;
+
+export interface EnvOverride {
+  name: string;
+  path: ConfigPath;
+  value: unknown;
+}
+
+// Kept as a string when the field takes one (e.g. numeric Discord channel IDs), otherwise read as JSON
+// so numbers, booleans and arrays work; anything invalid is left for configSchema to report
+function coerceEnvValue(raw: string, schema: FieldSchema): unknown {
+  if (schema.safeParse(raw).success) return raw;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (schema.safeParse(parsed).success) return parsed;
+  } catch {
+    // Not JSON
+  }
+  return raw;
+}
+
+/**
+ * Reads every SCOUTARR__ environment variable that names a config field
+ */
+export function readEnvOverrides(env: NodeJS.ProcessEnv = process.env): EnvOverride[] {
+  const overrides: EnvOverride[] = [];
+  for (const [name, raw] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || raw === undefined) continue;
+
+    const path = name
+      .slice(ENV_PREFIX.length)
+      .split('__')
+      .map(segment => (/^\d+$/.test(segment) ? Number(segment) : camelCase(segment)));
+    const schema = getConfigFieldSchema(path);
+    if (!schema) {
+      logger.warn('⚠️  Ignoring environment variable that matches no config field', { name });
+      continue;
+    }
+    overrides.push({ name, path, value: coerceEnvValue(raw.trim(), schema) });
+  }
+  // Whole sections before the fields inside them, so SCOUTARR__AUTH and SCOUTARR__AUTH__ENABLED combine
+  return overrides.sort((a, b) => a.path.length - b.path.length);
+}
+
+function isInstancePath(path: ConfigPath): boolean {
+  return path[0] === 'applications' && typeof path[2] === 'number';
+}
+
+function getPath(target: unknown, path: ConfigPath): unknown {
+  let current = target;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function setPath(target: Record<string | number, unknown>, path: ConfigPath, value: unknown): void {
+  let current = target;
+  path.slice(0, -1).forEach((segment, index) => {
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = typeof path[index + 1] === 'number' ? [] : {};
+    }
+    current = current[segment] as Record<string | number, unknown>;
+  });
+  current[path[path.length - 1]] = value;
+}
+
+function unsetPath(target: Record<string | number, unknown>, path: ConfigPath): void {
+  const parent = getPath(target, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (Array.isArray(parent) && typeof key === 'number') {
+    parent[key] = undefined;
+    // Elements that only came from the environment would otherwise be saved as nulls
+    while (parent.length > 0 && parent[parent.length - 1] === undefined) parent.pop();
+  } else if (parent !== null && typeof parent === 'object') {
+    delete (parent as Record<string | number, unknown>)[key];
+  }
+}
+
+/**
+ * Returns a copy of the config with the overrides applied
+ * Instances that only exist in the environment get an ID from their app and position.
+ */
+export function applyEnvOverrides(config: Config, overrides: EnvOverride[]): Config {
+  const copy = structuredClone(config) as unknown as Record<string | number, unknown>;
+  for (const { path, value } of overrides) {
+    if (isInstancePath(path) && path.length > 3 && getPath(copy, path.slice(0, 3)) === undefined) {
+      setPath(copy, [...path.slice(0, 3), 'id'], `${path[1]}-${(path[2] as number) + 1}`);
+    }
+    setPath(copy, path, structuredClone(value));
+  }
+  return copy as unknown as Config;
+}
+
+/**
+ * Puts the file's own values back where the environment overrides them, so saving from the UI
+ * never writes environment values (often credentials) into config.json
+ */
+export function revertEnvOverrides(config: Config, fileConfig: Config, overrides: EnvOverride[]): Config {
+  const copy = structuredClone(config) as unknown as Record<string | number, unknown>;
+  // Innermost first, so a field is reverted before the section around it
+  for (const { path } of [...overrides].reverse()) {
+    const fileValue = getPath(fileConfig, path);
+    if (fileValue === undefined) {
+      unsetPath(copy, path);
+    } else {
+      setPath(copy, path, structuredClone(fileValue));
+    }
+  }
+  return copy as unknown as Config;
+}
+
+/**
+ * Dot-separated paths of the overridden fields, with instances addressed by ID rather than position
+ */
+export function listEnvLockedFields(config: Config, overrides: EnvOverride[]): string[] {
+  return overrides.map(({ path }) => {
+    if (isInstancePath(path) && APP_TYPES.includes(path[1] as typeof APP_TYPES[number])) {
+      const instance = getPath(config, path.slice(0, 3)) as { id?: string } | undefined;
+      if (instance?.id) {
+        return [...path.slice(0, 2), instance.id, ...path.slice(3)].join('.');
+      }
+    }
+    return path.join('.');
+  });
+}
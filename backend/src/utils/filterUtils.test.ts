@@ -0,0 +1,206 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FilterBreakdown, StarrQualityProfile } from '@scoutarr/shared';
+import {
+  applyCommonFilters,
+  findExcludedTag,
+  getTagRules,
+  isBelowCutoff,
+  isOlderThanDays,
+  matchesIncludeTags,
+  matchesQualityProfile,
+  recordRemoved,
+  type FilterableMedia
+} from './filterUtils.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+function media(id: number, overrides: Partial<FilterableMedia> = {}): FilterableMedia {
+  return { id, monitored: true, tags: [], status: 'released', hasFile: true, ...overrides };
+}
+
+function filterConfig(overrides: Partial<Parameters<typeof applyCommonFilters>[1]> = {}): Parameters<typeof applyCommonFilters>[1] {
+  return {
+    tagName: 'upgradinatorr',
+    getQualityProfiles: async () => [],
+    getTagId: async () => null,
+    ...overrides
+  };
+}
+
+const ids = (items: FilterableMedia[]) => items.map(m => m.id);
+
+describe('getTagRules', () => {
+  it('folds the legacy ignore tag into the exclude list once', () => {
+    expect(getTagRules({ ignoreTag: 'skip', excludeTags: ['skip', 'other'] }).excludeTags).toEqual(['skip', 'other']);
+    expect(getTagRules({ ignoreTag: 'skip' }).excludeTags).toEqual(['skip']);
+  });
+
+  it('defaults to matching any include tag', () => {
+    expect(getTagRules({})).toEqual({ includeTags: [], includeTagsMode: 'any', excludeTags: [] });
+  });
+});
+
+describe('matchesIncludeTags', () => {
+  it('passes everything without include tags', () => {
+    expect(matchesIncludeTags([], getTagRules({}))).toBe(true);
+  });
+
+  it('needs one tag in any mode and every tag in all mode', () => {
+    const any = getTagRules({ includeTags: ['a', 'b'] });
+    const all = getTagRules({ includeTags: ['a', 'b'], includeTagsMode: 'all' });
+    expect(matchesIncludeTags(['a'], any)).toBe(true);
+    expect(matchesIncludeTags(['a'], all)).toBe(false);
+    expect(matchesIncludeTags(['b', 'a'], all)).toBe(true);
+  });
+});
+
+describe('findExcludedTag', () => {
+  it('returns the first excluded tag the item carries', () => {
+    const rules = getTagRules({ excludeTags: ['x', 'y'] });
+    expect(findExcludedTag(['y', 'z'], rules)).toBe('y');
+    expect(findExcludedTag(['z'], rules)).toBeUndefined();
+  });
+});
+
+describe('matchesQualityProfile', () => {
+  it('matches by ID, falling back to the legacy profile name', () => {
+    expect(matchesQualityProfile({ qualityProfileId: 4 }, new Set([4]))).toBe(true);
+    expect(matchesQualityProfile({ qualityProfileId: 5, qualityProfileName: 'HD' }, new Set([4]), 'HD')).toBe(true);
+    expect(matchesQualityProfile({ qualityProfileId: 5 }, new Set([4]), 'HD')).toBe(false);
+  });
+});
+
+describe('isOlderThanDays', () => {
+  const now = Date.parse('2024-06-10T00:00:00Z');
+
+  it('compares against the given number of days', () => {
+    expect(isOlderThanDays('2024-06-01T00:00:00Z', 7, now)).toBe(true);
+    expect(isOlderThanDays('2024-06-05T00:00:00Z', 7, now)).toBe(false);
+  });
+
+  it('treats missing and unparseable dates as old', () => {
+    expect(isOlderThanDays(undefined, 7, now)).toBe(true);
+    expect(isOlderThanDays('not a date', 7, now)).toBe(true);
+  });
+});
+
+describe('isBelowCutoff', () => {
+  it('only reports known scores below a known cutoff', () => {
+    expect(isBelowCutoff(10, 100)).toBe(true);
+    expect(isBelowCutoff(100, 100)).toBe(false);
+    expect(isBelowCutoff(undefined, 100)).toBe(false);
+    expect(isBelowCutoff(10, null)).toBe(false);
+  });
+});
+
+describe('recordRemoved', () => {
+  it('adds up removals per filter and ignores a missing breakdown', () => {
+    const breakdown: FilterBreakdown = {};
+    recordRemoved(breakdown, 'monitored', 10, 7);
+    recordRemoved(breakdown, 'monitored', 7, 6);
+    recordRemoved(undefined, 'monitored', 10, 0);
+    expect(breakdown).toEqual({ monitored: 4 });
+  });
+});
+
+describe('applyCommonFilters', () => {
+  it('drops unmonitored, already tagged and excluded items and records each step', async () => {
+    const breakdown: FilterBreakdown = {};
+    const result = await applyCommonFilters(
+      [
+        media(1),
+        media(2, { monitored: false }),
+        media(3, { tags: ['upgradinatorr'] }),
+        media(4, { tags: ['skip'] })
+      ],
+      filterConfig({ monitored: true, ignoreTag: 'skip' }),
+      'Radarr',
+      'movies',
+      breakdown
+    );
+
+    expect(ids(result)).toEqual([1]);
+    expect(breakdown).toEqual({ monitored: 1, tagName: 1, excludeTags: 1 });
+  });
+
+  it('resolves the legacy profile name to IDs so API media without names still match', async () => {
+    const profiles: StarrQualityProfile[] = [{ id: 7, name: 'HD' }];
+    const result = await applyCommonFilters(
+      [media(1, { qualityProfileId: 7 }), media(2, { qualityProfileId: 8 })],
+      filterConfig({ qualityProfileName: 'HD', getQualityProfiles: async () => profiles }),
+      'Radarr',
+      'movies'
+    );
+    expect(ids(result)).toEqual([1]);
+  });
+
+  it('falls back to matching by name when the profiles cannot be fetched', async () => {
+    const result = await applyCommonFilters(
+      [media(1, { qualityProfileName: 'HD' }), media(2, { qualityProfileId: 7 })],
+      filterConfig({ qualityProfileName: 'HD', getQualityProfiles: vi.fn().mockRejectedValue(new Error('offline')) }),
+      'Radarr',
+      'movies'
+    );
+    expect(ids(result)).toEqual([1]);
+  });
+
+  it('keeps only missing items when missingOnly is set', async () => {
+    const result = await applyCommonFilters(
+      [media(1, { hasFile: false }), media(2, { hasFile: true })],
+      filterConfig({ missingOnly: true }),
+      'Radarr',
+      'movies'
+    );
+    expect(ids(result)).toEqual([1]);
+  });
+
+  it('skips items searched, imported or added within their age limits', async () => {
+    const breakdown: FilterBreakdown = {};
+    const result = await applyCommonFilters(
+      [
+        media(1, { lastSearchTime: daysAgo(30), dateImported: daysAgo(30), added: daysAgo(30) }),
+        media(2, { lastSearchTime: daysAgo(1) }),
+        media(3, { dateImported: daysAgo(1) }),
+        media(4, { added: daysAgo(1) }),
+        media(5)
+      ],
+      filterConfig({ searchCooldownDays: 7, minImportAgeDays: 7, minAddedAgeDays: 7 }),
+      'Radarr',
+      'movies',
+      breakdown
+    );
+
+    expect(ids(result)).toEqual([1, 5]);
+    expect(breakdown).toMatchObject({ importAge: 1, addedAge: 1, searchCooldown: 1 });
+  });
+
+  it('keeps only items below their profile cutoff when cutoffUnmetOnly is set', async () => {
+    const profiles: StarrQualityProfile[] = [{ id: 1, name: 'HD', cutoffFormatScore: 100 }, { id: 2, name: 'Any' }];
+    const result = await applyCommonFilters(
+      [
+        media(1, { qualityProfileId: 1, customFormatScore: 50 }),
+        media(2, { qualityProfileId: 1, customFormatScore: 150 }),
+        media(3, { qualityProfileId: 2, customFormatScore: 0 }),
+        media(4, { qualityProfileId: 1, movieFile: { dateAdded: daysAgo(1) } })
+      ],
+      filterConfig({ cutoffUnmetOnly: true, getQualityProfiles: async () => profiles }),
+      'Radarr',
+      'movies'
+    );
+    expect(ids(result)).toEqual([1]);
+  });
+
+  it('skips the cutoff unmet filter when the profiles cannot be fetched', async () => {
+    const breakdown: FilterBreakdown = {};
+    const result = await applyCommonFilters(
+      [media(1, { qualityProfileId: 1, customFormatScore: 50 }), media(2, { qualityProfileId: 1, customFormatScore: 150 })],
+      filterConfig({ cutoffUnmetOnly: true, getQualityProfiles: vi.fn().mockRejectedValue(new Error('offline')) }),
+      'Radarr',
+      'movies',
+      breakdown
+    );
+    expect(ids(result)).toEqual([1, 2]);
+    expect(breakdown.cutoffUnmetOnly).toBeUndefined();
+  });
+});
@@ -1,5 +1,6 @@
 import logger from './logger.js';
-import { StarrQualityProfile } from '@scoutarr/shared';
+import { extractFileInfo, type MediaWithFiles } from './mediaFileUtils.js';
+import { StarrQualityProfile, FilterBreakdown } from '@scoutarr/shared';
 
 /**
  * Common interface for media items that can be filtered
@@ -7,12 +8,15 @@ import { StarrQualityProfile } from '@scoutarr/shared';
 export interface FilterableMedia {
   id: number;
   monitored: boolean;
-  tags: string[]; // Tag names, not IDs
+  tags: string[] | number[]; // Tag names once synced to the media library; media straight from the *arr API has tag IDs
   qualityProfileId?: number; // Profile ID from *arr API
   qualityProfileName?: string; // Profile name for filtering
+  parentId?: number; // Artist/author ID on album- and book-level media, whose tags live on the parent
   status: string;
   hasFile?: boolean; // Whether the media item has a file
   lastSearchTime?: string;
+  dateImported?: string; // Only set on media loaded from the database cache
+  customFormatScore?: number; // Only set on media loaded from the database cache
   added?: string;
   movieFile?: { dateAdded?: string }; // Date imported from *arr API
   episodeFile?: { dateAdded?: string }; // Date imported from *arr API
@@ -27,20 +31,124 @@ interface CommonFilterConfig {
   monitored?: boolean;
   tagName: string;
   ignoreTag?: string;
+  includeTags?: string[];
+  includeTagsMode?: 'any' | 'all';
+  excludeTags?: string[];
   qualityProfileName?: string;
+  qualityProfileIds?: number[];
   missingOnly?: boolean;
+  cutoffUnmetOnly?: boolean;
+  minImportAgeDays?: number;
+  minAddedAgeDays?: number;
+  searchCooldownDays?: number;
   getQualityProfiles: () => Promise<StarrQualityProfile[]>;
   getTagId: (tagName: string) => Promise<number | null>;
 }
 
+/**
+ * Tag rules for an instance, with the legacy single ignoreTag folded into the exclude list
+ */
+export interface TagRules {
+  includeTags: string[];
+  includeTagsMode: 'any' | 'all';
+  excludeTags: string[];
+}
+
+export function getTagRules(config: {
+  ignoreTag?: string;
+  includeTags?: string[];
+  includeTagsMode?: 'any' | 'all';
+  excludeTags?: string[];
+}): TagRules {
+  const excludeTags = [...(config.excludeTags || [])];
+  if (config.ignoreTag && !excludeTags.includes(config.ignoreTag)) {
+    excludeTags.push(config.ignoreTag);
+  }
+  return {
+    includeTags: config.includeTags || [],
+    includeTagsMode: config.includeTagsMode || 'any',
+    excludeTags
+  };
+}
+
+/**
+ * Names of an item's tags - tag IDs on media straight from the *arr API match no name, so they are left out
+ */
+export function getTagNames(media: Pick<FilterableMedia, 'tags'>): string[] {
+  return media.tags.filter((tag): tag is string => typeof tag === 'string');
+}
+
+/**
+ * Whether an item's tags satisfy the include rule (always true when no include tags are set)
+ */
+export function matchesIncludeTags(tags: string[], rules: TagRules): boolean {
+  if (rules.includeTags.length === 0) return true;
+  return rules.includeTagsMode === 'all'
+    ? rules.includeTags.every(tag => tags.includes(tag))
+    : rules.includeTags.some(tag => tags.includes(tag));
+}
+
+/**
+ * Returns the first excluded tag the item carries, if any
+ */
+export function findExcludedTag(tags: string[], rules: TagRules): string | undefined {
+  return rules.excludeTags.find(tag => tags.includes(tag));
+}
+
+/**
+ * Whether an item uses one of the selected quality profiles
+ * Matches by ID first; the legacy single profile name is matched by name as a fallback
+ */
+export function matchesQualityProfile(
+  media: { qualityProfileId?: number; qualityProfileName?: string },
+  profileIds: Set<number>,
+  profileName?: string
+): boolean {
+  if (media.qualityProfileId !== undefined && profileIds.has(media.qualityProfileId)) return true;
+  return !!profileName && media.qualityProfileName === profileName;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a date is at least the given number of days in the past
+ * Missing or unparseable dates count as old, so age filters only skip items known to be recent
+ */
+export function isOlderThanDays(date: string | undefined, days: number, now = Date.now()): boolean {
+  if (!date) return true;
+  const time = Date.parse(date);
+  if (Number.isNaN(time)) return true;
+  return now - time >= days * DAY_MS;
+}
+
+/**
+ * Records how many items a filter step removed when a breakdown is being collected
+ */
+export function recordRemoved(breakdown: FilterBreakdown | undefined, filter: string, before: number, after: number): void {
+  if (breakdown) {
+    breakdown[filter] = (breakdown[filter] || 0) + (before - after);
+  }
+}
+
+/**
+ * Whether a custom format score is below its profile's cutoff score
+ * Unknown scores or cutoffs count as not below, since there is nothing to compare
+ */
+export function isBelowCutoff(score: number | undefined | null, cutoff: number | undefined | null): boolean {
+  if (score === undefined || score === null || cutoff === undefined || cutoff === null) return false;
+  return score < cutoff;
+}
+
 /**
  * Applies common filters to media items (monitored, tag, quality profile, ignore tag)
+ * Pass a breakdown object to collect per-filter removal counts (used by dry runs)
  */
 export async function applyCommonFilters<T extends FilterableMedia>(
   media: T[],
   config: CommonFilterConfig,
   appName: string,
-  mediaTypeName: string
+  mediaTypeName: string,
+  breakdown?: FilterBreakdown
 ): Promise<T[]> {
   // Ensure media is an array
   if (!Array.isArray(media)) {
@@ -54,6 +162,7 @@ export async function applyCommonFilters<T extends FilterableMedia>(
   if (config.monitored === true) {
     const before = filtered.length;
     filtered = filtered.filter(m => m.monitored === config.monitored);
+    recordRemoved(breakdown, 'monitored', before, filtered.length);
     logger.debug('🔽 Filtered by monitored status', {
       before,
       after: filtered.length,
@@ -67,7 +176,8 @@ export async function applyCommonFilters<T extends FilterableMedia>(
   const tagName = config.tagName;
   if (tagName) {
     const before = filtered.length;
-    filtered = filtered.filter(m => !m.tags.includes(tagName));
+    filtered = filtered.filter(m => !getTagNames(m).includes(tagName));
+    recordRemoved(breakdown, 'tagName', before, filtered.length);
     logger.debug('🔽 Filtered by tag exclusion', {
       before,
       after: filtered.length,
@@ -76,27 +186,58 @@ export async function applyCommonFilters<T extends FilterableMedia>(
     });
   }
 
-  // Filter by quality profile name
-  if (config.qualityProfileName) {
+  // Filter by quality profiles (selected IDs plus the legacy single profile name)
+  const profileIds = new Set(config.qualityProfileIds || []);
+  if (profileIds.size > 0 || config.qualityProfileName) {
+    if (config.qualityProfileName) {
+      // Resolve the legacy name to its ID so media fetched from the API (which carries only IDs) still matches
+      try {
+        const profiles = await config.getQualityProfiles();
+        profiles.filter(p => p.name === config.qualityProfileName).forEach(p => profileIds.add(p.id));
+      } catch {
+        logger.warn('⚠️  Could not resolve quality profile name, matching by name only', {
+          profileName: config.qualityProfileName,
+          appName
+        });
+      }
+    }
     const before = filtered.length;
-    filtered = filtered.filter(m => m.qualityProfileName === config.qualityProfileName);
+    filtered = filtered.filter(m => matchesQualityProfile(m, profileIds, config.qualityProfileName));
+    recordRemoved(breakdown, 'qualityProfile', before, filtered.length);
     logger.debug('🔽 Filtered by quality profile', {
       before,
       after: filtered.length,
+      profileIds: [...profileIds],
       profileName: config.qualityProfileName,
       appName
     });
   }
 
-  // Filter out media with ignore tag (by name)
-  if (config.ignoreTag) {
-    const ignoreTag = config.ignoreTag;
+  const tagRules = getTagRules(config);
+
+  // Filter to media carrying any/all of the include tags (by name)
+  if (tagRules.includeTags.length > 0) {
     const before = filtered.length;
-    filtered = filtered.filter(m => !m.tags.includes(ignoreTag));
-    logger.debug('🔽 Filtered by ignore tag', {
+    filtered = filtered.filter(m => matchesIncludeTags(getTagNames(m), tagRules));
+    recordRemoved(breakdown, 'includeTags', before, filtered.length);
+    logger.debug('🔽 Filtered by include tags', {
       before,
       after: filtered.length,
-      ignoreTag,
+      includeTags: tagRules.includeTags,
+      mode: tagRules.includeTagsMode,
+      appName
+    });
+  }
+
+  // Filter out media with any exclude tag (by name)
+  if (tagRules.excludeTags.length > 0) {
+    const before = filtered.length;
+    filtered = filtered.filter(m => !findExcludedTag(getTagNames(m), tagRules));
+    recordRemoved(breakdown, 'excludeTags', before, filtered.length);
+    logger.debug('🔽 Filtered by exclude tags', {
+      before,
+      after: filtered.length,
+      excludeTags: tagRules.excludeTags,
       appName
     });
   }
@@ -105,6 +246,7 @@ export async function applyCommonFilters<T extends FilterableMedia>(
   if (config.missingOnly) {
     const before = filtered.length;
     filtered = filtered.filter(m => m.hasFile === false);
+    recordRemoved(breakdown, 'missingOnly', before, filtered.length);
     logger.debug('🔽 Filtered by missing only', {
       before,
       after: filtered.length,
@@ -112,6 +254,63 @@ export async function applyCommonFilters<T extends FilterableMedia>(
     });
   }
 
+  // Age filters skip fresh grabs, new additions and items the *arr searched recently
+  const now = Date.now();
+  if (config.minImportAgeDays) {
+    const days = config.minImportAgeDays;
+    const before = filtered.length;
+    filtered = filtered.filter(m => {
+      // Cached media carries the import date directly; API media carries it on the file objects
+      const dateImported = m.dateImported ?? extractFileInfo(m as unknown as MediaWithFiles).dateImported;
+      return isOlderThanDays(dateImported, days, now);
+    });
+    recordRemoved(breakdown, 'importAge', before, filtered.length);
+    logger.debug('🔽 Filtered by import age', { before, after: filtered.length, days, appName });
+  }
+
+  if (config.minAddedAgeDays) {
+    const days = config.minAddedAgeDays;
+    const before = filtered.length;
+    filtered = filtered.filter(m => isOlderThanDays(m.added, days, now));
+    recordRemoved(breakdown, 'addedAge', before, filtered.length);
+    logger.debug('🔽 Filtered by added age', { before, after: filtered.length, days, appName });
+  }
+
+  if (config.searchCooldownDays) {
+    const days = config.searchCooldownDays;
+    const before = filtered.length;
+    filtered = filtered.filter(m => isOlderThanDays(m.lastSearchTime, days, now));
+    recordRemoved(breakdown, 'searchCooldown', before, filtered.length);
+    logger.debug('🔽 Filtered by search cooldown', { before, after: filtered.length, days, appName });
+  }
+
+  // Filter to media whose custom format score is below the quality profile's cutoff score
+  if (config.cutoffUnmetOnly) {
+    let profiles: StarrQualityProfile[] | undefined;
+    try {
+      profiles = await config.getQualityProfiles();
+    } catch {
+      // Skipped rather than failing the instance's whole search over one profile lookup
+      logger.warn('⚠️  Could not fetch quality profile cutoffs, skipping the cutoff unmet filter', { appName });
+    }
+    if (profiles) {
+      const cutoffScores = new Map(profiles.map(p => [p.id, p.cutoffFormatScore]));
+      const before = filtered.length;
+      filtered = filtered.filter(m => {
+        // Cached media carries the score directly; API media carries it on the file objects
+        const score = m.customFormatScore ?? extractFileInfo(m as unknown as MediaWithFiles).customFormatScore;
+        const cutoff = m.qualityProfileId !== undefined ? cutoffScores.get(m.qualityProfileId) : undefined;
+        return isBelowCutoff(score, cutoff);
+      });
+      recordRemoved(breakdown, 'cutoffUnmetOnly', before, filtered.length);
+      logger.debug('🔽 Filtered by cutoff unmet', {
+        before,
+        after: filtered.length,
+        appName
+      });
+    }
+  }
+
   return filtered;
 }
 
@@ -0,0 +1,155 @@
+/**
+ * Shared HTTP policy for *arr and Prowlarr API clients
+ * Per-request timeouts, retries with backoff for transient failures, and a per-instance circuit breaker
+ */
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { delay } from 'es-toolkit';
+import logger from './logger.js';
+import { getErrorMessage } from './errorUtils.js';
+
+export const REQUEST_TIMEOUT_MS = 30000;
+// Whole-library lists can take minutes to build on large instances, so those requests pass this timeout instead
+export const LIBRARY_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Only requests that are safe to repeat are retried - a retried POST could send a search command twice
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRYABLE_METHODS = new Set(['get', 'head', 'put', 'delete']);
+
+// Consecutive transient failures that open an instance's circuit, and how long it then stays open
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 5 * 60 * 1000;
+
+export interface HttpPolicyOptions {
+  // Key the circuit breaker tracks failures under (usually the instance ID); omit to never short-circuit
+  circuitKey?: string;
+  retries?: number;
+}
+
+export interface CircuitStatus {
+  open: boolean;
+  failures: number;
+  openUntil?: string;
+  lastError?: string;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil?: number;
+  lastError?: string;
+}
+
+interface RetryableConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+/**
+ * Thrown instead of sending a request while an instance's circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly circuitKey: string, readonly openUntil: Date) {
+    super(`Instance is degraded after repeated API failures, retrying after ${openUntil.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const circuits = new Map<string, CircuitState>();
+
+// Network errors, timeouts and 5xx responses are worth retrying; 4xx means the instance answered
+function isTransient(error: unknown): boolean {
+  if (!(error instanceof AxiosError)) return false;
+  return !error.response || error.response.status >= 500;
+}
+
+function recordSuccess(key: string): void {
+  const state = circuits.get(key);
+  if (!state) return;
+  if (state.openUntil) {
+    logger.info('✅ Instance recovered, closing circuit', { circuitKey: key });
+  }
+  circuits.delete(key);
+}
+
+function recordFailure(key: string, error: unknown): void {
+  const state = circuits.get(key) ?? { failures: 0 };
+  state.failures++;
+  state.lastError = getErrorMessage(error);
+  // Once open, a failed trial request after the cooldown re-opens the circuit straight away
+  if (state.failures >= FAILURE_THRESHOLD) {
+    state.openUntil = Date.now() + COOLDOWN_MS;
+    logger.warn('🔌 Circuit opened after repeated API failures', {
+      circuitKey: key,
+      failures: state.failures,
+      openUntil: new Date(state.openUntil).toISOString(),
+      lastError: state.lastError
+    });
+  }
+  circuits.set(key, state);
+}
+
+/**
+ * Whether requests under this key are currently being short-circuited
+ */
+export function isCircuitOpen(key: string): boolean {
+  const openUntil = circuits.get(key)?.openUntil;
+  return openUntil !== undefined && openUntil > Date.now();
+}
+
+export function getCircuitStatus(key: string): CircuitStatus {
+  const state = circuits.get(key);
+  if (!state) return { open: false, failures: 0 };
+  return {
+    open: isCircuitOpen(key),
+    failures: state.failures,
+    openUntil: state.openUntil ? new Date(state.openUntil).toISOString() : undefined,
+    lastError: state.lastError
+  };
+}
+
+/**
+ * Adds timeouts, retries and the circuit breaker to an axios client
+ */
+export function applyHttpPolicy(client: AxiosInstance, options: HttpPolicyOptions = {}): AxiosInstance {
+  const { circuitKey } = options;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  client.defaults.timeout = client.defaults.timeout || REQUEST_TIMEOUT_MS;
+
+  client.interceptors.request.use(config => {
+    if (circuitKey && isCircuitOpen(circuitKey)) {
+      throw new CircuitOpenError(circuitKey, new Date(circuits.get(circuitKey)!.openUntil!));
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      if (circuitKey) recordSuccess(circuitKey);
+      return response;
+    },
+    async (error: unknown) => {
+      if (error instanceof CircuitOpenError || !isTransient(error)) {
+        throw error;
+      }
+
+      const config = (error as AxiosError).config as RetryableConfig | undefined;
+      const attempt = config?.retryCount ?? 0;
+      if (config && attempt < retries && RETRYABLE_METHODS.has((config.method || 'get').toLowerCase())) {
+        config.retryCount = attempt + 1;
+        const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        logger.debug('🔁 Retrying request after transient failure', {
+          url: config.url,
+          attempt: config.retryCount,
+          backoffMs: backoff,
+          error: getErrorMessage(error)
+        });
+        await delay(backoff);
+        return client.request(config);
+      }
+
+      if (circuitKey) recordFailure(circuitKey, error);
+      throw error;
+    }
+  );
+
+  return client;
+}
@@ -7,24 +7,31 @@ interface FileInfo {
   dateImported: string | undefined;
   hasFile: boolean;
   customFormatScore: number | undefined;
+  quality: string | undefined;
+}
+
+// Quality as the *arr APIs nest it on files, e.g. { quality: { name: 'Bluray-1080p' } }
+interface FileQuality {
+  quality?: { name?: string };
 }
 
 export interface MediaWithFiles {
-  movieFile?: { dateAdded?: string; customFormatScore?: number };
-  episodeFile?: { dateAdded?: string; customFormatScore?: number };
-  trackFiles?: Array<{ dateAdded?: string; customFormatScore?: number }>;
-  bookFiles?: Array<{ dateAdded?: string; customFormatScore?: number }>;
+  movieFile?: { dateAdded?: string; customFormatScore?: number; quality?: FileQuality };
+  episodeFile?: { dateAdded?: string; customFormatScore?: number; quality?: FileQuality };
+  trackFiles?: Array<{ dateAdded?: string; customFormatScore?: number; quality?: FileQuality }>;
+  bookFiles?: Array<{ dateAdded?: string; customFormatScore?: number; quality?: FileQuality }>;
   statistics?: { trackFileCount?: number; bookFileCount?: number };
   [key: string]: unknown;
 }
 
 /**
- * Extracts file information (dateImported, hasFile, customFormatScore) from a media item
+ * Extracts file information (dateImported, hasFile, customFormatScore, quality) from a media item
  * Handles all file types: movieFile, episodeFile, trackFiles, bookFiles
  */
 export function extractFileInfo(media: MediaWithFiles): FileInfo {
   let dateImported: string | undefined;
   let customFormatScore: number | undefined;
+  let quality: string | undefined;
   let hasFile = false;
 
   // Radarr - movieFile
@@ -32,37 +39,35 @@ export function extractFileInfo(media: MediaWithFiles): FileInfo {
     dateImported = media.movieFile.dateAdded;
     hasFile = true;
     customFormatScore = media.movieFile.customFormatScore;
+    quality = media.movieFile.quality?.quality?.name;
   }
   // Sonarr - episodeFile
   else if (media.episodeFile?.dateAdded) {
     dateImported = media.episodeFile.dateAdded;
     hasFile = true;
     customFormatScore = media.episodeFile.customFormatScore;
+    quality = media.episodeFile.quality?.quality?.name;
   }
   // Lidarr - trackFiles (use most recent)
   else if (media.trackFiles && media.trackFiles.length > 0) {
-    const dates = media.trackFiles
-      .map(f => f.dateAdded)
-      .filter((d): d is string => !!d);
-    
-    if (dates.length > 0) {
-      dateImported = dates.sort().reverse()[0]; // Most recent
+    const latest = getLatestFile(media.trackFiles);
+    if (latest) {
+      dateImported = latest.dateAdded;
       hasFile = true;
       const trackWithScore = media.trackFiles.find(f => f.customFormatScore !== undefined);
       customFormatScore = trackWithScore?.customFormatScore;
+      quality = latest.quality?.quality?.name;
     }
   }
   // Readarr - bookFiles (use most recent)
   else if (media.bookFiles && media.bookFiles.length > 0) {
-    const dates = media.bookFiles
-      .map(f => f.dateAdded)
-      .filter((d): d is string => !!d);
-    
-    if (dates.length > 0) {
-      dateImported = dates.sort().reverse()[0]; // Most recent
+    const latest = getLatestFile(media.bookFiles);
+    if (latest) {
+      dateImported = latest.dateAdded;
       hasFile = true;
       const bookWithScore = media.bookFiles.find(f => f.customFormatScore !== undefined);
       customFormatScore = bookWithScore?.customFormatScore;
+      quality = latest.quality?.quality?.name;
     }
   }
 
@@ -72,7 +77,14 @@ export function extractFileInfo(media: MediaWithFiles): FileInfo {
     hasFile = count > 0;
   }
 
-  return { dateImported, hasFile, customFormatScore };
+  return { dateImported, hasFile, customFormatScore, quality };
+}
+
+// Most recently added of an album's or book's files
+function getLatestFile<T extends { dateAdded?: string }>(files: T[]): (T & { dateAdded: string }) | undefined {
+  return files
+    .filter((f): f is T & { dateAdded: string } => !!f.dateAdded)
+    .sort((a, b) => b.dateAdded.localeCompare(a.dateAdded))[0];
 }
 
 /**
@@ -3,21 +3,28 @@
  * Centralizes logic for syncing media, quality profiles, and tag conversion
  */
 
-import { statsService } from '../services/statsService.js';
+import { statsService, type MediaLibraryItem, type MediaTagColumn } from '../services/statsService.js';
+import { configService } from '../services/configService.js';
 import { getServiceForApp } from './serviceRegistry.js';
 import logger from './logger.js';
 import type { AppType } from './starrUtils.js';
-import type { StarrInstanceConfig } from '@scoutarr/shared';
+import type { MediaSyncReport, StarrInstanceConfig } from '@scoutarr/shared';
+
+const HOUR_MS = 60 * 60 * 1000;
 
 interface SyncInstanceOptions {
   instanceId: string;
   appType: AppType;
   instance: StarrInstanceConfig;
+  // Only refetch what changed since the last sync, unless a full resync is due
+  incremental?: boolean;
 }
 
 interface SyncResult<TMedia = unknown> {
   mediaCount: number;
   mediaWithTags: TMedia[];
+  mode: MediaSyncReport['mode'];
+  startedAt: string;
 }
 
 /**
@@ -51,6 +58,22 @@ export async function convertMediaTagsToNames<TMedia extends { tags: number[] }>
   return mediaWithTagNames;
 }
 
+/**
+ * Converts tag IDs to names and resolves title and externalId, giving items ready for the media library
+ */
+async function toLibraryItems(
+  service: ReturnType<typeof getServiceForApp>,
+  instance: StarrInstanceConfig,
+  mediaItems: Array<{ tags: number[] }>
+): Promise<MediaLibraryItem[]> {
+  const mediaWithTagNames = await convertMediaTagsToNames(service, instance, mediaItems);
+  return mediaWithTagNames.map(item => ({
+    ...item,
+    title: service.getMediaTitle(item as any),
+    externalId: service.getExternalId(item as any)
+  })) as MediaLibraryItem[];
+}
+
 /**
  * Syncs quality profiles for an instance
  */
@@ -69,32 +92,31 @@ export async function syncInstanceQualityProfiles(
 }
 
 /**
- * Extracts the externalId for a media item based on app type.
- * Used to build deep links into the arr application.
+ * Returns when the instance last synced if an incremental sync can build on it,
+ * or undefined when it has never synced or its full resync is due
  */
-export function extractExternalId(appType: AppType, item: Record<string, unknown>, fallbackId: number): string | undefined {
-  switch (appType) {
-    case 'radarr':
-      return item.tmdbId ? String(item.tmdbId) : undefined;
-    case 'sonarr':
-      return (item.titleSlug as string) || undefined;
-    case 'lidarr':
-      return (item.foreignArtistId as string) || String(fallbackId);
-    case 'readarr':
-      return (item.foreignAuthorId as string) || String(fallbackId);
-    default:
-      return String(fallbackId);
-  }
+async function getIncrementalSince(instanceId: string): Promise<Date | undefined> {
+  const fullSyncIntervalHours = configService.getConfig().tasks.fullSyncIntervalHours;
+  if (!fullSyncIntervalHours) return undefined;
+
+  const dbInstance = await statsService.getInstance(instanceId);
+  if (!dbInstance?.last_sync_at || !dbInstance.last_full_sync_at) return undefined;
+  if (Date.now() - new Date(dbInstance.last_full_sync_at).getTime() >= fullSyncIntervalHours * HOUR_MS) return undefined;
+
+  return new Date(dbInstance.last_sync_at);
 }
 
 /**
- * Fully syncs an instance: upsert instance, sync quality profiles, fetch media, convert tags.
+ * Syncs an instance: upsert instance, sync quality profiles, fetch media, convert tags.
+ * Fetches everything unless an incremental sync is requested and possible.
  * Returns media with title and externalId already resolved so callers don't need to re-derive them.
  */
 export async function syncInstanceMedia(options: SyncInstanceOptions): Promise<SyncResult> {
   const { instanceId, appType, instance } = options;
 
   const service = getServiceForApp(appType);
+  // Taken before fetching, so the next incremental sync also covers changes made while this one ran
+  const startedAt = new Date().toISOString();
 
   // Upsert instance record
   logger.debug('💾 [Scoutarr DB] Upserting instance record', { instanceId, appType });
@@ -103,21 +125,70 @@ export async function syncInstanceMedia(options: SyncInstanceOptions): Promise<S
   // Sync quality profiles
   await syncInstanceQualityProfiles(instanceId, appType, service, instance);
 
-  // Fetch all media from API
-  logger.debug(`📡 [${appType.charAt(0).toUpperCase() + appType.slice(1)} API] Fetching media`);
-  const allMedia = await service.getMedia(instance);
-  logger.debug('✅ [Scoutarr] Fetched all media from *arr API', { count: allMedia.length });
+  // Lidarr and Readarr have no way to tell what changed, so their syncs are always full
+  if (options.incremental && !service.supportsIncrementalSync()) {
+    logger.debug('ℹ️  [Scoutarr] Incremental sync not supported, running a full sync', { instanceId, appType });
+  }
+  const since = options.incremental && service.supportsIncrementalSync() ? await getIncrementalSince(instanceId) : undefined;
+  const cached = since ? statsService.getCachedMedia(instanceId) : [];
+  const mode: MediaSyncReport['mode'] = since && cached.length > 0 ? 'incremental' : 'full';
+
+  // Fetch media from API
+  logger.debug(`📡 [${appType.charAt(0).toUpperCase() + appType.slice(1)} API] Fetching media`, { mode, since: since?.toISOString() });
+  const allMedia = mode === 'incremental'
+    ? await service.getMediaSince(instance, since!, cached)
+    : await service.getMedia(instance);
+  logger.debug('✅ [Scoutarr] Fetched all media from *arr API', { count: allMedia.length, mode });
 
   // Convert tag IDs to names, normalize title and externalId
-  const mediaWithTagNames = await convertMediaTagsToNames(service, instance, allMedia);
-  const mediaWithTags = mediaWithTagNames.map(item => ({
-    ...item,
-    title: service.getMediaTitle(item as any),
-    externalId: extractExternalId(appType, item as Record<string, unknown>, (item as any).id as number)
-  }));
+  const mediaWithTags = await toLibraryItems(service, instance, allMedia);
 
   return {
     mediaCount: allMedia.length,
-    mediaWithTags
+    mediaWithTags,
+    mode,
+    startedAt
+  };
+}
+
+/**
+ * Writes a sync's media to the database and records what it added, changed and removed
+ */
+export async function storeSyncedMedia(instanceId: string, syncResult: SyncResult): Promise<MediaSyncReport> {
+  const counts = await statsService.syncMediaToDatabase(instanceId, syncResult.mediaWithTags as MediaLibraryItem[]);
+  const report: MediaSyncReport = {
+    mode: syncResult.mode,
+    ...counts,
+    total: syncResult.mediaCount,
+    syncedAt: syncResult.startedAt
   };
+  statsService.recordSyncReport(instanceId, report);
+  return report;
+}
+
+/**
+ * Media library column holding the movie, series, artist or author ID that webhook events refer to
+ */
+function getTargetColumn(appType: AppType, instance: StarrInstanceConfig): MediaTagColumn {
+  if (appType === 'sonarr') return 'series_id';
+  const granularity = (instance as { searchGranularity?: string }).searchGranularity;
+  return granularity === 'album' || granularity === 'book' ? 'parent_id' : 'media_id';
+}
+
+/**
+ * Refetches one movie, series, artist or author and replaces its media library rows, or removes them when it was deleted
+ */
+export async function refreshTargetMedia(options: SyncInstanceOptions & { targetId: number; deleted?: boolean }): Promise<Pick<MediaSyncReport, 'added' | 'changed' | 'removed'>> {
+  const { instanceId, appType, instance, targetId, deleted } = options;
+  const column = getTargetColumn(appType, instance);
+  await statsService.upsertInstance(instanceId, appType, instance.name);
+
+  if (deleted) {
+    return statsService.replaceMediaForTarget(instanceId, column, targetId, []);
+  }
+
+  const service = getServiceForApp(appType);
+  const media = await service.getMediaForTarget(instance, targetId);
+  const items = await toLibraryItems(service, instance, media);
+  return statsService.replaceMediaForTarget(instanceId, column, targetId, items);
 }
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SECRET_PLACEHOLDER, type Config } from '@scoutarr/shared';
+import {
+  collectConfigSecrets,
+  isSecretReference,
+  mapConfigSecrets,
+  maskConfigSecrets,
+  maskSecretValue,
+  resolveSecretReference
+} from './secretUtils.js';
+
+function config(): Config {
+  return {
+    applications: {
+      radarr: [{ id: 'radarr-1', apiKey: 'radarr-key', webhookSecret: '' }],
+      sonarr: [{ id: 'sonarr-1', apiKey: 'env:SCOUTARR_SONARR_KEY' }]
+    },
+    notifications: { discordWebhook: 'https://discord.example/hook' },
+    prowlarr: { apiKey: 'prowlarr-key' }
+  } as unknown as Config;
+}
+
+describe('secret masking', () => {
+  it('recognises env and file references', () => {
+    expect(isSecretReference('env:SCOUTARR_API_KEY')).toBe(true);
+    expect(isSecretReference('file:/run/secrets/key')).toBe(true);
+    expect(isSecretReference('plain-key')).toBe(false);
+  });
+
+  it('masks saved secrets but keeps empty values and references', () => {
+    expect(maskSecretValue('radarr-key')).toBe(SECRET_PLACEHOLDER);
+    expect(maskSecretValue('')).toBe('');
+    expect(maskSecretValue('env:SCOUTARR_API_KEY')).toBe('env:SCOUTARR_API_KEY');
+
+    const masked = maskConfigSecrets(config());
+    expect(masked.applications.radarr[0].apiKey).toBe(SECRET_PLACEHOLDER);
+    expect(masked.applications.sonarr[0].apiKey).toBe('env:SCOUTARR_SONARR_KEY');
+    expect(masked.notifications.discordWebhook).toBe(SECRET_PLACEHOLDER);
+    expect(masked.prowlarr?.apiKey).toBe(SECRET_PLACEHOLDER);
+  });
+
+  it('keys secrets by instance ID and leaves the original config alone', () => {
+    const original = config();
+    const secrets = collectConfigSecrets(original);
+    expect(Object.fromEntries(secrets)).toEqual({
+      'applications.radarr.radarr-1.apiKey': 'radarr-key',
+      'applications.radarr.radarr-1.webhookSecret': '',
+      'applications.sonarr.sonarr-1.apiKey': 'env:SCOUTARR_SONARR_KEY',
+      'notifications.discordWebhook': 'https://discord.example/hook',
+      'prowlarr.apiKey': 'prowlarr-key'
+    });
+
+    const mapped = mapConfigSecrets(original, value => value.toUpperCase());
+    expect(mapped.applications.radarr[0].apiKey).toBe('RADARR-KEY');
+    expect(original.applications.radarr[0].apiKey).toBe('radarr-key');
+  });
+
+  it('tolerates configs with sections missing', () => {
+    expect(collectConfigSecrets({} as Config).size).toBe(0);
+  });
+});
+
+describe('resolveSecretReference', () => {
+  let root: string;
+  let secretsDir: string;
+  let configDir: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scoutarr-secrets-'));
+    secretsDir = path.join(root, 'secrets');
+    configDir = path.join(root, 'config');
+    await fs.mkdir(secretsDir);
+    await fs.mkdir(configDir);
+    await fs.writeFile(path.join(secretsDir, 'radarr_key'), 'from-secrets\n');
+    await fs.writeFile(path.join(configDir, 'auth.json'), '{"sessionSecret":"secret"}');
+    await fs.writeFile(path.join(root, 'outside'), 'not a secret');
+    vi.stubEnv('SECRETS_DIR', secretsDir);
+    vi.stubEnv('CONFIG_DIR', configDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('returns plain values unchanged', async () => {
+    expect(await resolveSecretReference('plain-key')).toBe('plain-key');
+  });
+
+  it('reads Scoutarr environment variables', async () => {
+    vi.stubEnv('SCOUTARR_RADARR_KEY', ' from-env ');
+    expect(await resolveSecretReference('env:SCOUTARR_RADARR_KEY')).toBe('from-env');
+    await expect(resolveSecretReference('env:SCOUTARR_UNSET_KEY')).rejects.toThrow('SCOUTARR_UNSET_KEY is not set');
+  });
+
+  it('refuses other environment variables', async () => {
+    vi.stubEnv('RADARR_KEY', 'from-env');
+    await expect(resolveSecretReference('env:RADARR_KEY')).rejects.toThrow('only variables starting with SCOUTARR_ can');
+  });
+
+  it('reads files in the secrets directory', async () => {
+    expect(await resolveSecretReference(`file:${path.join(secretsDir, 'radarr_key')}`)).toBe('from-secrets');
+  });
+
+  it('refuses files outside it, however they are reached', async () => {
+    await fs.symlink(path.join(root, 'outside'), path.join(secretsDir, 'link'));
+
+    for (const file of [
+      path.join(root, 'outside'),
+      path.join(configDir, 'auth.json'),
+      path.join(secretsDir, '..', 'outside'),
+      path.join(secretsDir, 'link'),
+      secretsDir
+    ]) {
+      await expect(resolveSecretReference(`file:${file}`)).rejects.toThrow('is outside the secrets directory');
+    }
+  });
+
+  it('reports missing files without saying more', async () => {
+    const missing = path.join(secretsDir, 'missing');
+    await expect(resolveSecretReference(`file:${missing}`)).rejects.toThrow(`Secret file ${missing} could not be read`);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Secret handling for the config: masking for the config API and env/file references
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { APP_TYPES, Config, SECRET_PLACEHOLDER, SECRET_REFERENCE_PATTERN } from '@scoutarr/shared';
+
+const INSTANCE_SECRET_FIELDS = ['apiKey', 'webhookSecret'] as const;
+const NOTIFICATION_SECRET_FIELDS = ['discordWebhook', 'notifiarrPassthroughWebhook', 'pushoverUserKey', 'pushoverApiToken'] as const;
+
+// Docker's secrets mount unless SECRETS_DIR names another directory
+const DEFAULT_SECRETS_DIR = '/run/secrets';
+
+// env: references are limited to these variables so a config edit can't send out the rest of the environment
+const ENV_REFERENCE_PREFIX = 'SCOUTARR_';
+
+/**
+ * Returns a copy of the config with every secret passed through fn
+ * Secrets are keyed by their location, with instances keyed by ID so reordering them doesn't mix up secrets.
+ * Tolerates partially filled configs, as read from disk before validation.
+ */
+export function mapConfigSecrets(config: Config, fn: (value: string, key: string) => string): Config {
+  const copy = structuredClone(config);
+
+  for (const appType of APP_TYPES) {
+    const instances = copy.applications?.[appType];
+    if (!Array.isArray(instances)) continue;
+    for (const instance of instances) {
+      for (const field of INSTANCE_SECRET_FIELDS) {
+        const value = instance[field];
+        if (typeof value === 'string') {
+          instance[field] = fn(value, `applications.${appType}.${instance.id}.${field}`);
+        }
+      }
+    }
+  }
+
+  if (copy.notifications) {
+    for (const field of NOTIFICATION_SECRET_FIELDS) {
+      const value = copy.notifications[field];
+      if (typeof value === 'string') {
+        copy.notifications[field] = fn(value, `notifications.${field}`);
+      }
+    }
+  }
+
+  if (typeof copy.prowlarr?.apiKey === 'string') {
+    copy.prowlarr.apiKey = fn(copy.prowlarr.apiKey, 'prowlarr.apiKey');
+  }
+
+  return copy;
+}
+
+/**
+ * Every secret in the config by location key
+ */
+export function collectConfigSecrets(config: Config): Map<string, string> {
+  const secrets = new Map<string, string>();
+  mapConfigSecrets(config, (value, key) => {
+    secrets.set(key, value);
+    return value;
+  });
+  return secrets;
+}
+
+export function isSecretReference(value: string): boolean {
+  return SECRET_REFERENCE_PATTERN.test(value);
+}
+
+/**
+ * The placeholder for a saved secret; empty values and references are kept since they hold no credential
+ */
+export function maskSecretValue(value: string): string {
+  return value && !isSecretReference(value) ? SECRET_PLACEHOLDER : value;
+}
+
+export function maskConfigSecrets(config: Config): Config {
+  return mapConfigSecrets(config, maskSecretValue);
+}
+
+/**
+ * The only directory file: references may read from, so a reference can't point at any file the process can read
+ * The config directory is left out as it holds auth.json and the database.
+ */
+function getSecretsDir(): string {
+  return process.env.SECRETS_DIR || DEFAULT_SECRETS_DIR;
+}
+
+/**
+ * Whether a file's real path lies inside the secrets directory
+ * Both sides are resolved through symlinks, so neither `..` nor a link can lead outside it.
+ */
+async function isInSecretsDir(file: string): Promise<boolean> {
+  const realFile = await fs.realpath(file);
+  const dir = await fs.realpath(getSecretsDir()).catch(() => path.resolve(getSecretsDir()));
+  const relative = path.relative(dir, realFile);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Reads the value a reference points at: an environment variable or a file such as a Docker secret
+ */
+export async function resolveSecretReference(reference: string): Promise<string> {
+  const match = SECRET_REFERENCE_PATTERN.exec(reference);
+  if (!match) return reference;
+  const [, source, target] = match;
+
+  if (source === 'env') {
+    if (!target.startsWith(ENV_REFERENCE_PREFIX)) {
+      throw new Error(`Environment variable ${target} can't be used as a secret; only variables starting with ${ENV_REFERENCE_PREFIX} can`);
+    }
+    const value = process.env[target];
+    if (value === undefined) {
+      throw new Error(`Environment variable ${target} is not set`);
+    }
+    return value.trim();
+  }
+
+  let allowed: boolean;
+  try {
+    allowed = await isInSecretsDir(target);
+  } catch {
+    throw new Error(`Secret file ${target} could not be read`);
+  }
+  if (!allowed) {
+    throw new Error(`Secret file ${target} is outside the secrets directory (${getSecretsDir()})`);
+  }
+
+  try {
+    return (await fs.readFile(target, 'utf-8')).trim();
+  } catch {
+    throw new Error(`Secret file ${target} could not be read`);
+  }
+}
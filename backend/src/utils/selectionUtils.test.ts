@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterableMedia } from './filterUtils.js';
+import { selectMedia, shuffle } from './selectionUtils.js';
+
+function media(id: number, overrides: Partial<FilterableMedia> = {}): FilterableMedia {
+  return { id, monitored: true, tags: [], status: 'released', ...overrides };
+}
+
+const ids = (items: FilterableMedia[]) => items.map(m => m.id);
+
+describe('shuffle', () => {
+  it('returns a copy holding the same items', () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = shuffle(items);
+    expect(shuffled).not.toBe(items);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+});
+
+describe('selectMedia', () => {
+  it('returns no more than count items, or all of them for max', () => {
+    const items = [media(1), media(2), media(3)];
+    expect(selectMedia(items, 2)).toHaveLength(2);
+    expect(ids(selectMedia(items, 'max')).sort()).toEqual([1, 2, 3]);
+    expect(selectMedia([], 5)).toEqual([]);
+  });
+
+  it('puts never-searched items first, then the longest since a search', () => {
+    const items = [
+      media(1, { lastSearchTime: '2024-03-01T00:00:00Z' }),
+      media(2, { lastSearchTime: '2024-01-01T00:00:00Z' }),
+      media(3)
+    ];
+    expect(ids(selectMedia(items, 'max', 'oldestSearched'))).toEqual([3, 2, 1]);
+  });
+
+  it('picks the lowest custom format scores, reading API file objects too, with unknown scores last', () => {
+    const items = [
+      media(1, { customFormatScore: 50 }),
+      media(2),
+      media(3, { movieFile: { dateAdded: '2024-01-01T00:00:00Z', customFormatScore: 10 } } as Partial<FilterableMedia>),
+      media(4, { customFormatScore: 30 })
+    ];
+    expect(ids(selectMedia(items, 'max', 'lowestScore'))).toEqual([3, 4, 1, 2]);
+  });
+
+  it('picks the largest gaps to the profile cutoff score', () => {
+    const items = [
+      media(1, { qualityProfileId: 1, customFormatScore: 90 }),
+      media(2, { qualityProfileId: 1, customFormatScore: 10 }),
+      media(3, { qualityProfileId: 2, customFormatScore: 0 })
+    ];
+    const cutoffScores = new Map([[1, 100]]);
+    expect(ids(selectMedia(items, 2, 'largestCutoffGap', { cutoffScores }))).toEqual([2, 1]);
+  });
+
+  it('picks the oldest imports first', () => {
+    const items = [
+      media(1, { dateImported: '2023-05-01T00:00:00Z' }),
+      media(2, { dateImported: '2021-05-01T00:00:00Z' }),
+      media(3, { dateImported: '2022-05-01T00:00:00Z' })
+    ];
+    expect(ids(selectMedia(items, 'max', 'oldestImport'))).toEqual([2, 3, 1]);
+  });
+});
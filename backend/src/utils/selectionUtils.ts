@@ -0,0 +1,83 @@
+import { SelectionStrategy } from '@scoutarr/shared';
+import { FilterableMedia } from './filterUtils.js';
+import { extractFileInfo, type MediaWithFiles } from './mediaFileUtils.js';
+
+/**
+ * Extra data needed by strategies that look beyond the media item itself
+ */
+export interface SelectionContext {
+  cutoffScores?: Map<number, number>; // Quality profile ID -> cutoffFormatScore
+}
+
+/**
+ * Returns a shuffled copy using Fisher-Yates (unbiased, unlike sort-based shuffles)
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Sort key for a strategy - lower keys are selected first, undefined keys go last
+ */
+function getSortKey(strategy: SelectionStrategy, media: FilterableMedia, context: SelectionContext): number | undefined {
+  // Cached media carries flat fields; API media carries nested file objects
+  const fileInfo = extractFileInfo(media as unknown as MediaWithFiles);
+  const score = media.customFormatScore ?? fileInfo.customFormatScore;
+
+  switch (strategy) {
+    case 'oldestSearched':
+      // Never-searched items come before everything else
+      return parseDate(media.lastSearchTime) ?? Number.NEGATIVE_INFINITY;
+    case 'lowestScore':
+      return score;
+    case 'largestCutoffGap': {
+      const cutoff = media.qualityProfileId !== undefined
+        ? context.cutoffScores?.get(media.qualityProfileId)
+        : undefined;
+      if (cutoff === undefined || score === undefined) return undefined;
+      return -(cutoff - score);
+    }
+    case 'oldestImport':
+      return parseDate(media.dateImported ?? fileInfo.dateImported);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Selects up to count items according to the strategy
+ * Items are shuffled before sorting so ties are broken randomly
+ */
+export function selectMedia<T extends FilterableMedia>(
+  items: T[],
+  count: number | 'max',
+  strategy: SelectionStrategy = 'random',
+  context: SelectionContext = {}
+): T[] {
+  if (items.length === 0) return items;
+
+  const shuffled = shuffle(items);
+  const limit = count === 'max' ? shuffled.length : count;
+  if (strategy === 'random') return shuffled.slice(0, limit);
+
+  return shuffled
+    .map(item => ({ item, key: getSortKey(strategy, item, context) }))
+    .sort((a, b) => {
+      if (a.key === undefined) return b.key === undefined ? 0 : 1;
+      if (b.key === undefined) return -1;
+      return a.key - b.key;
+    })
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
@@ -1,8 +1,10 @@
-import { radarrService, RadarrMovie } from '../services/radarrService.js';
-import { sonarrService, SonarrEpisode } from '../services/sonarrService.js';
-import { lidarrService, LidarrArtist } from '../services/lidarrService.js';
-import { readarrService, ReadarrAuthor } from '../services/readarrService.js';
-import { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance } from '@scoutarr/shared';
+import { BaseStarrService } from '../services/baseStarrService.js';
+import { radarrService } from '../services/radarrService.js';
+import { sonarrService } from '../services/sonarrService.js';
+import { lidarrService } from '../services/lidarrService.js';
+import { readarrService } from '../services/readarrService.js';
+import { whisparrService } from '../services/whisparrService.js';
+import { BaseStarrInstance, FilterBreakdown, SearchItemOutcome } from '@scoutarr/shared';
 import { AppType } from './starrUtils.js';
 import { FilterableMedia } from './filterUtils.js';
 
@@ -11,10 +13,16 @@ import { FilterableMedia } from './filterUtils.js';
  */
 export interface ServiceMethods<TConfig, TMedia extends FilterableMedia> {
   getMedia: (config: TConfig) => Promise<TMedia[]>;
-  filterMedia: (config: TConfig, media: TMedia[]) => Promise<TMedia[]>;
-  searchMedia: (config: TConfig, mediaIds: number[]) => Promise<void>;
+  supportsIncrementalSync: () => boolean;
+  getMediaSince: (config: TConfig, since: Date, cached: TMedia[]) => Promise<TMedia[]>;
+  getMediaForTarget: (config: TConfig, targetId: number) => Promise<TMedia[]>;
+  filterMedia: (config: TConfig, media: TMedia[], breakdown?: FilterBreakdown) => Promise<TMedia[]>;
+  getStatusFilterValue: (config: TConfig) => string | undefined;
+  searchMedia: (config: TConfig, mediaIds: number[]) => Promise<number[]>;
   getMediaId: (media: TMedia) => number;
   getMediaTitle: (media: TMedia) => string;
+  getTagTargetId: (media: TMedia) => number;
+  getExternalId: (media: TMedia) => string | undefined;
   getTagId: (config: TConfig, tagName: string) => Promise<number | null>;
   getAllTags: (config: TConfig) => Promise<Array<{ id: number; label: string }>>;
   getQualityProfiles: (config: TConfig) => Promise<Array<{ id: number; name: string }>>;
@@ -23,92 +31,60 @@ export interface ServiceMethods<TConfig, TMedia extends FilterableMedia> {
   convertTagIdsToNames: (config: TConfig, tagIds: number[]) => Promise<string[]>;
   getLiveTagsForIds: (config: TConfig, ids: number[]) => Promise<Map<number, string[]>>;
   getLiveStatusForIds: (config: TConfig, ids: number[]) => Promise<Map<number, string>>;
+  getLiveQualityProfileIdsForIds: (config: TConfig, ids: number[]) => Promise<Map<number, number | undefined>>;
+  getSearchUnitKey: (config: TConfig, media: TMedia) => string;
+  getSearchUnitLabel: (config: TConfig, media: TMedia) => string | undefined;
+  tagsSearchedMedia: (config: TConfig) => boolean;
+  searchSelected: (config: TConfig, media: TMedia[]) => Promise<number[]>;
+  getSearchOutcomes: (config: TConfig, media: TMedia[], commandIds: number[], since: Date) => Promise<SearchItemOutcome[]>;
+}
+
+/**
+ * Binds a service's public methods into a ServiceMethods object
+ * Every app type is served by a BaseStarrService subclass, so registering an app is a single entry below
+ */
+function registerService<TConfig extends BaseStarrInstance, TMedia extends FilterableMedia>(
+  service: BaseStarrService<TConfig, TMedia>
+): ServiceMethods<TConfig, TMedia> {
+  return {
+    getMedia: (config) => service.getMedia(config),
+    supportsIncrementalSync: () => service.supportsIncrementalSync(),
+    getMediaSince: (config, since, cached) => service.getMediaSince(config, since, cached),
+    getMediaForTarget: (config, targetId) => service.getMediaForTarget(config, targetId),
+    filterMedia: (config, media, breakdown) => service.filterMedia(config, media, breakdown),
+    getStatusFilterValue: (config) => service.getStatusFilterValue(config),
+    searchMedia: (config, mediaIds) => service.searchMedia(config, mediaIds),
+    getMediaId: (m) => service.getMediaId(m),
+    getMediaTitle: (m) => service.getMediaTitle(m),
+    getTagTargetId: (m) => service.getTagTargetId(m),
+    getExternalId: (m) => service.getExternalId(m),
+    getTagId: (config, tagName) => service.getTagId(config, tagName),
+    getAllTags: (config) => service.getAllTags(config),
+    getQualityProfiles: (config) => service.getQualityProfiles(config),
+    addTag: (config, mediaIds, tagId) => service.addTag(config, mediaIds, tagId),
+    removeTag: (config, mediaIds, tagId) => service.removeTag(config, mediaIds, tagId),
+    convertTagIdsToNames: (config, tagIds) => service.convertTagIdsToNames(config, tagIds),
+    getLiveTagsForIds: (config, ids) => service.getLiveTagsForIds(config, ids),
+    getLiveStatusForIds: (config, ids) => service.getLiveStatusForIds(config, ids),
+    getLiveQualityProfileIdsForIds: (config, ids) => service.getLiveQualityProfileIdsForIds(config, ids),
+    getSearchUnitKey: (config, m) => service.getSearchUnitKey(config, m),
+    getSearchUnitLabel: (config, m) => service.getSearchUnitLabel(config, m),
+    tagsSearchedMedia: (config) => service.tagsSearchedMedia(config),
+    searchSelected: (config, media) => service.searchSelected(config, media),
+    getSearchOutcomes: (config, media, commandIds, since) => service.getSearchOutcomes(config, media, commandIds, since)
+  };
 }
 
 /**
  * Service registry - single source of truth for service-to-app-type mapping
+ * Static app metadata (API version, media type, status values) lives in APP_DEFINITIONS in @scoutarr/shared
  */
 export const serviceRegistry: Record<AppType, ServiceMethods<any, any>> = {
-  radarr: {
-    getMedia: (config: RadarrInstance) => radarrService.getMedia(config),
-    filterMedia: (config: RadarrInstance, media: RadarrMovie[]) => radarrService.filterMedia(config, media),
-    searchMedia: (config: RadarrInstance, mediaIds: number[]) => radarrService.searchMedia(config, mediaIds),
-    getMediaId: (m: RadarrMovie) => radarrService.getMediaId(m),
-    getMediaTitle: (m: RadarrMovie) => radarrService.getMediaTitle(m),
-    getTagId: (config: RadarrInstance, tagName: string) => radarrService.getTagId(config, tagName),
-    getAllTags: (config: RadarrInstance) => radarrService.getAllTags(config),
-    getQualityProfiles: (config: RadarrInstance) => radarrService.getQualityProfiles(config),
-    addTag: (config: RadarrInstance, mediaIds: number[], tagId: number) =>
-      radarrService.addTag(config, mediaIds, tagId),
-    removeTag: (config: RadarrInstance, mediaIds: number[], tagId: number) =>
-      radarrService.removeTag(config, mediaIds, tagId),
-    convertTagIdsToNames: (config: RadarrInstance, tagIds: number[]) =>
-      radarrService.convertTagIdsToNames(config, tagIds),
-    getLiveTagsForIds: (config: RadarrInstance, ids: number[]) =>
-      radarrService.getLiveTagsForIds(config, ids),
-    getLiveStatusForIds: (config: RadarrInstance, ids: number[]) =>
-      radarrService.getLiveStatusForIds(config, ids)
-  },
-  sonarr: {
-    getMedia: (config: SonarrInstance) => sonarrService.getMedia(config),
-    filterMedia: (config: SonarrInstance, media: SonarrEpisode[]) => sonarrService.filterMedia(config, media),
-    searchMedia: (config: SonarrInstance, mediaIds: number[]) => sonarrService.searchMedia(config, mediaIds),
-    getMediaId: (e: SonarrEpisode) => sonarrService.getMediaId(e),
-    getMediaTitle: (e: SonarrEpisode) => sonarrService.getMediaTitle(e),
-    getTagId: (config: SonarrInstance, tagName: string) => sonarrService.getTagId(config, tagName),
-    getAllTags: (config: SonarrInstance) => sonarrService.getAllTags(config),
-    getQualityProfiles: (config: SonarrInstance) => sonarrService.getQualityProfiles(config),
-    addTag: (config: SonarrInstance, mediaIds: number[], tagId: number) =>
-      sonarrService.addTag(config, mediaIds, tagId),
-    removeTag: (config: SonarrInstance, mediaIds: number[], tagId: number) =>
-      sonarrService.removeTag(config, mediaIds, tagId),
-    convertTagIdsToNames: (config: SonarrInstance, tagIds: number[]) =>
-      sonarrService.convertTagIdsToNames(config, tagIds),
-    getLiveTagsForIds: (config: SonarrInstance, ids: number[]) =>
-      sonarrService.getLiveTagsForIds(config, ids),
-    getLiveStatusForIds: (config: SonarrInstance, ids: number[]) =>
-      sonarrService.getLiveStatusForIds(config, ids)
-  },
-  lidarr: {
-    getMedia: (config: LidarrInstance) => lidarrService.getMedia(config),
-    filterMedia: (config: LidarrInstance, media: LidarrArtist[]) => lidarrService.filterMedia(config, media),
-    searchMedia: (config: LidarrInstance, mediaIds: number[]) => lidarrService.searchMedia(config, mediaIds),
-    getMediaId: (a: LidarrArtist) => lidarrService.getMediaId(a),
-    getMediaTitle: (a: LidarrArtist) => lidarrService.getMediaTitle(a),
-    getTagId: (config: LidarrInstance, tagName: string) => lidarrService.getTagId(config, tagName),
-    getAllTags: (config: LidarrInstance) => lidarrService.getAllTags(config),
-    getQualityProfiles: (config: LidarrInstance) => lidarrService.getQualityProfiles(config),
-    addTag: (config: LidarrInstance, mediaIds: number[], tagId: number) =>
-      lidarrService.addTag(config, mediaIds, tagId),
-    removeTag: (config: LidarrInstance, mediaIds: number[], tagId: number) =>
-      lidarrService.removeTag(config, mediaIds, tagId),
-    convertTagIdsToNames: (config: LidarrInstance, tagIds: number[]) =>
-      lidarrService.convertTagIdsToNames(config, tagIds),
-    getLiveTagsForIds: (config: LidarrInstance, ids: number[]) =>
-      lidarrService.getLiveTagsForIds(config, ids),
-    getLiveStatusForIds: (config: LidarrInstance, ids: number[]) =>
-      lidarrService.getLiveStatusForIds(config, ids)
-  },
-  readarr: {
-    getMedia: (config: ReadarrInstance) => readarrService.getMedia(config),
-    filterMedia: (config: ReadarrInstance, media: ReadarrAuthor[]) => readarrService.filterMedia(config, media),
-    searchMedia: (config: ReadarrInstance, mediaIds: number[]) => readarrService.searchMedia(config, mediaIds),
-    getMediaId: (a: ReadarrAuthor) => readarrService.getMediaId(a),
-    getMediaTitle: (a: ReadarrAuthor) => readarrService.getMediaTitle(a),
-    getTagId: (config: ReadarrInstance, tagName: string) => readarrService.getTagId(config, tagName),
-    getAllTags: (config: ReadarrInstance) => readarrService.getAllTags(config),
-    getQualityProfiles: (config: ReadarrInstance) => readarrService.getQualityProfiles(config),
-    addTag: (config: ReadarrInstance, mediaIds: number[], tagId: number) =>
-      readarrService.addTag(config, mediaIds, tagId),
-    removeTag: (config: ReadarrInstance, mediaIds: number[], tagId: number) =>
-      readarrService.removeTag(config, mediaIds, tagId),
-    convertTagIdsToNames: (config: ReadarrInstance, tagIds: number[]) =>
-      readarrService.convertTagIdsToNames(config, tagIds),
-    getLiveTagsForIds: (config: ReadarrInstance, ids: number[]) =>
-      readarrService.getLiveTagsForIds(config, ids),
-    getLiveStatusForIds: (config: ReadarrInstance, ids: number[]) =>
-      readarrService.getLiveStatusForIds(config, ids)
-  }
+  radarr: registerService(radarrService),
+  sonarr: registerService(sonarrService),
+  lidarr: registerService(lidarrService),
+  readarr: registerService(readarrService),
+  whisparr: registerService(whisparrService)
 };
 
 /**
@@ -2,7 +2,8 @@ import axios, { AxiosInstance } from 'axios';
 import { capitalize } from 'es-toolkit';
 import logger from './logger.js';
 import { getErrorMessage } from './errorUtils.js';
-import { APP_TYPES, AppType } from '@scoutarr/shared';
+import { applyHttpPolicy, HttpPolicyOptions } from './httpPolicy.js';
+import { APP_TYPES, APP_DEFINITIONS, AppType, SearchItemOutcome } from '@scoutarr/shared';
 
 // Re-export for backward compatibility
 export { APP_TYPES };
@@ -13,16 +14,9 @@ export type { AppType };
  * Examples: 'radarr' -> 'movies', 'lidarr' -> 'artists', 'readarr' -> 'authors', 'sonarr' -> 'series'
  */
 export function getMediaTypeKey(appType: AppType): string {
-  switch (appType) {
-    case 'radarr': return 'movies';
-    case 'lidarr': return 'artists';
-    case 'readarr': return 'authors';
-    case 'sonarr':
-    default: return 'series';
-  }
+  return APP_DEFINITIONS[appType]?.mediaTypeKey ?? 'series';
 }
 
-
 // Helper to get configured instances for an app (filters out disabled or incomplete configs)
 export function getConfiguredInstances<T extends { url: string; apiKey: string; enabled?: boolean }>(
   appConfigs: T[] | undefined
@@ -34,16 +28,16 @@ export function getConfiguredInstances<T extends { url: string; apiKey: string;
 }
 
 /**
- * Creates an axios client for Starr API calls
+ * Creates an axios client for Starr API calls, with the shared timeout, retry and circuit breaker policy
  */
-export function createStarrClient(url: string, apiKey: string): AxiosInstance {
-  return axios.create({
+export function createStarrClient(url: string, apiKey: string, options?: HttpPolicyOptions): AxiosInstance {
+  return applyHttpPolicy(axios.create({
     baseURL: url,
     headers: {
       'X-Api-Key': apiKey,
       'Content-Type': 'application/json'
     }
-  });
+  }), options);
 }
 
 /**
@@ -51,11 +45,11 @@ export function createStarrClient(url: string, apiKey: string): AxiosInstance {
  * Handles all media type keys (movies, series, artists, authors)
  */
 export function extractItemsFromResult(result: {
-  movies?: Array<{ id: number; title: string }>;
-  series?: Array<{ id: number; title: string }>;
-  artists?: Array<{ id: number; title: string }>;
-  authors?: Array<{ id: number; title: string }>;
-}): Array<{ id: number; title: string }> {
+  movies?: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>;
+  series?: Array<{ id: number; title: string; unit?: string; outcome?: SearchItemOutcome }>;
+  artists?: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>;
+  authors?: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>;
+}): Array<{ id: number; title: string; unit?: string; outcome?: SearchItemOutcome }> {
   return result.movies || result.series || result.artists || result.authors || [];
 }
 
@@ -66,12 +60,15 @@ export function extractItemsFromResult(result: {
 export async function testStarrConnection(
   url: string, 
   apiKey: string, 
-  expectedApp: string
+  expectedApp: string,
+  apiVersionOverride?: 'v1' | 'v3'
 ): Promise<{ success: boolean; version?: string; appName?: string; error?: string }> {
   logger.info(`🔌 [${expectedApp}] Testing connection`, { url });
   try {
-    const client = createStarrClient(url, apiKey);
-    const apiVersion = expectedApp.toLowerCase().includes('lidarr') || expectedApp.toLowerCase().includes('readarr') ? 'v1' : 'v3';
+    // A connection test should answer quickly, so it is not retried
+    const client = createStarrClient(url, apiKey, { retries: 0 });
+    // Apps outside APP_DEFINITIONS (e.g. Prowlarr) pass their API version explicitly
+    const apiVersion = apiVersionOverride ?? APP_DEFINITIONS[expectedApp.toLowerCase() as AppType]?.apiVersion ?? 'v3';
     
     const response = await client.get<{
       appName?: string;
@@ -130,16 +127,15 @@ export async function testStarrConnection(
 
 /**
  * Gets or creates a tag ID
- * Lidarr and Readarr use v1 API, Radarr and Sonarr use v3
+ * apiVersion comes from the app's definition (v1 for Lidarr and Readarr, v3 for the rest)
  */
 export async function getOrCreateTagId(
   client: AxiosInstance,
   tagName: string,
-  appName: string
+  appName: string,
+  apiVersion: 'v1' | 'v3'
 ): Promise<number | null> {
   try {
-    const apiVersion = appName.toLowerCase().includes('lidarr') || appName.toLowerCase().includes('readarr') ? 'v1' : 'v3';
-    
     const tagsResponse = await client.get<Array<{ id: number; label: string }>>(`/api/${apiVersion}/tag`);
     const allTags = tagsResponse.data;
     
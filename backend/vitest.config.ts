@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Service logs only show for failures unless LOG_LEVEL asks for more
+    env: { LOG_LEVEL: process.env.LOG_LEVEL || 'error' }
+  }
+});
@@ -1,16 +1,30 @@
 import { BrowserRouter as Router, Routes, Route, Link, useSearchParams, useLocation } from 'react-router-dom';
-import React, { lazy, Suspense } from 'react';
+import React, { lazy, Suspense, useEffect } from 'react';
 import { Flex, Heading, Button, Separator, Box, Spinner, Text, IconButton, Tooltip } from '@radix-ui/themes';
-import { GearIcon, HomeIcon, Pencil1Icon, GitHubLogoIcon } from '@radix-ui/react-icons';
+import { GearIcon, HomeIcon, Pencil1Icon, GitHubLogoIcon, ExitIcon } from '@radix-ui/react-icons';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { NavigationProvider, useNavigation } from './contexts/NavigationContext';
+import { EnvLockProvider } from './contexts/EnvLockContext';
 import { ThemeToggle } from './components/ThemeToggle';
+import { authService } from './services/authService';
+import { onUnauthorized } from './services/apiClient';
+import type { AuthStatus } from './types/api';
 
 const Dashboard = lazy(() => import('./pages/Dashboard'));
 const MediaLibrary = lazy(() => import('./pages/MediaLibrary'));
 const Settings = lazy(() => import('./pages/Settings'));
 const CfScoreHistory = lazy(() => import('./pages/CfScoreHistory'));
+const Login = lazy(() => import('./pages/Login'));
 
-function NavigationLinks() {
+const loadingFallback = (
+  <Flex align="center" justify="center" gap="2" style={{ padding: '2rem' }}>
+    <Spinner size="2" />
+    <Text size="2" color="gray">Loading...</Text>
+  </Flex>
+);
+
+function NavigationLinks({ authStatus }: { authStatus?: AuthStatus }) {
+  const queryClient = useQueryClient();
   const { handleNavigation } = useNavigation();
   const [searchParams, setSearchParams] = useSearchParams();
   const location = useLocation();
@@ -33,6 +47,12 @@ function NavigationLinks() {
     });
   };
 
+  const logout = async () => {
+    await authService.logout();
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== 'auth-status' });
+    await queryClient.invalidateQueries({ queryKey: ['auth-status'] });
+  };
+
   return (
     <>
       <Link
@@ -74,34 +94,35 @@ function NavigationLinks() {
           </IconButton>
         </Tooltip>
         <ThemeToggle />
+        {/* Forward auth and API key sign-ins end at the proxy or client, not here */}
+        {authStatus?.method === 'session' && (
+          <Tooltip content={`Sign out ${authStatus.username ?? ''}`.trim()}>
+            <IconButton variant="ghost" size="2" onClick={logout}>
+              <ExitIcon />
+            </IconButton>
+          </Tooltip>
+        )}
       </Flex>
     </>
   );
 }
 
-function AppContent() {
+function AppContent({ authStatus }: { authStatus?: AuthStatus }) {
   return (
     <Flex direction="column" minHeight="100vh" align="center">
       <Box maxWidth="1200px" width="100%" pt="4" px="4">
         <Flex align="center" justify="between" mb="2">
-          <NavigationLinks />
+          <NavigationLinks authStatus={authStatus} />
         </Flex>
         <Separator size="4" mb="0" />
       </Box>
 
       <Box maxWidth="1200px" width="100%" p="4" mx="auto">
-        <Suspense
-          fallback={(
-            <Flex align="center" justify="center" gap="2" style={{ padding: '2rem' }}>
-              <Spinner size="2" />
-              <Text size="2" color="gray">Loading...</Text>
-            </Flex>
-          )}
-        >
+        <Suspense fallback={loadingFallback}>
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/library" element={<MediaLibrary />} />
-            <Route path="/settings" element={<Settings />} />
+            <Route path="/settings" element={<EnvLockProvider><Settings /></EnvLockProvider>} />
             <Route path="/cf-history/:appType/:instanceId/:mediaId" element={<CfScoreHistory />} />
           </Routes>
         </Suspense>
@@ -111,10 +132,33 @@ function AppContent() {
 }
 
 function App() {
+  const queryClient = useQueryClient();
+  const { data: authStatus, isLoading } = useQuery<AuthStatus>({
+    queryKey: ['auth-status'],
+    queryFn: () => authService.getStatus(),
+  });
+
+  // An expired or revoked session shows the login page again
+  useEffect(() => onUnauthorized(() => {
+    queryClient.invalidateQueries({ queryKey: ['auth-status'] });
+  }), [queryClient]);
+
+  if (isLoading) {
+    return loadingFallback;
+  }
+
+  if (authStatus?.enabled && !authStatus.authenticated) {
+    return (
+      <Suspense fallback={loadingFallback}>
+        <Login setupRequired={authStatus.setupRequired} />
+      </Suspense>
+    );
+  }
+
   return (
     <Router>
       <NavigationProvider>
-        <AppContent />
+        <AppContent authStatus={authStatus} />
       </NavigationProvider>
     </Router>
   );
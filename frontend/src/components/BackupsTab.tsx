@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Flex, Heading, Card, Text, Tooltip, Button, TextField, Separator, Spinner, Table, Badge, Dialog, Box } from '@radix-ui/themes';
+import { QuestionMarkCircledIcon } from '@radix-ui/react-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { Config } from '../types/config';
+import type { ConfigBackup, ConfigDiffEntry } from '../types/api';
+import { configService } from '../services/configService';
+import { showSuccessToast } from '../utils/toast';
+import { ConfirmDialog } from './ConfirmDialog';
+import { useEnvLock } from '../contexts/EnvLockContext';
+import { EnvLockIndicator } from './EnvLockIndicator';
+import { ExportImportCard } from './ExportImportCard';
+
+interface BackupsTabProps {
+  config: Config;
+  onConfigChange: (config: Config) => void;
+}
+
+const REASON_LABELS: Record<ConfigBackup['reason'], string> = {
+  save: 'Before save',
+  reset: 'Before reset',
+  migration: 'Before upgrade',
+  restore: 'Before restore',
+  import: 'Before import',
+};
+
+function formatDiffValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value || '""' : JSON.stringify(value);
+}
+
+type BackupDiffDialogProps = {
+  backup: ConfigBackup | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+function BackupDiffDialog({ backup, onOpenChange }: BackupDiffDialogProps) {
+  const { data: diff, isLoading } = useQuery<ConfigDiffEntry[]>({
+    queryKey: ['config', 'backups', backup?.id, 'diff'],
+    queryFn: () => configService.getBackupDiff(backup!.id),
+    enabled: !!backup,
+  });
+
+  return (
+    <Dialog.Root open={!!backup} onOpenChange={onOpenChange}>
+      <Dialog.Content maxWidth="720px">
+        <Dialog.Title>Changes Since Backup</Dialog.Title>
+        <Dialog.Description size="2" mb="3" color="gray">
+          {backup && `Fields that differ between the backup from ${format(new Date(backup.createdAt), 'PPp')} and the current config. `}
+          Secrets are masked.
+        </Dialog.Description>
+
+        {isLoading && (
+          <Flex justify="center" p="4">
+            <Spinner size="3" />
+          </Flex>
+        )}
+
+        {diff && diff.length === 0 && (
+          <Text size="2" color="gray">The backup matches the current config.</Text>
+        )}
+
+        {diff && diff.length > 0 && (
+          <Box style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+            <Table.Root variant="surface" size="1">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeaderCell>Field</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Backup</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Current</Table.ColumnHeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {diff.map(entry => (
+                  <Table.Row key={entry.path}>
+                    <Table.Cell><Text size="1" style={{ fontFamily: 'monospace' }}>{entry.path}</Text></Table.Cell>
+                    <Table.Cell><Text size="1" color="red" style={{ wordBreak: 'break-all' }}>{formatDiffValue(entry.backup)}</Text></Table.Cell>
+                    <Table.Cell><Text size="1" color="green" style={{ wordBreak: 'break-all' }}>{formatDiffValue(entry.current)}</Text></Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table.Root>
+          </Box>
+        )}
+
+        <Flex mt="4" justify="end">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">Close</Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
+
+export function BackupsTab({ config, onConfigChange }: BackupsTabProps) {
+  const { isEnvLocked } = useEnvLock();
+  const queryClient = useQueryClient();
+  const [comparing, setComparing] = useState<ConfigBackup | null>(null);
+  const [restoring, setRestoring] = useState<ConfigBackup | null>(null);
+
+  const { data: backups, isLoading } = useQuery<ConfigBackup[]>({
+    queryKey: ['config', 'backups'],
+    queryFn: () => configService.getBackups(),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: string) => configService.restoreBackup(id),
+    onSuccess: () => {
+      setRestoring(null);
+      showSuccessToast('Configuration restored from backup');
+      // Reloads the config itself along with the backup list, which now holds the config that was replaced
+      queryClient.invalidateQueries({ queryKey: ['config'] });
+    },
+  });
+
+  return (
+    <Flex direction="column" gap="3">
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Heading size="4">Config Backups</Heading>
+          <Text size="2" color="gray">
+            A copy of config.json is kept in the backups folder of the config directory before every change,
+            including upgrades that migrate the config to a new version. Restoring a backup backs up the current config first.
+          </Text>
+          <Separator size="4" />
+
+          <Flex direction="column" gap="1" style={{ maxWidth: '240px' }}>
+            <Flex align="center" gap="1">
+              <Text size="2" weight="medium">Backups to Keep</Text>
+              <Tooltip content="The oldest backups are deleted once there are more than this">
+                <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+              </Tooltip>
+              <EnvLockIndicator path="backups.retention" />
+            </Flex>
+            <TextField.Root
+              disabled={isEnvLocked('backups.retention')}
+              type="number"
+              min="1"
+              max="100"
+              value={config.backups.retention.toString()}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                const value = parseInt(e.target.value);
+                if (!isNaN(value)) {
+                  onConfigChange({
+                    ...config,
+                    backups: {
+                      ...config.backups,
+                      retention: Math.min(100, Math.max(1, value))
+                    }
+                  });
+                }
+              }}
+            />
+          </Flex>
+        </Flex>
+      </Card>
+
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          {isLoading && (
+            <Flex justify="center" p="4">
+              <Spinner size="3" />
+            </Flex>
+          )}
+
+          {backups && backups.length === 0 && (
+            <Text size="2" color="gray">No backups yet. One is made the next time the config changes.</Text>
+          )}
+
+          {backups && backups.length > 0 && (
+            <Table.Root variant="surface">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeaderCell>Created</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Reason</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell>Version</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Actions</Table.ColumnHeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {backups.map(backup => (
+                  <Table.Row key={backup.id}>
+                    <Table.Cell>
+                      <Text size="2">{format(new Date(backup.createdAt), 'PPp')}</Text>
+                    </Table.Cell>
+                    <Table.Cell>
+                      <Badge size="1" variant="soft" color={backup.reason === 'save' ? 'gray' : 'blue'}>
+                        {REASON_LABELS[backup.reason]}
+                      </Badge>
+                    </Table.Cell>
+                    <Table.Cell>
+                      {backup.version === null ? (
+                        <Badge size="1" variant="soft" color="red">Unreadable</Badge>
+                      ) : (
+                        <Text size="2">{backup.version}</Text>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell>
+                      <Flex gap="2" justify="end">
+                        <Button size="1" variant="outline" disabled={backup.version === null} onClick={() => setComparing(backup)}>
+                          Compare
+                        </Button>
+                        <Button size="1" variant="outline" color="red" disabled={backup.version === null} onClick={() => setRestoring(backup)}>
+                          Restore
+                        </Button>
+                      </Flex>
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table.Root>
+          )}
+        </Flex>
+      </Card>
+
+      <ExportImportCard />
+
+      <BackupDiffDialog backup={comparing} onOpenChange={open => !open && setComparing(null)} />
+      <ConfirmDialog
+        open={!!restoring}
+        onOpenChange={open => !open && setRestoring(null)}
+        title="Restore Backup?"
+        description={restoring
+          ? `The config is replaced with the backup from ${format(new Date(restoring.createdAt), 'PPp')}, discarding unsaved changes. Fields set by environment variables keep their values.`
+          : ''}
+        confirmLabel="Restore"
+        onConfirm={() => restoring && restoreMutation.mutate(restoring.id)}
+        isPending={restoreMutation.isPending}
+      />
+    </Flex>
+  );
+}
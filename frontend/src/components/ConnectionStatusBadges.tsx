@@ -9,11 +9,11 @@ interface ConnectionStatusBadgesProps {
 
 export function ConnectionStatusBadges({ connectionStatus }: ConnectionStatusBadgesProps) {
   // Group status entries by app type
-  const groupedStatus: Record<string, { connected: number; total: number; configured: boolean }> = {};
+  const groupedStatus: Record<string, { connected: number; degraded: number; total: number; configured: boolean }> = {};
 
   // Initialize all app types
   APP_TYPES.forEach(appType => {
-    groupedStatus[appType] = { connected: 0, total: 0, configured: true };
+    groupedStatus[appType] = { connected: 0, degraded: 0, total: 0, configured: true };
   });
 
   // Process connection status entries
@@ -38,6 +38,9 @@ export function ConnectionStatusBadges({ connectionStatus }: ConnectionStatusBad
       if (statusObj.connected) {
         groupedStatus[appType].connected++;
       }
+      if (statusObj.degraded) {
+        groupedStatus[appType].degraded++;
+      }
       groupedStatus[appType].configured = true; // Has at least one instance configured
     }
   });
@@ -49,11 +52,15 @@ export function ConnectionStatusBadges({ connectionStatus }: ConnectionStatusBad
         const stats = groupedStatus[appType];
         const appName = capitalize(appType);
         let statusMessage = '';
-        let badgeColor: 'green' | 'gray' | 'red' = 'red';
+        let badgeColor: 'green' | 'gray' | 'red' | 'orange' = 'red';
 
         if (!stats.configured) {
           statusMessage = 'Not Configured';
           badgeColor = 'gray';
+        } else if (stats.degraded > 0) {
+          // Degraded instances are skipped by searches and syncs until their cooldown ends
+          statusMessage = `${stats.degraded} Instance${stats.degraded === 1 ? '' : 's'} degraded`;
+          badgeColor = 'orange';
         } else if (stats.connected > 0) {
           statusMessage = `${stats.connected} Instance${stats.connected === 1 ? '' : 's'} connected`;
           badgeColor = 'green';
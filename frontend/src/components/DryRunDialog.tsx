@@ -0,0 +1,117 @@
+import { Dialog, Flex, Text, Badge, Box, Button, Spinner, Separator } from '@radix-ui/themes';
+import { AppIcon } from './icons/AppIcon';
+import { formatSearchItemTitle } from '../utils/helpers';
+import type { SearchResults, FilterBreakdown } from '../types/api';
+
+const FILTER_LABELS: Record<string, string> = {
+  monitored: 'Not monitored',
+  tagName: 'Already tagged',
+  searchedUnit: 'Searched this cycle',
+  qualityProfile: 'Other quality profile',
+  includeTags: 'Missing include tags',
+  excludeTags: 'Excluded tag',
+  missingOnly: 'Has file (missing only)',
+  cutoffUnmetOnly: 'Cutoff met',
+  importAge: 'Recently imported',
+  addedAge: 'Recently added',
+  searchCooldown: 'Recently searched',
+  status: 'Status',
+};
+
+type DryRunDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  results: SearchResults | null;
+  isPending: boolean;
+};
+
+function BreakdownList({ breakdown }: { breakdown?: FilterBreakdown }) {
+  const entries = Object.entries(breakdown || {}).filter(([, removed]) => removed > 0);
+  if (entries.length === 0) {
+    return <Text size="1" color="gray">No items removed by filters</Text>;
+  }
+
+  return (
+    <Flex gap="1" wrap="wrap">
+      {entries.map(([filter, removed]) => (
+        <Badge key={filter} size="1" color="gray" variant="soft">
+          {FILTER_LABELS[filter] || filter}: −{removed}
+        </Badge>
+      ))}
+    </Flex>
+  );
+}
+
+export function DryRunDialog({ open, onOpenChange, results, isPending }: DryRunDialogProps) {
+  const entries = Object.entries(results || {});
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Content maxWidth="560px">
+        <Dialog.Title>Upgrade Search Preview</Dialog.Title>
+        <Dialog.Description size="2" mb="3" color="gray">
+          What the next upgrade search would select. Nothing is searched, tagged or recorded.
+        </Dialog.Description>
+
+        {isPending && (
+          <Flex justify="center" p="4">
+            <Spinner size="3" />
+          </Flex>
+        )}
+
+        {!isPending && entries.length === 0 && (
+          <Text size="2" color="gray">No enabled instances are configured.</Text>
+        )}
+
+        {!isPending && entries.length > 0 && (
+          <Box style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+            <Flex direction="column" gap="3">
+              {entries.map(([key, result], idx) => (
+                <Flex key={key} direction="column" gap="2">
+                  {idx > 0 && <Separator size="4" />}
+                  <Flex align="center" gap="2">
+                    <AppIcon app={key} size={16} variant="light" />
+                    <Text size="2" weight="bold">{result.instanceName || key}</Text>
+                    {!result.success && <Badge size="1" color="red">Failed</Badge>}
+                  </Flex>
+
+                  {result.error && <Text size="1" color="red">{result.error}</Text>}
+                  {result.skipReason && <Text size="1" color="orange">Would be skipped: {result.skipReason}</Text>}
+                  {result.limitReason && <Text size="1" color="orange">{result.limitReason}</Text>}
+
+                  {result.counts && (
+                    <Text size="2" color="gray">
+                      {result.counts.total} in library · {result.counts.filtered} eligible · {result.counts.selected} selected
+                    </Text>
+                  )}
+
+                  {!!result.unattendedReset && (
+                    <Text size="1" color="orange">
+                      Unattended mode would start a new cycle, making {result.unattendedReset} searched items eligible again
+                    </Text>
+                  )}
+
+                  <BreakdownList breakdown={result.filterBreakdown} />
+
+                  {result.items && result.items.length > 0 && (
+                    <Flex direction="column" gap="1" pl="2">
+                      {result.items.map(item => (
+                        <Text key={`${item.id}-${item.unit ?? ''}`} size="1">• {formatSearchItemTitle(item)}</Text>
+                      ))}
+                    </Flex>
+                  )}
+                </Flex>
+              ))}
+            </Flex>
+          </Box>
+        )}
+
+        <Flex mt="4" justify="end">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">Close</Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,21 @@
+import { Tooltip } from '@radix-ui/themes';
+import { LockClosedIcon } from '@radix-ui/react-icons';
+import { useEnvLock } from '../contexts/EnvLockContext';
+
+interface EnvLockIndicatorProps {
+  path: string;
+}
+
+/**
+ * Lock shown next to a setting's label when an environment variable sets it
+ */
+export function EnvLockIndicator({ path }: EnvLockIndicatorProps) {
+  const { isEnvLocked } = useEnvLock();
+  if (!isEnvLocked(path)) return null;
+
+  return (
+    <Tooltip content="Set by an environment variable and can't be changed here">
+      <LockClosedIcon style={{ color: 'var(--amber-9)', width: '14px', height: '14px' }} />
+    </Tooltip>
+  );
+}
@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import { Flex, Heading, Card, Text, Switch, Button, Separator, Spinner, SegmentedControl } from '@radix-ui/themes';
+import { DownloadIcon, UploadIcon } from '@radix-ui/react-icons';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { HistoryImportMode, ImportResult } from '../types/api';
+import { configService } from '../services/configService';
+import { showSuccessToast } from '../utils/toast';
+import { ConfirmDialog } from './ConfirmDialog';
+
+const IMPORT_DESCRIPTIONS: Record<HistoryImportMode, string> = {
+  merge: 'The config is replaced and the search history in the file is added to what is already here.',
+  replace: 'The config and the search history are both replaced by the file. Search history recorded here is deleted.',
+};
+
+function describeImport(result: ImportResult): string {
+  const added = `${result.history} searches, ${result.upgrades} upgrades and ${result.cfScoreHistory} CF scores`;
+  return result.secretsRedacted
+    ? `Imported ${added}. Secrets were redacted in the export; re-enter any that are now empty.`
+    : `Imported ${added}.`;
+}
+
+export function ExportImportCard() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [redactSecrets, setRedactSecrets] = useState(true);
+  const [importMode, setImportMode] = useState<HistoryImportMode>('merge');
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: () => configService.exportArchive(redactSecrets),
+    onSuccess: (archive) => {
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `scoutarr-export-${new Date().toISOString().slice(0, 10)}.json.gz`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => configService.importArchive(file, importMode),
+    onSuccess: (result) => {
+      setPendingFile(null);
+      showSuccessToast(describeImport(result));
+      queryClient.invalidateQueries({ queryKey: ['config'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+    onError: () => setPendingFile(null),
+  });
+
+  return (
+    <Card>
+      <Flex direction="column" gap="3" p="4">
+        <Heading size="4">Export &amp; Import</Heading>
+        <Text size="2" color="gray">
+          Moves Scoutarr to another host in one file: the config, search history, CF score history and instance metadata.
+          The media library isn't included; it's fetched again by the next sync.
+        </Text>
+        <Separator size="4" />
+
+        <Flex direction="column" gap="2">
+          <Text size="2" weight="medium">Export</Text>
+          <Flex align="center" gap="2">
+            <Switch checked={redactSecrets} onCheckedChange={setRedactSecrets} />
+            <Text size="2">Redact secrets</Text>
+          </Flex>
+          <Text size="1" color="gray">
+            Redacted API keys, webhook secrets and notification credentials have to be entered again after importing on another host.
+            env: and file: references are kept either way.
+          </Text>
+          <Flex>
+            <Button variant="outline" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+              {exportMutation.isPending ? <Spinner size="1" /> : <DownloadIcon />} Export
+            </Button>
+          </Flex>
+        </Flex>
+
+        <Separator size="4" />
+
+        <Flex direction="column" gap="2">
+          <Text size="2" weight="medium">Import</Text>
+          <Flex align="center" gap="2">
+            <Text size="2">Search history</Text>
+            <SegmentedControl.Root size="1" value={importMode} onValueChange={(value) => setImportMode(value as HistoryImportMode)}>
+              <SegmentedControl.Item value="merge">Merge</SegmentedControl.Item>
+              <SegmentedControl.Item value="replace">Replace</SegmentedControl.Item>
+            </SegmentedControl.Root>
+          </Flex>
+          <Text size="1" color="gray">{IMPORT_DESCRIPTIONS[importMode]} The current config is backed up first.</Text>
+          <Flex>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+              {importMutation.isPending ? <Spinner size="1" /> : <UploadIcon />} Import
+            </Button>
+          </Flex>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gz,.json"
+            style={{ display: 'none' }}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setPendingFile(e.target.files?.[0] ?? null);
+              // Lets the same file be picked again after cancelling
+              e.target.value = '';
+            }}
+          />
+          <ConfirmDialog
+            open={!!pendingFile}
+            onOpenChange={open => !open && setPendingFile(null)}
+            title="Import Export File?"
+            description={`${pendingFile?.name ?? ''}: ${IMPORT_DESCRIPTIONS[importMode]}`}
+            confirmLabel="Import"
+            onConfirm={() => pendingFile && importMutation.mutate(pendingFile)}
+            isPending={importMutation.isPending}
+          />
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
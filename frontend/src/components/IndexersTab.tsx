@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import { Flex, Heading, Card, Text, Switch, Tooltip, Button, TextField, Separator, Badge, Spinner } from '@radix-ui/themes';
+import { CheckIcon, CrossCircledIcon, QuestionMarkCircledIcon } from '@radix-ui/react-icons';
+import validator from 'validator';
+import type { Config } from '../types/config';
+import type { IndexerCheck } from '../types/api';
+import { configService } from '../services/configService';
+import { showErrorToast, showSuccessToast } from '../utils/toast';
+import { getErrorMessage } from '../utils/helpers';
+import { useEnvLock } from '../contexts/EnvLockContext';
+import { EnvLockIndicator } from './EnvLockIndicator';
+
+interface IndexersTabProps {
+  config: Config;
+  onConfigChange: (config: Config) => void;
+}
+
+type ProwlarrField = keyof Config['prowlarr'];
+type BudgetField = keyof Config['budget'];
+type DispatchField = keyof Config['dispatch'];
+
+export function IndexersTab({ config, onConfigChange }: IndexersTabProps) {
+  const { isEnvLocked } = useEnvLock();
+  const prowlarr = config.prowlarr;
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ success: boolean; version?: string; indexers?: IndexerCheck } | null>(null);
+
+  const updateProwlarrConfig = (field: ProwlarrField, value: string | number | boolean) => {
+    onConfigChange({
+      ...config,
+      prowlarr: {
+        ...prowlarr,
+        [field]: value
+      }
+    });
+  };
+
+  const updateBudgetConfig = (field: BudgetField, value: number) => {
+    onConfigChange({
+      ...config,
+      budget: {
+        ...config.budget,
+        [field]: value
+      }
+    });
+  };
+
+  const updateDispatchConfig = (field: DispatchField, value: number) => {
+    onConfigChange({
+      ...config,
+      dispatch: {
+        ...config.dispatch,
+        [field]: value
+      }
+    });
+  };
+
+  const testConnection = async () => {
+    if (!validator.isURL(prowlarr.url, { require_protocol: true, require_tld: false })) {
+      showErrorToast('Invalid URL format');
+      return;
+    }
+
+    setTesting(true);
+    try {
+      const result = await configService.testProwlarr(prowlarr.url, prowlarr.apiKey);
+      const success = result.success === true;
+      setTestResult({ success, version: result.version, indexers: result.indexers });
+      if (success) {
+        showSuccessToast(`Connection test successful${result.version ? ` (v${result.version})` : ''}`);
+      } else {
+        showErrorToast(`Connection test failed${result.message ? `: ${result.message}` : ''}`);
+      }
+    } catch (error: unknown) {
+      setTestResult({ success: false });
+      showErrorToast('Connection test failed: ' + getErrorMessage(error));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const indexers = testResult?.indexers;
+
+  return (
+    <Flex direction="column" gap="3">
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Heading size="4">Search Budget</Heading>
+          <Text size="2" color="gray">
+            Caps how many items all instances may search together within a rolling window, counted from search history.
+            Per-instance daily limits are set on each instance.
+          </Text>
+          <Separator size="4" />
+          <Flex gap="3" wrap="wrap">
+            <Flex direction="column" gap="1" style={{ flex: '1 1 200px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Max Searches</Text>
+                <Tooltip content="Most items searched across all instances within the window. Leave empty or 0 for no budget.">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="budget.maxSearches" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('budget.maxSearches')}
+                type="number"
+                min="0"
+                placeholder="No budget"
+                value={config.budget.maxSearches ? config.budget.maxSearches.toString() : ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const value = parseInt(e.target.value);
+                  updateBudgetConfig('maxSearches', !isNaN(value) && value > 0 ? value : 0);
+                }}
+              />
+            </Flex>
+            <Flex direction="column" gap="1" style={{ flex: '1 1 200px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Window (hours)</Text>
+                <EnvLockIndicator path="budget.windowHours" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('budget.windowHours')}
+                type="number"
+                min="1"
+                max="168"
+                value={config.budget.windowHours.toString()}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const value = parseInt(e.target.value);
+                  if (!isNaN(value)) {
+                    updateBudgetConfig('windowHours', Math.min(168, Math.max(1, value)));
+                  }
+                }}
+              />
+            </Flex>
+          </Flex>
+        </Flex>
+      </Card>
+
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Heading size="4">Search Dispatch</Heading>
+          <Text size="2" color="gray">
+            Paces the search commands sent to each instance so large runs don't flood its command queue, and sets how many instances are worked on at once.
+          </Text>
+          <Separator size="4" />
+          <Flex gap="3" wrap="wrap">
+            <Flex direction="column" gap="1" style={{ flex: '1 1 160px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Delay (seconds)</Text>
+                <Tooltip content="Minimum time between two search commands sent to the same instance">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="dispatch.commandDelaySeconds" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('dispatch.commandDelaySeconds')}
+                type="number"
+                min="0"
+                max="300"
+                value={config.dispatch.commandDelaySeconds.toString()}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const value = parseInt(e.target.value);
+                  updateDispatchConfig('commandDelaySeconds', !isNaN(value) ? Math.min(300, Math.max(0, value)) : 0);
+                }}
+              />
+            </Flex>
+            <Flex direction="column" gap="1" style={{ flex: '1 1 160px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Max Queued Searches</Text>
+                <Tooltip content="Wait before sending another search while the instance already has this many searches queued or running. 0 sends without checking.">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="dispatch.maxQueuedSearches" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('dispatch.maxQueuedSearches')}
+                type="number"
+                min="0"
+                max="100"
+                value={config.dispatch.maxQueuedSearches.toString()}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const value = parseInt(e.target.value);
+                  updateDispatchConfig('maxQueuedSearches', !isNaN(value) ? Math.min(100, Math.max(0, value)) : 0);
+                }}
+              />
+            </Flex>
+            <Flex direction="column" gap="1" style={{ flex: '1 1 160px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Batch Size</Text>
+                <Tooltip content="Most items sent in one batch search command, e.g. a Radarr movie search. Larger selections are split into several commands.">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="dispatch.batchSize" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('dispatch.batchSize')}
+                type="number"
+                min="1"
+                max="1000"
+                value={config.dispatch.batchSize.toString()}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const value = parseInt(e.target.value);
+                  if (!isNaN(value)) {
+                    updateDispatchConfig('batchSize', Math.min(1000, Math.max(1, value)));
+                  }
+                }}
+              />
+            </Flex>
+            <Flex direction="column" gap="1" style={{ flex: '1 1 160px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Instance Concurrency</Text>
+                <Tooltip content="How many instances search runs and media syncs work on at the same time">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="dispatch.instanceConcurrency" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('dispatch.instanceConcurrency')}
+                type="number"
+                min="1"
+                max="10"
+                value={config.dispatch.instanceConcurrency.toString()}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const value = parseInt(e.target.value);
+                  if (!isNaN(value)) {
+                    updateDispatchConfig('instanceConcurrency', Math.min(10, Math.max(1, value)));
+                  }
+                }}
+              />
+            </Flex>
+          </Flex>
+        </Flex>
+      </Card>
+
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Flex align="center" justify="between">
+            <Heading size="4">Prowlarr</Heading>
+            <Flex align="center" gap="2">
+              <EnvLockIndicator path="prowlarr.enabled" />
+              <Text size="2">Check indexers before searching</Text>
+              <Switch
+                disabled={isEnvLocked('prowlarr.enabled')}
+                checked={prowlarr.enabled}
+                onCheckedChange={(checked: boolean) => updateProwlarrConfig('enabled', checked)}
+              />
+            </Flex>
+          </Flex>
+          <Text size="2" color="gray">
+            Before each instance is searched, Scoutarr asks Prowlarr which indexers are failing or close to their query limits.
+            Instances are skipped when no indexer is available, and their count is reduced when only some are.
+          </Text>
+          <Separator size="4" />
+
+          <Flex direction="column" gap="1">
+            <Flex align="center" gap="1">
+              <Text size="2" weight="medium">URL</Text>
+              <EnvLockIndicator path="prowlarr.url" />
+            </Flex>
+            <TextField.Root
+              disabled={isEnvLocked('prowlarr.url')}
+              placeholder="http://localhost:9696"
+              value={prowlarr.url}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProwlarrConfig('url', e.target.value)}
+            />
+          </Flex>
+
+          <Flex direction="column" gap="1">
+            <Flex align="center" gap="1">
+              <Text size="2" weight="medium">API Key</Text>
+              <EnvLockIndicator path="prowlarr.apiKey" />
+            </Flex>
+            <TextField.Root
+              disabled={isEnvLocked('prowlarr.apiKey')}
+              type="password"
+              value={prowlarr.apiKey}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProwlarrConfig('apiKey', e.target.value)}
+            />
+          </Flex>
+
+          <Flex direction="column" gap="1">
+            <Flex align="center" gap="1">
+              <Text size="2" weight="medium">Query Limit Threshold (%)</Text>
+              <Tooltip content="An indexer counts as near its limit once it has used this share of its query limit. Indexers without a limit in Prowlarr are never limited.">
+                <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+              </Tooltip>
+              <EnvLockIndicator path="prowlarr.queryLimitThreshold" />
+            </Flex>
+            <TextField.Root
+              disabled={isEnvLocked('prowlarr.queryLimitThreshold')}
+              type="number"
+              min="1"
+              max="100"
+              value={prowlarr.queryLimitThreshold.toString()}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                const value = parseInt(e.target.value);
+                if (!isNaN(value)) {
+                  updateProwlarrConfig('queryLimitThreshold', Math.min(100, Math.max(1, value)));
+                }
+              }}
+            />
+          </Flex>
+
+          <Flex gap="3" align="center" wrap="wrap">
+            <Button variant="outline" onClick={testConnection} disabled={!prowlarr.url || !prowlarr.apiKey || testing}>
+              {testing ? (
+                <>
+                  <Spinner size="1" /> Testing...
+                </>
+              ) : (
+                'Test Connection'
+              )}
+            </Button>
+            {testResult && !testing && (
+              <Badge color={testResult.success ? 'green' : 'red'}>
+                {testResult.success ? <CheckIcon /> : <CrossCircledIcon />}
+                {testResult.success ? 'Connected' : 'Failed'}
+              </Badge>
+            )}
+            {indexers && !testing && (
+              <Text size="2" color="gray">
+                {indexers.available} of {indexers.total} indexers available
+                {indexers.remainingQueries !== undefined && ` · ${indexers.remainingQueries} queries left`}
+              </Text>
+            )}
+          </Flex>
+
+          {indexers && !testing && (indexers.failing.length > 0 || indexers.limited.length > 0) && (
+            <Flex gap="1" wrap="wrap">
+              {indexers.failing.map(name => (
+                <Badge key={`failing-${name}`} size="1" color="red" variant="soft">{name}: failing</Badge>
+              ))}
+              {indexers.limited.map(name => (
+                <Badge key={`limited-${name}`} size="1" color="orange" variant="soft">{name}: near limit</Badge>
+              ))}
+            </Flex>
+          )}
+        </Flex>
+      </Card>
+    </Flex>
+  );
+}
@@ -4,10 +4,25 @@ import { ConfirmDialog } from './ConfirmDialog';
 import * as Collapsible from '@radix-ui/react-collapsible';
 import { TrashIcon, ChevronDownIcon, ChevronRightIcon, QuestionMarkCircledIcon } from '@radix-ui/react-icons';
 import { capitalize } from 'es-toolkit';
+import { CronExpressionParser } from 'cron-parser';
+import { useQuery } from '@tanstack/react-query';
+import { SECRET_PLACEHOLDER, SECRET_REFERENCE_PATTERN } from '@scoutarr/shared';
 import { AppIcon } from './icons/AppIcon';
+import { TagPicker } from './TagPicker';
+import { EnvLockIndicator } from './EnvLockIndicator';
+import { useEnvLock } from '../contexts/EnvLockContext';
+import { configService } from '../services/configService';
 import type { AppType } from '../utils/constants';
 import type { StarrInstanceConfig } from '../utils/appInfo';
-import type { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance } from '../types/config';
+import type { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance, SelectionStrategy } from '../types/config';
+
+const SELECTION_STRATEGY_OPTIONS: Array<{ value: SelectionStrategy; label: string }> = [
+  { value: 'random', label: 'Random' },
+  { value: 'oldestSearched', label: 'Oldest last searched first' },
+  { value: 'lowestScore', label: 'Lowest custom format score first' },
+  { value: 'largestCutoffGap', label: 'Furthest below cutoff score first' },
+  { value: 'oldestImport', label: 'Oldest import first' },
+];
 
 export type InstanceCardProps = {
   appType: AppType;
@@ -25,6 +40,25 @@ export type InstanceCardProps = {
   clearTagsPending: boolean;
 };
 
+type AgeFilterField = 'minImportAgeDays' | 'minAddedAgeDays' | 'searchCooldownDays';
+
+const AGE_FILTERS: Array<{ field: AgeFilterField; label: string; description: string }> = [
+  { field: 'minImportAgeDays', label: 'Min. Days Since Import', description: 'Skip items whose file was imported within this many days.' },
+  { field: 'minAddedAgeDays', label: 'Min. Days Since Added', description: 'Skip items added to the library within this many days.' },
+  { field: 'searchCooldownDays', label: 'Search Cooldown (days)', description: 'Skip items the app itself searched within this many days.' },
+];
+
+// Empty schedule is valid and means "use the global schedule"
+function getScheduleError(schedule: string): string {
+  if (!schedule.trim()) return '';
+  try {
+    CronExpressionParser.parse(schedule.trim());
+    return '';
+  } catch {
+    return 'Invalid cron expression';
+  }
+}
+
 export function InstanceCard({
   appType,
   appInfo,
@@ -45,6 +79,49 @@ export function InstanceCard({
   const [clearTagsOpen, setClearTagsOpen] = useState(false);
   const profiles = qualityProfiles[instanceKey] || [];
   const isProfilesLoading = loadingProfiles[instanceKey];
+  const { isEnvLocked, hasEnvLocks } = useEnvLock();
+  const fieldPath = (field: string) => `applications.${appType}.${instance.id}.${field}`;
+  const isFieldLocked = (field: string) => isEnvLocked(fieldPath(field));
+  const statusField = appType === 'lidarr' ? 'artistStatus' : 'authorStatus';
+
+  // Profiles are stored by ID so renames in the *arr app don't break the filter;
+  // the legacy single profile name is still shown (and honoured) until removed
+  const profileLabelById = new Map(profiles.map(profile => [profile.id, profile.name]));
+  const selectedProfileIds = instance.qualityProfileIds || [];
+  const selectedProfileLabels = [
+    ...selectedProfileIds.map(id => profileLabelById.get(id) ?? `#${id}`),
+    ...(instance.qualityProfileName && !selectedProfileIds.some(id => profileLabelById.get(id) === instance.qualityProfileName)
+      ? [instance.qualityProfileName]
+      : []),
+  ];
+  const handleProfilesChange = (labels: string[]) => {
+    // Each change adds or removes a single profile, so only one field needs updating
+    if (instance.qualityProfileName && !labels.includes(instance.qualityProfileName)) {
+      updateInstanceConfig(appType, instance.id, 'qualityProfileName', '');
+      return;
+    }
+    // The legacy profile stays represented by its name only
+    const ids = labels
+      .filter(label => label !== instance.qualityProfileName)
+      .map(label => profiles.find(profile => profile.name === label)?.id
+        ?? selectedProfileIds.find(id => `#${id}` === label))
+      .filter((id): id is number => id !== undefined);
+    updateInstanceConfig(appType, instance.id, 'qualityProfileIds', ids.length > 0 ? ids : undefined);
+  };
+  const scheduleError = getScheduleError(instance.schedule || '');
+
+  const { data: instanceTags = [], isError: tagsError } = useQuery<string[]>({
+    queryKey: ['instanceTags', appType, instance.id],
+    queryFn: () => configService.getTags(appType, instance.id),
+    enabled: isExpanded && !!instance.url && !!instance.apiKey,
+    staleTime: 60000,
+    retry: false,
+  });
+  // The legacy single ignore tag is shown as part of the exclude list
+  const excludeTags = [
+    ...(instance.excludeTags || []),
+    ...(instance.ignoreTag && !(instance.excludeTags || []).includes(instance.ignoreTag) ? [instance.ignoreTag] : []),
+  ];
 
   return (
     <Card style={{ alignSelf: 'flex-start', width: '100%' }}>
@@ -61,11 +138,12 @@ export function InstanceCard({
                   <Text size="3" weight="bold">{instance.name || `${appInfo.name} ${index + 1}`}</Text>
                 </Flex>
                 <Flex align="center" gap="2">
-                  <Tooltip content="Delete this instance">
+                  <Tooltip content={hasEnvLocks(`applications.${appType}.${instance.id}`) ? 'Set by environment variables, remove them to delete this instance' : 'Delete this instance'}>
                     <Button
                       variant="soft"
                       color="red"
                       size="1"
+                      disabled={hasEnvLocks(`applications.${appType}.${instance.id}`)}
                       onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
                         e.stopPropagation();
                         setDeleteOpen(true);
@@ -96,8 +174,10 @@ export function InstanceCard({
                   <Tooltip content="When enabled, this instance will be included in search operations. When disabled, it will be skipped.">
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('enabled')} />
                 </Flex>
                 <Switch
+                  disabled={isFieldLocked('enabled')}
                   checked={instance.enabled !== false}
                   onCheckedChange={(checked: boolean) => updateInstanceConfig(appType, instance.id, 'enabled', checked)}
                 />
@@ -111,8 +191,10 @@ export function InstanceCard({
                   <Tooltip content={`A name to identify this instance (e.g., 'Main ${appInfo.name}', '4K ${appInfo.name}').`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('name')} />
                 </Flex>
                 <TextField.Root
+                  disabled={isFieldLocked('name')}
                   value={instance.name || ''}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateInstanceConfig(appType, instance.id, 'name', e.target.value)}
                   placeholder={`${appInfo.name} ${index + 1}`}
@@ -125,8 +207,10 @@ export function InstanceCard({
                   <Tooltip content={`The base URL where your ${appInfo.name} instance is accessible (e.g., http://localhost:${appInfo.defaultPort} or https://${appType}.example.com)`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('url')} />
                 </Flex>
                 <TextField.Root
+                  disabled={isFieldLocked('url')}
                   placeholder={`http://localhost:${appInfo.defaultPort}`}
                   value={instance.url || ''}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateInstanceConfig(appType, instance.id, 'url', e.target.value)}
@@ -136,11 +220,13 @@ export function InstanceCard({
               <Flex direction="column" gap="2">
                 <Flex align="center" gap="1">
                   <Text size="2" weight="medium">API Key</Text>
-                  <Tooltip content={`Your ${appInfo.name} API key found in Settings → General → Security → API Key (must be 32 characters)`}>
+                  <Tooltip content={`Your ${appInfo.name} API key found in Settings → General → Security → API Key (must be 32 characters). Use env:SCOUTARR_VARIABLE or file:/run/secrets/name to read it from an environment variable or a Docker secret instead.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('apiKey')} />
                 </Flex>
                 <TextField.Root
+                  disabled={isFieldLocked('apiKey')}
                   type="password"
                   placeholder="API Key"
                   value={instance.apiKey || ''}
@@ -153,11 +239,13 @@ export function InstanceCard({
               <Flex direction="column" gap="2">
                 <Flex align="center" gap="1">
                   <Text size="2" weight="medium">Number of {capitalize(appInfo.mediaTypePlural)} to Search</Text>
-                  <Tooltip content={`How many ${appInfo.mediaTypePlural} to randomly select and search for upgrades each time the script runs. Use 'max' to search all matching ${appInfo.mediaTypePlural}.`}>
+                  <Tooltip content={`How many ${appInfo.mediaTypePlural} to select and search for upgrades each time the script runs. Use 'max' to search all matching ${appInfo.mediaTypePlural}.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('count')} />
                 </Flex>
                 <TextField.Root
+                  disabled={isFieldLocked('count')}
                   type="number"
                   min={1}
                   value={instance.count === '' as unknown ? '' : (instance.count ?? 5).toString()}
@@ -180,14 +268,61 @@ export function InstanceCard({
                 />
               </Flex>
 
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Daily Search Limit (optional)</Text>
+                  <Tooltip content={`Most ${appInfo.mediaTypePlural} this instance may search in any 24 hours, across all runs. Runs reduce their count or are skipped once it is reached. Leave empty for no limit.`}>
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('dailySearchLimit')} />
+                </Flex>
+                <TextField.Root
+                  disabled={isFieldLocked('dailySearchLimit')}
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={instance.dailySearchLimit?.toString() ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    const parsed = parseInt(e.target.value);
+                    updateInstanceConfig(appType, instance.id, 'dailySearchLimit', !isNaN(parsed) && parsed > 0 ? parsed : undefined);
+                  }}
+                />
+              </Flex>
+
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Selection Strategy</Text>
+                  <Tooltip content={`How ${appInfo.mediaTypePlural} are picked when more match than the search count. Score-based strategies use the custom format scores from the last sync; ties are broken randomly.`}>
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('selectionStrategy')} />
+                </Flex>
+                <Select.Root
+                  disabled={isFieldLocked('selectionStrategy')}
+                  value={instance.selectionStrategy || 'random'}
+                  onValueChange={(value: string) => {
+                    updateInstanceConfig(appType, instance.id, 'selectionStrategy', value === 'random' ? undefined : value);
+                  }}
+                >
+                  <Select.Trigger />
+                  <Select.Content position="popper" sideOffset={5}>
+                    {SELECTION_STRATEGY_OPTIONS.map(option => (
+                      <Select.Item key={option.value} value={option.value}>{option.label}</Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
+
               <Flex direction="column" gap="2">
                 <Flex align="center" gap="1">
                   <Text size="2" weight="medium">Tag Name (required)</Text>
                   <Tooltip content={`The tag name to use for tracking which ${appInfo.mediaTypePlural} have been searched. This tag will be created automatically if it doesn't exist.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('tagName')} />
                 </Flex>
                 <TextField.Root
+                  disabled={isFieldLocked('tagName')}
                   value={instance.tagName || ''}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateInstanceConfig(appType, instance.id, 'tagName', e.target.value)}
                 />
@@ -195,15 +330,60 @@ export function InstanceCard({
 
               <Flex direction="column" gap="2">
                 <Flex align="center" gap="1">
-                  <Text size="2" weight="medium">Ignore Tag (optional)</Text>
-                  <Tooltip content={`${appInfo.mediaType} with this tag will be excluded from upgrade searches. Leave empty to include all ${appInfo.mediaTypePlural} matching other criteria.`}>
+                  <Text size="2" weight="medium">Include Tags (optional)</Text>
+                  <Tooltip content={`Only ${appInfo.mediaTypePlural} carrying these tags will be searched. Leave empty to include all ${appInfo.mediaTypePlural} matching other criteria.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('includeTags')} />
                 </Flex>
-                <TextField.Root
-                  value={instance.ignoreTag || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateInstanceConfig(appType, instance.id, 'ignoreTag', e.target.value)}
+                <Flex gap="2" align="start">
+                  <Flex direction="column" style={{ flex: 1, minWidth: 0 }}>
+                    <TagPicker
+                      value={instance.includeTags || []}
+                      options={instanceTags}
+                      onChange={(tags) => updateInstanceConfig(appType, instance.id, 'includeTags', tags.length > 0 ? tags : undefined)}
+                      disabled={isFieldLocked('includeTags') || !instance.url || !instance.apiKey}
+                    />
+                  </Flex>
+                  <Select.Root
+                    disabled={isFieldLocked('includeTagsMode')}
+                    value={instance.includeTagsMode || 'any'}
+                    onValueChange={(value: string) => updateInstanceConfig(appType, instance.id, 'includeTagsMode', value === 'any' ? undefined : value)}
+                  >
+                    <Select.Trigger />
+                    <Select.Content position="popper" sideOffset={5}>
+                      <Select.Item value="any">Match any</Select.Item>
+                      <Select.Item value="all">Match all</Select.Item>
+                    </Select.Content>
+                  </Select.Root>
+                </Flex>
+              </Flex>
+
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Exclude Tags (optional)</Text>
+                  <Tooltip content={`${appInfo.mediaTypePlural} with any of these tags will be excluded from upgrade searches.`}>
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('excludeTags')} />
+                </Flex>
+                <TagPicker
+                  value={excludeTags}
+                  options={instanceTags}
+                  onChange={(tags) => {
+                    // Each change adds or removes a single tag, so only one field needs updating
+                    if (instance.ignoreTag && !tags.includes(instance.ignoreTag)) {
+                      updateInstanceConfig(appType, instance.id, 'ignoreTag', '');
+                      return;
+                    }
+                    const listed = tags.filter(tag => tag !== instance.ignoreTag);
+                    updateInstanceConfig(appType, instance.id, 'excludeTags', listed.length > 0 ? listed : undefined);
+                  }}
+                  disabled={isFieldLocked('excludeTags') || isFieldLocked('ignoreTag') || !instance.url || !instance.apiKey}
                 />
+                {tagsError && (
+                  <Text size="1" color="gray">Save the instance and test the connection to load its tags</Text>
+                )}
               </Flex>
 
               <Flex direction="row" align="center" justify="between" gap="2">
@@ -212,8 +392,10 @@ export function InstanceCard({
                   <Tooltip content={`When enabled, only ${appInfo.mediaTypePlural} that are currently monitored will be considered for upgrades.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('monitored')} />
                 </Flex>
                 <Switch
+                  disabled={isFieldLocked('monitored')}
                   checked={instance.monitored ?? true}
                   onCheckedChange={(checked: boolean) => updateInstanceConfig(appType, instance.id, 'monitored', checked)}
                 />
@@ -225,24 +407,75 @@ export function InstanceCard({
                   <Tooltip content={`When enabled, only ${appInfo.mediaTypePlural} with no file will be searched. Use this to find and download missing media instead of searching for upgrades.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('missingOnly')} />
                 </Flex>
                 <Switch
+                  disabled={isFieldLocked('missingOnly')}
                   checked={(instance as { missingOnly?: boolean }).missingOnly ?? false}
                   onCheckedChange={(checked: boolean) => updateInstanceConfig(appType, instance.id, 'missingOnly', checked)}
                 />
               </Flex>
 
-              {appType === 'radarr' && (
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Age Filters (optional)</Text>
+                  <Tooltip content={`Keep fresh grabs from being searched again right away. Leave empty or 0 to disable. ${appInfo.mediaTypePlural} without a date are never skipped.`}>
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                </Flex>
+                <Flex gap="2" wrap="wrap">
+                  {AGE_FILTERS.map(({ field, label, description }) => (
+                    <Flex key={field} direction="column" gap="1" style={{ flex: '1 1 140px' }}>
+                      <Flex align="center" gap="1">
+                        <Tooltip content={description}>
+                          <Text size="1" color="gray">{label}</Text>
+                        </Tooltip>
+                        <EnvLockIndicator path={fieldPath(field)} />
+                      </Flex>
+                      <TextField.Root
+                        disabled={isFieldLocked(field)}
+                        type="number"
+                        min={0}
+                        placeholder="Off"
+                        value={instance[field]?.toString() ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                          const parsed = parseInt(e.target.value);
+                          updateInstanceConfig(appType, instance.id, field, !isNaN(parsed) && parsed > 0 ? parsed : undefined);
+                        }}
+                      />
+                    </Flex>
+                  ))}
+                </Flex>
+              </Flex>
+
+              <Flex direction="row" align="center" justify="between" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Cutoff Unmet Only</Text>
+                  <Tooltip content={`When enabled, only ${appInfo.mediaTypePlural} whose custom format score is below their quality profile's cutoff score will be searched. Items without a file or score are skipped.`}>
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('cutoffUnmetOnly')} />
+                </Flex>
+                <Switch
+                  disabled={isFieldLocked('cutoffUnmetOnly')}
+                  checked={(instance as { cutoffUnmetOnly?: boolean }).cutoffUnmetOnly ?? false}
+                  onCheckedChange={(checked: boolean) => updateInstanceConfig(appType, instance.id, 'cutoffUnmetOnly', checked)}
+                />
+              </Flex>
+
+              {(appType === 'radarr' || appType === 'whisparr') && (
                 <Flex direction="column" gap="2">
                   <Flex align="center" gap="1">
                     <Text size="2" weight="medium">Movie Status</Text>
                     <Tooltip content="Only movies with this status or higher will be considered for upgrades. Released is recommended for most use cases.">
                       <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                     </Tooltip>
+                    <EnvLockIndicator path={fieldPath('movieStatus')} />
                   </Flex>
                   <Select.Root
+                    disabled={isFieldLocked('movieStatus')}
                     value={(instance as RadarrInstance).movieStatus || 'any'}
-                    onValueChange={(value: string) => updateInstanceConfig('radarr', instance.id, 'movieStatus', value)}
+                    onValueChange={(value: string) => updateInstanceConfig(appType, instance.id, 'movieStatus', value)}
                   >
                     <Select.Trigger />
                     <Select.Content position="popper" sideOffset={5}>
@@ -263,8 +496,10 @@ export function InstanceCard({
                       <Tooltip content="Only series with this status will be considered for upgrades. Leave as 'Any' to include all statuses.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path={fieldPath('seriesStatus')} />
                     </Flex>
                     <Select.Root
+                      disabled={isFieldLocked('seriesStatus')}
                       value={(instance as SonarrInstance).seriesStatus || 'any'}
                       onValueChange={(value: string) => updateInstanceConfig('sonarr', instance.id, 'seriesStatus', value === 'any' ? '' : value)}
                     >
@@ -284,124 +519,214 @@ export function InstanceCard({
                       <Tooltip content="Hide special episodes (Season 0) from the media library. Specials are still synced and stored, just hidden from view.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path={fieldPath('hideSpecials')} />
                     </Flex>
                     <Switch
+                      disabled={isFieldLocked('hideSpecials')}
                       checked={(instance as SonarrInstance).hideSpecials === true}
                       onCheckedChange={(checked: boolean) => updateInstanceConfig('sonarr', instance.id, 'hideSpecials', checked)}
                     />
                   </Flex>
+
+                  <Flex direction="column" gap="2">
+                    <Flex align="center" gap="1">
+                      <Text size="2" weight="medium">Search Granularity</Text>
+                      <Tooltip content="What each search covers. Series searches every episode of the selected series; Season and Episode search only the selected seasons or episodes, and the count applies to them. Series are only tagged in Series mode; searched seasons and episodes are tracked by Scoutarr instead and skipped until unattended mode starts a new cycle or tags are cleared.">
+                        <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                      </Tooltip>
+                      <EnvLockIndicator path={fieldPath('searchGranularity')} />
+                    </Flex>
+                    <Select.Root
+                      disabled={isFieldLocked('searchGranularity')}
+                      value={(instance as SonarrInstance).searchGranularity || 'series'}
+                      onValueChange={(value: string) => updateInstanceConfig('sonarr', instance.id, 'searchGranularity', value === 'series' ? undefined : value)}
+                    >
+                      <Select.Trigger />
+                      <Select.Content position="popper" sideOffset={5}>
+                        <Select.Item value="series">Series</Select.Item>
+                        <Select.Item value="season">Season</Select.Item>
+                        <Select.Item value="episode">Episode</Select.Item>
+                      </Select.Content>
+                    </Select.Root>
+                  </Flex>
                 </>
               )}
 
               {(appType === 'lidarr' || appType === 'readarr') && (
-                <Flex direction="column" gap="2">
-                  <Flex align="center" gap="1">
-                    <Text size="2" weight="medium">{appInfo.mediaType} Status</Text>
-                    <Tooltip content={`Only ${appInfo.mediaTypePlural.toLowerCase()} with this status will be considered for upgrades. Leave as 'Any' to include all statuses.`}>
-                      <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
-                    </Tooltip>
+                <>
+                  <Flex direction="column" gap="2">
+                    <Flex align="center" gap="1">
+                      <Text size="2" weight="medium">{appInfo.mediaType} Status</Text>
+                      <Tooltip content={`Only ${appInfo.mediaTypePlural.toLowerCase()} with this status will be considered for upgrades. Leave as 'Any' to include all statuses.`}>
+                        <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                      </Tooltip>
+                      <EnvLockIndicator path={fieldPath(statusField)} />
+                    </Flex>
+                    <Select.Root
+                      disabled={isFieldLocked(statusField)}
+                      value={appType === 'lidarr' ? ((instance as LidarrInstance).artistStatus || 'any') : ((instance as ReadarrInstance).authorStatus || 'any')}
+                      onValueChange={(value: string) => updateInstanceConfig(appType, instance.id, statusField, value === 'any' ? '' : value)}
+                    >
+                      <Select.Trigger />
+                      <Select.Content position="popper" sideOffset={5}>
+                        <Select.Item value="any">Any</Select.Item>
+                        <Select.Item value="continuing">Continuing</Select.Item>
+                        <Select.Item value="ended">Ended</Select.Item>
+                      </Select.Content>
+                    </Select.Root>
                   </Flex>
-                  <Select.Root
-                    value={appType === 'lidarr' ? ((instance as LidarrInstance).artistStatus || 'any') : ((instance as ReadarrInstance).authorStatus || 'any')}
-                    onValueChange={(value: string) => {
-                      const field = appType === 'lidarr' ? 'artistStatus' : 'authorStatus';
-                      updateInstanceConfig(appType, instance.id, field, value === 'any' ? '' : value);
-                    }}
-                  >
-                    <Select.Trigger />
-                    <Select.Content position="popper" sideOffset={5}>
-                      <Select.Item value="any">Any</Select.Item>
-                      <Select.Item value="continuing">Continuing</Select.Item>
-                      <Select.Item value="ended">Ended</Select.Item>
-                    </Select.Content>
-                  </Select.Root>
-                </Flex>
+
+                  <Flex direction="column" gap="2">
+                    <Flex align="center" gap="1">
+                      <Text size="2" weight="medium">Search Granularity</Text>
+                      <Tooltip content={appType === 'lidarr'
+                        ? 'What each search covers. Album mode lists and searches single albums, and the media library, filters and history follow. Artists are only tagged in Artist mode; searched albums are tracked by Scoutarr instead and skipped until unattended mode starts a new cycle or tags are cleared. Switching clears the cached media library until the next sync.'
+                        : 'What each search covers. Book mode lists and searches single books, and the media library, filters and history follow. Authors are only tagged in Author mode; searched books are tracked by Scoutarr instead and skipped until unattended mode starts a new cycle or tags are cleared. Switching clears the cached media library until the next sync.'}>
+                        <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                      </Tooltip>
+                      <EnvLockIndicator path={fieldPath('searchGranularity')} />
+                    </Flex>
+                    <Select.Root
+                      disabled={isFieldLocked('searchGranularity')}
+                      value={appType === 'lidarr'
+                        ? ((instance as LidarrInstance).searchGranularity || 'artist')
+                        : ((instance as ReadarrInstance).searchGranularity || 'author')}
+                      onValueChange={(value: string) => {
+                        const isDefault = value === 'artist' || value === 'author';
+                        updateInstanceConfig(appType, instance.id, 'searchGranularity', isDefault ? undefined : value);
+                      }}
+                    >
+                      <Select.Trigger />
+                      <Select.Content position="popper" sideOffset={5}>
+                        {appType === 'lidarr' ? (
+                          <>
+                            <Select.Item value="artist">Artist</Select.Item>
+                            <Select.Item value="album">Album</Select.Item>
+                          </>
+                        ) : (
+                          <>
+                            <Select.Item value="author">Author</Select.Item>
+                            <Select.Item value="book">Book</Select.Item>
+                          </>
+                        )}
+                      </Select.Content>
+                    </Select.Root>
+                  </Flex>
+                </>
               )}
 
               <Flex direction="column" gap="2">
                 <Flex align="center" gap="1">
-                  <Text size="2" weight="medium">Quality Profile</Text>
-                  <Tooltip content={`Only ${appInfo.mediaTypePlural.toLowerCase()} using this specific quality profile will be considered. Use \"Test Connection\" to refresh the quality profiles list.`}>
+                  <Text size="2" weight="medium">Quality Profiles</Text>
+                  <Tooltip content={`Only ${appInfo.mediaTypePlural.toLowerCase()} using one of these quality profiles will be considered. Leave empty to include all profiles. Use \"Test Connection\" to refresh the quality profiles list.`}>
                     <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                   </Tooltip>
+                  <EnvLockIndicator path={fieldPath('qualityProfileIds')} />
                 </Flex>
-                <Flex gap="2" align="center" style={{ width: '100%' }}>
-                  <Flex style={{ flex: 1, minWidth: 0 }}>
-                    {(() => {
-                      const hasUrlAndApiKey = instance.url && instance.apiKey;
-
-                      if (!hasUrlAndApiKey) {
-                        return (
-                          <Select.Root
-                            value={undefined}
-                            onValueChange={(_value: string) => {}}
-                            disabled
-                          >
-                            <Select.Trigger placeholder="Configure URL and API Key first" style={{ width: '100%' }} />
-                          </Select.Root>
-                        );
-                      }
+                <TagPicker
+                  value={selectedProfileLabels}
+                  options={profiles.map(profile => profile.name)}
+                  onChange={handleProfilesChange}
+                  disabled={isFieldLocked('qualityProfileIds') || isFieldLocked('qualityProfileName') || !instance.url || !instance.apiKey || isProfilesLoading}
+                  placeholder={
+                    !instance.url || !instance.apiKey
+                      ? 'Configure URL and API Key first'
+                      : isProfilesLoading
+                      ? 'Loading profiles...'
+                      : profiles.length === 0
+                      ? "No profiles synced. Click 'Test Connection' to sync."
+                      : selectedProfileLabels.length === 0
+                      ? 'All quality profiles'
+                      : 'Add profile...'
+                  }
+                />
+              </Flex>
 
-                      if (isProfilesLoading) {
-                        return (
-                          <Select.Root disabled>
-                            <Select.Trigger placeholder="Loading profiles..." style={{ width: '100%' }} />
-                          </Select.Root>
-                        );
-                      }
+              <Separator size="4" />
 
-                      if (profiles.length === 0) {
-                        const savedProfileName = instance.qualityProfileName;
-                        if (savedProfileName) {
-                          return (
-                            <Select.Root
-                              value={savedProfileName}
-                              onValueChange={(_value: string) => {}}
-                              disabled
-                            >
-                              <Select.Trigger style={{ width: '100%' }} />
-                              <Select.Content position="popper" sideOffset={5}>
-                                <Select.Item value={savedProfileName}>{savedProfileName}</Select.Item>
-                              </Select.Content>
-                            </Select.Root>
-                          );
-                        }
-                        return (
-                          <Select.Root
-                            value={undefined}
-                            onValueChange={(_value: string) => {}}
-                            disabled
-                          >
-                            <Select.Trigger placeholder="No profiles synced. Click 'Test Connection' to sync." style={{ width: '100%' }} />
-                          </Select.Root>
-                        );
-                      }
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Search Schedule (optional)</Text>
+                  <Tooltip content="Cron expression for searching this instance on its own schedule (e.g., '0 */2 * * *'). Leave empty to use the global Upgrade Search schedule. The Upgrade Search task must be enabled.">
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('schedule')} />
+                </Flex>
+                <TextField.Root
+                  disabled={isFieldLocked('schedule')}
+                  placeholder="Use global schedule"
+                  value={instance.schedule || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    const value = e.target.value;
+                    updateInstanceConfig(appType, instance.id, 'schedule', value.trim() ? value : undefined);
+                  }}
+                />
+                {scheduleError && (
+                  <Text size="1" color="red">{scheduleError}</Text>
+                )}
+              </Flex>
 
-                      const selectedProfileName = instance.qualityProfileName || '';
-                      const selectValue = selectedProfileName || '__all__';
-
-                      return (
-                        <Select.Root
-                          value={selectValue}
-                          onValueChange={(value: string) => {
-                            const configValue = value === '__all__' ? '' : value;
-                            updateInstanceConfig(appType, instance.id, 'qualityProfileName', configValue);
-                          }}
-                        >
-                          <Select.Trigger placeholder="All quality profiles" style={{ width: '100%' }} />
-                          <Select.Content position="popper" sideOffset={5}>
-                            <Select.Item value="__all__">All quality profiles</Select.Item>
-                            {profiles.map((profile) => (
-                              <Select.Item key={profile.id} value={profile.name}>
-                                {profile.name}
-                              </Select.Item>
-                            ))}
-                          </Select.Content>
-                        </Select.Root>
-                      );
-                    })()}
-                  </Flex>
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Unattended Mode</Text>
+                  <Tooltip content="When nothing is left to search, remove the tag from matching items and search again. Use the global setting from the Advanced tab or override it for this instance.">
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('unattended')} />
+                </Flex>
+                <Select.Root
+                  disabled={isFieldLocked('unattended')}
+                  value={instance.unattended === undefined ? 'global' : instance.unattended ? 'enabled' : 'disabled'}
+                  onValueChange={(value: string) => {
+                    updateInstanceConfig(appType, instance.id, 'unattended', value === 'global' ? undefined : value === 'enabled');
+                  }}
+                >
+                  <Select.Trigger />
+                  <Select.Content position="popper" sideOffset={5}>
+                    <Select.Item value="global">Use global setting</Select.Item>
+                    <Select.Item value="enabled">Enabled</Select.Item>
+                    <Select.Item value="disabled">Disabled</Select.Item>
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
+
+              <Separator size="4" />
+
+              <Flex direction="column" gap="2">
+                <Flex align="center" gap="1">
+                  <Text size="2" weight="medium">Webhook Secret (optional)</Text>
+                  <Tooltip content={`Lets ${appInfo.name} report downloads, upgrades, renames and deletions as they happen, so the media library updates without waiting for the next sync. Add the URL below in ${appInfo.name} under Settings → Connect → Webhook, with any username and the secret as the password.`}>
+                    <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                  </Tooltip>
+                  <EnvLockIndicator path={fieldPath('webhookSecret')} />
+                </Flex>
+                <Flex gap="2">
+                  <TextField.Root
+                    disabled={isFieldLocked('webhookSecret')}
+                    style={{ flex: 1 }}
+                    placeholder="Webhooks disabled"
+                    value={instance.webhookSecret || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      const value = e.target.value.trim();
+                      updateInstanceConfig(appType, instance.id, 'webhookSecret', value || undefined);
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={isFieldLocked('webhookSecret')}
+                    onClick={() => updateInstanceConfig(appType, instance.id, 'webhookSecret', crypto.randomUUID().replace(/-/g, ''))}
+                  >
+                    Generate
+                  </Button>
                 </Flex>
+                {instance.webhookSecret && (
+                  <Text size="1" color="gray" style={{ wordBreak: 'break-all' }}>
+                    URL: {window.location.origin}/api/webhooks/{appType}/{instance.id} · Username: scoutarr · Password:{' '}
+                    {instance.webhookSecret === SECRET_PLACEHOLDER || SECRET_REFERENCE_PATTERN.test(instance.webhookSecret)
+                      ? 'the saved secret, which isn\'t shown (generate a new one if it is lost)'
+                      : instance.webhookSecret}
+                  </Text>
+                )}
               </Flex>
 
               <Separator size="4" />
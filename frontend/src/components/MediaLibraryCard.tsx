@@ -190,6 +190,7 @@ interface ColumnFilters {
   cfScore: string;
   lastSearched: string;
   dateImported: string;
+  cutoff: string;
   tags: string;
 }
 
@@ -300,6 +301,21 @@ function saveToStorage<T>(key: string, value: T): void {
 }
 
 
+const DEFAULT_COLUMN_ORDER = [
+  'qualityProfileName',
+  'lastSearched',
+  'dateImported',
+  'customFormatScore',
+  'belowCutoff',
+  'tags'
+];
+
+// Points still needed to reach the profile's cutoff score (negative when exceeded)
+function getCutoffGap(item: { customFormatScore?: number; cutoffFormatScore?: number }): number | null {
+  if (item.customFormatScore == null || item.cutoffFormatScore == null) return null;
+  return item.cutoffFormatScore - item.customFormatScore;
+}
+
 function isUpgraded(row: { customFormatScore?: number | null; previousCfScore?: number | null }): boolean {
   return (
     row.customFormatScore != null &&
@@ -349,9 +365,9 @@ export function MediaLibraryCard({ config, headerActions }: MediaLibraryCardProp
     roRef.current = null;
     if (!el) return;
     // Sum of all fixed-width columns: SelectColumn(35) + qualityProfileName(130) +
-    // lastSearched(115) + dateImported(115) + cfScore(120) + tags(136) + actions(44)
+    // lastSearched(115) + dateImported(115) + cfScore(120) + cutoff(100) + tags(136) + actions(44)
     // plus ~20 for borders and scrollbar
-    const FIXED_COLS = 715;
+    const FIXED_COLS = 815;
     const compute = () => setTitleWidth(Math.max(100, el.offsetWidth - FIXED_COLS));
     compute();
     const ro = new ResizeObserver(compute);
@@ -368,17 +384,15 @@ export function MediaLibraryCard({ config, headerActions }: MediaLibraryCardProp
     cfScore: '',
     lastSearched: '',
     dateImported: '',
+    cutoff: 'all',
     tags: 'all'
   });
-  const [columnOrder, setColumnOrder] = useState<readonly string[]>(() =>
-    loadFromStorage('scoutarr_media_library_column_order', [
-      'qualityProfileName',
-      'lastSearched',
-      'dateImported',
-      'customFormatScore',
-      'tags'
-    ])
-  );
+  const [columnOrder, setColumnOrder] = useState<readonly string[]>(() => {
+    // Keep a saved order but pick up columns added since it was saved
+    const saved = loadFromStorage<string[]>('scoutarr_media_library_column_order', DEFAULT_COLUMN_ORDER);
+    const known = saved.filter(key => DEFAULT_COLUMN_ORDER.includes(key));
+    return [...known, ...DEFAULT_COLUMN_ORDER.filter(key => !known.includes(key))];
+  });
 
   const [filterDialogOpen, setFilterDialogOpen] = useState(false);
 
@@ -677,6 +691,11 @@ export function MediaLibraryCard({ config, headerActions }: MediaLibraryCardProp
     if (columnFilters.dateImported.trim()) {
       filtered = filtered.filter(filterByDate('dateImported', columnFilters.dateImported));
     }
+    if (columnFilters.cutoff === 'below') {
+      filtered = filtered.filter(item => item.belowCutoff === true);
+    } else if (columnFilters.cutoff === 'met') {
+      filtered = filtered.filter(item => getCutoffGap(item) !== null && !item.belowCutoff);
+    }
     if (columnFilters.tags === '__none__') {
       filtered = filtered.filter(item => !item.tags || !Array.isArray(item.tags) || item.tags.length === 0);
     } else if (columnFilters.tags !== 'all') {
@@ -700,6 +719,8 @@ export function MediaLibraryCard({ config, headerActions }: MediaLibraryCardProp
         return compareAsc(aDate, bDate);
       } else if (columnKey === 'customFormatScore') {
         return (a.customFormatScore ?? -Infinity) - (b.customFormatScore ?? -Infinity);
+      } else if (columnKey === 'belowCutoff') {
+        return (getCutoffGap(a) ?? -Infinity) - (getCutoffGap(b) ?? -Infinity);
       } else if (columnKey === 'tags') {
         const aTag = a.tags?.length > 0 ? a.tags[0] : '\uffff';
         const bTag = b.tags?.length > 0 ? b.tags[0] : '\uffff';
@@ -924,6 +945,34 @@ export function MediaLibraryCard({ config, headerActions }: MediaLibraryCardProp
           />
         )
       },
+      belowCutoff: {
+        key: 'belowCutoff',
+        name: 'Cutoff',
+        width: 100,
+        renderCell: ({ row }) => {
+          const gap = getCutoffGap(row);
+          if (gap === null) return <Text size="2" color="gray">-</Text>;
+          return (
+            <Tooltip content={`Score ${row.customFormatScore} / cutoff ${row.cutoffFormatScore}`}>
+              <Badge size="1" variant="soft" color={row.belowCutoff ? 'orange' : 'green'}>
+                {row.belowCutoff ? `Below (${gap})` : 'Met'}
+              </Badge>
+            </Tooltip>
+          );
+        },
+        renderHeaderCell: (props) => (
+          <DropdownFilterHeaderCell
+            {...props}
+            filterValue={columnFilters.cutoff}
+            onFilterChange={(value) => handleFilterChange('cutoff', value)}
+            options={[
+              { value: 'all', label: 'All' },
+              { value: 'below', label: 'Below cutoff' },
+              { value: 'met', label: 'Cutoff met' }
+            ]}
+          />
+        )
+      },
       tags: {
         key: 'tags',
         name: 'Tags',
@@ -0,0 +1,19 @@
+import { Badge, Tooltip } from '@radix-ui/themes';
+import type { SearchItemOutcome } from '../types/api';
+
+const OUTCOMES: Record<SearchItemOutcome, { label: string; color: 'green' | 'gray' | 'red' | 'orange'; description: string }> = {
+  grabbed: { label: 'Grabbed', color: 'green', description: 'A release was grabbed after the search' },
+  nothingFound: { label: 'Nothing found', color: 'gray', description: 'The search finished without grabbing a release' },
+  failed: { label: 'Failed', color: 'red', description: 'The search command failed' },
+  timedOut: { label: 'Timed out', color: 'orange', description: 'The search was still running when Scoutarr stopped waiting for it' },
+  unknown: { label: 'Unknown', color: 'gray', description: 'Scoutarr could not check on the search command' },
+};
+
+export function SearchOutcomeBadge({ outcome }: { outcome: SearchItemOutcome }) {
+  const { label, color, description } = OUTCOMES[outcome];
+  return (
+    <Tooltip content={description}>
+      <Badge size="1" color={color} variant="soft" style={{ flexShrink: 0 }}>{label}</Badge>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, type ReactNode } from 'react';
+import { Flex, Heading, Card, Text, Separator, Box, Badge, Button, Spinner, Tooltip } from '@radix-ui/themes';
+import { ChevronLeftIcon, ChevronRightIcon, ChevronDownIcon, ChevronUpIcon } from '@radix-ui/react-icons';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { capitalize } from 'es-toolkit';
+import { AppIcon } from './icons/AppIcon';
+import { runsService } from '../services/runsService';
+import { formatRunDuration, formatSearchItemTitle } from '../utils/helpers';
+import { ITEMS_PER_PAGE } from '../utils/constants';
+import type { SearchRun, SearchRunInstanceOutcome, SearchRunsResponse } from '../types/api';
+
+const STATUS_COLORS: Record<SearchRun['status'], 'blue' | 'green' | 'orange' | 'red'> = {
+  running: 'blue',
+  success: 'green',
+  partial: 'orange',
+  failed: 'red',
+};
+
+function InstanceOutcomeRow({ outcome }: { outcome: SearchRunInstanceOutcome }) {
+  const itemsPreview = outcome.items.length > 0
+    ? outcome.items.slice(0, 3).map(formatSearchItemTitle).join(', ') +
+      (outcome.items.length > 3 ? ` +${outcome.items.length - 3} more` : '')
+    : null;
+  // Outcomes are filled in once the run's search commands finish
+  const hasOutcomes = outcome.items.some(item => item.outcome);
+  const grabbed = outcome.items.filter(item => item.outcome === 'grabbed').length;
+
+  return (
+    <Flex direction="column" gap="1" py="1">
+      <Flex align="center" gap="2">
+        <AppIcon app={outcome.appType} size={14} variant="light" />
+        <Text size="2" weight="medium">{outcome.instanceName || outcome.instanceId}</Text>
+        <Badge size="1" color={outcome.success ? 'green' : 'red'}>
+          {outcome.success ? `${outcome.searched} searched` : 'Failed'}
+        </Badge>
+        {hasOutcomes && (
+          <Badge size="1" color={grabbed > 0 ? 'green' : 'gray'} variant="soft">{grabbed} grabbed</Badge>
+        )}
+        {outcome.counts && (
+          <Tooltip content="Library size → items passing filters → items selected for search">
+            <Text size="1" color="gray">
+              {outcome.counts.total} → {outcome.counts.filtered} → {outcome.counts.selected}
+            </Text>
+          </Tooltip>
+        )}
+      </Flex>
+      {outcome.error && (
+        <Text size="1" color="red">{outcome.error}</Text>
+      )}
+      {(outcome.skipReason || outcome.limitReason) && (
+        <Text size="1" color="orange">
+          {outcome.skipReason ? `Skipped: ${outcome.skipReason}` : outcome.limitReason}
+        </Text>
+      )}
+      {itemsPreview && (
+        <Text size="1" color="gray" style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {itemsPreview}
+        </Text>
+      )}
+    </Flex>
+  );
+}
+
+// Fetches the run on expand so a run still in progress shows its latest state
+function RunDetails({ runId }: { runId: string }) {
+  const { data: run, isLoading } = useQuery<SearchRun>({
+    queryKey: ['runs', 'detail', runId],
+    queryFn: () => runsService.getRun(runId),
+  });
+
+  if (isLoading || !run) {
+    return (
+      <Flex justify="center" p="2">
+        <Spinner size="2" />
+      </Flex>
+    );
+  }
+
+  return (
+    <Flex direction="column" gap="1">
+      {run.error && (
+        <Text size="2" color="red">{run.error}</Text>
+      )}
+      {run.instances.length === 0 ? (
+        <Text size="2" color="gray">No instances were processed in this run.</Text>
+      ) : (
+        run.instances.map(outcome => (
+          <InstanceOutcomeRow key={outcome.instanceId} outcome={outcome} />
+        ))
+      )}
+    </Flex>
+  );
+}
+
+interface SearchRunsCardProps {
+  headerActions?: ReactNode;
+  collapsed?: boolean;
+}
+
+export function SearchRunsCard({ headerActions, collapsed }: SearchRunsCardProps) {
+  const [page, setPage] = useState(1);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  const { data } = useQuery<SearchRunsResponse>({
+    queryKey: ['runs', page],
+    queryFn: () => runsService.getRuns(page, ITEMS_PER_PAGE),
+    refetchInterval: 30000,
+  });
+
+  const runs = data?.runs ?? [];
+  const totalPages = data?.totalPages ?? 0;
+
+  return (
+    <Card>
+      <Flex direction="column" gap="3">
+        <Flex align="center" gap="3">
+          <Heading size="5">Search Runs</Heading>
+          {data && data.total > 0 && (
+            <Text size="2" color="gray">
+              {data.total} {data.total === 1 ? 'run' : 'runs'}
+            </Text>
+          )}
+          {headerActions}
+        </Flex>
+
+        {!collapsed && (
+          <>
+            <Separator size="4" />
+            {runs.length === 0 ? (
+              <Box p="4">
+                <Text size="2" color="gray" align="center">No search runs recorded yet</Text>
+              </Box>
+            ) : (
+              <Flex direction="column" gap="0">
+                {runs.map((run, idx) => {
+                  const isExpanded = expandedRunId === run.id;
+                  return (
+                    <Box
+                      key={run.id}
+                      style={{ borderBottom: idx < runs.length - 1 ? '1px solid var(--gray-6)' : 'none' }}
+                    >
+                      <Flex
+                        py="2"
+                        px="3"
+                        align="center"
+                        gap="3"
+                        justify="between"
+                        style={{ cursor: 'pointer' }}
+                        onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                      >
+                        <Flex align="center" gap="2" style={{ flex: 1, minWidth: 0 }}>
+                          <Badge size="1" color={STATUS_COLORS[run.status]}>{capitalize(run.status)}</Badge>
+                          <Badge size="1" variant="outline" color="gray">{capitalize(run.trigger)}</Badge>
+                          <Text size="2">
+                            {run.instances.length} {run.instances.length === 1 ? 'instance' : 'instances'}
+                          </Text>
+                        </Flex>
+                        <Flex align="center" gap="3" style={{ flexShrink: 0 }}>
+                          <Text size="2" color="gray">
+                            {run.totalSearched} {run.totalSearched === 1 ? 'item' : 'items'}
+                          </Text>
+                          {run.durationMs !== undefined && (
+                            <Text size="2" color="gray">{formatRunDuration(run.durationMs)}</Text>
+                          )}
+                          <Text size="2" color="gray" style={{ minWidth: '140px', textAlign: 'right' }}>
+                            {format(new Date(run.startedAt), 'PPp')}
+                          </Text>
+                          {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+                        </Flex>
+                      </Flex>
+
+                      {isExpanded && (
+                        <Box
+                          px="4"
+                          py="2"
+                          style={{ borderTop: '1px solid var(--gray-5)', backgroundColor: 'var(--gray-2)' }}
+                        >
+                          <RunDetails runId={run.id} />
+                        </Box>
+                      )}
+                    </Box>
+                  );
+                })}
+              </Flex>
+            )}
+
+            {totalPages > 1 && (
+              <Flex align="center" justify="center" gap="2" mt="1">
+                <Button
+                  variant="outline"
+                  size="2"
+                  onClick={() => {
+                    setPage(prev => Math.max(1, prev - 1));
+                    setExpandedRunId(null);
+                  }}
+                  disabled={page === 1}
+                >
+                  <ChevronLeftIcon /> Previous
+                </Button>
+                <Text size="2" color="gray">Page {page} of {totalPages}</Text>
+                <Button
+                  variant="outline"
+                  size="2"
+                  onClick={() => {
+                    setPage(prev => Math.min(totalPages, prev + 1));
+                    setExpandedRunId(null);
+                  }}
+                  disabled={page === totalPages}
+                >
+                  Next <ChevronRightIcon />
+                </Button>
+              </Flex>
+            )}
+          </>
+        )}
+      </Flex>
+    </Card>
+  );
+}
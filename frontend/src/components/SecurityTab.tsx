@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { Flex, Heading, Card, Text, Switch, Tooltip, Button, TextField, Separator, Spinner } from '@radix-ui/themes';
+import { CopyIcon, QuestionMarkCircledIcon } from '@radix-ui/react-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { MIN_PASSWORD_LENGTH } from '@scoutarr/shared';
+import type { Config } from '../types/config';
+import type { AuthStatus } from '../types/api';
+import { authService } from '../services/authService';
+import { showErrorToast, showSuccessToast } from '../utils/toast';
+import { ConfirmDialog } from './ConfirmDialog';
+import { useEnvLock } from '../contexts/EnvLockContext';
+import { EnvLockIndicator } from './EnvLockIndicator';
+
+interface SecurityTabProps {
+  config: Config;
+  onConfigChange: (config: Config) => void;
+}
+
+type AuthField = keyof Config['auth'];
+
+export function SecurityTab({ config, onConfigChange }: SecurityTabProps) {
+  const { isEnvLocked } = useEnvLock();
+  const queryClient = useQueryClient();
+  const auth = config.auth;
+  const [confirmingRegenerate, setConfirmingRegenerate] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Edited as text and parsed on blur, so typing a comma doesn't get tidied away mid-entry
+  const [trustedProxiesText, setTrustedProxiesText] = useState(auth.trustedProxies.join(', '));
+
+  const { data: authStatus } = useQuery<AuthStatus>({
+    queryKey: ['auth-status'],
+    queryFn: () => authService.getStatus(),
+  });
+
+  const { data: apiKey } = useQuery<string>({
+    queryKey: ['auth', 'api-key'],
+    queryFn: () => authService.getApiKey(),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => authService.regenerateApiKey(),
+    onSuccess: (key) => {
+      queryClient.setQueryData(['auth', 'api-key'], key);
+      setConfirmingRegenerate(false);
+      showSuccessToast('API key regenerated');
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: () => authService.changePassword(currentPassword, newPassword),
+    onSuccess: () => {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      showSuccessToast('Password changed. Other sessions have been signed out.');
+    },
+  });
+
+  const updateAuthConfig = (field: AuthField, value: string | number | boolean | string[]) => {
+    onConfigChange({
+      ...config,
+      auth: {
+        ...auth,
+        [field]: value
+      }
+    });
+  };
+
+  const copyApiKey = async () => {
+    if (!apiKey) return;
+    try {
+      await navigator.clipboard.writeText(apiKey);
+      showSuccessToast('API key copied');
+    } catch {
+      showErrorToast('Could not copy to the clipboard');
+    }
+  };
+
+  const changePassword = () => {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      showErrorToast(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      showErrorToast('Passwords do not match');
+      return;
+    }
+    changePasswordMutation.mutate();
+  };
+
+  return (
+    <Flex direction="column" gap="3">
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Flex align="center" justify="between">
+            <Heading size="4">Authentication</Heading>
+            <Flex align="center" gap="2">
+              <EnvLockIndicator path="auth.enabled" />
+              <Text size="2">Require sign-in</Text>
+              <Switch
+                disabled={isEnvLocked('auth.enabled')}
+                checked={auth.enabled}
+                onCheckedChange={(checked: boolean) => updateAuthConfig('enabled', checked)}
+              />
+            </Flex>
+          </Flex>
+          <Text size="2" color="gray">
+            The web UI and API need a signed-in session, the API key or a trusted forward auth header.
+            Only turn this off when Scoutarr can't be reached from outside a trusted network.
+            Webhooks are always checked against each instance's webhook secret instead.
+          </Text>
+          <Separator size="4" />
+
+          <Flex direction="column" gap="1" style={{ maxWidth: '240px' }}>
+            <Flex align="center" gap="1">
+              <Text size="2" weight="medium">Session Length (days)</Text>
+              <Tooltip content="How long a sign-in lasts before the login page is shown again">
+                <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+              </Tooltip>
+              <EnvLockIndicator path="auth.sessionDays" />
+            </Flex>
+            <TextField.Root
+              disabled={isEnvLocked('auth.sessionDays')}
+              type="number"
+              min="1"
+              max="365"
+              value={auth.sessionDays.toString()}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                const value = parseInt(e.target.value);
+                if (!isNaN(value)) {
+                  updateAuthConfig('sessionDays', Math.min(365, Math.max(1, value)));
+                }
+              }}
+            />
+          </Flex>
+        </Flex>
+      </Card>
+
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Heading size="4">Forward Auth</Heading>
+          <Text size="2" color="gray">
+            When a reverse proxy such as Authelia or Authentik signs users in, Scoutarr can trust the header it sets with the username.
+            It is only accepted from the proxy addresses listed below, since anyone who can reach Scoutarr directly could set the header themselves.
+          </Text>
+          <Separator size="4" />
+          <Flex gap="3" wrap="wrap">
+            <Flex direction="column" gap="1" style={{ flex: '1 1 200px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Header</Text>
+                <Tooltip content="Leave empty to ignore forward auth headers">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="auth.forwardAuthHeader" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('auth.forwardAuthHeader')}
+                placeholder="Remote-User"
+                value={auth.forwardAuthHeader}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateAuthConfig('forwardAuthHeader', e.target.value.trim())}
+              />
+            </Flex>
+            <Flex direction="column" gap="1" style={{ flex: '1 1 200px' }}>
+              <Flex align="center" gap="1">
+                <Text size="2" weight="medium">Trusted Proxies</Text>
+                <Tooltip content="Comma-separated IP addresses the header is accepted from. The header is ignored until at least one is listed.">
+                  <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+                </Tooltip>
+                <EnvLockIndicator path="auth.trustedProxies" />
+              </Flex>
+              <TextField.Root
+                disabled={isEnvLocked('auth.trustedProxies')}
+                placeholder="172.18.0.2, 10.0.0.5"
+                value={trustedProxiesText}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTrustedProxiesText(e.target.value)}
+                onBlur={() => updateAuthConfig(
+                  'trustedProxies',
+                  trustedProxiesText.split(',').map(address => address.trim()).filter(Boolean)
+                )}
+              />
+            </Flex>
+          </Flex>
+        </Flex>
+      </Card>
+
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Heading size="4">API Key</Heading>
+          <Text size="2" color="gray">
+            Scripts and other apps authenticate by sending this key in the <code>X-Api-Key</code> header.
+          </Text>
+          <Separator size="4" />
+          <Flex gap="2" align="center">
+            <TextField.Root readOnly value={apiKey ?? ''} style={{ flex: 1, fontFamily: 'monospace' }} />
+            <Tooltip content="Copy">
+              <Button variant="outline" onClick={copyApiKey} disabled={!apiKey}>
+                <CopyIcon />
+              </Button>
+            </Tooltip>
+            <Button variant="outline" color="red" onClick={() => setConfirmingRegenerate(true)} disabled={regenerateMutation.isPending}>
+              Regenerate
+            </Button>
+          </Flex>
+          <ConfirmDialog
+            open={confirmingRegenerate}
+            onOpenChange={setConfirmingRegenerate}
+            title="Regenerate API Key?"
+            description="The current key stops working straight away. Anything using it will need the new key."
+            confirmLabel="Regenerate"
+            onConfirm={() => regenerateMutation.mutate()}
+            isPending={regenerateMutation.isPending}
+          />
+        </Flex>
+      </Card>
+
+      {authStatus && !authStatus.setupRequired && (
+        <Card>
+          <Flex direction="column" gap="3" p="4">
+            <Heading size="4">Change Password</Heading>
+            <Text size="2" color="gray">
+              Changes the password of the local account{authStatus.username ? ` (${authStatus.username})` : ''} and signs out every other session.
+            </Text>
+            <Separator size="4" />
+            <Flex gap="3" wrap="wrap">
+              <Flex direction="column" gap="1" style={{ flex: '1 1 180px' }}>
+                <Text size="2" weight="medium">Current Password</Text>
+                <TextField.Root
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrentPassword(e.target.value)}
+                />
+              </Flex>
+              <Flex direction="column" gap="1" style={{ flex: '1 1 180px' }}>
+                <Text size="2" weight="medium">New Password</Text>
+                <TextField.Root
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+                />
+              </Flex>
+              <Flex direction="column" gap="1" style={{ flex: '1 1 180px' }}>
+                <Text size="2" weight="medium">Confirm New Password</Text>
+                <TextField.Root
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                />
+              </Flex>
+            </Flex>
+            <Flex>
+              <Button
+                variant="outline"
+                onClick={changePassword}
+                disabled={!currentPassword || !newPassword || changePasswordMutation.isPending}
+              >
+                {changePasswordMutation.isPending ? (
+                  <>
+                    <Spinner size="1" /> Changing...
+                  </>
+                ) : (
+                  'Change Password'
+                )}
+              </Button>
+            </Flex>
+          </Flex>
+        </Card>
+      )}
+    </Flex>
+  );
+}
@@ -0,0 +1,55 @@
+import { Flex, Badge, Select, IconButton } from '@radix-ui/themes';
+import { Cross2Icon } from '@radix-ui/react-icons';
+
+type TagPickerProps = {
+  value: string[];
+  options: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+};
+
+// Radix Select is single-value, so picked tags are shown as removable badges above an "add" select
+export function TagPicker({ value, options, onChange, placeholder = 'Add tag...', disabled }: TagPickerProps) {
+  // Keep tags that no longer exist on the instance visible so they can be removed
+  const available = options.filter(tag => !value.includes(tag));
+
+  return (
+    <Flex direction="column" gap="2">
+      {value.length > 0 && (
+        <Flex gap="1" wrap="wrap">
+          {value.map(tag => (
+            <Badge key={tag} size="2" variant="soft" color={options.includes(tag) ? 'blue' : 'gray'}>
+              {tag}
+              <IconButton
+                size="1"
+                variant="ghost"
+                color="gray"
+                aria-label={`Remove ${tag}`}
+                onClick={() => onChange(value.filter(t => t !== tag))}
+                style={{ margin: 0 }}
+              >
+                <Cross2Icon width="10" height="10" />
+              </IconButton>
+            </Badge>
+          ))}
+        </Flex>
+      )}
+      <Select.Root
+        value=""
+        onValueChange={(tag: string) => onChange([...value, tag])}
+        disabled={disabled || available.length === 0}
+      >
+        <Select.Trigger
+          placeholder={options.length > 0 && available.length === 0 && !disabled ? 'Nothing left to add' : placeholder}
+          style={{ width: '100%' }}
+        />
+        <Select.Content position="popper" sideOffset={5}>
+          {available.map(tag => (
+            <Select.Item key={tag} value={tag}>{tag}</Select.Item>
+          ))}
+        </Select.Content>
+      </Select.Root>
+    </Flex>
+  );
+}
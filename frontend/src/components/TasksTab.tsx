@@ -11,16 +11,22 @@ import {
   Button,
   TextField,
   IconButton,
-  Callout
+  Callout,
+  Badge
 } from '@radix-ui/themes';
-import { QuestionMarkCircledIcon, PlayIcon, InfoCircledIcon } from '@radix-ui/react-icons';
+import { QuestionMarkCircledIcon, PlayIcon, InfoCircledIcon, EyeOpenIcon } from '@radix-ui/react-icons';
 import { useQueryClient } from '@tanstack/react-query';
 import { CronExpressionParser } from 'cron-parser';
+import { format } from 'date-fns';
 import type { Config } from '../types/config';
-import type { SchedulerStatus, SyncSchedulerStatus } from '../types/api';
+import type { SchedulerStatus, SyncSchedulerStatus, SearchResults } from '../types/api';
 import { calculateTimeUntil, formatCountdown } from '../utils/helpers';
 import { showSuccessToast } from '../utils/toast';
 import { schedulerService } from '../services/schedulerService';
+import { AppIcon } from './icons/AppIcon';
+import { DryRunDialog } from './DryRunDialog';
+import { EnvLockIndicator } from './EnvLockIndicator';
+import { useEnvLock } from '../contexts/EnvLockContext';
 
 interface TasksTabProps {
   config: Config;
@@ -38,16 +44,21 @@ interface TaskRowProps {
   description: string;
   cronExpression: string;
   enabled: boolean;
+  // Config paths of the enabled flag and schedule, which environment variables can lock
+  enabledPath: string;
+  schedulePath: string;
   nextRun: string | null;
   onToggle: (enabled: boolean) => void;
   onEditSchedule: (newSchedule: string) => Config;
   onSaveConfig: (config: Config) => void;
   countdown: number;
   onManualRun: () => Promise<void>;
+  onPreview?: () => void;
   onRefreshStatus?: () => void;
 }
 
-function TaskRow({ name, description, cronExpression, enabled, nextRun, onToggle, onEditSchedule, onSaveConfig, countdown, onManualRun, onRefreshStatus }: TaskRowProps) {
+function TaskRow({ name, description, cronExpression, enabled, enabledPath, schedulePath, nextRun, onToggle, onEditSchedule, onSaveConfig, countdown, onManualRun, onPreview, onRefreshStatus }: TaskRowProps) {
+  const { isEnvLocked } = useEnvLock();
   const [isPopoverOpen, setIsPopoverOpen] = useState(false);
   const [editedSchedule, setEditedSchedule] = useState(cronExpression);
   const [error, setError] = useState<string>('');
@@ -104,6 +115,7 @@ function TaskRow({ name, description, cronExpression, enabled, nextRun, onToggle
           <Switch
             checked={enabled}
             onCheckedChange={onToggle}
+            disabled={isEnvLocked(enabledPath)}
             size="1"
           />
           <Flex direction="column" gap="1">
@@ -112,14 +124,15 @@ function TaskRow({ name, description, cronExpression, enabled, nextRun, onToggle
               <Tooltip content={description}>
                 <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '12px', height: '12px' }} />
               </Tooltip>
+              <EnvLockIndicator path={enabledPath} />
             </Flex>
           </Flex>
         </Flex>
       </Table.Cell>
       <Table.Cell style={{ textAlign: 'center' }}>
         <Popover.Root open={isPopoverOpen} onOpenChange={setIsPopoverOpen}>
-          <Tooltip content="Click to edit schedule">
-            <Popover.Trigger>
+          <Tooltip content={isEnvLocked(schedulePath) ? 'Set by an environment variable' : 'Click to edit schedule'}>
+            <Popover.Trigger disabled={isEnvLocked(schedulePath)}>
               <Button variant="ghost" style={{ padding: '0', height: 'auto', cursor: 'pointer' }}>
                 <code style={{
                   fontSize: '12px',
@@ -175,6 +188,14 @@ function TaskRow({ name, description, cronExpression, enabled, nextRun, onToggle
         )}
       </Table.Cell>
       <Table.Cell style={{ textAlign: 'center' }}>
+        <Flex align="center" justify="center" gap="2">
+        {onPreview && (
+          <Tooltip content="Preview (dry run)">
+            <IconButton variant="soft" size="1" color="gray" onClick={onPreview}>
+              <EyeOpenIcon />
+            </IconButton>
+          </Tooltip>
+        )}
         <Tooltip content={isRunning ? 'Running...' : 'Run now'}>
           <IconButton
             variant="soft"
@@ -193,6 +214,7 @@ function TaskRow({ name, description, cronExpression, enabled, nextRun, onToggle
             <PlayIcon />
           </IconButton>
         </Tooltip>
+        </Flex>
       </Table.Cell>
     </Table.Row>
   );
@@ -200,7 +222,27 @@ function TaskRow({ name, description, cronExpression, enabled, nextRun, onToggle
 
 export function TasksTab({ config, onConfigChange, onSaveConfig, schedulerStatus, onRefreshStatus }: TasksTabProps) {
   const queryClient = useQueryClient();
+  const { isEnvLocked } = useEnvLock();
   const [countdowns, setCountdowns] = useState<Record<string, number>>({});
+  const instanceSchedules = Object.entries(schedulerStatus?.scheduler?.instances || {});
+  const lastSyncReports = Object.entries(schedulerStatus?.sync?.lastSync || {});
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [previewResults, setPreviewResults] = useState<SearchResults | null>(null);
+  const [previewPending, setPreviewPending] = useState(false);
+
+  const handlePreview = async () => {
+    setPreviewOpen(true);
+    setPreviewPending(true);
+    setPreviewResults(null);
+    try {
+      setPreviewResults(await schedulerService.previewUpgradeSearch());
+    } catch (error) {
+      // Error toast handled by apiClient interceptor
+      setPreviewOpen(false);
+    } finally {
+      setPreviewPending(false);
+    }
+  };
 
   // Log scheduler status changes for debugging stuck countdowns
   useEffect(() => {
@@ -227,6 +269,13 @@ export function TasksTab({ config, onConfigChange, onSaveConfig, schedulerStatus
         newCountdowns['sync-scheduler'] = calculateTimeUntil(schedulerStatus.sync.nextRun);
       }
 
+      // Per-instance schedules
+      Object.entries(schedulerStatus?.scheduler?.instances || {}).forEach(([instanceId, status]) => {
+        if (status.nextRun) {
+          newCountdowns[`instance-${instanceId}`] = calculateTimeUntil(status.nextRun);
+        }
+      });
+
       setCountdowns(newCountdowns);
     };
 
@@ -279,6 +328,8 @@ export function TasksTab({ config, onConfigChange, onSaveConfig, schedulerStatus
                 description="Searches for upgrades across all configured applications"
                 cronExpression={config.scheduler?.schedule || '0 */6 * * *'}
                 enabled={config.scheduler?.enabled || false}
+                enabledPath="scheduler.enabled"
+                schedulePath="scheduler.schedule"
                 nextRun={schedulerStatus?.scheduler?.nextRun || null}
                 onToggle={(enabled) => {
                   if (!config.scheduler) {
@@ -313,10 +364,12 @@ export function TasksTab({ config, onConfigChange, onSaveConfig, schedulerStatus
                     await schedulerService.runUpgradeSearch();
                     showSuccessToast('Upgrade search started');
                     queryClient.invalidateQueries({ queryKey: ['stats'] });
+                    queryClient.invalidateQueries({ queryKey: ['runs'] });
                   } catch (error) {
                     // Error toast handled by apiClient interceptor
                   }
                 }}
+                onPreview={handlePreview}
                 onRefreshStatus={onRefreshStatus}
               />
 
@@ -326,6 +379,8 @@ export function TasksTab({ config, onConfigChange, onSaveConfig, schedulerStatus
                 description="Syncs all media from configured *arr instances to the local database"
                 cronExpression={config.tasks.syncSchedule}
                 enabled={config.tasks.syncEnabled}
+                enabledPath="tasks.syncEnabled"
+                schedulePath="tasks.syncSchedule"
                 nextRun={schedulerStatus?.sync?.nextRun || null}
                 onToggle={(enabled) => {
                   onConfigChange({
@@ -359,6 +414,149 @@ export function TasksTab({ config, onConfigChange, onSaveConfig, schedulerStatus
           </Table.Root>
         </Flex>
       </Card>
+
+      <Card>
+        <Flex direction="column" gap="3" p="4">
+          <Heading size="5">Media Library Sync</Heading>
+          <Text size="2" color="gray">
+            Syncs of all instances only refetch Sonarr series and Radarr/Whisparr movies that changed since the last sync.
+            Lidarr and Readarr, and refreshing a single instance's library, always fetch everything.
+          </Text>
+
+          <Flex direction="column" gap="1" style={{ maxWidth: '240px' }}>
+            <Flex align="center" gap="1">
+              <Text size="2" weight="medium">Full Resync Interval (hours)</Text>
+              <Tooltip content="How often a scheduled sync refetches everything to catch changes the incremental sync can't see. 0 always runs a full sync. Lidarr and Readarr always sync in full.">
+                <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
+              </Tooltip>
+              <EnvLockIndicator path="tasks.fullSyncIntervalHours" />
+            </Flex>
+            <TextField.Root
+              disabled={isEnvLocked('tasks.fullSyncIntervalHours')}
+              type="number"
+              min="0"
+              max="720"
+              value={config.tasks.fullSyncIntervalHours.toString()}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                const value = parseInt(e.target.value);
+                onConfigChange({
+                  ...config,
+                  tasks: { ...config.tasks, fullSyncIntervalHours: !isNaN(value) ? Math.min(720, Math.max(0, value)) : 0 }
+                });
+              }}
+            />
+          </Flex>
+
+          {lastSyncReports.length > 0 && (
+            <Table.Root variant="surface">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'left' }}>Instance</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'center' }}>Last Sync</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Added</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Changed</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Removed</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Total</Table.ColumnHeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {lastSyncReports.map(([instanceId, report]) => (
+                  <Table.Row key={instanceId}>
+                    <Table.Cell style={{ textAlign: 'left' }}>
+                      <Flex align="center" gap="2">
+                        <AppIcon app={report.appType} size={16} variant="light" />
+                        <Text size="2" weight="medium">{report.instanceName || instanceId}</Text>
+                      </Flex>
+                    </Table.Cell>
+                    <Table.Cell style={{ textAlign: 'center' }}>
+                      <Flex align="center" justify="center" gap="2">
+                        <Text size="2">{format(new Date(report.syncedAt), 'PPp')}</Text>
+                        <Badge size="1" variant="soft" color={report.mode === 'full' ? 'blue' : 'gray'}>
+                          {report.mode === 'full' ? 'Full' : 'Incremental'}
+                        </Badge>
+                      </Flex>
+                    </Table.Cell>
+                    <Table.Cell style={{ textAlign: 'right' }}><Text size="2">{report.added}</Text></Table.Cell>
+                    <Table.Cell style={{ textAlign: 'right' }}><Text size="2">{report.changed}</Text></Table.Cell>
+                    <Table.Cell style={{ textAlign: 'right' }}><Text size="2">{report.removed}</Text></Table.Cell>
+                    <Table.Cell style={{ textAlign: 'right' }}><Text size="2">{report.total}</Text></Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table.Root>
+          )}
+        </Flex>
+      </Card>
+
+      <DryRunDialog
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+        results={previewResults}
+        isPending={previewPending}
+      />
+
+      {instanceSchedules.length > 0 && (
+        <Card>
+          <Flex direction="column" gap="3" p="4">
+            <Heading size="5">Instance Schedules</Heading>
+            <Text size="2" color="gray">
+              Instances without their own schedule follow the Upgrade Search schedule. Set a per-instance schedule in the instance settings.
+            </Text>
+
+            <Table.Root variant="surface">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'left', width: '40%' }}>Instance</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'center', width: '30%' }}>Schedule</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell style={{ textAlign: 'right', width: '30%' }}>Next Run</Table.ColumnHeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {instanceSchedules.map(([instanceId, status]) => (
+                  <Table.Row key={instanceId}>
+                    <Table.Cell style={{ textAlign: 'left' }}>
+                      <Flex align="center" gap="2">
+                        <AppIcon app={status.appType} size={16} variant="light" />
+                        <Text size="2" weight="medium">{status.instanceName || instanceId}</Text>
+                        {status.unattended && (
+                          <Badge size="1" color="gray">Unattended</Badge>
+                        )}
+                      </Flex>
+                    </Table.Cell>
+                    <Table.Cell style={{ textAlign: 'center' }}>
+                      <Flex align="center" justify="center" gap="2">
+                        <code style={{
+                          fontSize: '12px',
+                          padding: '2px 6px',
+                          background: 'var(--gray-4)',
+                          borderRadius: '4px',
+                          fontFamily: 'monospace'
+                        }}>
+                          {status.schedule || '—'}
+                        </code>
+                        {status.source === 'global' && (
+                          <Badge size="1" variant="soft">Global</Badge>
+                        )}
+                      </Flex>
+                    </Table.Cell>
+                    <Table.Cell style={{ textAlign: 'right' }}>
+                      {status.nextRun ? (
+                        <Text size="2" weight="medium" style={{ display: 'inline-block', minWidth: '100px' }}>
+                          {countdowns[`instance-${instanceId}`] ? `in ${formatCountdown(countdowns[`instance-${instanceId}`])}` : 'Now'}
+                        </Text>
+                      ) : (
+                        <Text size="2" color="gray" style={{ display: 'inline-block', minWidth: '100px' }}>
+                          —
+                        </Text>
+                      )}
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table.Root>
+          </Flex>
+        </Card>
+      )}
     </Flex>
   );
 }
@@ -0,0 +1,174 @@
+import { useState, type ReactNode } from 'react';
+import { Flex, Heading, Card, Text, Separator, Box, Badge, Select, SegmentedControl, Table, Tooltip } from '@radix-ui/themes';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AppIcon } from './icons/AppIcon';
+import { statsService } from '../services/statsService';
+import { formatTimeToUpgrade } from '../utils/helpers';
+import type { UpgradeEffectivenessGroup, UpgradeEffectivenessReport, UpgradeRecord } from '../types/api';
+
+type GroupBy = 'instance' | 'profile' | 'strategy';
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+const STRATEGY_LABELS: Record<string, string> = {
+  random: 'Random',
+  oldestSearched: 'Oldest last searched',
+  lowestScore: 'Lowest score',
+  largestCutoffGap: 'Furthest below cutoff',
+  oldestImport: 'Oldest import',
+  manual: 'Manual (media library)',
+  unknown: 'Unknown',
+};
+
+const formatRate = (rate: number): string => `${Math.round(rate * 100)}%`;
+
+function GroupTable({ groups, groupBy }: { groups: UpgradeEffectivenessGroup[]; groupBy: GroupBy }) {
+  if (groups.length === 0) {
+    return (
+      <Box p="4">
+        <Text size="2" color="gray" align="center">No searches in this period</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Table.Root variant="surface" size="1">
+      <Table.Header>
+        <Table.Row>
+          <Table.ColumnHeaderCell style={{ textAlign: 'left' }}>
+            {groupBy === 'instance' ? 'Instance' : groupBy === 'profile' ? 'Quality Profile' : 'Selection Strategy'}
+          </Table.ColumnHeaderCell>
+          <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Searched</Table.ColumnHeaderCell>
+          <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Upgraded</Table.ColumnHeaderCell>
+          <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Rate</Table.ColumnHeaderCell>
+          <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Avg. Time to Upgrade</Table.ColumnHeaderCell>
+          <Table.ColumnHeaderCell style={{ textAlign: 'right' }}>Avg. Score Gain</Table.ColumnHeaderCell>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {groups.map(group => (
+          <Table.Row key={group.key}>
+            <Table.Cell style={{ textAlign: 'left' }}>
+              <Text size="2">{groupBy === 'strategy' ? STRATEGY_LABELS[group.label] ?? group.label : group.label}</Text>
+            </Table.Cell>
+            <Table.Cell style={{ textAlign: 'right' }}>{group.searched}</Table.Cell>
+            <Table.Cell style={{ textAlign: 'right' }}>{group.upgraded}</Table.Cell>
+            <Table.Cell style={{ textAlign: 'right' }}>
+              <Badge size="1" color={group.upgraded > 0 ? 'green' : 'gray'} variant="soft">{formatRate(group.rate)}</Badge>
+            </Table.Cell>
+            <Table.Cell style={{ textAlign: 'right' }}>
+              {group.avgHoursToUpgrade !== undefined ? formatTimeToUpgrade(group.avgHoursToUpgrade) : '—'}
+            </Table.Cell>
+            <Table.Cell style={{ textAlign: 'right' }}>
+              {group.avgScoreGain !== undefined ? `${group.avgScoreGain >= 0 ? '+' : ''}${Math.round(group.avgScoreGain)}` : '—'}
+            </Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table.Root>
+  );
+}
+
+function UpgradeRow({ upgrade }: { upgrade: UpgradeRecord }) {
+  const scoreChange = upgrade.previousScore === null
+    ? `${upgrade.newScore ?? '—'}`
+    : `${upgrade.previousScore} → ${upgrade.newScore ?? '—'}`;
+  const qualityChange = upgrade.previousQuality && upgrade.previousQuality !== upgrade.newQuality
+    ? `${upgrade.previousQuality} → ${upgrade.newQuality ?? '—'}`
+    : upgrade.newQuality;
+
+  return (
+    <Flex align="center" gap="3" justify="between" py="1">
+      <Flex align="center" gap="2" style={{ flex: 1, minWidth: 0 }}>
+        {upgrade.appType && <AppIcon app={upgrade.appType} size={14} variant="light" />}
+        <Text size="2" style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {upgrade.title}
+        </Text>
+        {upgrade.previousScore === null && (
+          <Badge size="1" color="blue" variant="soft">New file</Badge>
+        )}
+      </Flex>
+      <Flex align="center" gap="3" style={{ flexShrink: 0 }}>
+        {qualityChange && <Text size="1" color="gray">{qualityChange}</Text>}
+        <Tooltip content="Custom format score before → after">
+          <Text size="1" color="gray">CF {scoreChange}</Text>
+        </Tooltip>
+        <Tooltip content={`Searched ${format(new Date(upgrade.searchedAt), 'PPp')}`}>
+          <Text size="1" color="gray">after {formatTimeToUpgrade(upgrade.hoursToUpgrade)}</Text>
+        </Tooltip>
+        <Text size="1" color="gray" style={{ minWidth: '140px', textAlign: 'right' }}>
+          {format(new Date(upgrade.upgradedAt), 'PPp')}
+        </Text>
+      </Flex>
+    </Flex>
+  );
+}
+
+interface UpgradeEffectivenessCardProps {
+  headerActions?: ReactNode;
+  collapsed?: boolean;
+}
+
+export function UpgradeEffectivenessCard({ headerActions, collapsed }: UpgradeEffectivenessCardProps) {
+  const [days, setDays] = useState(30);
+  const [groupBy, setGroupBy] = useState<GroupBy>('instance');
+
+  const { data } = useQuery<UpgradeEffectivenessReport>({
+    queryKey: ['stats', 'upgrades', days],
+    queryFn: () => statsService.getUpgradeEffectiveness(days),
+    refetchInterval: 60000,
+  });
+
+  const groups = data
+    ? groupBy === 'instance' ? data.byInstance : groupBy === 'profile' ? data.byProfile : data.byStrategy
+    : [];
+
+  return (
+    <Card>
+      <Flex direction="column" gap="3">
+        <Flex align="center" gap="3">
+          <Heading size="5">Upgrade Effectiveness</Heading>
+          {data && data.searched > 0 && (
+            <Text size="2" color="gray">
+              {data.upgraded} of {data.searched} searched items upgraded ({formatRate(data.upgraded / data.searched)})
+            </Text>
+          )}
+          {headerActions}
+        </Flex>
+
+        {!collapsed && (
+          <>
+            <Separator size="4" />
+            <Flex align="center" justify="between" gap="3" wrap="wrap">
+              <SegmentedControl.Root size="1" value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+                <SegmentedControl.Item value="instance">By Instance</SegmentedControl.Item>
+                <SegmentedControl.Item value="profile">By Profile</SegmentedControl.Item>
+                <SegmentedControl.Item value="strategy">By Strategy</SegmentedControl.Item>
+              </SegmentedControl.Root>
+              <Select.Root size="1" value={days.toString()} onValueChange={(value) => setDays(parseInt(value, 10))}>
+                <Select.Trigger />
+                <Select.Content>
+                  {PERIOD_OPTIONS.map(option => (
+                    <Select.Item key={option} value={option.toString()}>Last {option} days</Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+            </Flex>
+
+            <GroupTable groups={groups} groupBy={groupBy} />
+
+            {data && data.recentUpgrades.length > 0 && (
+              <Flex direction="column" gap="1">
+                <Text size="2" weight="medium">Recent Upgrades</Text>
+                {data.recentUpgrades.map(upgrade => (
+                  <UpgradeRow key={`${upgrade.instanceId}-${upgrade.mediaId}-${upgrade.upgradedAt}`} upgrade={upgrade} />
+                ))}
+              </Flex>
+            )}
+          </>
+        )}
+      </Flex>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import type { AppType } from '../../utils/constants';
+import { APP_TYPES, type AppType } from '../../utils/constants';
 
 interface AppIconProps {
   app: AppType | string;
@@ -20,8 +20,7 @@ export const AppIcon: React.FC<AppIconProps> = ({
   const normalizedApp = app.toLowerCase().split('-')[0] as AppType;
   
   // Only show icon if it's a valid *arr app
-  const validApps: AppType[] = ['radarr', 'sonarr', 'lidarr', 'readarr'];
-  if (!validApps.includes(normalizedApp)) {
+  if (!APP_TYPES.includes(normalizedApp)) {
     return null;
   }
 
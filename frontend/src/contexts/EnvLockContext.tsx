@@ -0,0 +1,45 @@
+import { createContext, useContext, useCallback, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { configService } from '../services/configService';
+
+interface EnvLockContextType {
+  // Config fields set by environment variables, e.g. applications.radarr.radarr-1.url
+  lockedFields: string[];
+  // Whether a config field (or the section it sits in) is set by an environment variable
+  isEnvLocked: (path: string) => boolean;
+  // Whether anything in or around a section, e.g. an instance, is set by an environment variable
+  hasEnvLocks: (path: string) => boolean;
+}
+
+const EnvLockContext = createContext<EnvLockContextType | undefined>(undefined);
+
+export function EnvLockProvider({ children }: { children: ReactNode }) {
+  const { data } = useQuery({
+    queryKey: ['config', 'env-overrides'],
+    queryFn: () => configService.getEnvOverrides(),
+  });
+  const lockedFields = data?.fields ?? [];
+
+  const isEnvLocked = useCallback(
+    (path: string) => lockedFields.some(field => path === field || path.startsWith(`${field}.`)),
+    [lockedFields]
+  );
+  const hasEnvLocks = useCallback(
+    (path: string) => isEnvLocked(path) || lockedFields.some(field => field.startsWith(`${path}.`)),
+    [lockedFields, isEnvLocked]
+  );
+
+  return (
+    <EnvLockContext.Provider value={{ lockedFields, isEnvLocked, hasEnvLocks }}>
+      {children}
+    </EnvLockContext.Provider>
+  );
+}
+
+export function useEnvLock() {
+  const context = useContext(EnvLockContext);
+  if (context === undefined) {
+    throw new Error('useEnvLock must be used within an EnvLockProvider');
+  }
+  return context;
+}
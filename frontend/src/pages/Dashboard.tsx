@@ -27,13 +27,16 @@ import {
 import { useQuery } from '@tanstack/react-query';
 import { format, isToday, subWeeks, subMonths, isAfter } from 'date-fns';
 import { capitalize } from 'es-toolkit';
-import { ITEMS_PER_PAGE } from '../utils/constants';
-import { buildArrUrl } from '../utils/helpers';
-import { APP_BADGE_COLORS } from '../utils/appInfo';
+import { ITEMS_PER_PAGE, APP_TYPES } from '../utils/constants';
+import { buildArrUrl, formatSearchItemTitle } from '../utils/helpers';
+import { APP_BADGE_COLORS, getAppInfo } from '../utils/appInfo';
 import type { AppType } from '../utils/constants';
 import { AppIcon } from '../components/icons/AppIcon';
 import { MediaLibraryCard } from '../components/MediaLibraryCard';
-import type { Stats } from '../types/api';
+import { SearchRunsCard } from '../components/SearchRunsCard';
+import { UpgradeEffectivenessCard } from '../components/UpgradeEffectivenessCard';
+import { SearchOutcomeBadge } from '../components/SearchOutcomeBadge';
+import type { Stats, SearchBudgetStatus, SearchItemOutcome } from '../types/api';
 import type { Config } from '../types/config';
 import { configService } from '../services/configService';
 import { statsService } from '../services/statsService';
@@ -43,7 +46,7 @@ import { statsService } from '../services/statsService';
 const DASHBOARD_LAYOUT_KEY = 'scoutarr-dashboard-layout';
 const DASHBOARD_SCROLL_KEY = 'scoutarr-dashboard-scroll';
 
-type CardId = 'statistics' | 'media-library' | 'recent-searches';
+type CardId = 'statistics' | 'media-library' | 'recent-searches' | 'search-runs' | 'upgrade-effectiveness';
 
 interface CardLayout {
   id: CardId;
@@ -56,12 +59,16 @@ const DEFAULT_LAYOUT: CardLayout[] = [
   { id: 'statistics',       visible: true, collapsed: false, order: 0 },
   { id: 'media-library',    visible: true, collapsed: false, order: 1 },
   { id: 'recent-searches',  visible: true, collapsed: false, order: 2 },
+  { id: 'search-runs',      visible: true, collapsed: false, order: 3 },
+  { id: 'upgrade-effectiveness', visible: true, collapsed: false, order: 4 },
 ];
 
 const CARD_LABELS: Record<CardId, string> = {
   'statistics': 'Statistics',
   'media-library': 'Media Library',
   'recent-searches': 'Search History',
+  'search-runs': 'Search Runs',
+  'upgrade-effectiveness': 'Upgrade Effectiveness',
 };
 
 function loadLayout(): CardLayout[] {
@@ -71,7 +78,13 @@ function loadLayout(): CardLayout[] {
     const parsed: CardLayout[] = JSON.parse(raw);
     const ids: CardId[] = ['statistics', 'media-library', 'recent-searches'];
     const hasAll = ids.every(id => parsed.some(c => c.id === id));
-    return hasAll ? parsed : DEFAULT_LAYOUT;
+    if (!hasAll) return DEFAULT_LAYOUT;
+    // Append cards added since the layout was saved
+    const maxOrder = Math.max(...parsed.map(c => c.order));
+    const missing = DEFAULT_LAYOUT
+      .filter(d => !parsed.some(c => c.id === d.id))
+      .map((d, i) => ({ ...d, order: maxOrder + 1 + i }));
+    return [...parsed, ...missing];
   } catch {
     return DEFAULT_LAYOUT;
   }
@@ -135,7 +148,7 @@ function CardControls({ collapsed, isFirst, isLast, onToggleCollapse, onMoveUp,
 function Dashboard() {
   const [currentPage, setCurrentPage] = useState(1);
   const [dateFilter, setDateFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
-  const [appFilter, setAppFilter] = useState<'all' | 'lidarr' | 'radarr' | 'sonarr' | 'readarr'>('all');
+  const [appFilter, setAppFilter] = useState<'all' | AppType>('all');
   const [expandedSearchKeys, setExpandedSearchKeys] = useState<Set<string>>(new Set());
   const [layout, setLayout] = useState<CardLayout[]>(loadLayout);
 
@@ -208,6 +221,12 @@ function Dashboard() {
     refetchInterval: 30000,
   });
 
+  const { data: budget } = useQuery<SearchBudgetStatus>({
+    queryKey: ['search-budget'],
+    queryFn: () => statsService.getSearchBudget(),
+    refetchInterval: 30000,
+  });
+
   // ─── Layout helpers ─────────────────────────────────────────────────────────
 
   const updateLayout = useCallback((updater: (prev: CardLayout[]) => CardLayout[]) => {
@@ -262,22 +281,12 @@ function Dashboard() {
   const renderStatistics = (controls: ReactNode, collapsed: boolean) => {
     if (!stats) return null;
 
-    let lidarrTotal = 0;
-    let radarrTotal = 0;
-    let sonarrTotal = 0;
-    let readarrTotal = 0;
-
+    const appTotals = Object.fromEntries(APP_TYPES.map(app => [app, 0])) as Record<AppType, number>;
     Object.entries(stats.searchesByInstance || {}).forEach(([key, count]) => {
-      if (key.startsWith('lidarr')) lidarrTotal += count as number;
-      else if (key.startsWith('radarr')) radarrTotal += count as number;
-      else if (key.startsWith('sonarr')) sonarrTotal += count as number;
-      else if (key.startsWith('readarr')) readarrTotal += count as number;
+      const app = APP_TYPES.find(type => key.startsWith(type));
+      if (app) appTotals[app] += count as number;
     });
 
-    const lidarrUpgrades = stats.upgradesByApplication?.['lidarr'] ?? 0;
-    const radarrUpgrades = stats.upgradesByApplication?.['radarr'] ?? 0;
-    const sonarrUpgrades = stats.upgradesByApplication?.['sonarr'] ?? 0;
-    const readarrUpgrades = stats.upgradesByApplication?.['readarr'] ?? 0;
     const totalUpgrades = stats.totalUpgrades ?? 0;
 
     const statCardStyle = {
@@ -291,6 +300,34 @@ function Dashboard() {
       e.currentTarget.style.backgroundColor = enter ? 'var(--gray-3)' : '';
     };
 
+    const renderAppStatCard = (app: AppType) => (
+      <Card
+        key={app}
+        variant="surface"
+        style={statCardStyle}
+        onClick={() => handleStatClick(app)}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleStatClick(app); }}
+        onMouseEnter={(e: React.MouseEvent<HTMLElement>) => handleHover(e, true)}
+        onMouseLeave={(e: React.MouseEvent<HTMLElement>) => handleHover(e, false)}
+      >
+        <Flex direction="column" gap="2" align="center" justify="center">
+          <Flex align="center" gap="2">
+            <AppIcon app={app} size={20} variant="light" />
+            <Text size="2" color="gray">{getAppInfo(app).name}</Text>
+          </Flex>
+          <Flex align="baseline" gap="2">
+            <Heading size="7">{appTotals[app]}</Heading>
+            <Text size="1" style={{ color: 'var(--green-11)' }}>▲ {stats.upgradesByApplication?.[app] ?? 0}</Text>
+          </Flex>
+        </Flex>
+      </Card>
+    );
+
+    // Keep the total card in the middle of the app cards
+    const statsSplit = Math.ceil(APP_TYPES.length / 2);
+
     return (
       <Card key="statistics">
         <Flex direction="column" gap="3">
@@ -302,49 +339,7 @@ function Dashboard() {
             <>
               <Separator size="4" />
               <Flex gap="3" wrap="wrap" justify="center">
-                <Card
-                  variant="surface"
-                  style={statCardStyle}
-                  onClick={() => handleStatClick('lidarr')}
-                  role="button"
-                  tabIndex={0}
-                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleStatClick('lidarr'); }}
-                  onMouseEnter={(e: React.MouseEvent<HTMLElement>) => handleHover(e, true)}
-                  onMouseLeave={(e: React.MouseEvent<HTMLElement>) => handleHover(e, false)}
-                >
-                  <Flex direction="column" gap="2" align="center" justify="center">
-                    <Flex align="center" gap="2">
-                      <AppIcon app="lidarr" size={20} variant="light" />
-                      <Text size="2" color="gray">Lidarr</Text>
-                    </Flex>
-                    <Flex align="baseline" gap="2">
-                      <Heading size="7">{lidarrTotal}</Heading>
-                      <Text size="1" style={{ color: 'var(--green-11)' }}>▲ {lidarrUpgrades}</Text>
-                    </Flex>
-                  </Flex>
-                </Card>
-
-                <Card
-                  variant="surface"
-                  style={statCardStyle}
-                  onClick={() => handleStatClick('radarr')}
-                  role="button"
-                  tabIndex={0}
-                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleStatClick('radarr'); }}
-                  onMouseEnter={(e: React.MouseEvent<HTMLElement>) => handleHover(e, true)}
-                  onMouseLeave={(e: React.MouseEvent<HTMLElement>) => handleHover(e, false)}
-                >
-                  <Flex direction="column" gap="2" align="center" justify="center">
-                    <Flex align="center" gap="2">
-                      <AppIcon app="radarr" size={20} variant="light" />
-                      <Text size="2" color="gray">Radarr</Text>
-                    </Flex>
-                    <Flex align="baseline" gap="2">
-                      <Heading size="7">{radarrTotal}</Heading>
-                      <Text size="1" style={{ color: 'var(--green-11)' }}>▲ {radarrUpgrades}</Text>
-                    </Flex>
-                  </Flex>
-                </Card>
+                {APP_TYPES.slice(0, statsSplit).map(renderAppStatCard)}
 
                 <Card
                   variant="surface"
@@ -365,55 +360,28 @@ function Dashboard() {
                   </Flex>
                 </Card>
 
-                <Card
-                  variant="surface"
-                  style={statCardStyle}
-                  onClick={() => handleStatClick('sonarr')}
-                  role="button"
-                  tabIndex={0}
-                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleStatClick('sonarr'); }}
-                  onMouseEnter={(e: React.MouseEvent<HTMLElement>) => handleHover(e, true)}
-                  onMouseLeave={(e: React.MouseEvent<HTMLElement>) => handleHover(e, false)}
-                >
-                  <Flex direction="column" gap="2" align="center" justify="center">
-                    <Flex align="center" gap="2">
-                      <AppIcon app="sonarr" size={20} variant="light" />
-                      <Text size="2" color="gray">Sonarr</Text>
-                    </Flex>
-                    <Flex align="baseline" gap="2">
-                      <Heading size="7">{sonarrTotal}</Heading>
-                      <Text size="1" style={{ color: 'var(--green-11)' }}>▲ {sonarrUpgrades}</Text>
-                    </Flex>
-                  </Flex>
-                </Card>
-
-                <Card
-                  variant="surface"
-                  style={statCardStyle}
-                  onClick={() => handleStatClick('readarr')}
-                  role="button"
-                  tabIndex={0}
-                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleStatClick('readarr'); }}
-                  onMouseEnter={(e: React.MouseEvent<HTMLElement>) => handleHover(e, true)}
-                  onMouseLeave={(e: React.MouseEvent<HTMLElement>) => handleHover(e, false)}
-                >
-                  <Flex direction="column" gap="2" align="center" justify="center">
-                    <Flex align="center" gap="2">
-                      <AppIcon app="readarr" size={20} variant="light" />
-                      <Text size="2" color="gray">Readarr</Text>
-                    </Flex>
-                    <Flex align="baseline" gap="2">
-                      <Heading size="7">{readarrTotal}</Heading>
-                      <Text size="1" style={{ color: 'var(--green-11)' }}>▲ {readarrUpgrades}</Text>
-                    </Flex>
-                  </Flex>
-                </Card>
+                {APP_TYPES.slice(statsSplit).map(renderAppStatCard)}
               </Flex>
               {stats.lastSearch && (
                 <Text size="2" color="gray">
                   Last search: {format(new Date(stats.lastSearch), 'PPpp')}
                 </Text>
               )}
+              {budget && (budget.global || Object.keys(budget.instances).length > 0) && (
+                <Flex gap="2" wrap="wrap" align="center">
+                  <Text size="2" color="gray">Search budget left:</Text>
+                  {budget.global && (
+                    <Badge color={budget.global.remaining === 0 ? 'red' : 'gray'} variant="soft">
+                      All instances: {budget.global.remaining} of {budget.global.limit} / {budget.global.windowHours}h
+                    </Badge>
+                  )}
+                  {Object.entries(budget.instances).map(([instanceId, usage]) => (
+                    <Badge key={instanceId} color={usage.remaining === 0 ? 'red' : 'gray'} variant="soft">
+                      {getInstanceDisplayName(instanceId.split('-')[0], instanceId)}: {usage.remaining} of {usage.limit} / day
+                    </Badge>
+                  ))}
+                </Flex>
+              )}
             </>
           )}
         </Flex>
@@ -483,10 +451,9 @@ function Dashboard() {
                   <Select.Trigger style={{ minWidth: '110px' }} />
                   <Select.Content position="popper" sideOffset={5}>
                     <Select.Item value="all">All Apps</Select.Item>
-                    <Select.Item value="lidarr">Lidarr</Select.Item>
-                    <Select.Item value="radarr">Radarr</Select.Item>
-                    <Select.Item value="sonarr">Sonarr</Select.Item>
-                    <Select.Item value="readarr">Readarr</Select.Item>
+                    {APP_TYPES.map(app => (
+                      <Select.Item key={app} value={app}>{getAppInfo(app).name}</Select.Item>
+                    ))}
                   </Select.Content>
                 </Select.Root>
               </Flex>
@@ -535,7 +502,7 @@ function Dashboard() {
                         const instanceId = resolveInstanceId(search.application, search.instance);
                         const appName = getInstanceDisplayName(search.application, instanceId);
                         const itemsPreview = search.items.length > 0
-                          ? search.items.slice(0, 3).map((i: { id: number; title: string }) => i.title).join(', ') +
+                          ? search.items.slice(0, 3).map(formatSearchItemTitle).join(', ') +
                             (search.items.length > 3 ? ` +${search.items.length - 3} more` : '')
                           : 'No items';
 
@@ -607,7 +574,7 @@ function Dashboard() {
                                   <Text size="2" color="gray">No items recorded for this search.</Text>
                                 ) : (
                                   <Flex direction="column" gap="1">
-                                    {search.items.map((item: { id: number; title: string; externalId?: string; upgraded?: boolean }) => {
+                                    {search.items.map((item: { id: number; title: string; unit?: string; externalId?: string; upgraded?: boolean; outcome?: SearchItemOutcome }) => {
                                       const cfHistoryUrl = instanceId
                                         ? `/cf-history/${search.application}/${instanceId}/${item.id}?title=${encodeURIComponent(item.title)}${item.externalId ? `&externalId=${encodeURIComponent(item.externalId)}` : ''}`
                                         : null;
@@ -617,7 +584,7 @@ function Dashboard() {
                                         : null;
 
                                       return (
-                                        <Flex key={item.id} align="center" gap="2" style={{ padding: '0.2rem 0' }}>
+                                        <Flex key={`${item.id}-${item.unit ?? ''}`} align="center" gap="2" style={{ padding: '0.2rem 0' }}>
                                           {arrUrl && (
                                             <Tooltip content={`Open in ${search.application.charAt(0).toUpperCase() + search.application.slice(1)}`}>
                                               <IconButton
@@ -645,7 +612,7 @@ function Dashboard() {
                                                   whiteSpace: 'nowrap',
                                                 }}
                                               >
-                                                {item.title}
+                                                {formatSearchItemTitle(item)}
                                               </a>
                                               {item.upgraded && (
                                                 <Text size="1" style={{ color: 'var(--green-11)', lineHeight: 1, flexShrink: 0 }}>▲</Text>
@@ -653,12 +620,13 @@ function Dashboard() {
                                             </Flex>
                                           ) : (
                                             <Flex align="center" gap="1" style={{ flex: 1, minWidth: 0 }}>
-                                              <Text size="2" style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.title}</Text>
+                                              <Text size="2" style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{formatSearchItemTitle(item)}</Text>
                                               {item.upgraded && (
                                                 <Text size="1" style={{ color: 'var(--green-11)', lineHeight: 1, flexShrink: 0 }}>▲</Text>
                                               )}
                                             </Flex>
                                           )}
+                                          {item.outcome && <SearchOutcomeBadge outcome={item.outcome} />}
                                         </Flex>
                                       );
                                     })}
@@ -759,6 +727,22 @@ function Dashboard() {
     );
   };
 
+  // ─── Search Runs card ───────────────────────────────────────────────────────
+
+  const renderSearchRuns = (controls: ReactNode, collapsed: boolean) => (
+    <Box key="search-runs">
+      <SearchRunsCard headerActions={controls} collapsed={collapsed} />
+    </Box>
+  );
+
+  // ─── Upgrade Effectiveness card ─────────────────────────────────────────────
+
+  const renderUpgradeEffectiveness = (controls: ReactNode, collapsed: boolean) => (
+    <Box key="upgrade-effectiveness">
+      <UpgradeEffectivenessCard headerActions={controls} collapsed={collapsed} />
+    </Box>
+  );
+
   // ─── Render ─────────────────────────────────────────────────────────────────
 
   return (
@@ -805,6 +789,10 @@ function Dashboard() {
               return renderMediaLibrary(controls, cardConfig.collapsed);
             case 'recent-searches':
               return renderRecentSearches(controls, cardConfig.collapsed);
+            case 'search-runs':
+              return renderSearchRuns(controls, cardConfig.collapsed);
+            case 'upgrade-effectiveness':
+              return renderUpgradeEffectiveness(controls, cardConfig.collapsed);
             default:
               return null;
           }
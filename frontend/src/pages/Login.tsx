@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Flex, Heading, Card, Text, TextField, Button, Callout, Spinner } from '@radix-ui/themes';
+import { CrossCircledIcon } from '@radix-ui/react-icons';
+import { useQueryClient } from '@tanstack/react-query';
+import { MIN_PASSWORD_LENGTH } from '@scoutarr/shared';
+import { authService } from '../services/authService';
+import { getErrorMessage } from '../utils/helpers';
+
+interface LoginProps {
+  // No account exists yet, so the form creates one instead of signing in
+  setupRequired: boolean;
+}
+
+function Login({ setupRequired }: LoginProps) {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [setupToken, setSetupToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (setupRequired && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (setupRequired && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (setupRequired) {
+        await authService.setup(username, password, setupToken);
+      } else {
+        await authService.login(username, password);
+      }
+      // Drop anything cached while signed out before the app loads its data again
+      queryClient.removeQueries({ predicate: query => query.queryKey[0] !== 'auth-status' });
+      await queryClient.invalidateQueries({ queryKey: ['auth-status'] });
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Flex align="center" justify="center" minHeight="100vh" p="4">
+      <Card style={{ width: '100%', maxWidth: '380px' }}>
+        <form onSubmit={handleSubmit}>
+          <Flex direction="column" gap="3" p="4">
+            <Flex align="center" gap="3" justify="center" mb="2">
+              <img src="/headerlogo.png" alt="scoutarr" style={{ height: '2.5rem' }} />
+              <Heading size="7" m="0">scoutarr</Heading>
+            </Flex>
+            {setupRequired && (
+              <Text size="2" color="gray">
+                Create the account used to sign in to Scoutarr. The password is stored hashed in the config directory.
+                The setup token is printed in the Scoutarr log at startup.
+              </Text>
+            )}
+
+            {error && (
+              <Callout.Root color="red" size="1">
+                <Callout.Icon>
+                  <CrossCircledIcon />
+                </Callout.Icon>
+                <Callout.Text>{error}</Callout.Text>
+              </Callout.Root>
+            )}
+
+            {setupRequired && (
+              <Flex direction="column" gap="1">
+                <Text size="2" weight="medium">Setup Token</Text>
+                <TextField.Root
+                  autoFocus
+                  autoComplete="off"
+                  value={setupToken}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSetupToken(e.target.value)}
+                />
+              </Flex>
+            )}
+            <Flex direction="column" gap="1">
+              <Text size="2" weight="medium">Username</Text>
+              <TextField.Root
+                autoFocus={!setupRequired}
+                autoComplete="username"
+                value={username}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+              />
+            </Flex>
+            <Flex direction="column" gap="1">
+              <Text size="2" weight="medium">Password</Text>
+              <TextField.Root
+                type="password"
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              />
+            </Flex>
+            {setupRequired && (
+              <Flex direction="column" gap="1">
+                <Text size="2" weight="medium">Confirm Password</Text>
+                <TextField.Root
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                />
+              </Flex>
+            )}
+
+            <Button type="submit" mt="2" disabled={submitting || !username.trim() || !password || (setupRequired && !setupToken.trim())}>
+              {submitting ? (
+                <>
+                  <Spinner size="1" /> {setupRequired ? 'Creating account...' : 'Signing in...'}
+                </>
+              ) : (
+                setupRequired ? 'Create Account' : 'Sign In'
+              )}
+            </Button>
+          </Flex>
+        </form>
+      </Card>
+    </Flex>
+  );
+}
+
+export default Login;
@@ -19,7 +19,7 @@ import {
   Box,
   Switch
 } from '@radix-ui/themes';
-import { CheckIcon, CrossCircledIcon, PlusIcon, QuestionMarkCircledIcon } from '@radix-ui/react-icons';
+import { CheckIcon, CrossCircledIcon, LockClosedIcon, PlusIcon, QuestionMarkCircledIcon } from '@radix-ui/react-icons';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { showErrorToast, showSuccessToast } from '../utils/toast';
 import validator from 'validator';
@@ -30,19 +30,25 @@ import { getErrorMessage } from '../utils/helpers';
 import { AppType, APP_TYPES, MAX_INSTANCES_PER_APP, AUTO_RELOAD_DELAY_MS } from '../utils/constants';
 import { AppIcon } from '../components/icons/AppIcon';
 import { useNavigation } from '../contexts/NavigationContext';
+import { useEnvLock } from '../contexts/EnvLockContext';
 import { configService } from '../services/configService';
 import { schedulerService } from '../services/schedulerService';
 import { statsService } from '../services/statsService';
 import { notificationService } from '../services/notificationService';
 import { buildDefaultInstance, getAppInfo, getNextInstanceId, StarrInstanceConfig } from '../utils/appInfo';
 import { InstanceCard } from '../components/InstanceCard';
+import { IndexersTab } from '../components/IndexersTab';
+import { SecurityTab } from '../components/SecurityTab';
+import { BackupsTab } from '../components/BackupsTab';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { EnvLockIndicator } from '../components/EnvLockIndicator';
 
 const LazyTasksTab = lazy(() => import('../components/TasksTab').then(mod => ({ default: mod.TasksTab })));
 
 function Settings() {
   const queryClient = useQueryClient();
   const { handleNavigation: baseHandleNavigation, registerNavigationGuard, unregisterNavigationGuard } = useNavigation();
+  const { lockedFields: envLockedFields, isEnvLocked } = useEnvLock();
   const [config, setConfig] = useState<Config | null>(null);
   const [testResults, setTestResults] = useState<Record<string, { status: boolean | null; testing: boolean; version?: string; appName?: string }>>({});
   const [activeTab, setActiveTab] = useState<string>(() => {
@@ -556,12 +562,25 @@ function Settings() {
   return (
     <Box width="100%" pt="0" mt="0">
       <Flex direction="column" gap="3">
+        {envLockedFields.length > 0 && (
+          <Callout.Root color="amber" size="1">
+            <Callout.Icon>
+              <LockClosedIcon />
+            </Callout.Icon>
+            <Callout.Text>
+              Settings marked with a lock are set by environment variables and can't be changed here.
+            </Callout.Text>
+          </Callout.Root>
+        )}
         <Tabs.Root value={activeTab} onValueChange={handleTabChange}>
           <Flex align="center" justify="between" gap="3">
             <Tabs.List>
               <Tabs.Trigger value="applications">Applications</Tabs.Trigger>
               <Tabs.Trigger value="notifications">Notifications</Tabs.Trigger>
+              <Tabs.Trigger value="indexers">Indexers</Tabs.Trigger>
               <Tabs.Trigger value="tasks">Tasks</Tabs.Trigger>
+              <Tabs.Trigger value="security">Security</Tabs.Trigger>
+              <Tabs.Trigger value="backups">Backups</Tabs.Trigger>
               <Tabs.Trigger value="advanced">Advanced</Tabs.Trigger>
             </Tabs.List>
             <Flex gap="2" align="center">
@@ -596,30 +615,14 @@ function Settings() {
                   <Select.Root value={selectedAppType} onValueChange={(value: string) => setSelectedAppType(value as AppType)}>
                     <Select.Trigger style={{ minWidth: '120px' }} />
                     <Select.Content position="popper" sideOffset={5}>
-                      <Select.Item value="radarr">
-                        <Flex align="center" gap="2">
-                          <AppIcon app="radarr" size={16} variant="light" />
-                          Radarr
-                        </Flex>
-                      </Select.Item>
-                      <Select.Item value="sonarr">
-                        <Flex align="center" gap="2">
-                          <AppIcon app="sonarr" size={16} variant="light" />
-                          Sonarr
-                        </Flex>
-                      </Select.Item>
-                      <Select.Item value="lidarr">
-                        <Flex align="center" gap="2">
-                          <AppIcon app="lidarr" size={16} variant="light" />
-                          Lidarr
-                        </Flex>
-                      </Select.Item>
-                      <Select.Item value="readarr">
-                        <Flex align="center" gap="2">
-                          <AppIcon app="readarr" size={16} variant="light" />
-                          Readarr
-                        </Flex>
-                      </Select.Item>
+                      {APP_TYPES.map(app => (
+                        <Select.Item key={app} value={app}>
+                          <Flex align="center" gap="2">
+                            <AppIcon app={app} size={16} variant="light" />
+                            {getAppInfo(app).name}
+                          </Flex>
+                        </Select.Item>
+                      ))}
                     </Select.Content>
                   </Select.Root>
                 </Flex>
@@ -693,8 +696,10 @@ function Settings() {
                       <Tooltip content="Webhook URL where Discord notifications will be sent. Leave empty to disable.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path="notifications.discordWebhook" />
                     </Flex>
                     <TextField.Root
+                      disabled={isEnvLocked('notifications.discordWebhook')}
                       value={config.notifications.discordWebhook}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateNotificationConfig('discordWebhook', e.target.value)}
                     />
@@ -730,8 +735,10 @@ function Settings() {
                       <Tooltip content="Notifiarr passthrough webhook for notifications. Leave empty to disable.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path="notifications.notifiarrPassthroughWebhook" />
                     </Flex>
                     <TextField.Root
+                      disabled={isEnvLocked('notifications.notifiarrPassthroughWebhook')}
                       value={config.notifications.notifiarrPassthroughWebhook}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateNotificationConfig('notifiarrPassthroughWebhook', e.target.value)}
                     />
@@ -742,8 +749,10 @@ function Settings() {
                       <Tooltip content="Discord channel ID for Notifiarr notifications (17-19 digits). Required if a Notifiarr webhook is set.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path="notifications.notifiarrPassthroughDiscordChannelId" />
                     </Flex>
                     <TextField.Root
+                      disabled={isEnvLocked('notifications.notifiarrPassthroughDiscordChannelId')}
                       value={config.notifications.notifiarrPassthroughDiscordChannelId}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateNotificationConfig('notifiarrPassthroughDiscordChannelId', e.target.value)}
                     />
@@ -779,8 +788,10 @@ function Settings() {
                       <Tooltip content="Your Pushover user key for notifications. Leave empty to disable.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path="notifications.pushoverUserKey" />
                     </Flex>
                     <TextField.Root
+                      disabled={isEnvLocked('notifications.pushoverUserKey')}
                       value={config.notifications.pushoverUserKey}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateNotificationConfig('pushoverUserKey', e.target.value)}
                     />
@@ -791,8 +802,10 @@ function Settings() {
                       <Tooltip content="Your Pushover application API token. Required if a Pushover user key is set.">
                         <QuestionMarkCircledIcon style={{ cursor: 'help', color: 'var(--gray-9)', width: '14px', height: '14px' }} />
                       </Tooltip>
+                      <EnvLockIndicator path="notifications.pushoverApiToken" />
                     </Flex>
                     <TextField.Root
+                      disabled={isEnvLocked('notifications.pushoverApiToken')}
                       value={config.notifications.pushoverApiToken}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateNotificationConfig('pushoverApiToken', e.target.value)}
                     />
@@ -802,6 +815,10 @@ function Settings() {
             </Flex>
           </Tabs.Content>
 
+          <Tabs.Content value="indexers" style={{ paddingTop: '1rem' }}>
+            <IndexersTab config={config} onConfigChange={setConfig} />
+          </Tabs.Content>
+
           <Tabs.Content value="tasks">
             <Suspense fallback={(
               <Flex align="center" justify="center" gap="2" style={{ padding: '1rem' }}>
@@ -821,6 +838,14 @@ function Settings() {
             </Suspense>
           </Tabs.Content>
 
+          <Tabs.Content value="security" style={{ paddingTop: '1rem' }}>
+            {config && <SecurityTab config={config} onConfigChange={setConfig} />}
+          </Tabs.Content>
+
+          <Tabs.Content value="backups" style={{ paddingTop: '1rem' }}>
+            {config && <BackupsTab config={config} onConfigChange={setConfig} />}
+          </Tabs.Content>
+
           <Tabs.Content value="advanced" style={{ paddingTop: '1rem' }}>
             <Card>
               <Flex direction="column" gap="4" p="4">
@@ -858,6 +883,7 @@ function Settings() {
                   </Text>
                   <Flex align="center" gap="2">
                     <Switch
+                      disabled={isEnvLocked('scheduler.unattended')}
                       checked={config?.scheduler?.unattended ?? false}
                       onCheckedChange={(checked) => {
                         if (!config) return;
@@ -870,6 +896,7 @@ function Settings() {
                       }}
                     />
                     <Text size="2">{config?.scheduler?.unattended ? 'Enabled' : 'Disabled'}</Text>
+                    <EnvLockIndicator path="scheduler.unattended" />
                   </Flex>
                 </Flex>
 
@@ -11,12 +11,28 @@ const apiClient = axios.create({
   },
 });
 
+const unauthorizedListeners = new Set<() => void>();
+
+/**
+ * Subscribe to requests rejected for lack of a session, e.g. to show the login page once a session expires
+ */
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => unauthorizedListeners.delete(listener);
+}
+
 /**
  * Response interceptor for global error handling
  */
 apiClient.interceptors.response.use(
   (response) => response,
   (error: AxiosError<{ message?: string; error?: string }>) => {
+    // Signed out: the login page takes over, so there's nothing to toast
+    if (error.response?.status === 401 && !error.config?.url?.startsWith('/auth/')) {
+      unauthorizedListeners.forEach(listener => listener());
+      return Promise.reject(error);
+    }
+
     // Extract error message from response or use default
     const errorMessage = 
       error.response?.data?.message || 
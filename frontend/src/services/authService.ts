@@ -0,0 +1,64 @@
+import apiClient from './apiClient';
+import type { AuthStatus } from '../types/api';
+
+/**
+ * Service for signing in and managing credentials
+ */
+export const authService = {
+  /**
+   * Fetch whether sign-in is required and who is signed in
+   */
+  async getStatus(): Promise<AuthStatus> {
+    const response = await apiClient.get<AuthStatus>('/auth/status');
+    return response.data;
+  },
+
+  /**
+   * Sign in with the local account
+   */
+  async login(username: string, password: string): Promise<void> {
+    await apiClient.post('/auth/login', { username, password }, {
+      headers: { 'X-Skip-Error-Toast': 'true' }
+    });
+  },
+
+  /**
+   * Create the local account on first start, signing in with it
+   * The setup token is printed in the backend log while no account exists.
+   */
+  async setup(username: string, password: string, setupToken: string): Promise<void> {
+    await apiClient.post('/auth/setup', { username, password, setupToken }, {
+      headers: { 'X-Skip-Error-Toast': 'true' }
+    });
+  },
+
+  /**
+   * Sign out of the current session
+   */
+  async logout(): Promise<void> {
+    await apiClient.post('/auth/logout');
+  },
+
+  /**
+   * Change the local account's password
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await apiClient.post('/auth/password', { currentPassword, newPassword });
+  },
+
+  /**
+   * Fetch the API key automation sends in the X-Api-Key header
+   */
+  async getApiKey(): Promise<string> {
+    const response = await apiClient.get<{ apiKey: string }>('/auth/api-key');
+    return response.data.apiKey;
+  },
+
+  /**
+   * Replace the API key
+   */
+  async regenerateApiKey(): Promise<string> {
+    const response = await apiClient.post<{ apiKey: string }>('/auth/api-key/regenerate');
+    return response.data.apiKey;
+  },
+};
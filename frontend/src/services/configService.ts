@@ -1,5 +1,6 @@
 import apiClient from './apiClient';
 import type { Config } from '../types/config';
+import type { ConfigBackup, ConfigDiffEntry, ConfigEnvOverrides, HistoryImportMode, ImportResult, IndexerCheck } from '../types/api';
 
 /**
  * Service for managing application configuration
@@ -13,6 +14,14 @@ export const configService = {
     return response.data;
   },
 
+  /**
+   * Fetch the config fields set by environment variables
+   */
+  async getEnvOverrides(): Promise<ConfigEnvOverrides> {
+    const response = await apiClient.get<ConfigEnvOverrides>('/config/env-overrides');
+    return response.data;
+  },
+
   /**
    * Update configuration
    */
@@ -20,6 +29,51 @@ export const configService = {
     await apiClient.put('/config', config);
   },
 
+  /**
+   * Fetch config backups, newest first
+   */
+  async getBackups(): Promise<ConfigBackup[]> {
+    const response = await apiClient.get<ConfigBackup[]>('/config/backups');
+    return response.data;
+  },
+
+  /**
+   * Fetch the differences between a backup and the current config
+   */
+  async getBackupDiff(id: string): Promise<ConfigDiffEntry[]> {
+    const response = await apiClient.get<ConfigDiffEntry[]>(`/config/backups/${id}/diff`);
+    return response.data;
+  },
+
+  /**
+   * Replace the config with a backup
+   */
+  async restoreBackup(id: string): Promise<void> {
+    await apiClient.post(`/config/backups/${id}/restore`);
+  },
+
+  /**
+   * Download the config and search history as one archive
+   */
+  async exportArchive(redactSecrets: boolean): Promise<Blob> {
+    const response = await apiClient.get<Blob>('/config/export', {
+      params: { redactSecrets },
+      responseType: 'blob'
+    });
+    return response.data;
+  },
+
+  /**
+   * Restore an archive made by exportArchive
+   */
+  async importArchive(file: File, mode: HistoryImportMode): Promise<ImportResult> {
+    const response = await apiClient.post<ImportResult>('/config/import', file, {
+      params: { mode },
+      headers: { 'Content-Type': 'application/octet-stream' }
+    });
+    return response.data;
+  },
+
   /**
    * Reset application instance (clear tags/quality profiles)
    */
@@ -54,6 +108,17 @@ export const configService = {
     return response.data;
   },
 
+  /**
+   * Fetch tag names defined on an instance (live from the *arr API)
+   */
+  async getTags(app: string, instanceId: string): Promise<string[]> {
+    const response = await apiClient.get<string[]>(`/config/tags/${app}/${instanceId}`, {
+      // Unsaved or unreachable instances are expected here; the picker shows its own hint
+      headers: { 'X-Skip-Error-Toast': 'true' }
+    });
+    return response.data;
+  },
+
   /**
    * Test connection to an instance
    */
@@ -71,4 +136,21 @@ export const configService = {
     }>(`/config/test/${app}`, { url, apiKey, instanceId });
     return response.data;
   },
+
+  /**
+   * Test the Prowlarr connection and fetch current indexer availability
+   */
+  async testProwlarr(
+    url: string,
+    apiKey: string
+  ): Promise<{ success?: boolean; version?: string; indexers?: IndexerCheck; error?: string; message?: string }> {
+    const response = await apiClient.post<{
+      success?: boolean;
+      version?: string;
+      indexers?: IndexerCheck;
+      error?: string;
+      message?: string;
+    }>('/config/prowlarr/test', { url, apiKey });
+    return response.data;
+  },
 };
@@ -0,0 +1,23 @@
+import apiClient from './apiClient';
+import type { SearchRun, SearchRunsResponse } from '../types/api';
+
+/**
+ * Service for search run history
+ */
+export const runsService = {
+  /**
+   * Fetch a page of search runs, newest first
+   */
+  async getRuns(page: number, pageSize: number): Promise<SearchRunsResponse> {
+    const response = await apiClient.get<SearchRunsResponse>('/runs', { params: { page, pageSize } });
+    return response.data;
+  },
+
+  /**
+   * Fetch a single search run with its per-instance breakdown
+   */
+  async getRun(id: string): Promise<SearchRun> {
+    const response = await apiClient.get<SearchRun>(`/runs/${id}`);
+    return response.data;
+  },
+};
@@ -1,5 +1,5 @@
 import apiClient from './apiClient';
-import type { SchedulerStatus, SyncSchedulerStatus } from '../types/api';
+import type { SchedulerStatus, SyncSchedulerStatus, SearchResults } from '../types/api';
 
 /**
  * Service for managing scheduler operations
@@ -23,7 +23,15 @@ export const schedulerService = {
    * Manually trigger upgrade search
    */
   async runUpgradeSearch(): Promise<void> {
-    await apiClient.post('/search/run');
+    await apiClient.post('/search/run', { trigger: 'manual' });
+  },
+
+  /**
+   * Preview what an upgrade search would select without searching or tagging
+   */
+  async previewUpgradeSearch(): Promise<SearchResults> {
+    const response = await apiClient.post<SearchResults>('/search/run', { trigger: 'manual', dryRun: true });
+    return response.data;
   },
 
   /**
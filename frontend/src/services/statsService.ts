@@ -1,5 +1,5 @@
 import apiClient from './apiClient';
-import type { Stats } from '../types/api';
+import type { Stats, SearchBudgetStatus, UpgradeEffectivenessReport } from '../types/api';
 
 /**
  * Service for managing statistics
@@ -13,6 +13,22 @@ export const statsService = {
     return response.data;
   },
 
+  /**
+   * Fetch remaining global and per-instance search budgets
+   */
+  async getSearchBudget(): Promise<SearchBudgetStatus> {
+    const response = await apiClient.get<SearchBudgetStatus>('/status/budget');
+    return response.data;
+  },
+
+  /**
+   * Fetch upgrade rates for searches made within the last `days` days
+   */
+  async getUpgradeEffectiveness(days: number): Promise<UpgradeEffectivenessReport> {
+    const response = await apiClient.get<UpgradeEffectivenessReport>('/stats/upgrades', { params: { days } });
+    return response.data;
+  },
+
   /**
    * Clear all statistics data
    */
@@ -7,4 +7,21 @@ export type {
   Stats,
   SchedulerStatus,
   SyncSchedulerStatus,
+  SearchRun,
+  SearchRunInstanceOutcome,
+  SearchRunsResponse,
+  SearchResults,
+  FilterBreakdown,
+  IndexerCheck,
+  SearchBudgetStatus,
+  SearchItemOutcome,
+  UpgradeEffectivenessGroup,
+  UpgradeEffectivenessReport,
+  UpgradeRecord,
+  AuthStatus,
+  ConfigEnvOverrides,
+  ConfigBackup,
+  ConfigDiffEntry,
+  HistoryImportMode,
+  ImportResult,
 } from '@scoutarr/shared';
@@ -1,5 +1,5 @@
 /**
  * Re-export configuration types from shared package
  */
-export type { Config, RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance } from '@scoutarr/shared';
+export type { Config, RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance, WhisparrInstance, SelectionStrategy, AuthConfig, ConfigBackupsConfig } from '@scoutarr/shared';
 
@@ -1,5 +1,6 @@
+import { APP_DEFINITIONS } from '@scoutarr/shared';
 import type { AppType } from './constants';
-import type { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance, StarrInstanceConfig } from '@scoutarr/shared';
+import type { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance, WhisparrInstance, StarrInstanceConfig } from '@scoutarr/shared';
 
 export type { StarrInstanceConfig };
 
@@ -19,19 +20,15 @@ type BaseInstanceConfig = {
   enabled: boolean;
 };
 
-export const APP_BADGE_COLORS: Record<AppType, 'cyan' | 'green' | 'red' | 'yellow'> = {
+export const APP_BADGE_COLORS: Record<AppType, 'cyan' | 'green' | 'red' | 'yellow' | 'pink'> = {
   sonarr: 'cyan',
   lidarr: 'green',
   readarr: 'red',
   radarr: 'yellow',
+  whisparr: 'pink',
 };
 
-export const APP_INFO: Record<AppType, { name: string; mediaType: string; mediaTypePlural: string; defaultPort: string }> = {
-  radarr: { name: 'Radarr', mediaType: 'Movies', mediaTypePlural: 'movies', defaultPort: '7878' },
-  sonarr: { name: 'Sonarr', mediaType: 'Series', mediaTypePlural: 'series', defaultPort: '8989' },
-  lidarr: { name: 'Lidarr', mediaType: 'Artists', mediaTypePlural: 'artists', defaultPort: '8686' },
-  readarr: { name: 'Readarr', mediaType: 'Authors', mediaTypePlural: 'authors', defaultPort: '8787' },
-};
+export const APP_INFO: Record<AppType, { name: string; mediaType: string; mediaTypePlural: string; defaultPort: string }> = APP_DEFINITIONS;
 
 export const getAppInfo = (appType: AppType) => APP_INFO[appType];
 
@@ -71,6 +68,8 @@ export const buildDefaultInstance = (app: AppType, instanceId: number): StarrIns
       return { ...baseConfig, seriesStatus: '', hideSpecials: false } as SonarrInstance;
     case 'lidarr':
       return { ...baseConfig, artistStatus: '' } as LidarrInstance;
+    case 'whisparr':
+      return { ...baseConfig, movieStatus: 'any' } as WhisparrInstance;
     case 'readarr':
     default:
       return { ...baseConfig, authorStatus: '' } as ReadarrInstance;
@@ -67,6 +67,7 @@ export function buildArrUrl(appType: string, instanceUrl: string, externalId: st
     case 'sonarr': return `${base}/series/${externalId}`;
     case 'lidarr': return `${base}/artist/${externalId}`;
     case 'readarr': return `${base}/author/${externalId}`;
+    case 'whisparr': return `${base}/movie/${externalId}`;
     default: return base;
   }
 }
@@ -80,3 +81,36 @@ export const formatSchedulerDuration = (milliseconds: number): string => {
     serialComma: false,
   }) || 'less than a minute';
 };
+
+/**
+ * Format a searched item's title with the unit that was searched
+ * Examples: "Breaking Bad", "Breaking Bad S03", "Breaking Bad S03E05"
+ */
+export const formatSearchItemTitle = (item: { title: string; unit?: string }): string =>
+  item.unit ? `${item.title} ${item.unit}` : item.title;
+
+/**
+ * Format a search run duration
+ * Examples: "45 seconds", "2 minutes, 10 seconds"
+ */
+export const formatRunDuration = (milliseconds: number): string => {
+  if (milliseconds < 1000) return 'under a second';
+  return humanizeDuration(milliseconds, {
+    units: ['h', 'm', 's'],
+    round: true,
+    largest: 2
+  });
+};
+
+/**
+ * Format the time between a search and the upgrade it led to
+ * Examples: "under an hour", "5 hours", "2 days, 3 hours"
+ */
+export const formatTimeToUpgrade = (hours: number): string => {
+  if (hours < 1) return 'under an hour';
+  return humanizeDuration(hours * 60 * 60 * 1000, {
+    units: ['d', 'h'],
+    round: true,
+    largest: 2
+  });
+};
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import validator from 'validator';
 import { CronExpressionParser } from 'cron-parser';
+import { APP_DEFINITIONS, CONFIG_VERSION, SECRET_PLACEHOLDER, SECRET_REFERENCE_PATTERN, SELECTION_STRATEGIES, SEARCH_GRANULARITIES, LIDARR_SEARCH_GRANULARITIES, READARR_SEARCH_GRANULARITIES } from '../types/constants.js';
 
 const validateCronExpression = (cron: string) => {
   try {
@@ -11,6 +12,9 @@ const validateCronExpression = (cron: string) => {
   }
 };
 
+// Masked or referenced secrets are resolved server-side, so they skip the format checks below
+const isMaskedOrReference = (val: string) => val === SECRET_PLACEHOLDER || SECRET_REFERENCE_PATTERN.test(val);
+
 // Reusable URL validation
 const urlValidation = z.string().refine((val) => {
   if (val === '') return true;
@@ -21,10 +25,22 @@ const urlValidation = z.string().refine((val) => {
 
 // Reusable API key validation
 const apiKeyValidation = z.string().refine(
-  (val) => val === '' || val.length >= 32,
+  (val) => val === '' || isMaskedOrReference(val) || val.length >= 32,
   { message: 'API key must be at least 32 characters when provided' }
 );
 
+// Webhook URLs carry their token, so they are treated as secrets too
+const secretUrlValidation = (message: string) => z.string().refine(
+  (val) => val === '' || isMaskedOrReference(val) || z.string().url().safeParse(val).success,
+  { message }
+);
+
+// Optional per-instance cron schedule; empty string falls back to the global schedule
+const instanceScheduleValidation = z.string().refine(
+  (val) => val === '' || validateCronExpression(val),
+  { message: 'Invalid cron expression' }
+);
+
 // Explicit app-specific schemas keep literal keys to avoid widening to an index signature
 export const radarrInstanceSchema = z.object({
   id: z.string(),
@@ -35,11 +51,24 @@ export const radarrInstanceSchema = z.object({
   count: z.union([z.number().int().positive(), z.literal('max')]),
   tagName: z.string().min(1, 'Tag name is required'),
   ignoreTag: z.string(),
+  includeTags: z.array(z.string()).optional(),
+  includeTagsMode: z.enum(['any', 'all'] as const).optional(),
+  excludeTags: z.array(z.string()).optional(),
   monitored: z.boolean(),
-  movieStatus: z.enum(['announced', 'in cinemas', 'released', 'any'] as const),
+  movieStatus: z.enum(APP_DEFINITIONS.radarr.statuses),
   qualityProfileName: z.string(),
+  qualityProfileIds: z.array(z.number().int()).optional(),
   enabled: z.boolean().optional(),
   missingOnly: z.boolean().optional(),
+  cutoffUnmetOnly: z.boolean().optional(),
+  minImportAgeDays: z.number().int().nonnegative().optional(),
+  minAddedAgeDays: z.number().int().nonnegative().optional(),
+  searchCooldownDays: z.number().int().nonnegative().optional(),
+  dailySearchLimit: z.number().int().positive().optional(),
+  schedule: instanceScheduleValidation.optional(),
+  unattended: z.boolean().optional(),
+  selectionStrategy: z.enum(SELECTION_STRATEGIES).optional(),
+  webhookSecret: z.string().optional(),
 });
 
 export const sonarrInstanceSchema = z.object({
@@ -51,12 +80,26 @@ export const sonarrInstanceSchema = z.object({
   count: z.union([z.number().int().positive(), z.literal('max')]),
   tagName: z.string().min(1, 'Tag name is required'),
   ignoreTag: z.string(),
+  includeTags: z.array(z.string()).optional(),
+  includeTagsMode: z.enum(['any', 'all'] as const).optional(),
+  excludeTags: z.array(z.string()).optional(),
   monitored: z.boolean(),
-  seriesStatus: z.enum(['continuing', 'upcoming', 'ended', ''] as const),
+  seriesStatus: z.enum(APP_DEFINITIONS.sonarr.statuses),
   qualityProfileName: z.string(),
+  qualityProfileIds: z.array(z.number().int()).optional(),
   enabled: z.boolean().optional(),
   hideSpecials: z.boolean().optional(),
+  searchGranularity: z.enum(SEARCH_GRANULARITIES).optional(),
   missingOnly: z.boolean().optional(),
+  cutoffUnmetOnly: z.boolean().optional(),
+  minImportAgeDays: z.number().int().nonnegative().optional(),
+  minAddedAgeDays: z.number().int().nonnegative().optional(),
+  searchCooldownDays: z.number().int().nonnegative().optional(),
+  dailySearchLimit: z.number().int().positive().optional(),
+  schedule: instanceScheduleValidation.optional(),
+  unattended: z.boolean().optional(),
+  selectionStrategy: z.enum(SELECTION_STRATEGIES).optional(),
+  webhookSecret: z.string().optional(),
 });
 
 export const lidarrInstanceSchema = z.object({
@@ -68,11 +111,25 @@ export const lidarrInstanceSchema = z.object({
   count: z.union([z.number().int().positive(), z.literal('max')]),
   tagName: z.string().min(1, 'Tag name is required'),
   ignoreTag: z.string(),
+  includeTags: z.array(z.string()).optional(),
+  includeTagsMode: z.enum(['any', 'all'] as const).optional(),
+  excludeTags: z.array(z.string()).optional(),
   monitored: z.boolean(),
-  artistStatus: z.enum(['continuing', 'ended', ''] as const),
+  artistStatus: z.enum(APP_DEFINITIONS.lidarr.statuses),
+  searchGranularity: z.enum(LIDARR_SEARCH_GRANULARITIES).optional(),
   qualityProfileName: z.string(),
+  qualityProfileIds: z.array(z.number().int()).optional(),
   enabled: z.boolean().optional(),
   missingOnly: z.boolean().optional(),
+  cutoffUnmetOnly: z.boolean().optional(),
+  minImportAgeDays: z.number().int().nonnegative().optional(),
+  minAddedAgeDays: z.number().int().nonnegative().optional(),
+  searchCooldownDays: z.number().int().nonnegative().optional(),
+  dailySearchLimit: z.number().int().positive().optional(),
+  schedule: instanceScheduleValidation.optional(),
+  unattended: z.boolean().optional(),
+  selectionStrategy: z.enum(SELECTION_STRATEGIES).optional(),
+  webhookSecret: z.string().optional(),
 });
 
 export const readarrInstanceSchema = z.object({
@@ -84,16 +141,35 @@ export const readarrInstanceSchema = z.object({
   count: z.union([z.number().int().positive(), z.literal('max')]),
   tagName: z.string().min(1, 'Tag name is required'),
   ignoreTag: z.string(),
+  includeTags: z.array(z.string()).optional(),
+  includeTagsMode: z.enum(['any', 'all'] as const).optional(),
+  excludeTags: z.array(z.string()).optional(),
   monitored: z.boolean(),
-  authorStatus: z.enum(['continuing', 'ended', ''] as const),
+  authorStatus: z.enum(APP_DEFINITIONS.readarr.statuses),
+  searchGranularity: z.enum(READARR_SEARCH_GRANULARITIES).optional(),
   qualityProfileName: z.string(),
+  qualityProfileIds: z.array(z.number().int()).optional(),
   enabled: z.boolean().optional(),
   missingOnly: z.boolean().optional(),
+  cutoffUnmetOnly: z.boolean().optional(),
+  minImportAgeDays: z.number().int().nonnegative().optional(),
+  minAddedAgeDays: z.number().int().nonnegative().optional(),
+  searchCooldownDays: z.number().int().nonnegative().optional(),
+  dailySearchLimit: z.number().int().positive().optional(),
+  schedule: instanceScheduleValidation.optional(),
+  unattended: z.boolean().optional(),
+  selectionStrategy: z.enum(SELECTION_STRATEGIES).optional(),
+  webhookSecret: z.string().optional(),
+});
+
+// Whisparr v3 instances are configured like Radarr ones
+export const whisparrInstanceSchema = radarrInstanceSchema.extend({
+  movieStatus: z.enum(APP_DEFINITIONS.whisparr.statuses),
 });
 
 export const notificationConfigSchema = z.object({
-  discordWebhook: z.string().url('Invalid Discord webhook URL').or(z.literal('')),
-  notifiarrPassthroughWebhook: z.string().url('Invalid webhook URL').or(z.literal('')),
+  discordWebhook: secretUrlValidation('Invalid Discord webhook URL'),
+  notifiarrPassthroughWebhook: secretUrlValidation('Invalid webhook URL'),
   notifiarrPassthroughDiscordChannelId: z.string().default(''),
   pushoverUserKey: z.string().default(''),
   pushoverApiToken: z.string().default(''),
@@ -108,16 +184,88 @@ export const schedulerConfigSchema = z.object({
 export const tasksConfigSchema = z.object({
   syncSchedule: z.string().refine(validateCronExpression, 'Invalid cron expression'),
   syncEnabled: z.boolean(),
+  // Scheduled syncs only refetch what changed, with a full resync once this many hours have passed; 0 always runs full
+  fullSyncIntervalHours: z.number().int().min(0).max(720).default(24),
+});
+
+// Rolling-window cap on searches across all instances; maxSearches 0 means no cap
+export const searchBudgetConfigSchema = z.object({
+  maxSearches: z.number().int().nonnegative().default(0),
+  windowHours: z.number().int().min(1).max(168).default(24),
+});
+
+// Pacing for search commands sent to the *arr apps, so large runs don't flood their command queues
+export const searchDispatchConfigSchema = z.object({
+  commandDelaySeconds: z.number().int().min(0).max(300).default(2),
+  // Wait while an instance already has this many searches queued or running; 0 disables the check
+  maxQueuedSearches: z.number().int().min(0).max(100).default(3),
+  // Most IDs sent in one batch search command (e.g. Radarr's MoviesSearch)
+  batchSize: z.number().int().min(1).max(1000).default(50),
+  // Instances searched or synced at the same time
+  instanceConcurrency: z.number().int().min(1).max(10).default(2),
+});
+
+export const prowlarrConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  url: z.string().url('Invalid Prowlarr URL').or(z.literal('')).default(''),
+  apiKey: z.string().default(''),
+  // Percentage of an indexer's query limit after which it counts as exhausted
+  queryLimitThreshold: z.number().int().min(1).max(100).default(90),
+});
+
+export const authConfigSchema = z.object({
+  // Off leaves the web UI and API open, for installs only reachable from a trusted network
+  enabled: z.boolean().default(true),
+  // Header a reverse proxy's forward auth sets to the signed-in user (e.g. Remote-User); empty ignores it
+  forwardAuthHeader: z.string().default(''),
+  // Addresses the forward auth header is trusted from; while empty, the header is ignored
+  trustedProxies: z.array(z.string()).default([]),
+  sessionDays: z.number().int().min(1).max(365).default(30),
+});
+
+// Copies of config.json kept in config/backups before every change
+export const configBackupsSchema = z.object({
+  // Newest backups kept; older ones are deleted
+  retention: z.number().int().min(1).max(100).default(20),
 });
 
 export const configSchema = z.object({
+  // Files without a version predate versioning and are migrated from version 0
+  version: z.number().int().nonnegative().default(CONFIG_VERSION),
   applications: z.object({
     radarr: z.array(radarrInstanceSchema),
     sonarr: z.array(sonarrInstanceSchema),
     lidarr: z.array(lidarrInstanceSchema),
     readarr: z.array(readarrInstanceSchema),
+    // Defaults so configs saved before Whisparr support still load
+    whisparr: z.array(whisparrInstanceSchema).default([]),
   }),
   notifications: notificationConfigSchema,
   scheduler: schedulerConfigSchema,
   tasks: tasksConfigSchema,
+  budget: searchBudgetConfigSchema.default({ maxSearches: 0, windowHours: 24 }),
+  dispatch: searchDispatchConfigSchema.default({ commandDelaySeconds: 2, maxQueuedSearches: 3, batchSize: 50, instanceConcurrency: 2 }),
+  prowlarr: prowlarrConfigSchema.default({ enabled: false, url: '', apiKey: '', queryLimitThreshold: 90 }),
+  auth: authConfigSchema.default({ enabled: true, forwardAuthHeader: '', trustedProxies: [], sessionDays: 30 }),
+  backups: configBackupsSchema.default({ retention: 20 }),
 });
+
+/**
+ * Schema of a single config field by path, e.g. ['applications', 'radarr', 0, 'url']; undefined for unknown paths
+ */
+export function getConfigFieldSchema(path: Array<string | number>): z.ZodType | undefined {
+  let current: z.ZodType = configSchema;
+  for (const segment of path) {
+    while (current instanceof z.ZodDefault || current instanceof z.ZodOptional) {
+      current = current.unwrap() as z.ZodType;
+    }
+    if (current instanceof z.ZodObject && typeof segment === 'string' && segment in current.shape) {
+      current = current.shape[segment] as z.ZodType;
+    } else if (current instanceof z.ZodArray && typeof segment === 'number') {
+      current = current.element as z.ZodType;
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Rows as stored in the stats database, so an archive can be restored without translating columns
+
+export const historyRowSchema = z.object({
+  id: z.number().int(),
+  timestamp: z.string(),
+  application: z.string(),
+  instance: z.string().nullable(),
+  count: z.number().int(),
+  items: z.string(), // JSON array of searched items
+  instance_id: z.string().nullable(),
+  run_id: z.string().nullable(),
+  selection_strategy: z.string().nullable(),
+});
+
+export const instanceRowSchema = z.object({
+  instance_id: z.string(),
+  application: z.string(),
+  display_name: z.string().nullable(),
+  scoutarr_tags: z.string().nullable(),
+  ignore_tags: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_sync_at: z.string().nullable(),
+  last_full_sync_at: z.string().nullable(),
+  last_sync_report: z.string().nullable(),
+});
+
+export const cfScoreHistoryRowSchema = z.object({
+  id: z.number().int(),
+  instance_id: z.string(),
+  media_id: z.number().int(),
+  score: z.number().int().nullable(),
+  recorded_at: z.string(),
+});
+
+export const runRowSchema = z.object({
+  id: z.string(),
+  trigger: z.string(),
+  status: z.string(),
+  started_at: z.string(),
+  finished_at: z.string().nullable(),
+  total_searched: z.number().int(),
+  error: z.string().nullable(),
+  instances: z.string(), // JSON array of per-instance outcomes
+});
+
+export const upgradeRowSchema = z.object({
+  id: z.number().int(),
+  instance_id: z.string(),
+  media_id: z.number().int(),
+  title: z.string(),
+  history_id: z.number().int(),
+  search_item_id: z.number().int(),
+  run_id: z.string().nullable(),
+  selection_strategy: z.string().nullable(),
+  quality_profile_id: z.number().int().nullable(),
+  searched_at: z.string(),
+  upgraded_at: z.string(),
+  previous_score: z.number().int().nullable(),
+  new_score: z.number().int().nullable(),
+  previous_quality: z.string().nullable(),
+  new_quality: z.string().nullable(),
+});
+
+export const exportTablesSchema = z.object({
+  instances: z.array(instanceRowSchema),
+  history: z.array(historyRowSchema),
+  cf_score_history: z.array(cfScoreHistoryRowSchema),
+  runs: z.array(runRowSchema),
+  upgrades: z.array(upgradeRowSchema),
+});
+
+/**
+ * A Scoutarr export: the config plus search history and instance metadata from the stats database
+ * The config is checked separately against configSchema once it has been migrated to the current version.
+ */
+export const exportArchiveSchema = z.object({
+  format: z.literal('scoutarr-export'),
+  formatVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  secretsRedacted: z.boolean(),
+  config: z.record(z.string(), z.unknown()),
+  tables: exportTablesSchema,
+});
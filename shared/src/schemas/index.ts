@@ -2,3 +2,4 @@
  * Barrel export for all schemas
  */
 export * from './config.js';
+export * from './export.js';
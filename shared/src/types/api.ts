@@ -3,28 +3,103 @@
  * Centralized type definitions for API responses
  */
 
+export interface SearchCounts {
+  total: number;
+  filtered: number;
+  selected: number;
+}
+
+/**
+ * Number of items each filter removed, keyed by filter name
+ */
+export type FilterBreakdown = Record<string, number>;
+
+/**
+ * What came of searching an item, read from the *arr command and its grab history once the search finishes
+ */
+export type SearchItemOutcome = 'grabbed' | 'nothingFound' | 'failed' | 'timedOut' | 'unknown';
+
 export interface SearchResult {
   success: boolean;
   searched: number;
-  items: Array<{ id: number; title: string }>;
+  // unit is the part of the item that was searched (e.g. "S03" or "S03E05" for Sonarr)
+  items: Array<{ id: number; title: string; unit?: string; outcome?: SearchItemOutcome }>;
   error?: string;
+  counts?: SearchCounts;
+  // Dry-run only: per-filter removals and items whose tag unattended mode would clear
+  filterBreakdown?: FilterBreakdown;
+  unattendedReset?: number;
+  // Set when the Prowlarr indexer check skipped the instance or reduced its count
+  skipReason?: string;
+  limitReason?: string;
 }
 
 export interface SearchResults {
   [key: string]: {
     success: boolean;
     searched?: number;
-    movies?: Array<{ id: number; title: string }>;
-    series?: Array<{ id: number; title: string }>;
-    artists?: Array<{ id: number; title: string }>;
-    authors?: Array<{ id: number; title: string }>;
-    items?: Array<{ id: number; title: string }>;
+    movies?: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>;
+    series?: Array<{ id: number; title: string; unit?: string; outcome?: SearchItemOutcome }>;
+    artists?: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>;
+    authors?: Array<{ id: number; title: string; outcome?: SearchItemOutcome }>;
+    items?: Array<{ id: number; title: string; unit?: string; outcome?: SearchItemOutcome }>;
     error?: string;
     instanceName?: string;
     instanceId?: string;
+    counts?: SearchCounts;
+    filterBreakdown?: FilterBreakdown;
+    unattendedReset?: number;
+    skipReason?: string;
+    limitReason?: string;
   };
 }
 
+/**
+ * Indexer availability as reported by Prowlarr
+ */
+export interface IndexerCheck {
+  total: number; // Enabled indexers
+  available: number; // Enabled indexers that are neither failing nor near their query limit
+  failing: string[];
+  limited: string[];
+  remainingQueries?: number; // Fewest queries any available, limited indexer has left before the threshold
+}
+
+export type SearchRunTrigger = 'scheduled' | 'manual' | 'api';
+
+export type SearchRunStatus = 'running' | 'success' | 'partial' | 'failed';
+
+export interface SearchRunInstanceOutcome {
+  instanceId: string;
+  instanceName?: string;
+  appType: string;
+  success: boolean;
+  searched: number;
+  counts?: SearchCounts;
+  items: Array<{ id: number; title: string; unit?: string; outcome?: SearchItemOutcome }>;
+  error?: string;
+  skipReason?: string;
+  limitReason?: string;
+}
+
+export interface SearchRun {
+  id: string;
+  trigger: SearchRunTrigger;
+  status: SearchRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  totalSearched: number;
+  error?: string;
+  instances: SearchRunInstanceOutcome[];
+}
+
+export interface SearchRunsResponse {
+  runs: SearchRun[];
+  total: number;
+  totalPages: number;
+}
+
 export interface InstanceStatus {
   connected: boolean;
   configured: boolean;
@@ -32,6 +107,20 @@ export interface InstanceStatus {
   appName?: string;
   error?: string;
   instanceName?: string;
+  // Set while the instance's circuit breaker is open after repeated API failures
+  degraded?: boolean;
+  degradedUntil?: string;
+  lastError?: string;
+}
+
+export interface InstanceSchedulerStatus {
+  appType: string;
+  instanceName?: string;
+  schedule: string | null;
+  source: 'instance' | 'global';
+  unattended: boolean;
+  running: boolean;
+  nextRun: string | null;
 }
 
 export interface SchedulerStatus {
@@ -39,18 +128,53 @@ export interface SchedulerStatus {
   running: boolean;
   schedule: string | null;
   nextRun: string | null;
+  instances?: Record<string, InstanceSchedulerStatus>;
+}
+
+/**
+ * What one media sync changed in an instance's cached library
+ */
+export interface MediaSyncReport {
+  mode: 'full' | 'incremental';
+  added: number;
+  changed: number;
+  removed: number;
+  total: number;
+  syncedAt: string;
+}
+
+export interface InstanceSyncReport extends MediaSyncReport {
+  appType: string;
+  instanceName?: string;
 }
 
 export interface SyncSchedulerStatus {
   enabled: boolean;
   schedule: string | null;
   nextRun: string | null;
+  lastSync?: Record<string, InstanceSyncReport>; // Keyed by instance ID
+}
+
+/**
+ * Searches used and left within a rolling window, counted from search history
+ */
+export interface SearchBudgetUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  windowHours: number;
+}
+
+export interface SearchBudgetStatus {
+  global?: SearchBudgetUsage; // Unset when no global budget is configured
+  instances: Record<string, SearchBudgetUsage>; // Keyed by instance ID, only instances with a daily limit
 }
 
 export interface StatusResponse {
   scheduler?: SchedulerStatus;
   sync?: SyncSchedulerStatus;
-  [key: string]: InstanceStatus | SchedulerStatus | SyncSchedulerStatus | undefined;
+  budget?: SearchBudgetStatus;
+  [key: string]: InstanceStatus | SchedulerStatus | SyncSchedulerStatus | SearchBudgetStatus | undefined;
 }
 
 export interface Stats {
@@ -62,7 +186,7 @@ export interface Stats {
     application: string;
     instance?: string;
     count: number;
-    items: Array<{ id: number; title: string; externalId?: string; upgraded?: boolean }>;
+    items: Array<{ id: number; title: string; unit?: string; externalId?: string; upgraded?: boolean; outcome?: SearchItemOutcome }>;
   }>;
   lastSearch?: string;
   totalUpgrades: number;
@@ -80,6 +204,8 @@ export interface MediaLibraryItem {
   dateImported?: string;
   customFormatScore?: number;
   previousCfScore?: number | null;
+  cutoffFormatScore?: number;
+  belowCutoff?: boolean;
   hasFile?: boolean;
   seriesId?: number;
   seriesTitle?: string;
@@ -119,3 +245,106 @@ export interface CfScoreHistoryResponse {
   mediaId: number;
   history: CfScoreHistoryEntry[];
 }
+
+/**
+ * A file change in an instance that followed a Scoutarr search of the item
+ */
+export interface UpgradeRecord {
+  instanceId: string;
+  instanceName?: string;
+  appType?: string;
+  mediaId: number;
+  title: string;
+  runId?: string;
+  selectionStrategy?: string;
+  searchedAt: string;
+  upgradedAt: string;
+  hoursToUpgrade: number;
+  previousScore: number | null; // null when the item had no file before
+  newScore: number | null;
+  previousQuality?: string;
+  newQuality?: string;
+}
+
+/**
+ * How many searched items went on to be upgraded within one instance, quality profile or selection strategy
+ */
+export interface UpgradeEffectivenessGroup {
+  key: string;
+  label: string;
+  searched: number;
+  upgraded: number;
+  rate: number; // upgraded / searched, 0-1
+  avgHoursToUpgrade?: number;
+  avgScoreGain?: number;
+}
+
+export interface UpgradeEffectivenessReport {
+  days: number;
+  searched: number;
+  upgraded: number;
+  byInstance: UpgradeEffectivenessGroup[];
+  byProfile: UpgradeEffectivenessGroup[];
+  byStrategy: UpgradeEffectivenessGroup[];
+  recentUpgrades: UpgradeRecord[];
+}
+
+/**
+ * Whether the web UI must sign in, and who the current request is signed in as
+ */
+export interface AuthStatus {
+  enabled: boolean;
+  setupRequired: boolean; // No local account has been created yet
+  authenticated: boolean;
+  username?: string;
+  method?: 'session' | 'apiKey' | 'forwardAuth';
+}
+
+/**
+ * Config fields set by SCOUTARR__ environment variables, which the Settings UI shows read-only
+ * Paths are dot-separated with instances addressed by ID, e.g. applications.radarr.radarr-1.url
+ */
+export interface ConfigEnvOverrides {
+  fields: string[];
+}
+
+/**
+ * Why a config backup was taken; the backup holds the config as it was just before
+ */
+export type ConfigBackupReason = 'save' | 'reset' | 'migration' | 'restore' | 'import';
+
+export interface ConfigBackup {
+  id: string;
+  createdAt: string;
+  reason: ConfigBackupReason;
+  version: number | null; // null when the backup can't be parsed
+  size: number;
+}
+
+/**
+ * One field that differs between a backup and the current config; a missing side means the field is absent there
+ * Instances are addressed by ID, e.g. applications.radarr.radarr-1.count
+ */
+export interface ConfigDiffEntry {
+  path: string;
+  backup?: unknown;
+  current?: unknown;
+}
+
+/**
+ * How imported search history combines with what the database already holds:
+ * merge adds the rows it doesn't have yet, replace clears history first
+ */
+export type HistoryImportMode = 'merge' | 'replace';
+
+/**
+ * Rows added per table by an import
+ */
+export interface ImportResult {
+  secretsRedacted: boolean; // Redacted secrets kept the values already saved here, or were left empty
+  instances: number;
+  history: number;
+  cfScoreHistory: number;
+  runs: number;
+  upgrades: number;
+}
@@ -8,6 +8,12 @@ import {
   sonarrInstanceSchema,
   lidarrInstanceSchema,
   readarrInstanceSchema,
+  whisparrInstanceSchema,
+  prowlarrConfigSchema,
+  authConfigSchema,
+  configBackupsSchema,
+  searchBudgetConfigSchema,
+  searchDispatchConfigSchema,
   notificationConfigSchema,
   schedulerConfigSchema,
   tasksConfigSchema,
@@ -20,8 +26,14 @@ export type RadarrInstance = z.infer<typeof radarrInstanceSchema>;
 export type SonarrInstance = z.infer<typeof sonarrInstanceSchema>;
 export type LidarrInstance = z.infer<typeof lidarrInstanceSchema>;
 export type ReadarrInstance = z.infer<typeof readarrInstanceSchema>;
+export type WhisparrInstance = z.infer<typeof whisparrInstanceSchema>;
 
 export type SchedulerConfig = z.infer<typeof schedulerConfigSchema>;
 export type TasksConfig = z.infer<typeof tasksConfigSchema>;
+export type ProwlarrConfig = z.infer<typeof prowlarrConfigSchema>;
+export type SearchBudgetConfig = z.infer<typeof searchBudgetConfigSchema>;
+export type SearchDispatchConfig = z.infer<typeof searchDispatchConfigSchema>;
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+export type ConfigBackupsConfig = z.infer<typeof configBackupsSchema>;
 
 export type Config = z.infer<typeof configSchema>;
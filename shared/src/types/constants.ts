@@ -1,5 +1,121 @@
 /**
  * Application type constants shared across backend and frontend
  */
-export const APP_TYPES = ['radarr', 'sonarr', 'lidarr', 'readarr'] as const;
+export const APP_TYPES = ['radarr', 'sonarr', 'lidarr', 'readarr', 'whisparr'] as const;
 export type AppType = typeof APP_TYPES[number];
+
+/**
+ * What an app type declares outside its service: labels, API version, result key and status filter.
+ * Adding an app type means listing it in APP_TYPES, declaring it here, giving it an instance schema
+ * and registering its service in the backend service registry.
+ */
+export interface AppDefinition {
+  name: string; // Display name, also the appName the app reports from /system/status
+  apiVersion: 'v1' | 'v3';
+  mediaTypeKey: 'movies' | 'series' | 'artists' | 'authors'; // Key search results list items under
+  mediaType: string; // UI label, e.g. "Movies"
+  mediaTypePlural: string; // Lower-case UI label, e.g. "movies"
+  defaultPort: string;
+  statusKey: string; // Instance config field holding the status filter
+  statuses: readonly [string, ...string[]]; // Allowed status filter values
+}
+
+export const APP_DEFINITIONS = {
+  radarr: {
+    name: 'Radarr',
+    apiVersion: 'v3',
+    mediaTypeKey: 'movies',
+    mediaType: 'Movies',
+    mediaTypePlural: 'movies',
+    defaultPort: '7878',
+    statusKey: 'movieStatus',
+    statuses: ['announced', 'in cinemas', 'released', 'any'],
+  },
+  sonarr: {
+    name: 'Sonarr',
+    apiVersion: 'v3',
+    mediaTypeKey: 'series',
+    mediaType: 'Series',
+    mediaTypePlural: 'series',
+    defaultPort: '8989',
+    statusKey: 'seriesStatus',
+    statuses: ['continuing', 'upcoming', 'ended', ''],
+  },
+  lidarr: {
+    name: 'Lidarr',
+    apiVersion: 'v1',
+    mediaTypeKey: 'artists',
+    mediaType: 'Artists',
+    mediaTypePlural: 'artists',
+    defaultPort: '8686',
+    statusKey: 'artistStatus',
+    statuses: ['continuing', 'ended', ''],
+  },
+  readarr: {
+    name: 'Readarr',
+    apiVersion: 'v1',
+    mediaTypeKey: 'authors',
+    mediaType: 'Authors',
+    mediaTypePlural: 'authors',
+    defaultPort: '8787',
+    statusKey: 'authorStatus',
+    statuses: ['continuing', 'ended', ''],
+  },
+  // Whisparr v3 is built on Radarr, so it shares the movie API and status values
+  whisparr: {
+    name: 'Whisparr',
+    apiVersion: 'v3',
+    mediaTypeKey: 'movies',
+    mediaType: 'Movies',
+    mediaTypePlural: 'movies',
+    defaultPort: '6969',
+    statusKey: 'movieStatus',
+    statuses: ['announced', 'in cinemas', 'released', 'any'],
+  },
+} as const satisfies Record<AppType, AppDefinition>;
+
+/**
+ * Strategies for picking which filtered items an upgrade search covers
+ */
+export const SELECTION_STRATEGIES = ['random', 'oldestSearched', 'lowestScore', 'largestCutoffGap', 'oldestImport'] as const;
+export type SelectionStrategy = typeof SELECTION_STRATEGIES[number];
+
+/**
+ * What a Sonarr upgrade search covers: the whole series, a season or single episodes
+ */
+export const SEARCH_GRANULARITIES = ['series', 'season', 'episode'] as const;
+export type SearchGranularity = typeof SEARCH_GRANULARITIES[number];
+
+/**
+ * What a Lidarr or Readarr upgrade search covers: the whole artist/author or single albums/books
+ */
+export const LIDARR_SEARCH_GRANULARITIES = ['artist', 'album'] as const;
+export type LidarrSearchGranularity = typeof LIDARR_SEARCH_GRANULARITIES[number];
+
+export const READARR_SEARCH_GRANULARITIES = ['author', 'book'] as const;
+export type ReadarrSearchGranularity = typeof READARR_SEARCH_GRANULARITIES[number];
+
+/**
+ * Shortest password the local account accepts
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Sent by the config API in place of a saved secret; saving it back keeps the secret unchanged
+ */
+export const SECRET_PLACEHOLDER = '********';
+
+/**
+ * A secret given by reference rather than value: env:SCOUTARR_VARIABLE_NAME or file:/run/secrets/name
+ */
+export const SECRET_REFERENCE_PATTERN = /^(env|file):(\S+)$/;
+
+/**
+ * Layout version of config.json; bump it together with a new migration in the backend's configMigrations
+ */
+export const CONFIG_VERSION = 1;
+
+/**
+ * Layout version of export archives; older archives stay importable
+ */
+export const EXPORT_FORMAT_VERSION = 1;
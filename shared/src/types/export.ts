@@ -0,0 +1,22 @@
+/**
+ * Export archive types, derived from the Zod schemas that validate archives on import
+ */
+import { z } from 'zod';
+import {
+  historyRowSchema,
+  instanceRowSchema,
+  cfScoreHistoryRowSchema,
+  runRowSchema,
+  upgradeRowSchema,
+  exportTablesSchema,
+  exportArchiveSchema,
+} from '../schemas/export.js';
+
+export type HistoryRow = z.infer<typeof historyRowSchema>;
+export type InstanceRow = z.infer<typeof instanceRowSchema>;
+export type CfScoreHistoryRow = z.infer<typeof cfScoreHistoryRowSchema>;
+export type RunRow = z.infer<typeof runRowSchema>;
+export type UpgradeRow = z.infer<typeof upgradeRowSchema>;
+
+export type ExportTables = z.infer<typeof exportTablesSchema>;
+export type ExportArchive = z.infer<typeof exportArchiveSchema>;
@@ -2,6 +2,7 @@
  * Barrel export for all types
  */
 export * from './config.js';
+export * from './export.js';
 export * from './starr.js';
 export * from './api.js';
 export * from './constants.js';
@@ -1,7 +1,8 @@
 /**
- * Shared types for Starr applications (Radarr, Sonarr, Lidarr, Readarr)
+ * Shared types for Starr applications (Radarr, Sonarr, Lidarr, Readarr, Whisparr)
  */
-import type { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance } from './config.js';
+import type { RadarrInstance, SonarrInstance, LidarrInstance, ReadarrInstance, WhisparrInstance } from './config.js';
+import type { SelectionStrategy } from './constants.js';
 
 export interface StarrQualityProfile {
   id: number;
@@ -21,9 +22,23 @@ export interface BaseStarrInstance {
   count: number | 'max';
   tagName: string;
   ignoreTag: string;
+  includeTags?: string[];
+  includeTagsMode?: 'any' | 'all';
+  excludeTags?: string[];
   monitored: boolean;
   qualityProfileName: string;
+  qualityProfileIds?: number[];
   enabled?: boolean;
+  missingOnly?: boolean;
+  cutoffUnmetOnly?: boolean;
+  minImportAgeDays?: number;
+  minAddedAgeDays?: number;
+  searchCooldownDays?: number;
+  schedule?: string;
+  unattended?: boolean;
+  selectionStrategy?: SelectionStrategy;
+  dailySearchLimit?: number;
+  webhookSecret?: string; // Required on inbound *arr webhooks; webhooks are refused while unset
 }
 
 /**
@@ -33,4 +48,5 @@ export type StarrInstanceConfig =
   | RadarrInstance
   | SonarrInstance
   | LidarrInstance
-  | ReadarrInstance;
+  | ReadarrInstance
+  | WhisparrInstance;